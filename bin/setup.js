@@ -2,20 +2,54 @@
 /**
  * CodeMap Coworking Setup Script
  *
- * Universal setup for BOTH Claude Code AND Windsurf.
+ * Universal setup for Claude Code, Cursor AND Windsurf.
  * Configures hooks for whichever tool(s) are present.
  * Run this in your project root: npx github:sonoragazzi/codemap-main
  */
 
 import fs from 'fs';
 import path from 'path';
-import { fileURLToPath } from 'url';
+import os from 'os';
+import crypto from 'crypto';
+import { fileURLToPath, pathToFileURL } from 'url';
 import { spawn, exec, execSync } from 'child_process';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const CODEMAP_ROOT = path.resolve(__dirname, '..');
 const TARGET_DIR = process.cwd();
-const SERVER_PORT = 5174;
+
+// Port from ~/.codemap/config.json (a project's own file can't set it)
+// The server validates the config - a bad file just falls back here
+function configuredPort() {
+  try {
+    const { port } = JSON.parse(fs.readFileSync(path.join(os.homedir(), '.codemap', 'config.json'), 'utf-8'));
+    if (Number.isInteger(port)) return port;
+  } catch {
+    // Missing or unreadable
+  }
+  return 5174;
+}
+
+const SERVER_PORT = parseInt(process.env.PORT || '', 10) || configuredPort();
+
+// Per-install shared secret - the server requires it on every write endpoint
+// (server/src/auth.ts reads the same file and creates it if setup hasn't)
+const SECRET_FILE = path.join(os.homedir(), '.codemap', 'secret');
+
+function ensureSecret() {
+  try {
+    const existing = fs.readFileSync(SECRET_FILE, 'utf8').trim();
+    if (existing) return existing;
+  } catch {
+    // First run
+  }
+  const secret = crypto.randomBytes(32).toString('hex');
+  fs.mkdirSync(path.dirname(SECRET_FILE), { recursive: true });
+  fs.writeFileSync(SECRET_FILE, secret + '\n', { mode: 0o600 });
+  return secret;
+}
+
+const SECRET = ensureSecret();
 const CLIENT_PORT = 5173;
 
 // Check if dependencies are installed, install if missing
@@ -37,12 +71,35 @@ function ensureDependencies() {
       process.exit(1);
     }
   }
+
+  // Hooks run the compiled hook client - tsx works too, but is slower on every tool call
+  if (!isBuildCurrent(HOOK_CLIENT_BUILT)) {
+    console.log('🔨 Building hook client...\n');
+    try {
+      execSync('npm run build --workspace=server', {
+        cwd: CODEMAP_ROOT,
+        stdio: 'inherit'
+      });
+    } catch (error) {
+      console.error('⚠ Build failed - hooks will compile on the fly:', error.message);
+    }
+  }
 }
 
-// Hook paths (absolute - works for both tools)
-const FILE_HOOK = path.join(CODEMAP_ROOT, 'hooks', 'file-activity-hook.sh');
-const THINKING_HOOK = path.join(CODEMAP_ROOT, 'hooks', 'thinking-hook.sh');
-const GIT_POST_COMMIT_HOOK = path.join(CODEMAP_ROOT, 'hooks', 'git-post-commit.sh');
+// Hook client (server/src/hook-client.ts) - `codemap hook <event>` runs it
+const HOOK_CLIENT_SOURCE = path.join(CODEMAP_ROOT, 'server', 'src', 'hook-client.ts');
+const HOOK_CLIENT_BUILT = path.join(CODEMAP_ROOT, 'server', 'dist', 'hook-client.js');
+
+// Hook command (absolute path, plain node - no bash/jq/curl, works on every platform)
+const HOOK_COMMAND = `node "${path.join(CODEMAP_ROOT, 'bin', 'setup.js')}" hook`;
+
+// Hooks talk to port 5174 unless told otherwise. They read the token from ~/.codemap/secret -
+// on the command line it would show in ps and in hook configs that get committed or shared.
+const HOOK_ARGS = SERVER_PORT === 5174 ? '' : ` --port ${SERVER_PORT}`;
+
+const claudeHook = (event) => `${HOOK_COMMAND} ${event}${HOOK_ARGS}`;
+const cursorHook = (event) => `${HOOK_COMMAND} ${event}${HOOK_ARGS}`;
+const windsurfHook = (event) => `${HOOK_COMMAND} ${event}${HOOK_ARGS}`;
 
 // Claude settings to merge
 const hooksConfig = {
@@ -50,49 +107,73 @@ const hooksConfig = {
     PreToolUse: [
       {
         matcher: "Read",
-        hooks: [{ type: "command", command: `${FILE_HOOK} read-start` }]
+        hooks: [{ type: "command", command: claudeHook('read-start') }]
       },
       {
         matcher: "Edit|Write|MultiEdit",
-        hooks: [{ type: "command", command: `${FILE_HOOK} write-start` }]
+        hooks: [{ type: "command", command: claudeHook('write-start') }]
       },
       {
         matcher: ".*",
-        hooks: [{ type: "command", command: `${THINKING_HOOK} thinking-end` }]
+        hooks: [{ type: "command", command: claudeHook('thinking-end') }]
       }
     ],
     PostToolUse: [
       {
         matcher: "Read",
-        hooks: [{ type: "command", command: `${FILE_HOOK} read-end` }]
+        hooks: [{ type: "command", command: claudeHook('read-end') }]
       },
       {
         matcher: "Edit|Write|MultiEdit",
-        hooks: [{ type: "command", command: `${FILE_HOOK} write-end` }]
+        hooks: [{ type: "command", command: claudeHook('write-end') }]
       },
       {
         matcher: ".*",
-        hooks: [{ type: "command", command: `${THINKING_HOOK} thinking-start` }]
+        hooks: [{ type: "command", command: claudeHook('thinking-start') }]
+      }
+    ],
+    // Tools that failed get no PostToolUse - this ends them, with a failed command's exit code
+    PostToolUseFailure: [
+      {
+        matcher: ".*",
+        hooks: [{ type: "command", command: claudeHook('thinking-start') }]
       }
     ],
     Notification: [
       {
         matcher: ".*",
-        hooks: [{ type: "command", command: `${THINKING_HOOK} thinking-end` }]
+        hooks: [{ type: "command", command: claudeHook('thinking-end') }]
       }
-    ]
+    ],
+    // Session lifecycle - agents arrive, finish turns and leave with the real session
+    SessionStart: [{ hooks: [{ type: "command", command: claudeHook('session-start') }] }],
+    UserPromptSubmit: [{ hooks: [{ type: "command", command: claudeHook('prompt-submit') }] }],
+    Stop: [{ hooks: [{ type: "command", command: claudeHook('agent-stop') }] }],
+    SubagentStop: [{ hooks: [{ type: "command", command: claudeHook('subagent-stop') }] }],
+    PreCompact: [{ hooks: [{ type: "command", command: claudeHook('pre-compact') }] }],
+    SessionEnd: [{ hooks: [{ type: "command", command: claudeHook('session-end') }] }]
   }
 };
 
-// Permissions to add (allows hooks to run without prompting)
-const permissionsConfig = {
-  permissions: {
-    allow: [
-      `Bash(${FILE_HOOK} read:*)`,
-      `Bash(${FILE_HOOK} write:*)`,
-      `Bash(${THINKING_HOOK} thinking-start:*)`,
-      `Bash(${THINKING_HOOK} thinking-end:*)`
-    ]
+// Cursor hooks configuration (.cursor/hooks.json)
+// Cursor payloads carry cursor_version - that is how the hook client tells them from Windsurf's
+const cursorHooksConfig = {
+  version: 1,
+  hooks: {
+    // File operations - only one side of each, the server makes up the other
+    beforeReadFile: [{ command: cursorHook('read-start') }],
+    afterFileEdit: [{ command: cursorHook('write-end') }],
+    // Shell/command operations
+    beforeShellExecution: [{ command: cursorHook('thinking-end') }],
+    afterShellExecution: [{ command: cursorHook('thinking-start') }],
+    // MCP tool operations
+    beforeMCPExecution: [{ command: cursorHook('thinking-end') }],
+    afterMCPExecution: [{ command: cursorHook('thinking-start') }],
+    // Agent thinking (its text becomes the agent's last message)
+    afterAgentThought: [{ command: cursorHook('thinking-start') }],
+    // Turns - a prompt starts one, stop ends it with completed/aborted/error
+    beforeSubmitPrompt: [{ command: cursorHook('prompt-submit') }],
+    stop: [{ command: cursorHook('agent-stop') }]
   }
 };
 
@@ -100,19 +181,20 @@ const permissionsConfig = {
 const windsurfHooksConfig = {
   version: 1,
   hooks: {
-    // File operations
-    beforeReadFile: [{ command: `${FILE_HOOK} read-start` }],
-    afterFileEdit: [{ command: `${FILE_HOOK} write-end` }],
+    // File operations - only one side of each, the server makes up the other
+    beforeReadFile: [{ command: windsurfHook('read-start') }],
+    afterFileEdit: [{ command: windsurfHook('write-end') }],
     // Shell/command operations
-    beforeShellExecution: [{ command: `${THINKING_HOOK} thinking-end` }],
-    afterShellExecution: [{ command: `${THINKING_HOOK} thinking-start` }],
+    beforeShellExecution: [{ command: windsurfHook('thinking-end') }],
+    afterShellExecution: [{ command: windsurfHook('thinking-start') }],
     // MCP tool operations
-    beforeMCPExecution: [{ command: `${THINKING_HOOK} thinking-end` }],
-    afterMCPExecution: [{ command: `${THINKING_HOOK} thinking-start` }],
+    beforeMCPExecution: [{ command: windsurfHook('thinking-end') }],
+    afterMCPExecution: [{ command: windsurfHook('thinking-start') }],
     // Agent thinking
-    afterAgentThought: [{ command: `${THINKING_HOOK} thinking-start` }],
-    // Prompt submission
-    beforeSubmitPrompt: [{ command: `${THINKING_HOOK} thinking-end` }]
+    afterAgentThought: [{ command: windsurfHook('thinking-start') }],
+    // Turns - a prompt starts one, stop ends it with completed/aborted/error
+    beforeSubmitPrompt: [{ command: windsurfHook('prompt-submit') }],
+    stop: [{ command: windsurfHook('agent-stop') }]
   }
 };
 
@@ -141,7 +223,12 @@ function startServer() {
       cwd: CODEMAP_ROOT,
       stdio: 'inherit',
       shell: true,
-      env: { ...process.env, PROJECT_ROOT: TARGET_DIR }
+      env: {
+        ...process.env,
+        PROJECT_ROOT: TARGET_DIR,
+        PORT: String(SERVER_PORT),
+        VITE_SERVER_PORT: String(SERVER_PORT)
+      }
     });
 
     // Wait a bit for server to start, then resolve
@@ -151,6 +238,27 @@ function startServer() {
   });
 }
 
+// Register this project with an already running server (one server serves many projects)
+// Returns the project id, or null if registration failed
+async function registerProject() {
+  try {
+    const res = await fetch(`http://localhost:${SERVER_PORT}/api/projects`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${SECRET}` },
+      body: JSON.stringify({ root: TARGET_DIR })
+    });
+    const data = await res.json();
+    if (!res.ok) {
+      console.error(`⚠ Could not register project: ${data.error}`);
+      return null;
+    }
+    return data.id;
+  } catch (error) {
+    console.error('⚠ Could not register project:', error.message);
+    return null;
+  }
+}
+
 // Main "run" command - does everything automatically
 async function run() {
   console.log('🏢 CodeMap Coworking\n');
@@ -160,9 +268,18 @@ async function run() {
   ensureDependencies();
 
   // Step 1: Setup hooks if not already configured
-  const settingsPath = path.join(TARGET_DIR, '.claude', 'settings.local.json');
-  const needsSetup = !fs.existsSync(settingsPath) ||
-    !fs.readFileSync(settingsPath, 'utf8').includes('file-activity-hook');
+  // (configs from older setups lack hooks added since - the stop hooks among them -
+  // or pass the token on the command line)
+  const configPaths = [
+    path.join(TARGET_DIR, '.claude', 'settings.local.json'),
+    path.join(TARGET_DIR, '.cursor', 'hooks.json'),
+    path.join(TARGET_DIR, '.windsurf', 'hooks.json')
+  ];
+  const needsSetup = configPaths.some(configPath => {
+    if (!fs.existsSync(configPath)) return true;
+    const config = fs.readFileSync(configPath, 'utf8');
+    return !config.includes(' hook agent-stop') || config.includes(' --token ');
+  });
 
   if (needsSetup) {
     console.log('📝 Setting up hooks...');
@@ -178,9 +295,11 @@ async function run() {
 
   if (serverRunning && clientRunning) {
     console.log('✓ Server already running\n');
-    console.log('🌐 Opening http://localhost:5173/coworking\n');
-    openBrowser('http://localhost:5173/coworking');
-    console.log('Start Claude Code or Windsurf in your project to see agents! 🎮');
+    const projectId = await registerProject();
+    const url = `http://localhost:${CLIENT_PORT}/coworking${projectId ? `?project=${encodeURIComponent(projectId)}` : ''}`;
+    console.log(`🌐 Opening ${url}\n`);
+    openBrowser(url);
+    console.log('Start Claude Code, Cursor or Windsurf in your project to see agents! 🎮');
     return;
   }
 
@@ -192,7 +311,7 @@ async function run() {
   console.log('\n🌐 Opening http://localhost:5173/coworking\n');
   setTimeout(() => openBrowser('http://localhost:5173/coworking'), 2000);
 
-  console.log('Start Claude Code or Windsurf in your project to see agents! 🎮\n');
+  console.log('Start Claude Code, Cursor or Windsurf in your project to see agents! 🎮\n');
 }
 
 // Setup Claude Code hooks
@@ -216,19 +335,29 @@ function setupClaudeHooks() {
   // Merge hooks
   settings.hooks = hooksConfig.hooks;
 
-  // Merge permissions
-  if (!settings.permissions) settings.permissions = {};
-  if (!settings.permissions.allow) settings.permissions.allow = [];
-
-  settings.permissions.allow = settings.permissions.allow.filter(
-    p => !p.includes('file-activity-hook') && !p.includes('thinking-hook')
-  );
-  settings.permissions.allow.push(...permissionsConfig.permissions.allow);
+  // Drop the Bash permissions older versions added for the shell hook scripts
+  if (settings.permissions?.allow) {
+    settings.permissions.allow = settings.permissions.allow.filter(
+      p => !p.includes('file-activity-hook') && !p.includes('thinking-hook')
+    );
+  }
 
   fs.writeFileSync(settingsPath, JSON.stringify(settings, null, 2));
   console.log('✓ Configured .claude/settings.local.json (Claude Code)');
 }
 
+// Setup Cursor hooks
+function setupCursorHooks() {
+  const cursorDir = path.join(TARGET_DIR, '.cursor');
+  if (!fs.existsSync(cursorDir)) {
+    fs.mkdirSync(cursorDir, { recursive: true });
+  }
+
+  const hooksPath = path.join(cursorDir, 'hooks.json');
+  fs.writeFileSync(hooksPath, JSON.stringify(cursorHooksConfig, null, 2));
+  console.log('✓ Configured .cursor/hooks.json (Cursor)');
+}
+
 // Setup Windsurf hooks
 function setupWindsurfHooks() {
   const windsurfDir = path.join(TARGET_DIR, '.windsurf');
@@ -256,16 +385,25 @@ function setupGitHook() {
 
   const postCommitPath = path.join(hooksDir, 'post-commit');
 
+  // Backgrounded so a missing server never slows down the commit
+  const GIT_HOOK_COMMAND = `${HOOK_COMMAND} git-commit${HOOK_ARGS} >/dev/null 2>&1 &`;
+
   // Check if post-commit hook already exists
   if (fs.existsSync(postCommitPath)) {
     const existing = fs.readFileSync(postCommitPath, 'utf8');
+    // Older setups passed the token on the command line - rewrite our line without it
+    if (/ hook git-commit.* --token /.test(existing)) {
+      fs.writeFileSync(postCommitPath, existing.replace(/^.* hook git-commit.* --token .*$/m, GIT_HOOK_COMMAND));
+      console.log('✓ Removed the token from the git post-commit hook');
+      return;
+    }
     // Check if our hook is already integrated
-    if (existing.includes('codemap') || existing.includes('git-post-commit.sh')) {
+    if (existing.includes('hook git-commit') || existing.includes('git-post-commit.sh')) {
       console.log('✓ Git post-commit hook already configured');
       return;
     }
     // Append to existing hook
-    const updated = existing + `\n\n# CodeMap Hotel - refresh layout on commit\n${GIT_POST_COMMIT_HOOK}\n`;
+    const updated = existing + `\n\n# CodeMap Hotel - refresh layout on commit\n${GIT_HOOK_COMMAND}\n`;
     fs.writeFileSync(postCommitPath, updated);
     console.log('✓ Added CodeMap to existing git post-commit hook');
   } else {
@@ -275,7 +413,7 @@ function setupGitHook() {
 # Auto-generated by CodeMap Hotel setup
 
 # CodeMap Hotel - refresh layout on commit
-${GIT_POST_COMMIT_HOOK}
+${GIT_HOOK_COMMAND}
 `;
     fs.writeFileSync(postCommitPath, hookContent);
     fs.chmodSync(postCommitPath, '755');
@@ -288,20 +426,12 @@ function setupHooks() {
   // Always setup Claude Code (it's our primary target)
   setupClaudeHooks();
 
-  // Also setup Windsurf (universal support)
+  // Also setup Cursor and Windsurf (universal support)
+  setupCursorHooks();
   setupWindsurfHooks();
 
   // Setup git hook for layout refresh on commits
   setupGitHook();
-
-  // Make hooks executable
-  try {
-    fs.chmodSync(FILE_HOOK, '755');
-    fs.chmodSync(THINKING_HOOK, '755');
-    fs.chmodSync(GIT_POST_COMMIT_HOOK, '755');
-  } catch (e) {
-    // Ignore chmod errors
-  }
 }
 
 function setup() {
@@ -319,10 +449,76 @@ function setup() {
   console.log('  codemap-coworking\n');
 }
 
+// Newest change to any server source - a module's imports count as much as the module itself
+function newestServerSource(dir = path.join(CODEMAP_ROOT, 'server', 'src')) {
+  let newest = 0;
+  if (!fs.existsSync(dir)) return newest;
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      newest = Math.max(newest, newestServerSource(entryPath));
+    } else if (entry.name.endsWith('.ts') && !entry.name.endsWith('.test.ts')) {
+      newest = Math.max(newest, fs.statSync(entryPath).mtimeMs);
+    }
+  }
+  return newest;
+}
+
+// tsc rewrites every output on each build, so one built file is as old as the whole build
+function isBuildCurrent(built) {
+  return fs.existsSync(built) && fs.statSync(built).mtimeMs >= newestServerSource();
+}
+
+// Load a server module - the build when it's current, otherwise the TypeScript source through tsx
+async function loadServerModule(source, built) {
+  if (isBuildCurrent(built)) {
+    return import(pathToFileURL(built).href);
+  }
+  const { tsImport } = await import('tsx/esm/api');
+  return tsImport(pathToFileURL(source).href, import.meta.url);
+}
+
+const loadHookClient = () => loadServerModule(HOOK_CLIENT_SOURCE, HOOK_CLIENT_BUILT);
+
+// "hook" command - called by Claude Code, Cursor, Windsurf and git with the event payload on stdin
+// Never fails: a broken hook must not block the agent
+async function hook(args) {
+  try {
+    const { runHook } = await loadHookClient();
+    await runHook(args);
+  } catch (error) {
+    try {
+      fs.appendFileSync(path.join(os.tmpdir(), 'codemap-hook.log'), `${new Date().toString()}: ERROR ${error.message}\n`);
+    } catch {
+      // Nowhere left to report it
+    }
+  }
+  process.exit(0);
+}
+
+// "import" command - turn past session transcripts into sessions the client can replay
+// (server/src/session-import.ts)
+async function importSessions(args) {
+  try {
+    const { runImport } = await loadServerModule(
+      path.join(CODEMAP_ROOT, 'server', 'src', 'session-import.ts'),
+      path.join(CODEMAP_ROOT, 'server', 'dist', 'session-import.js')
+    );
+    process.exitCode = runImport(args, TARGET_DIR);
+  } catch (error) {
+    console.error('❌ Import failed:', error.message);
+    process.exitCode = 1;
+  }
+}
+
 // CLI
 const command = process.argv[2];
 
-if (command === 'setup') {
+if (command === 'hook') {
+  hook(process.argv.slice(3));
+} else if (command === 'import') {
+  importSessions(process.argv.slice(3));
+} else if (command === 'setup') {
   setup();
 } else if (command === 'start') {
   // Legacy start command
@@ -335,5 +531,7 @@ if (command === 'setup') {
   console.log('Usage:');
   console.log('  codemap-coworking         - Setup hooks, start server, open browser');
   console.log('  codemap-coworking setup   - Only configure hooks for current project');
+  console.log('  codemap import [dir]      - Import past Claude Code sessions (default: this project\'s transcripts) for replay');
+  console.log('  codemap hook <event>      - Report an agent event (payload on stdin) - used by the hooks');
   console.log('');
 }
@@ -1,11 +1,16 @@
 // Main App component - CodeMap visualization application
 // Provides two views: Tree (force graph) and Coworking (isometric room)
-import { useState } from 'react';
-import { BrowserRouter, Routes, Route, Link } from 'react-router-dom';
+// The ?project= query param picks which project a view shows
+import { useState, useEffect } from 'react';
+import { BrowserRouter, Routes, Route, Link, useSearchParams } from 'react-router-dom';
 import { FileGraph } from './components/FileGraph';
 import { ActivityLegend } from './components/ActivityLegend';
 import { HabboRoom } from './components/HabboRoom';
 import { getMuted, setMuted } from './sounds';
+import { API_URL } from './api';
+import { ProjectInfo } from './types';
+
+const PROJECTS_POLL_MS = 5000;
 
 // Mute button component
 function MuteButton() {
@@ -32,8 +37,58 @@ function MuteButton() {
   );
 }
 
+// Project switcher - only shown when the server has more than one project
+function ProjectSwitcher() {
+  const [projects, setProjects] = useState<ProjectInfo[]>([]);
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  useEffect(() => {
+    const fetchProjects = () => {
+      fetch(`${API_URL}/projects`)
+        .then(res => res.json())
+        .then((data: ProjectInfo[]) => setProjects(data))
+        .catch(() => {});
+    };
+    fetchProjects();
+    const interval = setInterval(fetchProjects, PROJECTS_POLL_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  if (projects.length < 2) return null;
+
+  const current = searchParams.get('project') || projects.find(p => p.isDefault)?.id || '';
+
+  const select = (id: string) => {
+    const isDefault = projects.find(p => p.id === id)?.isDefault;
+    setSearchParams(isDefault ? {} : { project: id });
+  };
+
+  return (
+    <select
+      value={current}
+      onChange={e => select(e.target.value)}
+      style={{ ...navLinkStyle, cursor: 'pointer' }}
+      title="Switch project"
+    >
+      {projects.map(p => (
+        <option key={p.id} value={p.id} title={p.root}>
+          {p.name}{p.agents > 0 ? ` (${p.agents})` : ''}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+// Selected project from the URL (null = server default)
+function useProjectParam(): string | null {
+  const [searchParams] = useSearchParams();
+  return searchParams.get('project');
+}
+
 // TreeView - Shows files as a force-directed graph
 function TreeView() {
+  const project = useProjectParam();
+
   return (
     <div style={{
       width: '100vw',
@@ -42,7 +97,7 @@ function TreeView() {
       overflow: 'hidden',
       position: 'relative'
     }}>
-      <FileGraph />
+      <FileGraph key={project ?? ''} projectId={project} />
       <ActivityLegend />
       <NavLinks />
     </div>
@@ -51,6 +106,10 @@ function TreeView() {
 
 // NavLinks - Navigation buttons to switch between Tree and Coworking views
 function NavLinks() {
+  const [searchParams] = useSearchParams();
+  const project = searchParams.get('project');
+  const query = project ? `?project=${encodeURIComponent(project)}` : '';
+
   return (
     <div style={{
       position: 'absolute',
@@ -60,8 +119,9 @@ function NavLinks() {
       display: 'flex',
       gap: 8
     }}>
-      <Link to="/" style={navLinkStyle}>Tree</Link>
-      <Link to="/coworking" style={navLinkStyle}>Coworking</Link>
+      <ProjectSwitcher />
+      <Link to={`/${query}`} style={navLinkStyle}>Tree</Link>
+      <Link to={`/coworking${query}`} style={navLinkStyle}>Coworking</Link>
       <MuteButton />
     </div>
   );
@@ -81,21 +141,13 @@ const navLinkStyle: React.CSSProperties = {
 
 // CoworkingView - Shows files as desks in an isometric coworking space with animated agents
 function CoworkingView() {
+  const project = useProjectParam();
+
   return (
     <>
-      <HabboRoom />
-      <div style={{
-        position: 'absolute',
-        top: 16,
-        right: 16,
-        zIndex: 20,
-        display: 'flex',
-        gap: 8
-      }}>
-        <Link to="/" style={navLinkStyle}>Tree</Link>
-        <Link to="/coworking" style={navLinkStyle}>Coworking</Link>
-        <MuteButton />
-      </div>
+      {/* Keyed so switching projects starts from a fresh scene */}
+      <HabboRoom key={project ?? ''} projectId={project} />
+      <NavLinks />
     </>
   );
 }
@@ -0,0 +1,15 @@
+// CodeMap server location
+// The port follows the server's PORT when the client is started with VITE_SERVER_PORT
+const SERVER_PORT = import.meta.env.VITE_SERVER_PORT || '5174';
+
+export const API_URL = `http://localhost:${SERVER_PORT}/api`;
+export const WS_URL = `ws://localhost:${SERVER_PORT}/ws`;
+
+// Scope a server URL to a project (the server uses its default project without one)
+export function withProject(url: string, projectId?: string | null): string {
+  if (!projectId) return url;
+  return `${url}${url.includes('?') ? '&' : '?'}project=${encodeURIComponent(projectId)}`;
+}
+
+// WebSocket message protocol - must match the server's, announced in its 'hello'
+export const PROTOCOL_VERSION = 1;
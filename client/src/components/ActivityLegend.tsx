@@ -43,6 +43,7 @@ export function ActivityLegend() {
       </h4>
       <LegendItem color="#3b82f6" label="Read" />
       <LegendItem color="#f59e0b" label="Write" />
+      <LegendItem color="#a855f7" label="Search" />
       <LegendItem color="#4b5563" label="Folder" />
       <LegendItem color="#9ca3af" label="File" />
     </div>
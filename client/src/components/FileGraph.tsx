@@ -1,31 +1,44 @@
 import { useEffect, useRef, useState } from 'react';
 import { useFileActivity } from '../hooks/useFileActivity';
-import { GraphNode } from '../types';
+import { GraphNode, Topic } from '../types';
+import { attributionLines, createFileHistoryCache } from '../utils/file-history';
+import { drawTooltip } from '../drawing/tooltip';
 
 const READ_COLOR = '#3b82f6';   // Blue
 const WRITE_COLOR = '#f59e0b';  // Amber
+const SEARCH_COLOR = '#a855f7'; // Purple
 const FOLDER_COLOR = '#4b5563'; // Darker gray for folders
 const FILE_COLOR = '#9ca3af';   // Lighter gray for files
 const FADE_DURATION = 1000;     // 1 second fade out
+const TOPICS: Topic[] = ['graph', 'activity'];  // Agents and layout aren't drawn here
 
 interface LayoutNode extends GraphNode {
   x: number;
   y: number;
 }
 
+type Operation = 'read' | 'write' | 'search';
+
 interface FadingNode {
-  type: 'read' | 'write';
+  type: Operation;
   startTime: number;
 }
 
-export function FileGraph() {
+const operationColor = (operation: Operation | null | undefined) =>
+  operation === 'write' ? WRITE_COLOR : operation === 'search' ? SEARCH_COLOR : READ_COLOR;
+
+interface FileGraphProps {
+  projectId?: string | null;  // Project to show (server default when omitted)
+}
+
+export function FileGraph({ projectId }: FileGraphProps) {
   // All data comes via refs - NO STATE, NO RE-RENDERS
   const {
     graphDataRef,
     recentActivityRef,
     activityVersionRef,
     clearGraph
-  } = useFileActivity();
+  } = useFileActivity(projectId, TOPICS);
 
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const fadingNodesRef = useRef<Map<string, FadingNode>>(new Map());
@@ -33,6 +46,8 @@ export function FileGraph() {
   const layoutNodesRef = useRef<LayoutNode[]>([]);
   const lastActivityVersionRef = useRef(0);
   const lastNodeCountRef = useRef(0);
+  // Pointer position (CSS pixels) - the hovered file's history shows in a tooltip
+  const pointerRef = useRef<{ x: number; y: number } | null>(null);
 
   // Simple state for UI status display - updates periodically
   const [fileCount, setFileCount] = useState(0);
@@ -58,6 +73,19 @@ export function FileGraph() {
 
     let isAnimating = true;
 
+    // Who worked on the hovered file
+    const fileHistory = createFileHistoryCache(projectId);
+
+    const handleMouseMove = (e: MouseEvent) => {
+      const rect = canvas.getBoundingClientRect();
+      pointerRef.current = { x: e.clientX - rect.left, y: e.clientY - rect.top };
+    };
+    const handleMouseLeave = () => {
+      pointerRef.current = null;
+    };
+    canvas.addEventListener('mousemove', handleMouseMove);
+    canvas.addEventListener('mouseleave', handleMouseLeave);
+
     const draw = () => {
       if (!isAnimating) return;
 
@@ -77,20 +105,23 @@ export function FileGraph() {
         lastActivityVersionRef.current = activityVersionRef.current;
         const recentActivity = recentActivityRef.current;
 
-        if (recentActivity && (recentActivity.type === 'read-end' || recentActivity.type === 'write-end')) {
-          const opType = recentActivity.type === 'read-end' ? 'read' : 'write';
-          const filePath = recentActivity.filePath;
-
-          // Add file to fading
-          fadingNodesRef.current.set(filePath, { type: opType, startTime: now });
-
-          // Also fade ancestor folders
-          let parentPath = filePath.substring(0, filePath.lastIndexOf('/'));
-          while (parentPath.length > 0) {
-            fadingNodesRef.current.set(parentPath, { type: opType, startTime: now });
-            const lastSlash = parentPath.lastIndexOf('/');
-            if (lastSlash <= 0) break;
-            parentPath = parentPath.substring(0, lastSlash);
+        if (recentActivity && recentActivity.type.endsWith('-end')) {
+          const opType: Operation = recentActivity.type === 'read-end' ? 'read' : recentActivity.type === 'write-end' ? 'write' : 'search';
+          // A search fades the files it found (the server resolves them)
+          const filePaths = opType === 'search' ? recentActivity.matchedFiles ?? [] : [recentActivity.filePath];
+
+          for (const filePath of filePaths) {
+            // Add file to fading
+            fadingNodesRef.current.set(filePath, { type: opType, startTime: now });
+
+            // Also fade ancestor folders
+            let parentPath = filePath.substring(0, filePath.lastIndexOf('/'));
+            while (parentPath.length > 0) {
+              fadingNodesRef.current.set(parentPath, { type: opType, startTime: now });
+              const lastSlash = parentPath.lastIndexOf('/');
+              if (lastSlash <= 0) break;
+              parentPath = parentPath.substring(0, lastSlash);
+            }
           }
         }
       }
@@ -150,7 +181,7 @@ export function FileGraph() {
         return Math.max(0, 1 - elapsed / FADE_DURATION);
       };
 
-      const getFadeType = (nodeId: string): 'read' | 'write' | null => {
+      const getFadeType = (nodeId: string): Operation | null => {
         const fade = fadingNodesRef.current.get(nodeId);
         return fade ? fade.type : null;
       };
@@ -171,7 +202,7 @@ export function FileGraph() {
 
           if (sourceActive && targetActive) {
             // This link is on the active path - highlight it
-            const activeColor = sourceActive === 'write' ? WRITE_COLOR : READ_COLOR;
+            const activeColor = operationColor(sourceActive);
 
             // Glow effect for the link
             ctx.beginPath();
@@ -195,7 +226,7 @@ export function FileGraph() {
           } else if (sourceFadeOpacity > 0 && targetFadeOpacity > 0) {
             // Fading link
             const fadeType = getFadeType(sourceNode.id);
-            const fadeColor = fadeType === 'write' ? WRITE_COLOR : READ_COLOR;
+            const fadeColor = operationColor(fadeType);
             const fadeOpacity = Math.min(sourceFadeOpacity, targetFadeOpacity);
 
             // Glow effect fading
@@ -232,9 +263,14 @@ export function FileGraph() {
       }
 
       // Draw nodes
+      const pointer = pointerRef.current;
+      let hovered: { node: LayoutNode; x: number; y: number } | null = null;
       for (const node of layoutNodes) {
         const pos = transform(node.x, node.y);
         const size = node.isFolder ? 12 : 10;
+        if (pointer && !node.isFolder && Math.hypot(pointer.x - pos.x, pointer.y - pos.y) <= size + 4) {
+          hovered = { node, ...pointer };
+        }
         const activeOp = node.activeOperation;
         const fadeOpacity = getFadeOpacity(node.id);
         const fadeType = getFadeType(node.id);
@@ -242,7 +278,7 @@ export function FileGraph() {
         // Active or fading glow effect
         if (activeOp || fadeOpacity > 0) {
           const glowType = activeOp || fadeType;
-          const activeColor = glowType === 'write' ? WRITE_COLOR : READ_COLOR;
+          const activeColor = operationColor(glowType);
           const opacity = activeOp ? 1 : fadeOpacity;
 
           // Outer glow
@@ -267,11 +303,11 @@ export function FileGraph() {
         ctx.arc(pos.x, pos.y, size, 0, Math.PI * 2);
 
         if (activeOp) {
-          ctx.fillStyle = activeOp === 'write' ? WRITE_COLOR : READ_COLOR;
+          ctx.fillStyle = operationColor(activeOp);
         } else if (fadeOpacity > 0) {
           // Interpolate between active color and base color
           const baseColor = node.isFolder ? FOLDER_COLOR : FILE_COLOR;
-          const activeColor = fadeType === 'write' ? WRITE_COLOR : READ_COLOR;
+          const activeColor = operationColor(fadeType);
           ctx.fillStyle = interpolateColor(activeColor, baseColor, 1 - fadeOpacity);
         } else {
           ctx.fillStyle = node.isFolder ? FOLDER_COLOR : FILE_COLOR;
@@ -280,10 +316,10 @@ export function FileGraph() {
 
         // Border
         if (activeOp) {
-          ctx.strokeStyle = activeOp === 'write' ? WRITE_COLOR : READ_COLOR;
+          ctx.strokeStyle = operationColor(activeOp);
           ctx.lineWidth = 2;
         } else if (fadeOpacity > 0) {
-          const activeColor = fadeType === 'write' ? WRITE_COLOR : READ_COLOR;
+          const activeColor = operationColor(fadeType);
           ctx.strokeStyle = interpolateColor(activeColor, 'rgba(255,255,255,0.2)', 1 - fadeOpacity);
           ctx.lineWidth = 1 + fadeOpacity;
         } else {
@@ -300,6 +336,15 @@ export function FileGraph() {
         ctx.fillText(node.name, pos.x, pos.y + size + 14, 100);
       }
 
+      // Attribution of the hovered file
+      if (hovered) {
+        const history = fileHistory.get(hovered.node.id);
+        const lines = history ? attributionLines(history, Date.now())
+          : history === null ? [hovered.node.id, 'No activity recorded']
+          : [hovered.node.id];
+        drawTooltip(ctx, lines, hovered.x, hovered.y);
+      }
+
       // Continue animation loop
       animationRef.current = requestAnimationFrame(draw);
     };
@@ -309,6 +354,8 @@ export function FileGraph() {
 
     return () => {
       isAnimating = false;
+      canvas.removeEventListener('mousemove', handleMouseMove);
+      canvas.removeEventListener('mouseleave', handleMouseLeave);
       if (animationRef.current) {
         cancelAnimationFrame(animationRef.current);
       }
@@ -1,27 +1,30 @@
 import { useEffect, useRef } from 'react';
 import { useFileActivity } from '../hooks/useFileActivity';
-import { GraphNode, FolderScore } from '../types';
+import { API_URL, withProject } from '../api';
+import { ReplayTimeline } from './ReplayTimeline';
+import { GraphNode, FolderScore, FloorConfig, CommandRun } from '../types';
 import { playReadSound, playWriteSound, playWaitingSound, initAudio } from '../sounds';
 import { findMatchingFileId } from '../utils/screen-flash';
-
-const API_URL = 'http://localhost:5174/api';
+import { roomAt } from '../utils/terminal';
+import { attributionLines, createFileHistoryCache, deskAt } from '../utils/file-history';
 
 // Multi-floor layout - symmetric diamond shape
 // Expands in middle, tapers at top and bottom for balanced look
 // Floor widths calculated so each floor fills same total width
-const FLOOR_CONFIG = [
+// Used until the server's config arrives (floors in codemap.config.json)
+const DEFAULT_FLOOR_CONFIG: FloorConfig[] = [
   { rooms: 2, filesPerRoom: 8, roomWidth: 23, roomHeight: 14 },  // Ground floor - 2 big rooms (fill width)
   { rooms: 4, filesPerRoom: 2, roomWidth: 11, roomHeight: 10 },  // Floor 1 - 4 medium rooms
   { rooms: 4, filesPerRoom: 1, roomWidth: 11, roomHeight: 8 },   // Floor 2 - 4 small rooms
   { rooms: 2, filesPerRoom: 1, roomWidth: 23, roomHeight: 8 },   // Floor 3 (top) - 2 small rooms (fill width)
 ];
-const MAX_FLOORS = FLOOR_CONFIG.length;
 const FLOOR_GAP = 1;
 import {
   TILE_SIZE,
   RoomLayout,
   FileLayout,
   AgentCharacter,
+  SourceDisplay,
   ScreenFlash,
   seededRandom,
   getFloorStyle,
@@ -37,13 +40,21 @@ import {
   drawFloorVents,
   drawScatter,
   drawRoomSign,
+  drawSpendBoard,
   drawRoomThemedDecorations,
   drawOutdoor,
   drawAgentCharacter,
   drawCoffeeShop,
+  drawTerminal,
+  drawCommandHistory,
+  drawTooltip,
 } from '../drawing';
 
-export function HabboRoom() {
+interface HabboRoomProps {
+  projectId?: string | null;  // Project to show (server default when omitted)
+}
+
+export function HabboRoom({ projectId }: HabboRoomProps) {
   // All data comes via refs - NO STATE, NO RE-RENDERS
   const {
     graphDataRef,
@@ -52,8 +63,15 @@ export function HabboRoom() {
     activityVersionRef,
     thinkingVersionRef,
     layoutVersionRef,
-    connectionStatusRef
-  } = useFileActivity();
+    connectionStatusRef,
+    replayStatusRef,
+    sceneVersionRef,
+    configRef,
+    configVersionRef,
+    usageRef,
+    startReplay,
+    controlReplay
+  } = useFileActivity(projectId);
 
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const agentCharactersRef = useRef<Map<string, AgentCharacter>>(new Map());
@@ -70,8 +88,14 @@ export function HabboRoom() {
   const lastActivityVersionRef = useRef(0);
   const lastThinkingVersionRef = useRef(0);
   const lastLayoutVersionRef = useRef(0);
+  const lastSceneVersionRef = useRef(0);
+  const lastConfigVersionRef = useRef(0);
   const hotFoldersRef = useRef<FolderScore[]>([]);
-  const prevAgentCommandsRef = useRef<Map<string, string | undefined>>(new Map());
+  const sourcesRef = useRef<Record<string, SourceDisplay>>({});
+  const lastCommandStartRef = useRef<Map<string, number>>(new Map());  // agentId -> startedAt of its latest command
+
+  // Terminal stations - the last shell command run in each room
+  const terminalsRef = useRef<Map<string, { agentId: string; run: CommandRun }>>(new Map());  // roomName -> command
 
   // Agent trails - stores recent footprint positions
   const agentTrailsRef = useRef<Array<{
@@ -99,6 +123,9 @@ export function HabboRoom() {
   const trackingZoom = 3; // Zoom level when tracking
   const baseOffsetsRef = useRef({ x: 0, y: 0 }); // Store base offsets for coordinate conversion
 
+  // Desk under the pointer - its file's history shows in a tooltip
+  const hoveredDeskRef = useRef<{ fileId: string; screenX: number; screenY: number } | null>(null);
+
   // Build multi-floor layout from hot folders (pyramid structure)
   const buildLayout = (nodes: GraphNode[]): RoomLayout | null => {
     const hotFolders = hotFoldersRef.current;
@@ -107,8 +134,11 @@ export function HabboRoom() {
     const root = nodes.find(n => n.depth === -1);
     const rootName = root?.name || 'Project';
 
+    const floorConfig = configRef.current?.floors ?? DEFAULT_FLOOR_CONFIG;
+    const floorThemes = configRef.current?.floorThemes;
+
     // Calculate total rooms needed
-    const totalRooms = FLOOR_CONFIG.reduce((sum, cfg) => sum + cfg.rooms, 0);
+    const totalRooms = floorConfig.reduce((sum, cfg) => sum + cfg.rooms, 0);
     const foldersToShow = hotFolders.length > 0
       ? hotFolders.slice(0, totalRooms)
       : nodes.filter(n => n.isFolder && n.depth === 0).slice(0, totalRooms);
@@ -117,19 +147,19 @@ export function HabboRoom() {
     let folderIndex = 0;
 
     // Calculate max width (widest floor)
-    const maxFloorWidth = Math.max(...FLOOR_CONFIG.map(cfg => cfg.rooms * (cfg.roomWidth + 1) - 1));
+    const maxFloorWidth = Math.max(...floorConfig.map(cfg => cfg.rooms * (cfg.roomWidth + 1) - 1));
 
     // Calculate floor Y positions (bottom to top)
     const floorYPositions: number[] = [];
     let currentY = 1;
-    for (let f = MAX_FLOORS - 1; f >= 0; f--) {
+    for (let f = floorConfig.length - 1; f >= 0; f--) {
       floorYPositions[f] = currentY;
-      currentY += FLOOR_CONFIG[f].roomHeight + FLOOR_GAP;
+      currentY += floorConfig[f].roomHeight + FLOOR_GAP;
     }
 
     // Create rooms for each floor
-    for (let floorNum = 0; floorNum < MAX_FLOORS && folderIndex < foldersToShow.length; floorNum++) {
-      const config = FLOOR_CONFIG[floorNum];
+    for (let floorNum = 0; floorNum < floorConfig.length && folderIndex < foldersToShow.length; floorNum++) {
+      const config = floorConfig[floorNum];
       const floorWidth = config.rooms * (config.roomWidth + 1) - 1;
       const floorStartX = 1 + Math.floor((maxFloorWidth - floorWidth) / 2); // Center the floor
 
@@ -145,7 +175,7 @@ export function HabboRoom() {
           : (folder as GraphNode).name;
         const folderId = 'folder' in folder ? (folder as FolderScore).folder : (folder as GraphNode).id;
 
-        const floorStyle = getFloorStyle(folderName, floorNum);
+        const floorStyle = getFloorStyle(folderName, floorNum, floorThemes);
         const recentFiles = 'recentFiles' in folder ? (folder as FolderScore).recentFiles : [];
         const score = 'score' in folder ? (folder as FolderScore).score : 0;
 
@@ -338,6 +368,7 @@ export function HabboRoom() {
       drawDesk(ctx, file, now, frame, screenFlashesRef.current);
       drawLabel(ctx, file);
     });
+    drawTerminal(ctx, room, terminalsRef.current.get(room.name)?.run, Date.now(), frame);
 
     // Room activity pulse - glow effect for recently active rooms
     const lastActivity = roomActivityRef.current.get(room.name);
@@ -388,7 +419,8 @@ export function HabboRoom() {
 
     // Fetch hot folders - includes git history + live activity
     const fetchHotFolders = () => {
-      fetch(`${API_URL}/hot-folders?limit=${FLOOR_CONFIG.reduce((sum, cfg) => sum + cfg.rooms, 0)}`)
+      const floorConfig = configRef.current?.floors ?? DEFAULT_FLOOR_CONFIG;
+      fetch(withProject(`${API_URL}/hot-folders?limit=${floorConfig.reduce((sum, cfg) => sum + cfg.rooms, 0)}`, projectId))
         .then(res => res.json())
         .then((data: FolderScore[]) => {
           // Check if data actually changed to avoid unnecessary rebuilds
@@ -406,9 +438,18 @@ export function HabboRoom() {
     // Fetch on mount
     fetchHotFolders();
 
+    // How each source's agents are shown - fixed while the server runs
+    fetch(`${API_URL}/sources`)
+      .then(res => res.json())
+      .then((data: Record<string, SourceDisplay>) => { sourcesRef.current = data; })
+      .catch(err => console.error('Failed to fetch sources:', err));
+
     // Refresh every 5 seconds to pick up live file activity
     const hotFoldersInterval = setInterval(fetchHotFolders, 5000);
 
+    // Who worked on the hovered desk's file
+    const fileHistory = createFileHistoryCache(projectId);
+
     let running = true;
     let frame = 0;
 
@@ -448,6 +489,28 @@ export function HabboRoom() {
         fetchHotFolders();
       }
 
+      // === CHECK FOR CONFIG CHANGE (floors, room themes, git depth) ===
+      if (configVersionRef.current !== lastConfigVersionRef.current) {
+        lastConfigVersionRef.current = configVersionRef.current;
+        layoutRef.current = null;  // Force layout rebuild
+        layoutInitializedRef.current = false;
+        fetchHotFolders();
+      }
+
+      // === RESET SCENE (replay started, seeked or stopped) ===
+      if (sceneVersionRef.current !== lastSceneVersionRef.current) {
+        lastSceneVersionRef.current = sceneVersionRef.current;
+        agentCharactersRef.current.clear();
+        screenFlashesRef.current.clear();
+        lastActivityByAgentRef.current.clear();
+        lastCommandStartRef.current.clear();
+        terminalsRef.current.clear();
+        lastTrailPosRef.current.clear();
+        roomActivityRef.current.clear();
+        agentTrailsRef.current = [];
+        trackedAgentIdRef.current = null;
+      }
+
       // === SYNC AGENTS (replaces useEffect) ===
       if (thinkingVersionRef.current !== lastThinkingVersionRef.current) {
         lastThinkingVersionRef.current = thinkingVersionRef.current;
@@ -488,8 +551,17 @@ export function HabboRoom() {
             existing.lastDuration = agent.lastDuration;
             existing.status = agent.status;
             existing.statusTimestamp = agent.statusTimestamp;
+            existing.contextUsage = agent.contextUsage;
+            existing.lastMessage = agent.lastMessage;
+            existing.commands = agent.commands;
+            if ((agent.compactions ?? 0) > (existing.compactions ?? 0)) {
+              existing.compactionStart = Date.now();
+            }
+            existing.compactions = agent.compactions;
+            existing.cost = agent.cost;
             // Multi-agent fields
             existing.source = agent.source;
+            existing.sourceDisplay = agent.source ? sourcesRef.current[agent.source] : undefined;
             existing.agentName = agent.agentName;
             existing.agentRole = agent.agentRole;
             existing.parentAgentId = agent.parentAgentId;
@@ -559,8 +631,14 @@ export function HabboRoom() {
               lastDuration: agent.lastDuration,
               status: agent.status,
               statusTimestamp: agent.statusTimestamp,
+              contextUsage: agent.contextUsage,
+              compactions: agent.compactions,
+              cost: agent.cost,
+              lastMessage: agent.lastMessage,
+              commands: agent.commands,
               // Multi-agent fields
               source: agent.source,
+              sourceDisplay: agent.source ? sourcesRef.current[agent.source] : undefined,
               agentName: agent.agentName,
               agentRole: agent.agentRole,
               parentAgentId: agent.parentAgentId,
@@ -578,32 +656,40 @@ export function HabboRoom() {
           }
         }
 
-        // Remove agents only after grace period (30 seconds of not being seen)
-        // This prevents flicker from brief network issues or timing gaps
-        const AGENT_GRACE_PERIOD_MS = 30000;
+        // The server's list is complete (and survives reconnects) - an agent missing from it
+        // ended its session, timed out or was dismissed, so it leaves right away
+        const listedIds = new Set(validAgents.map(a => a.agentId));
         for (const [id, agent] of agents) {
-          if (now - agent.lastSeen > AGENT_GRACE_PERIOD_MS) {
-            console.log(`Removing agent ${agent.displayName} after ${AGENT_GRACE_PERIOD_MS / 1000}s grace period`);
+          if (!listedIds.has(id)) {
+            console.log(`Agent ${agent.displayName} left`);
             agents.delete(id);
           }
         }
 
-        // Detect Bash command starts and flash all screens white
+        // Shell commands: a new one takes over the terminal of the room its agent stands in
+        // and flashes that room's screens, and the terminals follow their command to its exit code
         for (const agent of validAgents) {
-          const prevCommand = prevAgentCommandsRef.current.get(agent.agentId);
-          const currCommand = agent.currentCommand;
-
-          // If command just changed TO Bash, flash all screens
-          if (currCommand === 'Bash' && prevCommand !== 'Bash' && agent.isThinking) {
-            for (const fileId of filePositionsRef.current.keys()) {
-              screenFlashesRef.current.set(fileId, {
-                type: 'bash',
-                startTime: now
-              });
-            }
+          const commands = agent.commands ?? [];
+          for (const terminal of terminalsRef.current.values()) {
+            if (terminal.agentId !== agent.agentId) continue;
+            terminal.run = commands.find(run => run.startedAt === terminal.run.startedAt) ?? terminal.run;
           }
 
-          prevAgentCommandsRef.current.set(agent.agentId, currCommand);
+          const latest = commands.at(-1);
+          const char = agents.get(agent.agentId);
+          if (!latest || latest.startedAt === lastCommandStartRef.current.get(agent.agentId)) continue;
+          lastCommandStartRef.current.set(agent.agentId, latest.startedAt);
+
+          const layout = layoutRef.current;
+          const room = layout && char ? roomAt(layout, Math.floor(char.x / TILE_SIZE), Math.floor(char.y / TILE_SIZE)) : undefined;
+          if (!room) continue;
+          terminalsRef.current.set(room.name, { agentId: agent.agentId, run: latest });
+          for (const file of room.files) {
+            screenFlashesRef.current.set(file.id, {
+              type: 'bash',
+              startTime: now
+            });
+          }
         }
       }
 
@@ -637,53 +723,15 @@ export function HabboRoom() {
             playWriteSound();
           }
 
-          // Handle search flashes - pattern format is "searchPath:pattern"
+          // Handle search flashes - the server resolves a search to the files it found
           if (recentActivity.type === 'search-end') {
-            const colonIndex = recentActivity.filePath.indexOf(':');
-            if (colonIndex > 0) {
-              const searchPath = recentActivity.filePath.slice(0, colonIndex);
-              const pattern = recentActivity.filePath.slice(colonIndex + 1);
-
-              // Determine if this is a glob pattern (filename match) or content search
-              const isGlobPattern = pattern.includes('*') || pattern.includes('?');
-
-              // Flash all files in the search path
-              for (const fileId of filePositionsRef.current.keys()) {
-                // Check if file is in the search path
-                const normalizedSearchPath = searchPath.replace(/^\.\//, '');
-                const inSearchPath = searchPath === '.' ||
-                                     searchPath === '' ||
-                                     normalizedSearchPath === '' ||
-                                     fileId.startsWith(normalizedSearchPath + '/') ||
-                                     fileId.startsWith(normalizedSearchPath);
-
-                if (inSearchPath) {
-                  // For glob patterns, also check if filename matches
-                  if (isGlobPattern) {
-                    try {
-                      const regexPattern = pattern
-                        .replace(/\*\*/g, '.*')
-                        .replace(/\*/g, '[^/]*')
-                        .replace(/\?/g, '.');
-                      const regex = new RegExp(regexPattern, 'i');
-                      const fileName = fileId.split('/').pop() || fileId;
-                      if (regex.test(fileName) || regex.test(fileId)) {
-                        screenFlashesRef.current.set(fileId, {
-                          type: 'search',
-                          startTime: now
-                        });
-                      }
-                    } catch {
-                      // Invalid regex, skip this file
-                    }
-                  } else {
-                    // Content search (Grep) - flash all files in path
-                    screenFlashesRef.current.set(fileId, {
-                      type: 'search',
-                      startTime: now
-                    });
-                  }
-                }
+            for (const filePath of recentActivity.matchedFiles ?? []) {
+              const fileId = findMatchingFileId(filePath, knownFileIds);
+              if (fileId) {
+                screenFlashesRef.current.set(fileId, {
+                  type: 'search',
+                  startTime: now
+                });
               }
             }
           }
@@ -935,6 +983,13 @@ export function HabboRoom() {
         // Draw hotel rooms
         drawRoom(ctx, layout, now, frame);
 
+        // Project spend on the welcome area wall, once a session has reported usage
+        const usage = usageRef.current;
+        const welcomeArea = layout.children.find(room => room.name === 'Welcome Area');
+        if (usage && usage.sessions > 0 && welcomeArea) {
+          drawSpendBoard(ctx, welcomeArea, usage);
+        }
+
         // Draw coffee shop
         drawCoffeeShop(ctx, layout, hotelPxX, hotelPxY, hotelW, hotelH);
 
@@ -1067,9 +1122,22 @@ export function HabboRoom() {
           ctx.fillStyle = '#9CA3AF';
           ctx.font = '10px monospace';
           ctx.fillText('Click elsewhere or ESC to exit', trackingX, trackingY + 34);
+
+          // The agent's shell commands above the pill
+          drawCommandHistory(ctx, trackedAgent.commands ?? [], trackingX, trackingY - 8, Date.now());
         }
       }
 
+      // Attribution of the hovered desk's file
+      const hovered = hoveredDeskRef.current;
+      if (hovered) {
+        const history = fileHistory.get(hovered.fileId);
+        const lines = history ? attributionLines(history, Date.now())
+          : history === null ? [hovered.fileId, 'No activity recorded']
+          : [hovered.fileId];
+        drawTooltip(ctx, lines, hovered.screenX, hovered.screenY);
+      }
+
       animationRef.current = requestAnimationFrame(render);
     };
 
@@ -1149,6 +1217,29 @@ export function HabboRoom() {
       canvas.style.cursor = 'grabbing';
     };
 
+    // Convert a mouse position to screen (canvas) and world coordinates
+    const toWorld = (e: MouseEvent) => {
+      const rect = canvas.getBoundingClientRect();
+      const screenX = e.clientX - rect.left;
+      const screenY = e.clientY - rect.top;
+
+      const zoom = zoomRef.current;
+      const pan = panRef.current;
+      const centerX = canvas.width / 2;
+      const centerY = canvas.height / 2;
+      const baseOffsets = baseOffsetsRef.current;
+
+      // Invert the transform chain:
+      // Forward: world -> +baseOffsets -> +(-center+pan) -> *zoom -> +center = screen
+      // Inverse: screen -> -center -> /zoom -> -(-center+pan) -> -baseOffsets = world
+      return {
+        screenX,
+        screenY,
+        worldX: (screenX - centerX) / zoom + centerX - pan.x - baseOffsets.x,
+        worldY: (screenY - centerY) / zoom + centerY - pan.y - baseOffsets.y,
+      };
+    };
+
     // Click to track agent
     let mouseDownPos = { x: 0, y: 0 };
     const handleMouseDownForClick = (e: MouseEvent) => {
@@ -1164,22 +1255,7 @@ export function HabboRoom() {
         return; // This was a drag, not a click
       }
 
-      const rect = canvas.getBoundingClientRect();
-      const screenX = e.clientX - rect.left;
-      const screenY = e.clientY - rect.top;
-
-      // Convert screen coordinates to world coordinates
-      const zoom = zoomRef.current;
-      const pan = panRef.current;
-      const centerX = canvas.width / 2;
-      const centerY = canvas.height / 2;
-      const baseOffsets = baseOffsetsRef.current;
-
-      // Invert the transform chain:
-      // Forward: world -> +baseOffsets -> +(-center+pan) -> *zoom -> +center = screen
-      // Inverse: screen -> -center -> /zoom -> -(-center+pan) -> -baseOffsets = world
-      const worldX = (screenX - centerX) / zoom + centerX - pan.x - baseOffsets.x;
-      const worldY = (screenY - centerY) / zoom + centerY - pan.y - baseOffsets.y;
+      const { worldX, worldY } = toWorld(e);
 
       // Check if click is on any agent (agents are ~30x50 pixels at scale 1.5)
       const agentHitRadius = 40; // Generous hit area for easier clicking
@@ -1212,17 +1288,28 @@ export function HabboRoom() {
         panRef.current.x += dx / zoomRef.current;
         panRef.current.y += dy / zoomRef.current;
         lastDragPosRef.current = { x: e.clientX, y: e.clientY };
+        hoveredDeskRef.current = null;
+        return;
       }
+
+      // Hovering a desk shows who worked on its file
+      const { screenX, screenY, worldX, worldY } = toWorld(e);
+      const desk = layoutRef.current ? deskAt(layoutRef.current, worldX, worldY) : undefined;
+      hoveredDeskRef.current = desk ? { fileId: desk.id, screenX, screenY } : null;
     };
     const handleMouseUp = () => {
       isDraggingRef.current = false;
       canvas.style.cursor = 'grab';
     };
+    const handleMouseLeave = () => {
+      handleMouseUp();
+      hoveredDeskRef.current = null;
+    };
     canvas.style.cursor = 'grab';
     canvas.addEventListener('mousedown', handleMouseDown);
     canvas.addEventListener('mousemove', handleMouseMove);
     canvas.addEventListener('mouseup', handleMouseUp);
-    canvas.addEventListener('mouseleave', handleMouseUp);
+    canvas.addEventListener('mouseleave', handleMouseLeave);
 
     render();
 
@@ -1236,7 +1323,7 @@ export function HabboRoom() {
       canvas.removeEventListener('mousedown', handleMouseDown);
       canvas.removeEventListener('mousemove', handleMouseMove);
       canvas.removeEventListener('mouseup', handleMouseUp);
-      canvas.removeEventListener('mouseleave', handleMouseUp);
+      canvas.removeEventListener('mouseleave', handleMouseLeave);
       canvas.removeEventListener('click', handleClick);
       canvas.removeEventListener('mousedown', handleMouseDownForClick);
       if (animationRef.current) cancelAnimationFrame(animationRef.current);
@@ -1257,6 +1344,12 @@ export function HabboRoom() {
       }}>
         CodeMap
       </div>
+      <ReplayTimeline
+        projectId={projectId}
+        replayStatusRef={replayStatusRef}
+        startReplay={startReplay}
+        controlReplay={controlReplay}
+      />
       <canvas
         ref={canvasRef}
         style={{
@@ -4,6 +4,7 @@
 import { useEffect, useRef, useCallback } from 'react';
 import { useFileActivity } from '../hooks/useFileActivity';
 import { FolderScore } from '../types';
+import { API_URL } from '../api';
 import {
   buildHotelLayout,
   findRoomForFile,
@@ -32,8 +33,6 @@ const getFloorColors = (style: FloorStyle): TileColors => {
   }
 };
 
-const API_URL = 'http://localhost:5174/api';
-
 // Adaptive framerate
 const ACTIVE_FPS = 30;
 const IDLE_FPS = 10;
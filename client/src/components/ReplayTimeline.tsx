@@ -0,0 +1,195 @@
+// ReplayTimeline - Playback controls for re-watching recorded sessions
+// The server streams recorded events; this bar only sends commands and shows progress.
+import { useEffect, useRef, useState, MutableRefObject } from 'react';
+import { ImportedSession, ReplayStatus } from '../types';
+import { ReplayControl, ReplaySource } from '../hooks/useFileActivity';
+import { API_URL, withProject } from '../api';
+
+const RANGES = [
+  { label: 'Last hour', ms: 60 * 60 * 1000 },
+  { label: 'Last 24h', ms: 24 * 60 * 60 * 1000 },
+  { label: 'Last 7 days', ms: 7 * 24 * 60 * 60 * 1000 },
+];
+const SPEEDS = [1, 4, 16];
+const POLL_INTERVAL_MS = 250;
+const SESSION_TITLE_LENGTH = 40;
+
+interface ReplayTimelineProps {
+  projectId?: string | null;
+  replayStatusRef: MutableRefObject<ReplayStatus | null>;
+  startReplay: (source: ReplaySource, speed: number) => void;
+  controlReplay: (control: ReplayControl) => void;
+}
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleString(undefined, {
+    month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit', second: '2-digit',
+  });
+}
+
+function sessionLabel(session: ImportedSession): string {
+  const day = new Date(session.start).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+  const title = session.title ?? session.id.slice(0, 8);
+  return `${day} · ${title.length > SESSION_TITLE_LENGTH ? `${title.slice(0, SESSION_TITLE_LENGTH - 1)}…` : title}`;
+}
+
+export function ReplayTimeline({ projectId, replayStatusRef, startReplay, controlReplay }: ReplayTimelineProps) {
+  // Local state only - the room canvas never re-renders because of this bar
+  const [status, setStatus] = useState<ReplayStatus | null>(null);
+  const [position, setPosition] = useState(0);
+  // A range in ms, or "session:<id>" for an imported session
+  const [choice, setChoice] = useState(String(RANGES[0].ms));
+  const [sessions, setSessions] = useState<ImportedSession[]>([]);
+  const [speed, setSpeed] = useState(1);
+  const [scrubPosition, setScrubPosition] = useState<number | null>(null);
+  const lastStatusRef = useRef<ReplayStatus | null>(null);
+  const statusReceivedAtRef = useRef(0);
+
+  // Poll the ref and interpolate the playhead between server updates
+  useEffect(() => {
+    const interval = window.setInterval(() => {
+      const current = replayStatusRef.current;
+      if (current !== lastStatusRef.current) {
+        lastStatusRef.current = current;
+        statusReceivedAtRef.current = Date.now();
+        setStatus(current);
+      }
+      if (current) {
+        const elapsed = current.state === 'playing'
+          ? (Date.now() - statusReceivedAtRef.current) * current.speed
+          : 0;
+        setPosition(Math.min(current.end, current.position + elapsed));
+      }
+    }, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [replayStatusRef]);
+
+  // Sessions imported with `codemap import` - looked up again whenever the replay ends
+  useEffect(() => {
+    if (status) return;
+    let cancelled = false;
+    fetch(withProject(`${API_URL}/imports`, projectId))
+      .then(res => res.json())
+      .then((data: ImportedSession[]) => {
+        if (!cancelled) setSessions(data);
+      })
+      .catch(err => console.error('Failed to fetch imported sessions:', err));
+    return () => { cancelled = true; };
+  }, [projectId, status]);
+
+  const barStyle: React.CSSProperties = {
+    position: 'absolute',
+    top: 16,
+    left: '50%',
+    transform: 'translateX(-50%)',
+    zIndex: 10,
+    display: 'flex',
+    alignItems: 'center',
+    gap: 8,
+    color: '#4A5A6A',
+    fontSize: '13px',
+    backgroundColor: 'rgba(255, 252, 248, 0.9)',
+    padding: '6px 12px',
+    borderRadius: '6px',
+    border: '1px solid rgba(160, 150, 140, 0.3)',
+  };
+
+  const buttonStyle = (active = false): React.CSSProperties => ({
+    padding: '3px 8px',
+    fontSize: '12px',
+    fontWeight: 600,
+    cursor: 'pointer',
+    color: active ? '#FFFFFF' : '#4A5A6A',
+    backgroundColor: active ? '#5A7A9A' : 'rgba(255, 255, 255, 0.8)',
+    border: '1px solid rgba(160, 150, 140, 0.5)',
+    borderRadius: '4px',
+  });
+
+  const changeSpeed = (value: number) => {
+    setSpeed(value);
+    if (status) controlReplay({ action: 'speed', speed: value });
+  };
+
+  const speedButtons = SPEEDS.map(value => (
+    <button key={value} style={buttonStyle(speed === value)} onClick={() => changeSpeed(value)}>
+      {value}x
+    </button>
+  ));
+
+  // Live - choose a range to replay
+  if (!status) {
+    return (
+      <div style={barStyle}>
+        <span style={{ fontWeight: 'bold' }}>Replay</span>
+        <select
+          value={choice}
+          onChange={e => setChoice(e.target.value)}
+          style={{ fontSize: '12px', padding: '2px 4px', maxWidth: 320 }}
+        >
+          {RANGES.map(range => (
+            <option key={range.ms} value={String(range.ms)}>{range.label}</option>
+          ))}
+          {sessions.length > 0 && (
+            <optgroup label="Imported sessions">
+              {sessions.map(session => (
+                <option key={session.id} value={`session:${session.id}`}>{sessionLabel(session)}</option>
+              ))}
+            </optgroup>
+          )}
+        </select>
+        {speedButtons}
+        <button
+          style={buttonStyle()}
+          onClick={() => {
+            if (choice.startsWith('session:')) {
+              startReplay({ session: choice.slice('session:'.length) }, speed);
+            } else {
+              const now = Date.now();
+              startReplay({ since: now - Number(choice), until: now }, speed);
+            }
+          }}
+        >
+          Start
+        </button>
+      </div>
+    );
+  }
+
+  const isPlaying = status.state === 'playing';
+  const shownPosition = scrubPosition ?? position;
+
+  // Seek once the user lets go of the slider (mouse, touch or keyboard)
+  const commitScrub = () => {
+    if (scrubPosition !== null) {
+      controlReplay({ action: 'seek', position: scrubPosition });
+      setScrubPosition(null);
+    }
+  };
+
+  return (
+    <div style={barStyle}>
+      <span style={{ fontWeight: 'bold', color: '#C05050' }}>REPLAY</span>
+      <button
+        style={buttonStyle()}
+        onClick={() => controlReplay({ action: isPlaying ? 'pause' : 'play' })}
+      >
+        {isPlaying ? 'Pause' : 'Play'}
+      </button>
+      {speedButtons}
+      <input
+        type="range"
+        min={status.start}
+        max={status.end}
+        value={shownPosition}
+        onChange={e => setScrubPosition(Number(e.target.value))}
+        onPointerUp={commitScrub}
+        onKeyUp={commitScrub}
+        style={{ width: 320 }}
+      />
+      <span style={{ fontFamily: 'monospace', minWidth: 130 }}>{formatTime(shownPosition)}</span>
+      <button style={buttonStyle()} onClick={() => controlReplay({ action: 'stop' })}>
+        Live
+      </button>
+    </div>
+  );
+}
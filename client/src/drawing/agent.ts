@@ -1,7 +1,9 @@
 // Agent character drawing function
 // Enhanced for multi-agent system with skill/MCP visualization
 import { AgentCharacter, ToolCategory, categorizeToolByName } from './types';
-import { CHARACTER_PALETTES, SKIN, OUTLINE } from './palette';
+import { CHARACTER_PALETTES, SOURCE_SHIRTS, SKIN, OUTLINE } from './palette';
+import { contextGaugeColor, compactionProgress } from '../utils/context-gauge';
+import { formatCost } from '../utils/cost';
 
 // Color schemes for different tool categories
 const TOOL_CATEGORY_COLORS: Record<ToolCategory, { bg: string; border: string; text: string }> = {
@@ -14,6 +16,12 @@ const TOOL_CATEGORY_COLORS: Record<ToolCategory, { bg: string; border: string; t
   other: { bg: '#FFFFFF', border: '#9E9E9E', text: '#424242' }      // Gray
 };
 
+// Bubble lines are cut to this many characters (transcripts give whole commands)
+const BUBBLE_TEXT_LENGTH = 40;
+
+const clip = (text: string | null): string | null =>
+  text && text.length > BUBBLE_TEXT_LENGTH ? `${text.slice(0, BUBBLE_TEXT_LENGTH - 1)}…` : text;
+
 // Role badge colors
 const ROLE_COLORS: Record<string, { bg: string; text: string }> = {
   'main': { bg: '#2196F3', text: '#FFFFFF' },
@@ -26,7 +34,9 @@ export const drawAgentCharacter = (ctx: CanvasRenderingContext2D, char: AgentCha
   const cx = char.x;
   const jumpOffset = char.waitingForInput ? Math.abs(Math.sin(char.frame * 0.15)) * 8 : 0;
   const cy = char.y - jumpOffset;
-  const palette = CHARACTER_PALETTES[char.colorIndex % CHARACTER_PALETTES.length];
+  const basePalette = CHARACTER_PALETTES[char.colorIndex % CHARACTER_PALETTES.length];
+  const sourceShirt = char.source && SOURCE_SHIRTS[char.source];
+  const palette = sourceShirt ? { ...basePalette, shirt: sourceShirt } : basePalette;
   const scale = 1.5;
 
   const blinkCycle = (char.frame % 180);
@@ -75,6 +85,15 @@ export const drawAgentCharacter = (ctx: CanvasRenderingContext2D, char: AgentCha
   ctx.fillStyle = palette.shirt.light;
   ctx.fillRect(-5, bodyTop + 1, 4, 3);
 
+  // Cursor agents carry its arrow on the chest
+  if (char.source === 'cursor') {
+    ctx.fillStyle = '#FFFFFF';
+    ctx.fillRect(0, bodyTop + 3, 1, 6);
+    ctx.fillRect(1, bodyTop + 4, 1, 4);
+    ctx.fillRect(2, bodyTop + 5, 1, 2);
+    ctx.fillRect(3, bodyTop + 6, 1, 1);
+  }
+
   // Arms
   ctx.fillStyle = palette.shirt.dark;
   ctx.fillRect(-10, bodyTop + 1, 4, 9);
@@ -182,6 +201,21 @@ export const drawAgentCharacter = (ctx: CanvasRenderingContext2D, char: AgentCha
   ctx.fillStyle = '#FFFFFF';
   ctx.fillText(char.displayName, cx, cy - 51);
 
+  // Source badge - the tool's color and icon, left of the name
+  if (char.sourceDisplay) {
+    const badgeX = cx - ctx.measureText(char.displayName).width / 2 - 8;
+    ctx.fillStyle = char.sourceDisplay.color;
+    ctx.beginPath();
+    ctx.arc(badgeX, cy - 54, 5, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.strokeStyle = '#FFFFFF';
+    ctx.lineWidth = 1;
+    ctx.stroke();
+    ctx.font = 'bold 8px monospace';
+    ctx.fillStyle = '#FFFFFF';
+    ctx.fillText(char.sourceDisplay.icon, badgeX, cy - 51);
+  }
+
   // Model label (below name, smaller, gray)
   if (char.model) {
     // Abbreviate model name: "claude-3.5-sonnet" → "3.5-sonnet"
@@ -202,6 +236,65 @@ export const drawAgentCharacter = (ctx: CanvasRenderingContext2D, char: AgentCha
     ctx.fillText(modelShort, cx, cy - 42);
   }
 
+  // Context gauge (under the feet) - how full the context window is
+  if (char.contextUsage !== undefined) {
+    const gaugeW = 30;
+    const gaugeH = 4;
+    const gaugeX = cx - gaugeW / 2;
+    const gaugeY = char.y + 12;
+
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.5)';
+    ctx.fillRect(gaugeX - 1, gaugeY - 1, gaugeW + 2, gaugeH + 2);
+    ctx.fillStyle = contextGaugeColor(char.contextUsage);
+    ctx.fillRect(gaugeX, gaugeY, Math.round(gaugeW * char.contextUsage / 100), gaugeH);
+
+    // Compaction count - agents that keep running out of room stand out
+    if (char.compactions) {
+      ctx.font = 'bold 7px monospace';
+      ctx.textAlign = 'left';
+      ctx.fillStyle = '#CE93D8';
+      ctx.fillText(`×${char.compactions}`, gaugeX + gaugeW + 3, gaugeY + 4);
+      ctx.textAlign = 'center';
+    }
+  }
+
+  // Compaction animation - the conversation is squeezed into a summary
+  const compaction = compactionProgress(char.compactionStart, Date.now());
+  if (compaction !== null) {
+    const alpha = 1 - compaction;
+    const radius = 34 - compaction * 26;
+    ctx.save();
+    ctx.strokeStyle = `rgba(156, 39, 176, ${alpha})`;
+    ctx.lineWidth = 2;
+    ctx.setLineDash([4, 3]);
+    ctx.lineDashOffset = -char.frame;
+    ctx.beginPath();
+    ctx.arc(cx, cy - 20, radius, 0, Math.PI * 2);
+    ctx.stroke();
+    ctx.restore();
+
+    ctx.font = 'bold 8px monospace';
+    ctx.textAlign = 'center';
+    ctx.fillStyle = `rgba(106, 27, 154, ${alpha})`;
+    ctx.fillText('compacting', cx, char.y + 38);
+  }
+
+  // Cost badge (under the gauge) - what this agent's session spent so far
+  if (char.cost !== undefined) {
+    const costText = formatCost(char.cost);
+    ctx.font = 'bold 8px monospace';
+    const costWidth = ctx.measureText(costText).width + 8;
+    const costY = char.y + 19;
+
+    ctx.fillStyle = 'rgba(27, 94, 32, 0.85)';
+    ctx.beginPath();
+    ctx.roundRect(cx - costWidth / 2, costY, costWidth, 11, 3);
+    ctx.fill();
+    ctx.fillStyle = '#E8F5E9';
+    ctx.textAlign = 'center';
+    ctx.fillText(costText, cx, costY + 8);
+  }
+
   // Status badge (completion indicator)
   if (char.status) {
     const statusConfig = {
@@ -322,6 +415,13 @@ export const drawAgentCharacter = (ctx: CanvasRenderingContext2D, char: AgentCha
       secondaryText = char.toolInput || null;
     }
 
+    // What the agent said when it finished the turn
+    if (!isStuck && char.status && char.lastMessage && !tertiaryText) {
+      tertiaryText = `"${char.lastMessage}"`;
+    }
+    secondaryText = clip(secondaryText);
+    tertiaryText = clip(tertiaryText);
+
     ctx.font = 'bold 10px monospace';
     const primaryWidth = ctx.measureText(primaryText).width;
     ctx.font = '9px monospace';
@@ -3,6 +3,8 @@ import { TILE_SIZE, FileLayout, RoomLayout, ScreenFlash } from './types';
 import { PALETTE } from './palette';
 import { seededRandom, adjustBrightness, adjustHSL, getShadowOffset } from './utils';
 import { calculateFlashOpacity, isFlashExpired } from '../utils/screen-flash';
+import { formatCost, formatTokens, totalTokens } from '../utils/cost';
+import { UsageTotals } from '../types';
 
 // Draw desk with monitor, chair, and accessories
 export const drawDesk = (
@@ -605,3 +607,33 @@ export const drawRoomSign = (ctx: CanvasRenderingContext2D, room: RoomLayout) =>
   ctx.fillStyle = '#FFFFFF';
   ctx.fillText(text, px, py + 13);
 };
+
+// Spend board on the welcome area wall - what every session of the project cost so far
+export const drawSpendBoard = (ctx: CanvasRenderingContext2D, room: RoomLayout, usage: UsageTotals) => {
+  const px = (room.x + room.width / 2) * TILE_SIZE;
+  const py = room.y * TILE_SIZE + 10;
+
+  const title = `SPEND ${formatCost(usage.cost)}`;
+  const detail = `${formatTokens(totalTokens(usage.usage))} tokens · ${usage.sessions} session${usage.sessions === 1 ? '' : 's'}`;
+  ctx.font = 'bold 11px monospace';
+  const titleWidth = ctx.measureText(title).width;
+  ctx.font = '8px monospace';
+  const width = Math.max(titleWidth, ctx.measureText(detail).width) + 20;
+  const height = 30;
+
+  // Board with frame
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.25)';
+  ctx.fillRect(px - width / 2 + 2, py + 2, width, height);
+  ctx.fillStyle = '#5D4037';
+  ctx.fillRect(px - width / 2 - 2, py - 2, width + 4, height + 4);
+  ctx.fillStyle = '#263238';
+  ctx.fillRect(px - width / 2, py, width, height);
+
+  ctx.textAlign = 'center';
+  ctx.font = 'bold 11px monospace';
+  ctx.fillStyle = '#A5D6A7';
+  ctx.fillText(title, px, py + 13);
+  ctx.font = '8px monospace';
+  ctx.fillStyle = '#B0BEC5';
+  ctx.fillText(detail, px, py + 25);
+};
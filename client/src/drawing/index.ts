@@ -9,3 +9,5 @@ export * from './decorations';
 export * from './outdoor';
 export * from './agent';
 export * from './coffee-shop';
+export * from './terminal';
+export * from './tooltip';
@@ -1,5 +1,5 @@
 // Color palettes for CodeMap Coworking visualization
-import { CharacterPalette } from './types';
+import { AgentSource, CharacterPalette } from './types';
 
 // COWORKING CREATIVE PALETTE - Modern, energetic colors
 export const PALETTE = {
@@ -129,6 +129,11 @@ export const CHARACTER_PALETTES: CharacterPalette[] = [
   },
 ];
 
+// Agents of some tools wear that tool's colors - hair and pants still vary per agent
+export const SOURCE_SHIRTS: Partial<Record<AgentSource, CharacterPalette['shirt']>> = {
+  cursor: { dark: '#181818', mid: '#303030', light: '#505050' },  // Cursor - black hoodie
+};
+
 // Shared character colors
 export const SKIN = { base: '#F8D0A8', shadow: '#E0A878' };
 export const OUTLINE = '#483828';
@@ -0,0 +1,110 @@
+// Terminal station drawing - each room's terminal shows the last shell command run
+// in it, and a tracked agent's command history is listed above the tracking pill
+import { TILE_SIZE, RoomLayout } from './types';
+import { CommandRun } from '../types';
+import { terminalLight, formatDuration, TerminalLight } from '../utils/terminal';
+
+const LIGHT_COLORS: Record<TerminalLight, string> = {
+  running: '#FFC107',
+  passed: '#4CAF50',
+  failed: '#F44336',
+  idle: '#37474F',
+};
+
+const HISTORY_ROWS = 6;
+const HISTORY_COMMAND_LENGTH = 36;
+
+// Terminal on its stand in the room's top right corner
+export const drawTerminal = (
+  ctx: CanvasRenderingContext2D,
+  room: RoomLayout,
+  run: CommandRun | undefined,
+  currentTime: number,
+  frame: number
+) => {
+  if (room.width < 6) return;
+  const x = (room.x + room.width - 2) * TILE_SIZE - 4;
+  const y = room.y * TILE_SIZE + 6;
+  const light = terminalLight(run, currentTime);
+
+  // Shadow, stand and case
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.2)';
+  ctx.fillRect(x + 2, y + 20, 22, 4);
+  ctx.fillStyle = '#546E7A';
+  ctx.fillRect(x + 9, y + 14, 6, 8);
+  ctx.fillStyle = '#263238';
+  ctx.fillRect(x, y, 24, 16);
+
+  // Screen: prompt lines, tinted by the last command's result
+  ctx.fillStyle = '#101418';
+  ctx.fillRect(x + 2, y + 2, 20, 12);
+  ctx.fillStyle = light === 'idle' ? '#78909C' : LIGHT_COLORS[light];
+  ctx.fillRect(x + 4, y + 4, 3, 2);
+  if (run) {
+    ctx.fillRect(x + 8, y + 4, Math.min(12, 2 + run.command.length / 2), 2);
+    ctx.fillRect(x + 4, y + 8, 10, 2);
+  }
+  // Blinking cursor while the command runs
+  if (light === 'running' && frame % 40 < 20) {
+    ctx.fillRect(x + 16, y + 8, 3, 2);
+  }
+
+  // Status lamp with a glow when lit
+  ctx.fillStyle = LIGHT_COLORS[light];
+  ctx.beginPath();
+  ctx.arc(x + 21, y + 18, 2.5, 0, Math.PI * 2);
+  ctx.fill();
+  if (light !== 'idle') {
+    ctx.fillStyle = `${LIGHT_COLORS[light]}40`;
+    ctx.beginPath();
+    ctx.arc(x + 21, y + 18, 6, 0, Math.PI * 2);
+    ctx.fill();
+  }
+};
+
+// Tracked agent's latest commands, newest first, with how they exited and how long they took
+export const drawCommandHistory = (
+  ctx: CanvasRenderingContext2D,
+  commands: CommandRun[],
+  centerX: number,
+  bottomY: number,
+  currentTime: number
+) => {
+  const rows = commands.slice(-HISTORY_ROWS).reverse();
+  if (rows.length === 0) return;
+  const rowHeight = 14;
+  const width = 340;
+  const height = rows.length * rowHeight + 24;
+  const left = centerX - width / 2;
+  const top = bottomY - height;
+
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.8)';
+  ctx.beginPath();
+  ctx.roundRect(left, top, width, height, 8);
+  ctx.fill();
+
+  ctx.textAlign = 'left';
+  ctx.font = 'bold 10px monospace';
+  ctx.fillStyle = '#9CA3AF';
+  ctx.fillText('$ Commands', left + 10, top + 14);
+
+  ctx.font = '10px monospace';
+  rows.forEach((run, i) => {
+    const y = top + 28 + i * rowHeight;
+    const light = terminalLight(run, currentTime);
+    const mark = run.endedAt === undefined ? '…' : run.exitCode === undefined ? '·' : run.exitCode === 0 ? '✓' : '✗';
+    ctx.fillStyle = light === 'idle' ? '#9CA3AF' : LIGHT_COLORS[light];
+    ctx.fillText(mark, left + 10, y);
+
+    const command = run.command.replace(/\s+/g, ' ');
+    ctx.fillStyle = '#E5E5E5';
+    ctx.fillText(command.length > HISTORY_COMMAND_LENGTH ? `${command.slice(0, HISTORY_COMMAND_LENGTH - 1)}…` : command, left + 24, y);
+
+    const code = run.exitCode !== undefined && run.exitCode !== 0 ? `exit ${run.exitCode}  ` : '';
+    const duration = run.duration !== undefined ? formatDuration(run.duration) : formatDuration(currentTime - run.startedAt);
+    ctx.fillStyle = '#9CA3AF';
+    ctx.textAlign = 'right';
+    ctx.fillText(`${code}${duration}`, left + width - 10, y);
+    ctx.textAlign = 'left';
+  });
+};
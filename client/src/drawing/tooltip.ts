@@ -0,0 +1,41 @@
+// Hover tooltip - a file's attribution next to the pointer, drawn in screen space
+// after the scene (the first line is the title)
+
+const LINE_HEIGHT = 14;
+const PADDING = 8;
+const OFFSET = 14;  // Clear of the pointer
+
+export const drawTooltip = (
+  ctx: CanvasRenderingContext2D,
+  lines: string[],
+  x: number,
+  y: number
+) => {
+  if (lines.length === 0) return;
+
+  ctx.textAlign = 'left';
+  ctx.font = 'bold 11px monospace';
+  let width = ctx.measureText(lines[0]).width;
+  ctx.font = '10px monospace';
+  for (const line of lines.slice(1)) {
+    width = Math.max(width, ctx.measureText(line).width);
+  }
+  width += PADDING * 2;
+  const height = lines.length * LINE_HEIGHT + PADDING;
+
+  // Flip to the other side of the pointer near the canvas edges (in CSS pixels when scaled for the display)
+  const scale = ctx.getTransform().a || 1;
+  const left = x + OFFSET + width > ctx.canvas.width / scale ? x - OFFSET - width : x + OFFSET;
+  const top = y + OFFSET + height > ctx.canvas.height / scale ? y - OFFSET - height : y + OFFSET;
+
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.85)';
+  ctx.beginPath();
+  ctx.roundRect(left, top, width, height, 6);
+  ctx.fill();
+
+  lines.forEach((line, i) => {
+    ctx.font = i === 0 ? 'bold 11px monospace' : '10px monospace';
+    ctx.fillStyle = i === 0 ? '#FFFFFF' : '#D1D5DB';
+    ctx.fillText(line, left + PADDING, top + PADDING + 8 + i * LINE_HEIGHT);
+  });
+};
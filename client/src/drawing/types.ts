@@ -1,6 +1,8 @@
 // Drawing types for CodeMap Coworking visualization
 // Enhanced for multi-agent system support
 
+import type { CommandRun } from '../types';
+
 export const TILE_SIZE = 16;
 
 export interface Character {
@@ -15,8 +17,15 @@ export interface Character {
 /** Agent status from stop events */
 export type AgentStatus = 'completed' | 'aborted' | 'error';
 
-/** Agent source - which IDE/tool the agent is from */
-export type AgentSource = 'claude' | 'windsurf' | 'unknown';
+/** Agent source - which IDE/tool the agent is from (the server adapter's id, or 'unknown') */
+export type AgentSource = string;
+
+/** How agents of a source are shown - from GET /api/sources */
+export interface SourceDisplay {
+  name: string;
+  color: string;  // Badge color
+  icon: string;  // One character drawn on the badge
+}
 
 /** Agent role in multi-agent system */
 export type AgentRole = 'main' | 'sub-agent' | 'specialist';
@@ -43,7 +52,7 @@ export function categorizeToolByName(toolName: string, mcpServer?: string): Tool
   }
 
   // Execution operations
-  if (['bash', 'killshell'].includes(toolLower)) {
+  if (['bash', 'killshell', 'shell'].includes(toolLower)) {
     return 'execute';
   }
 
@@ -76,8 +85,15 @@ export interface AgentCharacter extends Character {
   lastDuration?: number;  // Last operation duration in ms
   status?: AgentStatus;  // Completion status
   statusTimestamp?: number;  // When status was set
+  contextUsage?: number;  // Context window used, 0-100
+  compactions?: number;  // Context compactions so far
+  compactionStart?: number;  // When the latest compaction showed up (for the animation)
+  cost?: number;  // USD spent so far
+  lastMessage?: string;  // Latest text the agent wrote
+  commands?: CommandRun[];  // Shell commands run, oldest first
   // Multi-agent enhancements
   source?: AgentSource;  // Which IDE this agent is from
+  sourceDisplay?: SourceDisplay;  // Badge next to the name
   agentName?: string;  // Custom agent name (e.g., "writer", "reviewer")
   agentRole?: AgentRole;  // Role: main, sub-agent, specialist
   parentAgentId?: string;  // Parent agent ID for sub-agents
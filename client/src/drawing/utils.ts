@@ -1,5 +1,6 @@
 // Utility functions for drawing
 import { FloorStyle } from './types';
+import { FloorTheme } from '../types';
 
 // Seeded random number generator
 export const seededRandom = (seed: number): number => {
@@ -18,15 +19,22 @@ export const getShadowOffset = (frame: number): { x: number; y: number } => {
   };
 };
 
-// Get floor style based on folder name
-export const getFloorStyle = (name: string, depth: number): FloorStyle => {
+// Folder-name themes used until the server's config arrives (floorThemes in codemap.config.json)
+export const DEFAULT_FLOOR_THEMES: FloorTheme[] = [
+  { match: 'client', style: 'green' },
+  { match: 'server', style: 'blue' },
+  { match: 'src', style: 'cream' },
+  { match: 'component', style: 'lavender' },
+  { match: 'hook', style: 'lavender' },
+  { match: 'util', style: 'lavender' },
+];
+
+// Get floor style based on folder name - first matching theme wins
+export const getFloorStyle = (name: string, depth: number, themes: FloorTheme[] = DEFAULT_FLOOR_THEMES): FloorStyle => {
   const lowerName = name.toLowerCase();
   if (depth === 0) return 'wood';
-  if (lowerName.includes('client')) return 'green';
-  if (lowerName.includes('server')) return 'blue';
-  if (lowerName.includes('src')) return 'cream';
-  if (lowerName.includes('component') || lowerName.includes('hook') || lowerName.includes('util')) return 'lavender';
-  if (lowerName.includes('hooks')) return 'peach';
+  const theme = themes.find(t => lowerName.includes(t.match.toLowerCase()));
+  if (theme) return theme.style;
   const styles: FloorStyle[] = ['wood', 'green', 'blue', 'cream', 'lavender'];
   return styles[depth % styles.length];
 };
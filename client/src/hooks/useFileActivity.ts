@@ -1,11 +1,40 @@
 import { useEffect, useRef, useCallback, MutableRefObject } from 'react';
-import { GraphData, FileActivityEvent, AgentThinkingState } from '../types';
-
-const WS_URL = 'ws://localhost:5174/ws';
-const API_URL = 'http://localhost:5174/api';
+import {
+  GraphData,
+  GraphDelta,
+  FileActivityEvent,
+  AgentThinkingState,
+  ReplayStatus,
+  CodeMapConfig,
+  Topic,
+  Command,
+  CommandResponse,
+  FolderScore,
+  HelloMessage,
+  UsageTotals
+} from '../types';
+import { WS_URL, PROTOCOL_VERSION } from '../api';
+import { applyGraphDelta } from '../utils/graph-delta';
+import { reconnectDelay, socketUrl, ResumePoint } from '../utils/reconnect';
 const MAX_ACTIVITY_HISTORY = 50;
+const COMMAND_TIMEOUT_MS = 10000;
+
+interface PendingCommand {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  timer: number;
+}
+
+// 'incompatible': the server speaks another protocol version - reload the page
+export type ConnectionStatus = 'connected' | 'connecting' | 'disconnected' | 'incompatible';
 
-export type ConnectionStatus = 'connected' | 'connecting' | 'disconnected';
+export type ReplayControl =
+  | { action: 'play' | 'pause' | 'stop' }
+  | { action: 'seek'; position: number }
+  | { action: 'speed'; speed: number };
+
+// What to replay - recorded events in [since, until], or a session imported with `codemap import`
+export type ReplaySource = { since: number; until: number } | { session: string };
 
 // Enriched activity entry with display info for the feed
 export interface ActivityFeedEntry {
@@ -19,7 +48,9 @@ export interface ActivityFeedEntry {
 
 // Ref-based hook that NEVER triggers React re-renders
 // All data is stored in refs and read directly by the animation loop
-export function useFileActivity(): {
+// projectId selects the project on a multi-project server (default project when omitted)
+// topics limits what the server sends to what the view renders (pass a stable array)
+export function useFileActivity(projectId?: string | null, topics?: Topic[]): {
   graphDataRef: MutableRefObject<GraphData>;
   recentActivityRef: MutableRefObject<FileActivityEvent | null>;
   thinkingAgentsRef: MutableRefObject<AgentThinkingState[]>;
@@ -28,7 +59,16 @@ export function useFileActivity(): {
   thinkingVersionRef: MutableRefObject<number>;
   layoutVersionRef: MutableRefObject<number>;
   connectionStatusRef: MutableRefObject<ConnectionStatus>;
+  replayStatusRef: MutableRefObject<ReplayStatus | null>;
+  sceneVersionRef: MutableRefObject<number>;
+  configRef: MutableRefObject<CodeMapConfig | null>;
+  configVersionRef: MutableRefObject<number>;
+  hotFoldersRef: MutableRefObject<FolderScore[]>;
+  usageRef: MutableRefObject<UsageTotals | null>;
   clearGraph: () => void;
+  sendCommand: <T = unknown>(command: Command) => Promise<T>;
+  startReplay: (source: ReplaySource, speed: number) => void;
+  controlReplay: (control: ReplayControl) => void;
 } {
   const graphDataRef = useRef<GraphData>({ nodes: [], links: [] });
   const recentActivityRef = useRef<FileActivityEvent | null>(null);
@@ -41,32 +81,46 @@ export function useFileActivity(): {
   const layoutVersionRef = useRef(0);
   // Connection status for UI indicator
   const connectionStatusRef = useRef<ConnectionStatus>('connecting');
+  // Replay progress (null when showing live data)
+  const replayStatusRef = useRef<ReplayStatus | null>(null);
+  // Bumped when the scene jumps (replay start/seek/stop) so views drop transient state
+  const sceneVersionRef = useRef(0);
+  // Server config (null until the hello) - bumped when codemap.config.json changes
+  const configRef = useRef<CodeMapConfig | null>(null);
+  const configVersionRef = useRef(0);
+  // Hot folders from the hello, replaced by each layout update
+  const hotFoldersRef = useRef<FolderScore[]>([]);
+  // Project spend (null until the hello) - replaced by each usage update
+  const usageRef = useRef<UsageTotals | null>(null);
 
   const wsRef = useRef<WebSocket | null>(null);
   const reconnectTimeoutRef = useRef<number>();
+  // Failed connects since the last hello - sets the backoff
+  const reconnectAttemptRef = useRef(0);
+  // Lets a reconnect pick up the messages it missed instead of starting over
+  const resumeRef = useRef<ResumePoint | null>(null);
+  // Deltas are dropped until the server's next full graph arrives
+  const awaitingGraphRef = useRef(true);
+  // Commands waiting for their response, by request id
+  const pendingCommandsRef = useRef<Map<string, PendingCommand>>(new Map());
+  const commandIdRef = useRef(0);
+
+  // Fail every command still waiting (the socket they went out on is gone)
+  const rejectPendingCommands = useCallback((reason: string) => {
+    for (const pending of pendingCommandsRef.current.values()) {
+      clearTimeout(pending.timer);
+      pending.reject(new Error(reason));
+    }
+    pendingCommandsRef.current.clear();
+  }, []);
 
   const connect = useCallback(() => {
     connectionStatusRef.current = 'connecting';
+    // Deltas wait for the graph in the server's hello
+    awaitingGraphRef.current = true;
 
-    // Fetch initial graph state
-    fetch(`${API_URL}/graph`)
-      .then(res => res.json())
-      .then(data => {
-        graphDataRef.current = data;
-      })
-      .catch(console.error);
-
-    // Fetch initial thinking agents state
-    fetch(`${API_URL}/thinking`)
-      .then(res => res.json())
-      .then((data: AgentThinkingState[]) => {
-        thinkingAgentsRef.current = data;
-        thinkingVersionRef.current++;
-      })
-      .catch(console.error);
-
-    // Establish WebSocket connection
-    const ws = new WebSocket(WS_URL);
+    // The server opens with a 'hello': a snapshot, or what we missed since resumeRef
+    const ws = new WebSocket(socketUrl(WS_URL, PROTOCOL_VERSION, projectId ?? null, resumeRef.current, topics && { topics }));
     wsRef.current = ws;
 
     ws.onopen = () => {
@@ -76,21 +130,69 @@ export function useFileActivity(): {
 
     ws.onclose = () => {
       console.log('WebSocket disconnected');
+      rejectPendingCommands('Connection closed');
+      // Reconnecting won't help until the page is reloaded with a matching client
+      if (connectionStatusRef.current === 'incompatible') return;
       connectionStatusRef.current = 'disconnected';
-      // Reconnect after 2 seconds
-      reconnectTimeoutRef.current = window.setTimeout(connect, 2000);
+      // The server drops the replay with the connection - reconnect shows live data
+      if (replayStatusRef.current) {
+        replayStatusRef.current = null;
+        sceneVersionRef.current++;
+      }
+      reconnectTimeoutRef.current = window.setTimeout(connect, reconnectDelay(reconnectAttemptRef.current++));
     };
 
     ws.onerror = (error) => {
       console.error('WebSocket error:', error);
-      connectionStatusRef.current = 'disconnected';
+      if (connectionStatusRef.current !== 'incompatible') {
+        connectionStatusRef.current = 'disconnected';
+      }
     };
 
     ws.onmessage = (event) => {
       try {
         const message = JSON.parse(event.data);
-        if (message.type === 'graph') {
-          graphDataRef.current = message.data;
+        // Broadcasts carry a seq - remember the last one to resume from
+        if (typeof message.seq === 'number' && resumeRef.current) {
+          resumeRef.current.seq = message.seq;
+        }
+        if (message.type === 'hello') {
+          const hello = message.data as HelloMessage;
+          if (hello.protocol !== PROTOCOL_VERSION) {
+            console.error(`Server speaks protocol ${hello.protocol} (server ${hello.server}), this client ${PROTOCOL_VERSION} - reload the page`);
+            connectionStatusRef.current = 'incompatible';
+            ws.close();
+            return;
+          }
+          reconnectAttemptRef.current = 0;
+          resumeRef.current = { projectId: projectId ?? null, token: hello.resumeToken, seq: hello.seq };
+          if (hello.resumed) {
+            // Missed messages follow - the graph we have is still good
+            awaitingGraphRef.current = false;
+          } else if (hello.snapshot) {
+            const { graph, agents, hotFolders, config, usage } = hello.snapshot;
+            graphDataRef.current = graph;
+            awaitingGraphRef.current = false;
+            thinkingAgentsRef.current = agents;
+            thinkingVersionRef.current++;
+            hotFoldersRef.current = hotFolders;
+            configRef.current = config;
+            configVersionRef.current++;
+            usageRef.current = usage;
+          }
+        } else if (message.type === 'graph') {
+          graphDataRef.current = message.data as GraphData;
+          awaitingGraphRef.current = false;
+        } else if (message.type === 'graph-delta') {
+          if (awaitingGraphRef.current) return;
+          const graph = applyGraphDelta(graphDataRef.current, message.data as GraphDelta);
+          if (graph) {
+            graphDataRef.current = graph;
+          } else {
+            // Missed a delta - ask for a fresh snapshot
+            awaitingGraphRef.current = true;
+            ws.send(JSON.stringify({ type: 'graph-resync' }));
+          }
         } else if (message.type === 'activity') {
           const event = message.data as FileActivityEvent;
           recentActivityRef.current = event;
@@ -123,16 +225,49 @@ export function useFileActivity(): {
         } else if (message.type === 'thinking') {
           thinkingAgentsRef.current = message.data as AgentThinkingState[];
           thinkingVersionRef.current++;
+        } else if (message.type === 'replay-status') {
+          const status = message.data as ReplayStatus;
+          if (status.state === 'stopped') {
+            if (status.error) console.warn('Replay unavailable:', status.error);
+            replayStatusRef.current = null;
+            activityHistoryRef.current = [];
+            sceneVersionRef.current++;
+          } else {
+            replayStatusRef.current = status;
+          }
         } else if (message.type === 'layout-update') {
           // Git commit triggered a layout refresh
           console.log('Layout update received from server');
+          hotFoldersRef.current = message.data.hotFolders;
           layoutVersionRef.current++;
+        } else if (message.type === 'usage') {
+          usageRef.current = message.data as UsageTotals;
+        } else if (message.type === 'config') {
+          // codemap.config.json changed on the server
+          configRef.current = message.data as CodeMapConfig;
+          configVersionRef.current++;
+        } else if (message.type === 'response') {
+          const response = message.data as CommandResponse;
+          const pending = response.id !== null ? pendingCommandsRef.current.get(response.id) : undefined;
+          if (!pending) {
+            if (!response.ok) console.warn('Command failed:', response.error);
+            return;
+          }
+          clearTimeout(pending.timer);
+          pendingCommandsRef.current.delete(response.id!);
+          if (response.ok) {
+            pending.resolve(response.result);
+          } else {
+            pending.reject(new Error(response.error));
+          }
+        } else if (message.type === 'subscription' && !message.data.ok) {
+          console.warn('Subscription refused:', message.data.reason);
         }
       } catch (err) {
         console.error('Failed to parse message:', err);
       }
     };
-  }, []);
+  }, [projectId, topics, rejectPendingCommands]);
 
   useEffect(() => {
     connect();
@@ -142,14 +277,55 @@ export function useFileActivity(): {
         clearTimeout(reconnectTimeoutRef.current);
       }
       if (wsRef.current) {
+        // Don't reconnect a socket we're deliberately closing (unmount or project switch)
+        wsRef.current.onclose = null;
         wsRef.current.close();
       }
+      rejectPendingCommands('Connection closed');
     };
-  }, [connect]);
+  }, [connect, rejectPendingCommands]);
+
+  // Run a command on the server over the socket - resolves with its result
+  const sendCommand = useCallback(<T = unknown>(command: Command): Promise<T> => {
+    const ws = wsRef.current;
+    if (!ws || ws.readyState !== WebSocket.OPEN) {
+      return Promise.reject(new Error('Not connected'));
+    }
+    const id = `c${++commandIdRef.current}`;
+    return new Promise<T>((resolve, reject) => {
+      const timer = window.setTimeout(() => {
+        pendingCommandsRef.current.delete(id);
+        reject(new Error(`${command.command} timed out`));
+      }, COMMAND_TIMEOUT_MS);
+      pendingCommandsRef.current.set(id, { resolve: resolve as (result: unknown) => void, reject, timer });
+      ws.send(JSON.stringify({ type: 'request', data: { id, ...command } }));
+    });
+  }, []);
 
   const clearGraph = useCallback(() => {
-    fetch(`${API_URL}/clear`, { method: 'POST' })
-      .catch(console.error);
+    sendCommand({ command: 'clear' }).catch(console.error);
+  }, [sendCommand]);
+
+  const sendMessage = (type: string, data: unknown) => {
+    if (wsRef.current?.readyState === WebSocket.OPEN) {
+      wsRef.current.send(JSON.stringify({ type, data }));
+    }
+  };
+
+  // Replace live data with a replay of recorded events
+  const startReplay = useCallback((source: ReplaySource, speed: number) => {
+    // The scene stops following the live seq - a reconnect starts over from a snapshot
+    resumeRef.current = null;
+    activityHistoryRef.current = [];
+    sceneVersionRef.current++;
+    sendMessage('replay-start', { ...source, speed });
+  }, []);
+
+  const controlReplay = useCallback((control: ReplayControl) => {
+    if (control.action === 'seek') {
+      sceneVersionRef.current++;
+    }
+    sendMessage('replay-control', control);
   }, []);
 
   return {
@@ -161,6 +337,15 @@ export function useFileActivity(): {
     thinkingVersionRef,
     layoutVersionRef,
     connectionStatusRef,
-    clearGraph
+    replayStatusRef,
+    sceneVersionRef,
+    configRef,
+    configVersionRef,
+    hotFoldersRef,
+    usageRef,
+    clearGraph,
+    sendCommand,
+    startReplay,
+    controlReplay
   };
 }
@@ -1,9 +1,12 @@
+import { FloorStyle } from './drawing/types';
+
 // File activity event from Claude Code hooks
 export interface FileActivityEvent {
   type: 'read-start' | 'read-end' | 'write-start' | 'write-end' | 'search-start' | 'search-end';
   filePath: string;  // For search: this is the search pattern (glob or regex)
   agentId?: string;  // Which agent triggered this activity
   timestamp: number;
+  matchedFiles?: string[];  // search-end: the files the search found, resolved by the server
 }
 
 export interface ThinkingEvent {
@@ -20,6 +23,7 @@ export interface AgentThinkingState {
   isThinking: boolean;
   lastActivity: number;
   displayName: string;
+  source?: string;  // Which tool reported the agent - an adapter id from GET /api/sources
   currentCommand?: string;  // Current tool/command being executed
   toolInput?: string;  // Abbreviated tool input (file path, command, pattern)
   waitingForInput?: boolean;  // True when agent is waiting for user input
@@ -28,6 +32,37 @@ export interface AgentThinkingState {
   lastDuration?: number;  // Last operation duration in ms
   status?: AgentStatus;  // Completion status (completed/aborted/error)
   statusTimestamp?: number;  // When status was set
+  contextUsage?: number;  // Context window used, 0-100
+  compactions?: number;  // Context compactions so far
+  usage?: TokenUsage;  // Tokens used so far - from the session transcript
+  cost?: number;  // USD spent so far
+  lastMessage?: string;  // Latest text the agent wrote - from the session transcript
+  commands?: CommandRun[];  // Shell commands run, oldest first (the latest few)
+}
+
+/** One shell command an agent ran - secrets already redacted by the server */
+export interface CommandRun {
+  command: string;
+  cwd?: string;
+  startedAt: number;
+  endedAt?: number;  // Unset while it runs
+  duration?: number;  // ms
+  exitCode?: number;  // Unset when the tool doesn't report one
+}
+
+/** Tokens used, summed over a session's assistant messages */
+export interface TokenUsage {
+  input: number;
+  output: number;
+  cacheRead: number;
+  cacheWrite: number;
+}
+
+/** Spend of a project's sessions since the server started ('usage' message) */
+export interface UsageTotals {
+  usage: TokenUsage;
+  cost: number;  // USD
+  sessions: number;
 }
 
 export interface GraphNode {
@@ -38,6 +73,7 @@ export interface GraphNode {
   lastActivity?: {
     type: 'read' | 'write' | 'search';
     timestamp: number;
+    agentId?: string;
   };
   activeOperation?: 'read' | 'write' | 'search';
   activityCount: {
@@ -45,6 +81,31 @@ export interface GraphNode {
     writes: number;
     searches: number;
   };
+  accessedBy?: string[];  // Agent IDs that read, wrote or searched this file, most recent last
+}
+
+/** One counted access to a file */
+export interface FileAccess {
+  type: 'read' | 'write' | 'search';
+  agentId?: string;
+  timestamp: number;
+}
+
+/** How often one agent accessed a file */
+export interface FileAgentAccess {
+  agentId: string;
+  displayName?: string;  // While the agent is still around
+  reads: number;
+  writes: number;
+  searches: number;
+  lastAccess: number;
+}
+
+/** GET /api/files/history - who accessed a file and when */
+export interface FileHistory {
+  path: string;  // Relative to the project root
+  accesses: FileAccess[];  // Oldest first, the latest few
+  agents: FileAgentAccess[];  // Most recent first, counting every access
 }
 
 export interface GraphLink {
@@ -53,10 +114,35 @@ export interface GraphLink {
 }
 
 export interface GraphData {
+  seq?: number;  // Graph version from the server - unset until the first snapshot
   nodes: GraphNode[];
   links: GraphLink[];
 }
 
+// Message groups a WebSocket client can subscribe to (everything until it does)
+export type Topic = 'graph' | 'activity' | 'thinking' | 'layout';
+
+// Commands sent over the WebSocket as 'request' - each gets a 'response' with the same id
+export type Command =
+  | { command: 'snapshot' }  // Result: { graph, agents }
+  | { command: 'clear' }
+  | { command: 'dismiss-agent'; params: { agentId: string } }
+  | { command: 'rename-agent'; params: { agentId: string; displayName: string } }  // Result: the agent
+  | { command: 'refresh-layout' };  // Result: { hotFolders, timestamp }
+
+export type CommandResponse =
+  | { id: string; ok: true; result?: unknown }
+  | { id: string | null; ok: false; error: string };
+
+// Changes to the file graph since version seq - 1 ('graph-delta' message)
+export interface GraphDelta {
+  seq: number;
+  added: GraphNode[];
+  updated: GraphNode[];
+  removed: string[];
+  links: GraphLink[];  // Links of the added nodes
+}
+
 export interface ForceGraphNode extends GraphNode {
   x?: number;
   y?: number;
@@ -77,3 +163,93 @@ export interface FolderScore {
   score: number;
   recentFiles: string[];
 }
+
+/** Playback state of a session replay */
+export type ReplayState = 'playing' | 'paused' | 'ended' | 'stopped';
+
+/** Replay progress reported by the server */
+export interface ReplayStatus {
+  state: ReplayState;
+  position: number;  // Current point on the recorded timeline (ms)
+  start: number;     // First recorded event (ms)
+  end: number;       // Last recorded event (ms)
+  speed: number;     // Playback multiplier (1, 4 or 16)
+  eventCount: number;
+  error?: string;    // Why the replay could not start
+}
+
+/** A past session imported from its transcript (`codemap import`) */
+export interface ImportedSession {
+  id: string;
+  title?: string;  // Conversation summary, else the first prompt
+  start: number;
+  end: number;
+  eventCount: number;
+  agentCount: number;
+  importedAt: number;
+}
+
+/** A project root served by the CodeMap server */
+export interface ProjectInfo {
+  id: string;
+  name: string;
+  root: string;
+  agents: number;
+  isDefault: boolean;
+}
+
+/** One floor of the coworking building (ground floor first) */
+export interface FloorConfig {
+  rooms: number;
+  filesPerRoom: number;
+  roomWidth: number;   // Tiles
+  roomHeight: number;  // Tiles
+}
+
+/** Folder-name rule for room themes - first match wins */
+export interface FloorTheme {
+  match: string;  // Case-insensitive substring of the folder name
+  style: FloorStyle;
+}
+
+/** Effective codemap.config.json from /api/config (and 'config' messages on change) */
+export interface CodeMapConfig {
+  port: number;
+  host: string;
+  allowedOrigins: string[];
+  maxAgents: number;
+  agentTimeoutMs: number;
+  waitingForInputThresholdMs: number;
+  ignoreDirs: string[];
+  gitLogDepth: number;
+  floors: FloorConfig[];
+  floorThemes: FloorTheme[];
+  modelPrices: Record<string, ModelPrice>;
+}
+
+/** Price of a model in USD per million tokens */
+export interface ModelPrice {
+  input: number;
+  output: number;
+  cacheRead: number;
+  cacheWrite: number;
+}
+
+/** Everything needed to draw the scene - sent in 'hello' */
+export interface HelloSnapshot {
+  graph: GraphData;
+  agents: AgentThinkingState[];
+  hotFolders: FolderScore[];
+  config: CodeMapConfig;
+  usage: UsageTotals;
+}
+
+/** First message on every WebSocket connection */
+export interface HelloMessage {
+  protocol: number;
+  server: string;  // Server version
+  resumeToken: string;
+  seq: number;     // Last broadcast seq at the time of the hello
+  resumed: boolean;  // Missed messages follow instead of a snapshot
+  snapshot?: HelloSnapshot;
+}
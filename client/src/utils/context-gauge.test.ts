@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { contextGaugeColor, compactionProgress, COMPACTION_ANIMATION_MS } from './context-gauge';
+
+describe('contextGaugeColor', () => {
+  it('is green while there is plenty of room', () => {
+    expect(contextGaugeColor(0)).toBe('#4CAF50');
+    expect(contextGaugeColor(49.9)).toBe('#4CAF50');
+  });
+
+  it('turns yellow from 50%', () => {
+    expect(contextGaugeColor(50)).toBe('#FFC107');
+    expect(contextGaugeColor(79.9)).toBe('#FFC107');
+  });
+
+  it('turns red from 80%', () => {
+    expect(contextGaugeColor(80)).toBe('#F44336');
+    expect(contextGaugeColor(100)).toBe('#F44336');
+  });
+});
+
+describe('compactionProgress', () => {
+  it('is null without a compaction', () => {
+    expect(compactionProgress(undefined, 1000)).toBeNull();
+  });
+
+  it('runs from 0 to 1 over the animation', () => {
+    expect(compactionProgress(1000, 1000)).toBe(0);
+    expect(compactionProgress(1000, 1000 + COMPACTION_ANIMATION_MS / 2)).toBe(0.5);
+  });
+
+  it('is null once the animation is over', () => {
+    expect(compactionProgress(1000, 1000 + COMPACTION_ANIMATION_MS)).toBeNull();
+    expect(compactionProgress(1000, 999)).toBeNull();
+  });
+});
@@ -0,0 +1,24 @@
+// Context gauge utilities - how full an agent's context window looks, and the
+// animation played when the agent compacts its conversation
+
+export const COMPACTION_ANIMATION_MS = 2500;
+
+/**
+ * Gauge color for a context usage percentage:
+ * green below 50%, yellow below 80%, red from there on
+ */
+export function contextGaugeColor(usage: number): string {
+  if (usage < 50) return '#4CAF50';
+  if (usage < 80) return '#FFC107';
+  return '#F44336';
+}
+
+/**
+ * How far along the compaction animation is (0 to 1), or null when it is not playing
+ */
+export function compactionProgress(startTime: number | undefined, currentTime: number): number | null {
+  if (startTime === undefined) return null;
+  const elapsed = currentTime - startTime;
+  if (elapsed < 0 || elapsed >= COMPACTION_ANIMATION_MS) return null;
+  return elapsed / COMPACTION_ANIMATION_MS;
+}
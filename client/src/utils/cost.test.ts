@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { formatCost, formatTokens, totalTokens } from './cost';
+
+describe('formatCost', () => {
+  it('shows cents', () => {
+    expect(formatCost(0.4213)).toBe('$0.42');
+    expect(formatCost(12.5)).toBe('$12.50');
+  });
+
+  it('shows whole dollars from $100', () => {
+    expect(formatCost(123.45)).toBe('$123');
+  });
+
+  it('marks spend too small to show', () => {
+    expect(formatCost(0.0004)).toBe('<$0.01');
+    expect(formatCost(0)).toBe('$0.00');
+  });
+});
+
+describe('formatTokens', () => {
+  it('abbreviates thousands and millions', () => {
+    expect(formatTokens(950)).toBe('950');
+    expect(formatTokens(12300)).toBe('12.3k');
+    expect(formatTokens(2400000)).toBe('2.4M');
+  });
+});
+
+describe('totalTokens', () => {
+  it('adds every kind of token', () => {
+    expect(totalTokens({ input: 1, output: 2, cacheRead: 30, cacheWrite: 400 })).toBe(433);
+  });
+});
@@ -0,0 +1,30 @@
+// Spend formatting - cost badges on agents and the total in the welcome area
+
+import { TokenUsage } from '../types';
+
+/**
+ * USD amount for a badge: cents below $100, whole dollars above,
+ * and "<$0.01" for spend too small to show
+ */
+export function formatCost(usd: number): string {
+  if (usd <= 0) return '$0.00';
+  if (usd < 0.01) return '<$0.01';
+  if (usd < 100) return `$${usd.toFixed(2)}`;
+  return `$${Math.round(usd)}`;
+}
+
+/**
+ * Token count with a k/M suffix (e.g. 950, 12.3k, 2.4M)
+ */
+export function formatTokens(count: number): string {
+  if (count < 1000) return String(count);
+  if (count < 1e6) return `${(count / 1000).toFixed(1)}k`;
+  return `${(count / 1e6).toFixed(1)}M`;
+}
+
+/**
+ * Every token of a usage record - input, output and cache reads and writes
+ */
+export function totalTokens(usage: TokenUsage): number {
+  return usage.input + usage.output + usage.cacheRead + usage.cacheWrite;
+}
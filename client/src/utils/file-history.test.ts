@@ -0,0 +1,96 @@
+import { describe, it, expect, vi } from 'vitest';
+import { formatAgo, attributionLines, deskAt, createFileHistoryCache, HISTORY_REFRESH_MS } from './file-history';
+import { FileHistory } from '../types';
+import { RoomLayout, TILE_SIZE } from '../drawing/types';
+
+describe('formatAgo', () => {
+  it('uses seconds, minutes, hours or days', () => {
+    expect(formatAgo(1200)).toBe('just now');
+    expect(formatAgo(42000)).toBe('42s ago');
+    expect(formatAgo(5 * 60000 + 30000)).toBe('5m ago');
+    expect(formatAgo(3 * 3600000)).toBe('3h ago');
+    expect(formatAgo(2 * 86400000)).toBe('2d ago');
+  });
+});
+
+describe('attributionLines', () => {
+  const history: FileHistory = {
+    path: 'src/app.ts',
+    accesses: [
+      { type: 'write', agentId: 'b1234567-0000', timestamp: 1000 },
+      { type: 'read', agentId: 'a', timestamp: 2000 },
+      { type: 'search', agentId: 'a', timestamp: 3000 },
+    ],
+    agents: [
+      { agentId: 'a', displayName: 'Claude Code 1', reads: 1, writes: 0, searches: 1, lastAccess: 3000 },
+      { agentId: 'b1234567-0000', reads: 0, writes: 1, searches: 0, lastAccess: 1000 },
+    ],
+  };
+
+  it('names who last changed the file and the agents that worked on it', () => {
+    expect(attributionLines(history, 1000 + 5 * 60000)).toEqual([
+      'src/app.ts',
+      'Last changed by Agent b1234567 · 5m ago',
+      'Claude Code 1: 1 read, 1 search',
+      'Agent b1234567: 1 write',
+    ]);
+  });
+
+  it('says when the file was never changed or never accessed', () => {
+    expect(attributionLines({ ...history, accesses: history.accesses.slice(1) }, 4000)[1]).toBe('Not changed yet');
+    expect(attributionLines({ path: 'README.md', accesses: [], agents: [] }, 4000)).toEqual(['README.md', 'No activity recorded']);
+  });
+
+  it('lists only the most recent agents', () => {
+    const agents = ['a', 'b', 'c', 'd', 'e'].map(agentId => ({ agentId, reads: 1, writes: 0, searches: 0, lastAccess: 1000 }));
+    const lines = attributionLines({ path: 'x.ts', accesses: [], agents }, 2000);
+    expect(lines.slice(2)).toEqual(['Agent a: 1 read', 'Agent b: 1 read', 'Agent c: 1 read', '+2 more']);
+  });
+});
+
+describe('deskAt', () => {
+  const desk = (id: string, x: number, y: number) => ({ id, name: id, x, y, isActive: false, isWriting: false, deskStyle: 0, heatLevel: 0 });
+  const room = (x: number, y: number, files: ReturnType<typeof desk>[], children: RoomLayout[] = []): RoomLayout =>
+    ({ x, y, width: 20, height: 12, name: 'room', files, children, depth: 0, floorStyle: 'wood' });
+  const building = room(0, 0, [], [room(1, 1, [desk('src/a.ts', 3, 4)]), room(22, 1, [desk('docs/b.md', 24, 4)])]);
+
+  it('finds the desk under a position in any room', () => {
+    expect(deskAt(building, 3 * TILE_SIZE + 1, 4 * TILE_SIZE + 1)?.id).toBe('src/a.ts');
+    expect(deskAt(building, 26 * TILE_SIZE, 6 * TILE_SIZE)?.id).toBe('docs/b.md');
+  });
+
+  it('finds nothing between desks', () => {
+    expect(deskAt(building, 10 * TILE_SIZE, 10 * TILE_SIZE)).toBeUndefined();
+    expect(deskAt(building, 6 * TILE_SIZE, 4 * TILE_SIZE)).toBeUndefined();
+  });
+});
+
+describe('createFileHistoryCache', () => {
+  const history = (path: string): FileHistory => ({ path, accesses: [], agents: [] });
+
+  it('fetches a file once, then again after the refresh interval', async () => {
+    const load = vi.fn((fileId: string) => Promise.resolve(history(fileId)));
+    const cache = createFileHistoryCache(null, load);
+
+    expect(cache.get('a.ts', 1000)).toBeUndefined();
+    await Promise.resolve();
+    expect(cache.get('a.ts', 1000 + HISTORY_REFRESH_MS - 1)).toEqual(history('a.ts'));
+    expect(load).toHaveBeenCalledTimes(1);
+
+    // Refetching keeps the history it has
+    expect(cache.get('a.ts', 1000 + HISTORY_REFRESH_MS)).toEqual(history('a.ts'));
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it('drops the answer for a file no longer hovered', async () => {
+    let resolve: (value: FileHistory | null) => void = () => {};
+    const load = vi.fn((fileId: string) => fileId === 'a.ts' ? new Promise<FileHistory | null>(r => { resolve = r; }) : Promise.resolve(null));
+    const cache = createFileHistoryCache(null, load);
+
+    cache.get('a.ts', 1000);
+    expect(cache.get('b.ts', 1100)).toBeUndefined();
+    resolve(history('a.ts'));
+    await Promise.resolve();
+    expect(cache.get('b.ts', 1200)).toBeNull();
+  });
+});
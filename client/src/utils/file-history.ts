@@ -0,0 +1,107 @@
+// File attribution utilities - who last changed a file and which agents worked on it,
+// from GET /api/files/history, for the tooltip shown when hovering a desk or tree node
+
+import { API_URL, withProject } from '../api';
+import { FileHistory, FileAgentAccess } from '../types';
+import { RoomLayout, FileLayout, TILE_SIZE } from '../drawing/types';
+
+const AGENT_ROWS = 3;
+export const HISTORY_REFRESH_MS = 5000; // Hovered file's history is refetched this often
+
+/** The hovered file's history, kept while it stays hovered */
+export interface FileHistoryCache {
+  /**
+   * History of the file (undefined while loading, null when the server has no such
+   * file) - fetched when the file changes, then again every HISTORY_REFRESH_MS
+   */
+  get(fileId: string, now?: number): FileHistory | null | undefined;
+}
+
+const fetchFileHistory = (projectId: string | null | undefined) => (fileId: string): Promise<FileHistory | null> =>
+  fetch(withProject(`${API_URL}/files/history?path=${encodeURIComponent(fileId)}`, projectId))
+    .then(res => res.ok ? res.json() : null);
+
+export function createFileHistoryCache(
+  projectId: string | null | undefined,
+  load: (fileId: string) => Promise<FileHistory | null> = fetchFileHistory(projectId)
+): FileHistoryCache {
+  let current: { fileId: string; history?: FileHistory | null; fetchedAt: number } | null = null;
+  return {
+    get(fileId, now = Date.now()) {
+      if (current?.fileId !== fileId || now - current.fetchedAt >= HISTORY_REFRESH_MS) {
+        // A refetch keeps showing what it had until the answer comes
+        current = { fileId, history: current?.fileId === fileId ? current.history : undefined, fetchedAt: now };
+        load(fileId)
+          .then(history => {
+            if (current?.fileId === fileId) current.history = history;
+          })
+          .catch(err => console.error('Failed to fetch file history:', err));
+      }
+      return current.history;
+    },
+  };
+}
+
+/**
+ * How long ago, for the tooltip (e.g. just now, 42s ago, 5m ago, 3h ago)
+ */
+export function formatAgo(ms: number): string {
+  if (ms < 5000) return 'just now';
+  if (ms < 60000) return `${Math.floor(ms / 1000)}s ago`;
+  if (ms < 3600000) return `${Math.floor(ms / 60000)}m ago`;
+  if (ms < 86400000) return `${Math.floor(ms / 3600000)}h ago`;
+  return `${Math.floor(ms / 86400000)}d ago`;
+}
+
+function agentName(history: FileHistory, agentId: string): string {
+  const agent = history.agents.find(a => a.agentId === agentId);
+  return agent?.displayName ?? `Agent ${agentId.slice(0, 8)}`;
+}
+
+function counts(agent: FileAgentAccess): string {
+  const parts = [
+    agent.reads && `${agent.reads} read${agent.reads === 1 ? '' : 's'}`,
+    agent.writes && `${agent.writes} write${agent.writes === 1 ? '' : 's'}`,
+    agent.searches && `${agent.searches} search${agent.searches === 1 ? '' : 'es'}`,
+  ];
+  return parts.filter(Boolean).join(', ');
+}
+
+/**
+ * Tooltip lines for a file: its path, the last write, then the agents that
+ * accessed it most recently with their counts
+ */
+export function attributionLines(history: FileHistory, currentTime: number): string[] {
+  const lines = [history.path];
+  const lastWrite = [...history.accesses].reverse().find(access => access.type === 'write');
+  if (lastWrite) {
+    const by = lastWrite.agentId ? ` by ${agentName(history, lastWrite.agentId)}` : '';
+    lines.push(`Last changed${by} · ${formatAgo(currentTime - lastWrite.timestamp)}`);
+  } else {
+    lines.push(history.accesses.length > 0 ? 'Not changed yet' : 'No activity recorded');
+  }
+
+  for (const agent of history.agents.slice(0, AGENT_ROWS)) {
+    lines.push(`${agentName(history, agent.agentId)}: ${counts(agent)}`);
+  }
+  if (history.agents.length > AGENT_ROWS) {
+    lines.push(`+${history.agents.length - AGENT_ROWS} more`);
+  }
+  return lines;
+}
+
+/**
+ * Desk under a world position (pixels), searching nested rooms
+ */
+export function deskAt(room: RoomLayout, worldX: number, worldY: number): FileLayout | undefined {
+  const desk = room.files.find(file =>
+    worldX >= file.x * TILE_SIZE && worldX < (file.x + 3) * TILE_SIZE &&
+    worldY >= (file.y - 0.5) * TILE_SIZE && worldY < (file.y + 3) * TILE_SIZE
+  );
+  if (desk) return desk;
+  for (const child of room.children) {
+    const found = deskAt(child, worldX, worldY);
+    if (found) return found;
+  }
+  return undefined;
+}
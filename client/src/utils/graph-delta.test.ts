@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { applyGraphDelta } from './graph-delta';
+import { GraphData, GraphDelta, GraphNode } from '../types';
+
+function node(id: string, reads = 0): GraphNode {
+  return {
+    id,
+    name: id.split('/').pop() || id,
+    isFolder: !id.includes('.'),
+    depth: id.split('/').length - 3,
+    activityCount: { reads, writes: 0, searches: 0 },
+  };
+}
+
+function delta(seq: number, changes: Partial<GraphDelta>): GraphDelta {
+  return { seq, added: [], updated: [], removed: [], links: [], ...changes };
+}
+
+const graph: GraphData = {
+  seq: 4,
+  nodes: [node('/p'), node('/p/src'), node('/p/src/a.ts')],
+  links: [
+    { source: '/p/src', target: '/p' },
+    { source: '/p/src/a.ts', target: '/p/src' },
+  ],
+};
+
+describe('applyGraphDelta', () => {
+  it('replaces updated nodes', () => {
+    const next = applyGraphDelta(graph, delta(5, { updated: [node('/p/src/a.ts', 2)] }))!;
+    expect(next.seq).toBe(5);
+    expect(next.nodes.find(n => n.id === '/p/src/a.ts')!.activityCount.reads).toBe(2);
+    expect(next.links).toEqual(graph.links);
+  });
+
+  it('adds nodes with their links', () => {
+    const next = applyGraphDelta(graph, delta(5, {
+      added: [node('/p/src/b.ts')],
+      links: [{ source: '/p/src/b.ts', target: '/p/src' }],
+    }))!;
+    expect(next.nodes.map(n => n.id)).toContain('/p/src/b.ts');
+    expect(next.links).toContainEqual({ source: '/p/src/b.ts', target: '/p/src' });
+  });
+
+  it('removes nodes and every link touching them', () => {
+    const next = applyGraphDelta(graph, delta(5, { removed: ['/p/src', '/p/src/a.ts'] }))!;
+    expect(next.nodes.map(n => n.id)).toEqual(['/p']);
+    expect(next.links).toEqual([]);
+  });
+
+  it('does not duplicate the link of a re-added node', () => {
+    const next = applyGraphDelta(graph, delta(5, {
+      added: [node('/p/src/a.ts')],
+      links: [{ source: '/p/src/a.ts', target: '/p/src' }],
+    }))!;
+    expect(next.links).toHaveLength(2);
+  });
+
+  it('leaves the input graph untouched', () => {
+    applyGraphDelta(graph, delta(5, { removed: ['/p/src/a.ts'] }));
+    expect(graph.nodes).toHaveLength(3);
+    expect(graph.seq).toBe(4);
+  });
+
+  it('ignores deltas it already has', () => {
+    expect(applyGraphDelta(graph, delta(4, { removed: ['/p/src'] }))).toBe(graph);
+  });
+
+  it('reports a gap when a delta was missed', () => {
+    expect(applyGraphDelta(graph, delta(6, {}))).toBeNull();
+  });
+
+  it('needs a snapshot before the first delta', () => {
+    expect(applyGraphDelta({ nodes: [], links: [] }, delta(1, {}))).toBeNull();
+  });
+});
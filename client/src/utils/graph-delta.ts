@@ -0,0 +1,31 @@
+// Graph delta application - extracted for testability
+
+import { GraphData, GraphDelta, GraphNode } from '../types';
+
+/**
+ * Apply a 'graph-delta' message to the current graph.
+ * Returns a new graph, the same graph for a delta it already has, or null when
+ * deltas were missed (seq skips ahead) and a full snapshot is needed.
+ */
+export function applyGraphDelta(graph: GraphData, delta: GraphDelta): GraphData | null {
+  if (graph.seq === undefined) return null;
+  if (delta.seq <= graph.seq) return graph;
+  if (delta.seq !== graph.seq + 1) return null;
+
+  const removed = new Set(delta.removed);
+  const nodes = new Map<string, GraphNode>();
+  for (const node of graph.nodes) {
+    if (!removed.has(node.id)) nodes.set(node.id, node);
+  }
+  for (const node of delta.added) nodes.set(node.id, node);
+  for (const node of delta.updated) nodes.set(node.id, node);
+
+  const links = graph.links.filter(link => !removed.has(link.source) && !removed.has(link.target));
+  // A re-added node brings its link again
+  const linked = new Set(links.map(link => link.source));
+  for (const link of delta.links) {
+    if (!linked.has(link.source)) links.push(link);
+  }
+
+  return { seq: delta.seq, nodes: Array.from(nodes.values()), links };
+}
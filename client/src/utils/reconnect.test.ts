@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { reconnectDelay, socketUrl, RECONNECT_BASE_MS, RECONNECT_MAX_MS } from './reconnect';
+
+describe('reconnectDelay', () => {
+  it('doubles with each attempt', () => {
+    const max = () => 1;
+    expect(reconnectDelay(0, max)).toBe(RECONNECT_BASE_MS);
+    expect(reconnectDelay(1, max)).toBe(RECONNECT_BASE_MS * 2);
+    expect(reconnectDelay(3, max)).toBe(RECONNECT_BASE_MS * 8);
+  });
+
+  it('caps the delay', () => {
+    expect(reconnectDelay(20, () => 1)).toBe(RECONNECT_MAX_MS);
+    expect(reconnectDelay(1000, () => 1)).toBe(RECONNECT_MAX_MS);
+  });
+
+  it('jitters down to half the delay', () => {
+    expect(reconnectDelay(2, () => 0)).toBe(RECONNECT_BASE_MS * 2);
+    expect(reconnectDelay(2, () => 0.5)).toBe(RECONNECT_BASE_MS * 3);
+  });
+});
+
+describe('socketUrl', () => {
+  const WS = 'ws://localhost:5174/ws';
+
+  it('announces the protocol version', () => {
+    expect(socketUrl(WS, 1, null, null)).toBe(`${WS}?protocol=1`);
+  });
+
+  it('selects the project', () => {
+    expect(socketUrl(WS, 1, 'shop a', null)).toBe(`${WS}?protocol=1&project=shop+a`);
+  });
+
+  it('resumes from the last seq seen', () => {
+    const resume = { projectId: 'shop', token: 'abc:shop', seq: 42 };
+    expect(socketUrl(WS, 1, 'shop', resume)).toBe(`${WS}?protocol=1&project=shop&resume=abc%3Ashop&since=42`);
+  });
+
+  it('sends the subscription along', () => {
+    expect(socketUrl(WS, 1, null, null, { topics: ['graph'] })).toBe(`${WS}?protocol=1&subscribe=${encodeURIComponent('{"topics":["graph"]}')}`);
+  });
+
+  it('does not resume another project', () => {
+    const resume = { projectId: 'shop', token: 'abc:shop', seq: 42 };
+    expect(socketUrl(WS, 1, 'blog', resume)).toBe(`${WS}?protocol=1&project=blog`);
+    expect(socketUrl(WS, 1, null, resume)).toBe(`${WS}?protocol=1`);
+  });
+});
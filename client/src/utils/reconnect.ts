@@ -0,0 +1,42 @@
+// WebSocket reconnection - extracted for testability
+
+export const RECONNECT_BASE_MS = 1000;
+export const RECONNECT_MAX_MS = 30000;
+
+/** Where to pick up after a reconnect - from the last 'hello' and the last seq seen */
+export interface ResumePoint {
+  projectId: string | null;
+  token: string;
+  seq: number;
+}
+
+/**
+ * Delay before reconnect attempt `attempt` (0-based): doubles each time up to
+ * RECONNECT_MAX_MS, with up to 50% jitter so clients of a restarted server
+ * don't all come back at once.
+ */
+export function reconnectDelay(attempt: number, random: () => number = Math.random): number {
+  const delay = Math.min(RECONNECT_BASE_MS * 2 ** attempt, RECONNECT_MAX_MS);
+  return Math.round(delay * (0.5 + random() / 2));
+}
+
+/**
+ * Socket URL announcing our protocol, resuming when the resume point is for this project.
+ * A subscription goes along, so the server filters what we missed by it too.
+ */
+export function socketUrl(
+  baseUrl: string,
+  protocol: number,
+  projectId: string | null,
+  resume: ResumePoint | null,
+  subscription?: object
+): string {
+  const params = new URLSearchParams({ protocol: String(protocol) });
+  if (projectId) params.set('project', projectId);
+  if (subscription) params.set('subscribe', JSON.stringify(subscription));
+  if (resume && resume.projectId === projectId) {
+    params.set('resume', resume.token);
+    params.set('since', String(resume.seq));
+  }
+  return `${baseUrl}?${params}`;
+}
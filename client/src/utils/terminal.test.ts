@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { terminalLight, formatDuration, roomAt, TERMINAL_LIT_MS } from './terminal';
+import { RoomLayout } from '../drawing/types';
+
+describe('terminalLight', () => {
+  const run = { command: 'npm test', startedAt: 1000 };
+
+  it('is off without a command', () => {
+    expect(terminalLight(undefined, 5000)).toBe('idle');
+  });
+
+  it('shows a command running until it ends', () => {
+    expect(terminalLight(run, 99999999)).toBe('running');
+  });
+
+  it('is green for exit code 0 and red for any other', () => {
+    expect(terminalLight({ ...run, endedAt: 2000, exitCode: 0 }, 3000)).toBe('passed');
+    expect(terminalLight({ ...run, endedAt: 2000, exitCode: 1 }, 3000)).toBe('failed');
+    expect(terminalLight({ ...run, endedAt: 2000, exitCode: 130 }, 3000)).toBe('failed');
+  });
+
+  it('goes off a while after the command ended, or when its exit code is unknown', () => {
+    expect(terminalLight({ ...run, endedAt: 2000, exitCode: 0 }, 2000 + TERMINAL_LIT_MS)).toBe('idle');
+    expect(terminalLight({ ...run, endedAt: 2000 }, 3000)).toBe('idle');
+  });
+});
+
+describe('formatDuration', () => {
+  it('uses ms, seconds or minutes', () => {
+    expect(formatDuration(850)).toBe('850ms');
+    expect(formatDuration(4200)).toBe('4.2s');
+    expect(formatDuration(125000)).toBe('2m 05s');
+  });
+});
+
+describe('roomAt', () => {
+  const room = (name: string, x: number, y: number, width: number, height: number, children: RoomLayout[] = []): RoomLayout =>
+    ({ name, x, y, width, height, children, files: [], depth: 0, floorStyle: 'wood' });
+  const building = room('Project', 1, 1, 40, 30, [room('src', 2, 2, 10, 8), room('Welcome Area', 2, 20, 38, 8)]);
+
+  it('finds the innermost room at a tile', () => {
+    expect(roomAt(building, 5, 5)?.name).toBe('src');
+    expect(roomAt(building, 20, 25)?.name).toBe('Welcome Area');
+    expect(roomAt(building, 20, 12)?.name).toBe('Project');
+  });
+
+  it('finds nothing outside the building', () => {
+    expect(roomAt(building, 60, 5)).toBeUndefined();
+  });
+});
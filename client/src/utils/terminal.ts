@@ -0,0 +1,45 @@
+// Terminal station utilities - how a room's terminal shows the last shell command
+// run in it, and where agents are when they run one
+
+import { CommandRun } from '../types';
+import { RoomLayout } from '../drawing/types';
+
+export const TERMINAL_LIT_MS = 60000;  // A finished command stays lit for a minute
+
+export type TerminalLight = 'running' | 'passed' | 'failed' | 'idle';
+
+/**
+ * Light for a terminal's last command: running until it ends, then green for
+ * exit code 0 or red for any other - and off once it has been quiet a while,
+ * or when the tool didn't report an exit code
+ */
+export function terminalLight(run: CommandRun | undefined, currentTime: number): TerminalLight {
+  if (!run) return 'idle';
+  if (run.endedAt === undefined) return 'running';
+  if (run.exitCode === undefined || currentTime - run.endedAt >= TERMINAL_LIT_MS) return 'idle';
+  return run.exitCode === 0 ? 'passed' : 'failed';
+}
+
+/**
+ * Duration for the command history (e.g. 850ms, 4.2s, 2m 05s)
+ */
+export function formatDuration(ms: number): string {
+  if (ms < 1000) return `${Math.round(ms)}ms`;
+  if (ms < 60000) return `${(ms / 1000).toFixed(1)}s`;
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}m ${String(seconds % 60).padStart(2, '0')}s`;
+}
+
+/**
+ * Innermost room containing a tile position, or undefined outside the building
+ */
+export function roomAt(room: RoomLayout, tileX: number, tileY: number): RoomLayout | undefined {
+  const inside = tileX >= room.x && tileX < room.x + room.width &&
+                 tileY >= room.y && tileY < room.y + room.height;
+  if (!inside) return undefined;
+  for (const child of room.children) {
+    const found = roomAt(child, tileX, tileY);
+    if (found) return found;
+  }
+  return room;
+}
@@ -0,0 +1,9 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_SERVER_PORT?: string;  // CodeMap server port (defaults to 5174)
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
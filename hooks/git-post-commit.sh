@@ -1,17 +1,7 @@
 #!/bin/bash
-# Git post-commit hook for CodeMap
-# Notifies the server to refresh the hotel layout after each commit
+# Legacy entry point - kept so git hooks written by older setups keep working.
+# Notifies the server to refresh the hotel layout after each commit (fire and forget, don't block git).
 
-SERVER_URL="http://localhost:5174/api/git-commit"
-LOG_FILE="/tmp/codemap-hook.log"
-
-# Send notification to server (fire and forget, don't block git)
-curl -s -X POST "$SERVER_URL" \
-    -H "Content-Type: application/json" \
-    -d '{}' \
-    --max-time 2 \
-    > /dev/null 2>&1 &
-
-echo "$(date): Git commit detected - notified CodeMap server" >> "$LOG_FILE"
+node "$(dirname "$0")/../bin/setup.js" hook git-commit "$@" >/dev/null 2>&1 &
 
 exit 0
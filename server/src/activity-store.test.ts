@@ -6,10 +6,18 @@
  * - Maintaining an in-memory file tree
  * - Tracking read/write activity counts
  * - Providing graph data for visualization
+ * - Describing each change as a versioned delta
+ * - Making up the missing half of one-sided operations (Cursor/Windsurf)
+ * - Resolving searches to the files they found
+ * - Recording which agents accessed each file, and when
  */
 
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
 import path from 'path';
+import { ActivityStore, END_GLOW_MS, MAX_FILE_HISTORY, OPERATION_TIMEOUT_MS, PAIRED_OPERATION_TIMEOUT_MS } from './activity-store.js';
+import { GraphDelta } from './types.js';
 
 // We test the logic without filesystem dependencies
 // by simulating the core algorithms
@@ -408,3 +416,283 @@ describe('ActivityStore: Recently Active Files', () => {
     expect(recentFiles).not.toContain('old.ts');
   });
 });
+
+describe('ActivityStore: Graph Deltas', () => {
+  let root: string;
+  let store: ActivityStore;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'codemap-store-'));
+    fs.mkdirSync(path.join(root, 'src'));
+    fs.writeFileSync(path.join(root, 'src', 'a.ts'), '');
+    fs.mkdirSync(path.join(root, 'vendor'));
+    fs.writeFileSync(path.join(root, 'vendor', 'lib.js'), '');
+    store = new ActivityStore(root, { watch: false, ignoreDirs: ['vendor'] });
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  const ids = (nodes: { id: string }[]) => nodes.map(n => n.id).sort();
+  const read = (file: string, type: 'read-start' | 'read-end' = 'read-end') =>
+    store.addActivity({ type, filePath: path.join(root, file), timestamp: 1000 });
+
+  it('starts the snapshot at seq 0', () => {
+    expect(store.getGraphData().seq).toBe(0);
+  });
+
+  it('sends only the nodes an event changed', () => {
+    const delta = read('src/a.ts', 'read-start')!;
+    expect(delta.seq).toBe(1);
+    expect(delta.added).toEqual([]);
+    expect(ids(delta.updated)).toEqual([root, path.join(root, 'src'), path.join(root, 'src', 'a.ts')]);
+
+    // Ancestors are already idle - only the file changes
+    const end = read('src/a.ts')!;
+    expect(end.seq).toBe(2);
+    expect(ids(end.updated)).toEqual([root, path.join(root, 'src'), path.join(root, 'src', 'a.ts')]);
+    expect(read('src/a.ts')!.updated.map(n => n.id)).toEqual([path.join(root, 'src', 'a.ts')]);
+    expect(store.getGraphData().seq).toBe(3);
+  });
+
+  it('adds unseen files with links to their parents', () => {
+    const delta = read('docs/new.md')!;
+    expect(ids(delta.added)).toEqual([path.join(root, 'docs'), path.join(root, 'docs', 'new.md')]);
+    expect(delta.updated.map(n => n.id)).toEqual([]);
+    expect(delta.links).toContainEqual({ source: path.join(root, 'docs', 'new.md'), target: path.join(root, 'docs') });
+    expect(delta.links).toContainEqual({ source: path.join(root, 'docs'), target: root });
+  });
+
+  it('does not bump the version for events that change nothing', () => {
+    expect(store.addActivity({ type: 'search-start', filePath: `${root}:TODO`, timestamp: 1000 })).toBeNull();
+    expect(store.addActivity({ type: 'read-end', filePath: '/elsewhere/x.ts', timestamp: 1000 })).toBeNull();
+    expect(store.getGraphData().seq).toBe(0);
+  });
+
+  it('rebuilds a snapshot from the deltas', () => {
+    const graph = store.getGraphData();
+    const nodes = new Map(graph.nodes.map(n => [n.id, structuredClone(n)]));
+    const deltas = [read('src/a.ts'), read('docs/new.md'), store.clear(), read('src/a.ts', 'read-start')];
+    for (const delta of deltas) {
+      delta!.removed.forEach(id => nodes.delete(id));
+      [...delta!.added, ...delta!.updated].forEach(n => nodes.set(n.id, structuredClone(n)));
+    }
+    expect([...nodes.values()].sort((a, b) => a.id.localeCompare(b.id)))
+      .toEqual(structuredClone(store.getGraphData().nodes).sort((a, b) => a.id.localeCompare(b.id)));
+  });
+
+  it('reports folders coming in and out of ignoreDirs', () => {
+    const deltas: GraphDelta[] = [];
+    store.onGraphChange(delta => deltas.push(delta));
+    read('src/a.ts');
+
+    store.setIgnoreDirs(['src']);
+    expect(ids(deltas[0].added)).toEqual([path.join(root, 'vendor'), path.join(root, 'vendor', 'lib.js')]);
+    expect([...deltas[0].removed].sort()).toEqual([path.join(root, 'src'), path.join(root, 'src', 'a.ts')]);
+    expect(deltas[0].seq).toBe(2);
+
+    // Nothing changes the second time
+    store.setIgnoreDirs(['src']);
+    expect(deltas).toHaveLength(1);
+  });
+});
+
+describe('ActivityStore: One-sided operations', () => {
+  let root: string;
+  let store: ActivityStore;
+  let file: string;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'codemap-store-'));
+    fs.mkdirSync(path.join(root, 'src'));
+    file = path.join(root, 'src', 'a.ts');
+    fs.writeFileSync(file, '');
+    store = new ActivityStore(root, { watch: false });
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  const node = (id: string) => store.getGraphData().nodes.find(n => n.id === id)!;
+  const apply = (type: 'read-start' | 'read-end' | 'write-start' | 'write-end', timestamp: number, source = 'cursor') =>
+    store.addActivity({ type, filePath: file, source, timestamp });
+
+  it('ends a start whose end never comes', () => {
+    apply('read-start', 1000);
+    expect(store.expireOperations(1000 + OPERATION_TIMEOUT_MS - 1)).toBeNull();
+
+    const delta = store.expireOperations(1000 + OPERATION_TIMEOUT_MS)!;
+    expect(delta.updated.map(n => n.id).sort()).toEqual([root, path.join(root, 'src'), file]);
+    expect(node(file)).toMatchObject({ activeOperation: undefined, activityCount: { reads: 1 } });
+    expect(node(root).activeOperation).toBeUndefined();
+
+    // The end shows up after all - it was counted already
+    expect(apply('read-end', 9000)).toBeNull();
+    expect(node(file).activityCount.reads).toBe(1);
+  });
+
+  it('lights up a file for an end without a start', () => {
+    const delta = apply('write-end', 1000)!;
+    expect(delta.updated.map(n => n.id)).toEqual([file]);
+    expect(node(file)).toMatchObject({ activeOperation: 'write', lastActivity: { type: 'write', timestamp: 1000 }, activityCount: { writes: 1 } });
+
+    store.expireOperations(1000 + END_GLOW_MS);
+    expect(node(file)).toMatchObject({ activeOperation: undefined, activityCount: { writes: 1 } });
+  });
+
+  it('waits for the end from tools that send one', () => {
+    // A Claude Code edit waiting on a permission prompt
+    apply('write-start', 1000, 'claude');
+    expect(store.expireOperations(1000 + OPERATION_TIMEOUT_MS)).toBeNull();
+    expect(node(file)).toMatchObject({ activeOperation: 'write', activityCount: { writes: 0 } });
+
+    apply('write-end', 9000, 'claude');
+    expect(node(file)).toMatchObject({ activeOperation: undefined, activityCount: { writes: 1 }, lastActivity: { timestamp: 1000 } });
+    expect(store.getFileHistory(file)!.accesses).toEqual([{ type: 'write', agentId: undefined, timestamp: 9000 }]);
+  });
+
+  it('ends a paired start only when its tool must have died', () => {
+    apply('read-start', 1000, 'claude');
+    expect(store.expireOperations(1000 + PAIRED_OPERATION_TIMEOUT_MS - 1)).toBeNull();
+    store.expireOperations(1000 + PAIRED_OPERATION_TIMEOUT_MS);
+    expect(node(file)).toMatchObject({ activeOperation: undefined, activityCount: { reads: 1 } });
+  });
+
+  it('leaves complete operations alone', () => {
+    apply('write-start', 1000);
+    apply('write-end', 1200);
+    expect(store.expireOperations(1000 + OPERATION_TIMEOUT_MS)).toBeNull();
+    expect(node(file).activityCount.writes).toBe(1);
+  });
+});
+
+describe('ActivityStore: Searches', () => {
+  let root: string;
+  let store: ActivityStore;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'codemap-store-'));
+    for (const file of ['src/cart/checkout.ts', 'src/cart/checkout.test.ts', 'src/app.tsx', 'README.md']) {
+      fs.mkdirSync(path.dirname(path.join(root, file)), { recursive: true });
+      fs.writeFileSync(path.join(root, file), '');
+    }
+    store = new ActivityStore(root, { watch: false });
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  const file = (name: string) => path.join(root, name);
+  const node = (id: string) => store.getGraphData().nodes.find(n => n.id === id)!;
+  const matched = (filePath: string, extra: object = {}) =>
+    store.resolveSearch({ type: 'search-end', filePath, cwd: root, timestamp: 1000, ...extra }).matchedFiles!.sort();
+
+  it('matches the search\'s glob against the files under the searched path', () => {
+    expect(matched('.:**/*.ts', { glob: '**/*.ts' })).toEqual([file('src/cart/checkout.test.ts'), file('src/cart/checkout.ts')]);
+    expect(matched('src:*.{ts,tsx}', { glob: '*.{ts,tsx}' })).toEqual([file('src/app.tsx'), file('src/cart/checkout.test.ts'), file('src/cart/checkout.ts')]);
+    expect(matched('.:src/*.tsx', { glob: 'src/*.tsx' })).toEqual([file('src/app.tsx')]);
+    expect(matched('src/cart:export (function|const) \\w+', { glob: '*.test.ts' })).toEqual([file('src/cart/checkout.test.ts')]);
+  });
+
+  it('takes the files the tool found, or the file it searched', () => {
+    expect(matched('.:checkout', { matchedFiles: ['src/cart/checkout.ts', '/elsewhere/x.ts', 'src'] })).toEqual([file('src/cart/checkout.ts')]);
+    expect(matched('README.md:TODO')).toEqual([file('README.md')]);
+    expect(matched('.:TODO', { matchedFiles: [] })).toEqual([]);
+  });
+
+  it('finds nothing for a content search that listed no files', () => {
+    expect(matched('src/cart:export (function|const) \\w+')).toEqual([]);
+    // A regular expression that would also be a glob
+    expect(matched('.:check*out')).toEqual([]);
+  });
+
+  it('counts a search on the files it found and lights them up', () => {
+    expect(store.addActivity({ type: 'search-start', filePath: `${root}:**/*.tsx`, glob: '**/*.tsx', timestamp: 1000 })).toBeNull();
+
+    const end = store.resolveSearch({ type: 'search-end', filePath: `${root}:**/*.tsx`, glob: '**/*.tsx', timestamp: 1200 });
+    const delta = store.addActivity(end)!;
+    expect(delta.updated.map(n => n.id)).toEqual([file('src/app.tsx')]);
+    expect(node(file('src/app.tsx'))).toMatchObject({
+      activeOperation: 'search', lastActivity: { type: 'search', timestamp: 1200 }, activityCount: { reads: 0, writes: 0, searches: 1 }
+    });
+
+    store.expireOperations(1200 + END_GLOW_MS);
+    expect(node(file('src/app.tsx'))).toMatchObject({ activeOperation: undefined, activityCount: { searches: 1 } });
+  });
+});
+
+describe('ActivityStore: File history', () => {
+  let root: string;
+  let store: ActivityStore;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'codemap-store-'));
+    fs.mkdirSync(path.join(root, 'src'));
+    fs.writeFileSync(path.join(root, 'src/app.ts'), '');
+    fs.writeFileSync(path.join(root, 'src/util.ts'), '');
+    store = new ActivityStore(root, { watch: false });
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  const file = (name: string) => path.join(root, name);
+  const node = (id: string) => store.getGraphData().nodes.find(n => n.id === id)!;
+
+  it('records who read and wrote a file, oldest first', () => {
+    store.addActivity({ type: 'read-start', filePath: file('src/app.ts'), agentId: 'a', timestamp: 1000 });
+    store.addActivity({ type: 'read-end', filePath: file('src/app.ts'), timestamp: 1100 });
+    store.addActivity({ type: 'write-start', filePath: file('src/app.ts'), agentId: 'b', timestamp: 2000 });
+    store.addActivity({ type: 'write-end', filePath: file('src/app.ts'), agentId: 'b', timestamp: 2100 });
+    store.addActivity({ type: 'read-end', filePath: file('src/app.ts'), agentId: 'a', timestamp: 3000 });
+
+    const history = store.getFileHistory(file('src/app.ts'))!;
+    expect(history.accesses).toEqual([
+      { type: 'read', agentId: 'a', timestamp: 1100 },
+      { type: 'write', agentId: 'b', timestamp: 2100 },
+      { type: 'read', agentId: 'a', timestamp: 3000 },
+    ]);
+    expect(history.agents).toEqual([
+      { agentId: 'a', reads: 2, writes: 0, searches: 0, lastAccess: 3000 },
+      { agentId: 'b', reads: 0, writes: 1, searches: 0, lastAccess: 2100 },
+    ]);
+    expect(node(file('src/app.ts'))).toMatchObject({
+      accessedBy: ['b', 'a'], lastActivity: { type: 'read', timestamp: 3000, agentId: 'a' }
+    });
+  });
+
+  it('attributes searches and operations that timed out', () => {
+    store.addActivity(store.resolveSearch({ type: 'search-end', filePath: `${root}:*.ts`, glob: '*.ts', agentId: 'a', timestamp: 1000 }));
+    store.addActivity({ type: 'write-start', filePath: file('src/util.ts'), agentId: 'b', source: 'windsurf', timestamp: 2000 });
+    store.expireOperations(2000 + OPERATION_TIMEOUT_MS);
+
+    expect(store.getFileHistory(file('src/app.ts'))!.accesses).toEqual([{ type: 'search', agentId: 'a', timestamp: 1000 }]);
+    expect(store.getFileHistory(file('src/util.ts'))!.agents.map(a => a.agentId)).toEqual(['b', 'a']);
+  });
+
+  it('keeps the latest accesses but counts them all', () => {
+    for (let i = 0; i < MAX_FILE_HISTORY + 5; i++) {
+      store.addActivity({ type: 'read-end', filePath: file('src/app.ts'), agentId: 'a', timestamp: 1000 + i });
+    }
+
+    const history = store.getFileHistory(file('src/app.ts'))!;
+    expect(history.accesses).toHaveLength(MAX_FILE_HISTORY);
+    expect(history.accesses[0].timestamp).toBe(1005);
+    expect(history.agents[0].reads).toBe(MAX_FILE_HISTORY + 5);
+  });
+
+  it('has no history for folders or unknown files, and forgets it on reset', () => {
+    store.addActivity({ type: 'read-end', filePath: file('src/app.ts'), agentId: 'a', timestamp: 1000 });
+
+    expect(store.getFileHistory(file('src'))).toBeNull();
+    expect(store.getFileHistory(file('src/missing.ts'))).toBeNull();
+
+    store.resetActivity();
+    expect(store.getFileHistory(file('src/app.ts'))).toEqual({ path: file('src/app.ts'), accesses: [], agents: [] });
+    expect(node(file('src/app.ts')).accessedBy).toBeUndefined();
+  });
+});
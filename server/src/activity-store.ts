@@ -1,17 +1,62 @@
 import path from 'path';
 import fs from 'fs';
 import chokidar, { FSWatcher } from 'chokidar';
-import { FileActivityEvent, GraphNode, GraphLink, GraphData } from './types.js';
+import { FileAccess, FileActivityEvent, FileAgentAccess, FileHistory, GraphNode, GraphLink, GraphData, GraphDelta } from './types.js';
+import { MAX_SEARCH_MATCHES, globMatcher, parseSearchPath } from './search-match.js';
+import { getAdapter } from './adapters/index.js';
+
+export interface ActivityStoreOptions {
+  watch?: boolean;  // Watch the filesystem for created/deleted files (default true)
+  ignoreDirs?: string[];  // Folder names left out of the tree
+}
+
+// Never part of the tree - the event log lives in .codemap and would feed back into the watcher
+const ALWAYS_IGNORED = ['.git', '.codemap'];
+
+// Cursor and Windsurf report only the start of a read and the end of an edit. Their
+// starts are ended after OPERATION_TIMEOUT_MS; an end without a start lights its file
+// up for END_GLOW_MS - as does every file a search matched. Other tools send both
+// sides, and their end wins - a start waits for it (through a permission prompt, say)
+// for up to PAIRED_OPERATION_TIMEOUT_MS, in case the tool died mid-operation.
+export const OPERATION_TIMEOUT_MS = 5000;
+export const PAIRED_OPERATION_TIMEOUT_MS = 10 * 60 * 1000;
+export const END_GLOW_MS = 1500;
+
+// Accesses kept per file for GET /api/files/history (per-agent counts cover all of them)
+export const MAX_FILE_HISTORY = 100;
+
+type Operation = 'read' | 'write' | 'search';
+
+interface OpenOperation {
+  operation: Operation;
+  agentId?: string;
+  expiresAt: number;
+  ended: boolean;  // Already counted - expiring only stops the glow
+}
 
 export class ActivityStore {
   private nodes: Map<string, GraphNode> = new Map();
   private projectRoot: string;
   private watcher: FSWatcher | null = null;
-  private onChangeCallback: ((data: GraphData) => void) | null = null;
-  private ignoreDirs = ['node_modules', '.git', 'dist', '.playwright-mcp', '.claude'];
-
-  constructor(projectRoot: string) {
+  private onChangeCallback: ((delta: GraphDelta) => void) | null = null;
+  private ignoreDirs: string[];
+  // Graph version - bumped by every delta, so clients can spot a missed one
+  private seq = 0;
+  // Node ids changed since the last delta
+  private added: Set<string> = new Set();
+  private updated: Set<string> = new Set();
+  private removed: Set<string> = new Set();
+  // File operations still glowing, by node id
+  private open: Map<string, OpenOperation> = new Map();
+  // Operations ended by timeout - their late end is not counted again
+  private timedOut: Map<string, Operation> = new Map();
+  // Counted accesses by node id - the latest few, and every agent's totals
+  private accesses: Map<string, FileAccess[]> = new Map();
+  private agentAccesses: Map<string, Map<string, FileAgentAccess>> = new Map();
+
+  constructor(projectRoot: string, options: ActivityStoreOptions = {}) {
     this.projectRoot = projectRoot;
+    this.ignoreDirs = this.withAlwaysIgnored(options.ignoreDirs ?? ['node_modules', 'dist', '.playwright-mcp', '.claude']);
     // Add project root as the central node
     this.nodes.set(projectRoot, {
       id: projectRoot,
@@ -23,20 +68,19 @@ export class ActivityStore {
     // Scan directory on startup
     this.scanDirectory(projectRoot);
     // Start watching for filesystem changes
-    this.startWatching();
+    if (options.watch !== false) {
+      this.startWatching();
+    }
   }
 
-  // Set callback for when graph changes (file created/deleted)
-  onGraphChange(callback: (data: GraphData) => void): void {
+  // Set callback for graph changes nobody asked for (file created/deleted, ignoreDirs edited)
+  onGraphChange(callback: (delta: GraphDelta) => void): void {
     this.onChangeCallback = callback;
   }
 
   private startWatching(): void {
     this.watcher = chokidar.watch(this.projectRoot, {
-      ignored: (filePath: string) => {
-        // Ignore specified directories
-        return this.ignoreDirs.some(dir => filePath.includes(`/${dir}/`) || filePath.endsWith(`/${dir}`));
-      },
+      ignored: (filePath: string) => this.isIgnored(filePath),
       persistent: true,
       ignoreInitial: true, // Don't fire events for existing files
       awaitWriteFinish: { stabilityThreshold: 100, pollInterval: 50 }
@@ -70,6 +114,7 @@ export class ActivityStore {
           depth: i,
           activityCount: { reads: 0, writes: 0, searches: 0 }
         });
+        this.trackAdded(currentPath);
       }
     }
 
@@ -82,6 +127,7 @@ export class ActivityStore {
         depth,
         activityCount: { reads: 0, writes: 0, searches: 0 }
       });
+      this.trackAdded(filePath);
       console.log(`[${new Date().toISOString()}] File added: ${relativePath}`);
       this.notifyChange();
     }
@@ -100,18 +146,59 @@ export class ActivityStore {
     }
 
     if (toRemove.length > 0) {
-      toRemove.forEach(p => this.nodes.delete(p));
+      toRemove.forEach(p => {
+        this.nodes.delete(p);
+        this.forgetAccesses(p);
+        this.trackRemoved(p);
+      });
       console.log(`[${new Date().toISOString()}] File removed: ${relativePath}`);
       this.notifyChange();
     }
   }
 
   private notifyChange(): void {
-    if (this.onChangeCallback) {
-      this.onChangeCallback(this.getGraphData());
+    const delta = this.takeDelta();
+    if (delta && this.onChangeCallback) {
+      this.onChangeCallback(delta);
     }
   }
 
+  private trackAdded(id: string): void {
+    this.removed.delete(id);
+    this.added.add(id);
+  }
+
+  private trackUpdated(id: string): void {
+    if (!this.added.has(id)) this.updated.add(id);
+  }
+
+  private trackRemoved(id: string): void {
+    this.added.delete(id);
+    this.updated.delete(id);
+    this.removed.add(id);
+  }
+
+  // Bundle the changes tracked since the last delta under the next version (null if none)
+  private takeDelta(): GraphDelta | null {
+    if (this.added.size === 0 && this.updated.size === 0 && this.removed.size === 0) {
+      return null;
+    }
+
+    const nodesFor = (ids: Set<string>) => Array.from(ids, id => this.nodes.get(id)).filter(node => node !== undefined);
+    const added = nodesFor(this.added);
+    const delta: GraphDelta = {
+      seq: ++this.seq,
+      added,
+      updated: nodesFor(this.updated),
+      removed: Array.from(this.removed),
+      links: added.map(node => this.linkToParent(node)).filter(link => link !== null),
+    };
+    this.added.clear();
+    this.updated.clear();
+    this.removed.clear();
+    return delta;
+  }
+
   stopWatching(): void {
     if (this.watcher) {
       this.watcher.close();
@@ -119,6 +206,39 @@ export class ActivityStore {
     }
   }
 
+  private withAlwaysIgnored(dirs: string[]): string[] {
+    return Array.from(new Set([...dirs, ...ALWAYS_IGNORED]));
+  }
+
+  // Is the path inside (or itself) one of the ignored folders?
+  private isIgnored(filePath: string): boolean {
+    const relativePath = path.relative(this.projectRoot, filePath);
+    return relativePath.split(path.sep).some(part => this.ignoreDirs.includes(part));
+  }
+
+  // Change ignored folders and rebuild the tree (activity on surviving nodes is kept)
+  setIgnoreDirs(dirs: string[]): void {
+    const previous = this.nodes;
+    this.ignoreDirs = this.withAlwaysIgnored(dirs);
+    this.nodes = new Map();
+    this.scanDirectory(this.projectRoot);
+    for (const [id, node] of previous) {
+      if (!this.isIgnored(id)) {
+        this.nodes.set(id, node);
+      }
+    }
+
+    for (const id of previous.keys()) {
+      if (this.nodes.has(id)) continue;
+      this.forgetAccesses(id);
+      this.trackRemoved(id);
+    }
+    for (const id of this.nodes.keys()) {
+      if (!previous.has(id)) this.trackAdded(id);
+    }
+    this.notifyChange();
+  }
+
   private scanDirectory(dir: string, depth: number = 0): void {
     try {
       const entries = fs.readdirSync(dir, { withFileTypes: true });
@@ -145,18 +265,22 @@ export class ActivityStore {
     }
   }
 
-  addActivity(event: FileActivityEvent): GraphData {
-    // Search events contain patterns, not file paths - just return current state
-    // The client will handle pattern matching and visual feedback
+  // Apply a file event - returns the nodes it changed (null if none). A search-end
+  // must come from resolveSearch, so that it's resolved once for the log and the graph.
+  addActivity(event: FileActivityEvent): GraphDelta | null {
+    // Search events carry a pattern, not a file - their end lights up the files found
     if (event.type.startsWith('search')) {
-      return this.getGraphData();
+      for (const filePath of event.type === 'search-end' ? event.matchedFiles ?? [] : []) {
+        this.applySearch(filePath, event);
+      }
+      return this.takeDelta();
     }
 
     const relativePath = path.relative(this.projectRoot, event.filePath);
 
     // Skip files outside project root
     if (relativePath.startsWith('..')) {
-      return this.getGraphData();
+      return null;
     }
 
     const parts = relativePath.split(path.sep);
@@ -175,66 +299,199 @@ export class ActivityStore {
           depth: i,
           activityCount: { reads: 0, writes: 0, searches: 0 }
         });
+        this.trackAdded(currentPath);
       }
 
       if (isFile) {
-        const node = this.nodes.get(currentPath)!;
-        const baseType = event.type.startsWith('read') ? 'read' : 'write';
-        const isStart = event.type.endsWith('-start');
-
-        if (isStart) {
-          // Mark as active operation
-          node.activeOperation = baseType;
-          node.lastActivity = { type: baseType, timestamp: event.timestamp };
-        } else {
-          // End of operation - clear active state and increment count
-          node.activeOperation = undefined;
-          if (baseType === 'read') {
-            node.activityCount.reads++;
-          } else {
-            node.activityCount.writes++;
-          }
-        }
+        this.applyOperation(currentPath, event);
+      }
+    }
 
-        // Also mark ancestor folders as active during operation
-        let ancestorPath = path.dirname(currentPath);
-        while (ancestorPath.startsWith(this.projectRoot)) {
-          const ancestorNode = this.nodes.get(ancestorPath);
-          if (ancestorNode) {
-            if (isStart) {
-              ancestorNode.activeOperation = baseType;
-            } else {
-              ancestorNode.activeOperation = undefined;
-            }
-          }
-          if (ancestorPath === this.projectRoot) break;
-          ancestorPath = path.dirname(ancestorPath);
+    return this.takeDelta();
+  }
+
+  private applyOperation(filePath: string, event: FileActivityEvent): void {
+    const node = this.nodes.get(filePath)!;
+    const operation: Operation = event.type.startsWith('read') ? 'read' : 'write';
+    const open = this.open.get(filePath);
+
+    if (event.type.endsWith('-start')) {
+      // Mark as active operation
+      node.activeOperation = operation;
+      node.lastActivity = { type: operation, timestamp: event.timestamp, agentId: event.agentId };
+      const timeout = getAdapter(event.source)?.oneSidedFileEvents ? OPERATION_TIMEOUT_MS : PAIRED_OPERATION_TIMEOUT_MS;
+      this.open.set(filePath, { operation, agentId: event.agentId, expiresAt: event.timestamp + timeout, ended: false });
+      this.timedOut.delete(filePath);
+      this.setAncestorsActive(filePath, operation);
+    } else if (open && !open.ended && open.operation === operation) {
+      // End of operation - clear active state and increment count
+      this.open.delete(filePath);
+      node.activeOperation = undefined;
+      this.count(filePath, operation, event.agentId ?? open.agentId, event.timestamp);
+      this.setAncestorsActive(filePath, undefined);
+    } else if (this.timedOut.get(filePath) === operation) {
+      // Counted when it timed out
+      this.timedOut.delete(filePath);
+      return;
+    } else {
+      // An end without a start - count it and light the file up for a moment
+      node.activeOperation = operation;
+      node.lastActivity = { type: operation, timestamp: event.timestamp, agentId: event.agentId };
+      this.open.set(filePath, { operation, agentId: event.agentId, expiresAt: event.timestamp + END_GLOW_MS, ended: true });
+      this.count(filePath, operation, event.agentId, event.timestamp);
+    }
+    this.trackUpdated(filePath);
+  }
+
+  private applySearch(filePath: string, { agentId, timestamp }: FileActivityEvent): void {
+    const node = this.nodes.get(filePath)!;
+    this.count(filePath, 'search', agentId, timestamp);
+    node.lastActivity = { type: 'search', timestamp, agentId };
+    // A read or write still running keeps its glow
+    const open = this.open.get(filePath);
+    if (!open || open.ended) {
+      node.activeOperation = 'search';
+      this.open.set(filePath, { operation: 'search', agentId, expiresAt: timestamp + END_GLOW_MS, ended: true });
+    }
+    this.trackUpdated(filePath);
+  }
+
+  /**
+   * A search-end with `matchedFiles` set to the files it found (node ids, at most
+   * MAX_SEARCH_MATCHES): the tool's own list when it sent one, otherwise the searched
+   * file, or the files under the searched path that match the search's glob. A content
+   * search without either found nothing we know of. Other events come back as they are.
+   */
+  resolveSearch(event: FileActivityEvent): FileActivityEvent {
+    if (event.type !== 'search-end') return event;
+    const base = event.cwd ?? this.projectRoot;
+    const isFile = (id: string) => this.nodes.get(id)?.isFolder === false;
+
+    let matched: string[] = [];
+    const search = parseSearchPath(event.filePath);
+    if (event.matchedFiles) {
+      matched = event.matchedFiles.map(file => path.resolve(base, file)).filter(isFile);
+    } else if (search) {
+      const dir = path.resolve(base, search.searchPath);
+      if (isFile(dir)) {
+        matched = [dir];
+      } else if (event.glob) {
+        const matches = globMatcher(event.glob);
+        for (const id of this.nodes.keys()) {
+          if (!id.startsWith(dir + path.sep) || !isFile(id)) continue;
+          if (matches(path.relative(dir, id).split(path.sep).join('/'))) matched.push(id);
         }
       }
     }
+    return { ...event, matchedFiles: Array.from(new Set(matched)).slice(0, MAX_SEARCH_MATCHES) };
+  }
+
+  // Count an access on the file, and remember who made it and when
+  private count(filePath: string, operation: Operation, agentId: string | undefined, timestamp: number): void {
+    const node = this.nodes.get(filePath)!;
+    const key = operation === 'read' ? 'reads' : operation === 'write' ? 'writes' : 'searches';
+    node.activityCount[key]++;
+
+    const accesses = this.accesses.get(filePath) ?? [];
+    accesses.push({ type: operation, agentId, timestamp });
+    this.accesses.set(filePath, accesses.slice(-MAX_FILE_HISTORY));
+    if (!agentId) return;
+
+    const agents = this.agentAccesses.get(filePath) ?? new Map<string, FileAgentAccess>();
+    const agent = agents.get(agentId) ?? { agentId, reads: 0, writes: 0, searches: 0, lastAccess: timestamp };
+    agent[key]++;
+    agent.lastAccess = Math.max(agent.lastAccess, timestamp);
+    agents.set(agentId, agent);
+    this.agentAccesses.set(filePath, agents);
+    node.accessedBy = [...(node.accessedBy ?? []).filter(id => id !== agentId), agentId];
+  }
+
+  private forgetAccesses(filePath: string): void {
+    this.accesses.delete(filePath);
+    this.agentAccesses.delete(filePath);
+  }
 
-    return this.getGraphData();
+  /** Who accessed a file and when, or null if it isn't a file in the tree */
+  getFileHistory(filePath: string): FileHistory | null {
+    if (this.nodes.get(filePath)?.isFolder !== false) return null;
+    const agents = Array.from(this.agentAccesses.get(filePath)?.values() ?? [], agent => ({ ...agent }));
+    return {
+      path: filePath,
+      accesses: [...(this.accesses.get(filePath) ?? [])],
+      agents: agents.sort((a, b) => b.lastAccess - a.lastAccess),
+    };
+  }
+
+  // Mark ancestor folders as active during an operation
+  private setAncestorsActive(filePath: string, operation: Operation | undefined): void {
+    let ancestorPath = path.dirname(filePath);
+    while (ancestorPath.startsWith(this.projectRoot)) {
+      const ancestorNode = this.nodes.get(ancestorPath);
+      if (ancestorNode && ancestorNode.activeOperation !== operation) {
+        ancestorNode.activeOperation = operation;
+        this.trackUpdated(ancestorPath);
+      }
+      if (ancestorPath === this.projectRoot) break;
+      ancestorPath = path.dirname(ancestorPath);
+    }
   }
 
+  /**
+   * Supply the missing half of operations that are past their time: a start is ended
+   * (and counted), an end stops glowing. Returns the nodes it changed (null if none).
+   */
+  expireOperations(now: number): GraphDelta | null {
+    for (const [filePath, open] of this.open) {
+      if (open.expiresAt > now) continue;
+      this.open.delete(filePath);
+      const node = this.nodes.get(filePath);
+      if (!node) continue;
+
+      if (!open.ended) {
+        this.count(filePath, open.operation, open.agentId, now);
+        this.timedOut.set(filePath, open.operation);
+        this.setAncestorsActive(filePath, undefined);
+      }
+      node.activeOperation = undefined;
+      this.trackUpdated(filePath);
+    }
+    return this.takeDelta();
+  }
+
+  // Full snapshot - later deltas continue from its seq
   getGraphData(): GraphData {
     const nodes = Array.from(this.nodes.values());
     const links: GraphLink[] = [];
 
     // Create links from children to parents
     for (const node of nodes) {
-      if (node.id !== this.projectRoot) {
-        const parentPath = path.dirname(node.id);
-        if (this.nodes.has(parentPath)) {
-          links.push({ source: node.id, target: parentPath });
-        }
-      }
+      const link = this.linkToParent(node);
+      if (link) links.push(link);
     }
 
-    return { nodes, links };
+    return { seq: this.seq, nodes, links };
+  }
+
+  getNodeCount(): number {
+    return this.nodes.size;
+  }
+
+  private linkToParent(node: GraphNode): GraphLink | null {
+    if (node.id === this.projectRoot) return null;
+    const parentPath = path.dirname(node.id);
+    return this.nodes.has(parentPath) ? { source: node.id, target: parentPath } : null;
   }
 
-  clear(): void {
+  // Drop every node but the root - returns the change for clients
+  clear(): GraphDelta | null {
+    for (const id of this.nodes.keys()) {
+      this.trackRemoved(id);
+    }
     this.nodes.clear();
+    this.open.clear();
+    this.timedOut.clear();
+    this.accesses.clear();
+    this.agentAccesses.clear();
     // Re-add the root node
     this.nodes.set(this.projectRoot, {
       id: this.projectRoot,
@@ -243,6 +500,27 @@ export class ActivityStore {
       depth: -1,
       activityCount: { reads: 0, writes: 0, searches: 0 }
     });
+    this.trackAdded(this.projectRoot);
+    return this.takeDelta();
+  }
+
+  // Zero all activity while keeping the file tree (used when rewinding a replay)
+  resetActivity(): GraphDelta | null {
+    for (const node of this.nodes.values()) {
+      if (node.activityCount.reads || node.activityCount.writes || node.activityCount.searches ||
+          node.activeOperation || node.lastActivity || node.accessedBy) {
+        this.trackUpdated(node.id);
+      }
+      node.activityCount = { reads: 0, writes: 0, searches: 0 };
+      node.activeOperation = undefined;
+      node.lastActivity = undefined;
+      node.accessedBy = undefined;
+    }
+    this.open.clear();
+    this.timedOut.clear();
+    this.accesses.clear();
+    this.agentAccesses.clear();
+    return this.takeDelta();
   }
 
   /**
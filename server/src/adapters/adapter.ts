@@ -0,0 +1,18 @@
+// Agent adapters - one per tool CodeMap can watch
+// An adapter recognizes the payloads its tool sends, turns them into the server's
+// events, and says how its agents look. Supporting a new tool is one module that
+// exports an adapter, added to ADAPTERS (adapters/index.ts).
+
+import type { AgentSource, IncomingEvent, SourceDisplay } from '../types.js';
+import type { HookContext, HookEvent, HookPayload } from './hook-events.js';
+
+export interface AgentAdapter {
+  source: AgentSource;  // Id events carry in their source field (lowercase, no spaces)
+  display: SourceDisplay;
+  // Reports only the start of a read and the end of an edit - the server ends its starts itself
+  oneSidedFileEvents?: boolean;
+  /** Whether a payload came from this tool - the first adapter that claims it gets it */
+  detect(payload: HookPayload): boolean;
+  /** Events for one hook invocation - none when the payload is missing what they need */
+  toEvents(event: HookEvent, payload: HookPayload, context: HookContext): IncomingEvent[];
+}
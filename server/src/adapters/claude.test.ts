@@ -0,0 +1,64 @@
+/**
+ * Claude Code Adapter Tests
+ *
+ * Tests the adapter on its own, against recorded Claude Code hook payloads.
+ * The Claude Code adapter is responsible for:
+ * - Claiming payloads with a session_id, and only those without a conversation_id
+ * - Using the session id as the agent id and the payload's cwd for the project
+ * - Taking the file, command and tool from tool_input and tool_name
+ * - Producing nothing for a payload without a session
+ */
+
+import { describe, it, expect } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { claude } from './claude.js';
+import { HookPayload } from './hook-events.js';
+import { validateEvent } from '../event-validation.js';
+
+const FIXTURES = path.join(path.dirname(fileURLToPath(import.meta.url)), '..', 'fixtures', 'hook-payloads');
+const CONTEXT = { now: 1760000000000, cwd: '/hook/cwd' };
+const SESSION = '9f2c4e1a-7b3d-4c8e-a1f0-5d6b7c8e9f01';
+
+function fixture(name: string): HookPayload {
+  return JSON.parse(fs.readFileSync(path.join(FIXTURES, `${name}.json`), 'utf-8'));
+}
+
+describe('Claude Code adapter', () => {
+  it('claims payloads with a session id', () => {
+    expect(claude.detect(fixture('claude-pre-read'))).toBe(true);
+    expect(claude.detect(fixture('cursor-before-read-file'))).toBe(false);
+    expect(claude.detect(fixture('windsurf-before-read-file'))).toBe(false);
+    expect(claude.detect({ session_id: SESSION, conversation_id: SESSION })).toBe(false);
+  });
+
+  it('turns a read into file activity and the tool running', () => {
+    const events = claude.toEvents('read-start', fixture('claude-pre-read'), CONTEXT);
+
+    expect(events.map(e => [e.kind, e.event.type])).toEqual([['activity', 'read-start'], ['thinking', 'thinking-end']]);
+    expect(events[0].event).toMatchObject({
+      filePath: '/Users/dev/shop/src/cart/checkout.ts', agentId: SESSION, source: 'claude', cwd: '/Users/dev/shop', timestamp: CONTEXT.now,
+    });
+    expect(events[1].event).toMatchObject({ toolName: 'Read' });
+    expect(events.every(e => validateEvent(e.event).ok)).toBe(true);
+  });
+
+  it('ends the tool with the edit', () => {
+    const events = claude.toEvents('write-end', fixture('claude-post-edit'), CONTEXT);
+
+    expect(events.map(e => e.event.type)).toEqual(['write-end', 'thinking-start']);
+    expect(events[1].event).toMatchObject({ toolName: 'Edit' });
+  });
+
+  it('takes a shell command from the tool input', () => {
+    const [event] = claude.toEvents('thinking-end', fixture('claude-pre-bash'), CONTEXT);
+
+    expect(event.event).toMatchObject({ type: 'thinking-end', toolName: 'Bash', command: 'grep -rn "TODO" src \\\n  | head -20' });
+  });
+
+  it('produces nothing without a session', () => {
+    const { session_id: _, ...payload } = fixture('claude-pre-read');
+    expect(claude.toEvents('read-start', payload, CONTEXT)).toEqual([]);
+  });
+});
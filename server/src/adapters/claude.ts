@@ -0,0 +1,19 @@
+// Claude Code - hooks from .claude/settings.local.json
+// Payloads carry session_id, cwd, tool_name and tool_input; status line payloads also
+// their context_window.
+
+import { AgentAdapter } from './adapter.js';
+import { hookEvents, obj, str } from './hook-events.js';
+
+export const claude: AgentAdapter = {
+  source: 'claude',
+  display: { name: 'Claude Code', color: '#D97757', icon: '*' },
+
+  detect: (payload) => str(payload.session_id) !== undefined && payload.conversation_id === undefined,
+
+  toEvents(event, payload, context) {
+    const agentId = str(payload.session_id);
+    if (!agentId) return [];
+    return hookEvents(event, payload, { source: 'claude', agentId, input: obj(payload.tool_input) }, context);
+  }
+};
@@ -0,0 +1,68 @@
+/**
+ * Cursor Adapter Tests
+ *
+ * Tests the adapter on its own, against recorded Cursor hook payloads.
+ * The Cursor adapter is responsible for:
+ * - Claiming payloads with a cursor_version
+ * - Using the conversation id as the agent id and the first workspace root for the project
+ * - Naming the tool after the hook (beforeReadFile is a Read, afterShellExecution a Shell)
+ * - Reporting what the agent thought as its last message
+ * - Asking the server to end the reads and edits it only reports one side of
+ */
+
+import { describe, it, expect } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { cursor } from './cursor.js';
+import { HookPayload } from './hook-events.js';
+import { validateEvent } from '../event-validation.js';
+
+const FIXTURES = path.join(path.dirname(fileURLToPath(import.meta.url)), '..', 'fixtures', 'hook-payloads');
+const CONTEXT = { now: 1760000000000, cwd: '/hook/cwd' };
+const CONVERSATION = '5b8e2f10-6c4d-4a9e-b7f3-2d1e0c9a8b76';
+
+function fixture(name: string): HookPayload {
+  return JSON.parse(fs.readFileSync(path.join(FIXTURES, `${name}.json`), 'utf-8'));
+}
+
+describe('Cursor adapter', () => {
+  it('claims payloads with a cursor version', () => {
+    expect(cursor.detect(fixture('cursor-before-read-file'))).toBe(true);
+    expect(cursor.detect(fixture('windsurf-before-read-file'))).toBe(false);
+    expect(cursor.detect(fixture('claude-pre-read'))).toBe(false);
+    expect(cursor.oneSidedFileEvents).toBe(true);
+  });
+
+  it('turns a file read into activity and a Read', () => {
+    const events = cursor.toEvents('read-start', fixture('cursor-before-read-file'), CONTEXT);
+
+    expect(events.map(e => [e.kind, e.event.type])).toEqual([['activity', 'read-start'], ['thinking', 'thinking-end']]);
+    expect(events[0].event).toMatchObject({
+      filePath: '/home/dev/shop/src/cart/checkout.ts', agentId: CONVERSATION, source: 'cursor', cwd: '/home/dev/shop',
+    });
+    expect(events[1].event).toMatchObject({ toolName: 'Read' });
+    expect(events.every(e => validateEvent(e.event).ok)).toBe(true);
+  });
+
+  it('names a shell hook after its command', () => {
+    const [event] = cursor.toEvents('thinking-start', fixture('cursor-after-shell'), CONTEXT);
+
+    expect(event.event).toMatchObject({
+      type: 'thinking-start', toolName: 'Shell', command: 'npm test -- --run cart', duration: 1840, model: 'gpt-5',
+    });
+  });
+
+  it('reports a thought as the last message', () => {
+    const [event] = cursor.toEvents('thinking-start', fixture('cursor-after-agent-thought'), CONTEXT);
+
+    expect(event.event).toMatchObject({
+      lastMessage: 'The rounding happens before tax is applied, so the totals drift by a cent.', duration: 3200,
+    });
+  });
+
+  it('produces nothing without a conversation', () => {
+    const { conversation_id: _, ...payload } = fixture('cursor-before-read-file');
+    expect(cursor.toEvents('read-start', payload, CONTEXT)).toEqual([]);
+  });
+});
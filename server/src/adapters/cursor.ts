@@ -0,0 +1,36 @@
+// Cursor - hooks from .cursor/hooks.json
+// Payloads carry conversation_id, cursor_version and workspace_roots. Hooks are named
+// after what they do rather than a tool, and put the command or file path at the top
+// level (its MCP hooks send tool_input as a string).
+
+import { AgentAdapter } from './adapter.js';
+import { hookEvents, message, obj, str } from './hook-events.js';
+
+// Cursor names its hooks after what they do, not the tool - these stand for one
+const HOOK_TOOLS: Record<string, string> = {
+  beforeReadFile: 'Read',
+  afterFileEdit: 'Edit',
+  beforeShellExecution: 'Shell',
+  afterShellExecution: 'Shell'
+};
+
+export const cursor: AgentAdapter = {
+  source: 'cursor',
+  display: { name: 'Cursor', color: '#303030', icon: '>' },
+  oneSidedFileEvents: true,
+
+  detect: (payload) => payload.cursor_version !== undefined && payload.cursor_version !== null,
+
+  toEvents(event, payload, context) {
+    const agentId = str(payload.conversation_id);
+    if (!agentId) return [];
+    return hookEvents(event, payload, {
+      source: 'cursor',
+      agentId,
+      input: payload.tool_input === undefined ? payload : obj(payload.tool_input),
+      toolName: HOOK_TOOLS[str(payload.hook_event_name) ?? ''],
+      // afterAgentThought carries what the agent thought
+      lastMessage: message(payload.text)
+    }, context);
+  }
+};
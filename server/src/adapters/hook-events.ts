@@ -0,0 +1,302 @@
+// Hook events - what the hook-based tools' payloads have in common
+// Claude Code, Cursor and Windsurf each send their hooks a JSON payload with fields of
+// their own, but they mostly agree on the rest (tool_name, tool_input, model, agent_type,
+// duration...). An adapter pulls out what is its own - the agent id, the tool input,
+// a tool name its hooks imply - and hookEvents() maps the rest onto activity/thinking events.
+
+import path from 'path';
+import { createHash } from 'crypto';
+import { redactCommand } from '../redact.js';
+import type { AgentSource, FileActivityEvent, IncomingEvent, ThinkingEvent } from '../types.js';
+
+// Tool input shown in the agent's bubble is cut to this length
+const TOOL_INPUT_LENGTH = 30;
+const AGENT_NAME_LENGTH = 20;
+const MESSAGE_LENGTH = 200;
+
+/** Events a hook can report (first argument of `codemap hook`) */
+export type HookEvent = FileActivityEvent['type'] | ThinkingEvent['type'] | 'git-commit';
+
+export const HOOK_EVENTS: HookEvent[] = [
+  'read-start', 'read-end', 'write-start', 'write-end', 'search-start', 'search-end',
+  'thinking-start', 'thinking-end', 'agent-stop', 'git-commit',
+  'session-start', 'session-end', 'prompt-submit', 'subagent-stop', 'pre-compact'
+];
+
+/** Raw JSON a tool hands its hooks on stdin (Claude Code, Cursor and Windsurf use different fields) */
+export type HookPayload = Record<string, unknown>;
+
+export interface HookContext {
+  now: number;
+  cwd?: string;  // Used when the payload has no cwd or workspace root (the hook's working directory)
+  contextUsage?: number;  // From the session transcript, when the payload doesn't report it
+}
+
+/** What an adapter read from its payload - hookEvents() takes the rest from the shared fields */
+export interface HookFields {
+  source: AgentSource;
+  agentId: string;
+  input: HookPayload;  // The tool's arguments (file_path, command, pattern...)
+  toolName?: string;  // For payloads without tool_name - the hook itself stands for a tool
+  toolInput?: string;  // Text to show for the tool input, when the payload has its own
+  lastMessage?: string;  // What the agent last said or thought
+}
+
+// Non-empty string field, or undefined (matches jq's `// empty` plus the scripts' -n checks)
+export function str(value: unknown): string | undefined {
+  return typeof value === 'string' && value !== '' ? value : undefined;
+}
+
+export function num(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+export function obj(value: unknown): HookPayload {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value as HookPayload : {};
+}
+
+// Agent text on one line, cut for the bubble
+export function message(value: unknown): string | undefined {
+  return str(str(value)?.replace(/\s+/g, ' ').trim().slice(0, MESSAGE_LENGTH));
+}
+
+// Drop undefined fields so the JSON only carries what the payload had
+export function compact<T extends object>(value: T): T {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as T;
+}
+
+// Percentage of the context window in use (0-100)
+export function percentage(value: unknown): number | undefined {
+  const n = num(value);
+  return n === undefined ? undefined : Math.min(100, Math.max(0, Math.round(n * 10) / 10));
+}
+
+/** Agent id (a UUID, like a session id) that always comes out the same for the same text */
+export function stableUuid(seed: string): string {
+  const h = createHash('sha256').update(seed).digest('hex');
+  return `${h.slice(0, 8)}-${h.slice(8, 12)}-${h.slice(12, 16)}-${h.slice(16, 20)}-${h.slice(20, 32)}`;
+}
+
+/** MCP tools are named mcp__<server>__<tool> */
+export function parseMcpToolName(toolName: string | undefined): { server: string; tool: string } | null {
+  const match = toolName?.match(/^mcp__(.+?)__(.+)$/);
+  return match ? { server: match[1], tool: match[2] } : null;
+}
+
+// Text for the bubble - redacted before it is cut, so a cut can't keep part of a secret
+// from the rules that would catch it (the server redacts again, but only sees the cut text)
+function bubbleText(text: string | undefined, length: number): string | undefined {
+  return text === undefined ? undefined : redactCommand(text).slice(0, length);
+}
+
+// Short description of what a tool is working on, for the bubble
+export function describeToolInput(toolName: string | undefined, input: HookPayload, length = TOOL_INPUT_LENGTH): string | undefined {
+  let text: string | undefined;
+  switch (toolName) {
+    case 'Read':
+    case 'Write':
+    case 'Edit': {
+      const filePath = str(input.file_path);
+      // win32.basename splits on both separators
+      text = filePath && path.win32.basename(filePath);
+      break;
+    }
+    case 'Bash':
+    case 'Shell':
+      text = str(input.command);
+      break;
+    case 'Grep':
+    case 'Glob':
+      text = str(input.pattern);
+      break;
+    case 'Task':
+      text = str(input.subagent_type) ?? str(input.description);
+      break;
+    case 'Skill':
+      text = str(input.skill) ?? str(input.name);
+      break;
+  }
+  return bubbleText(text, length);
+}
+
+// Search events carry "<path>:<pattern>" as their file path
+export function searchPath(input: HookPayload): string | undefined {
+  const pattern = str(input.pattern);
+  return pattern && `${str(input.path) ?? '.'}:${pattern}`;
+}
+
+// Glob a search's files match, by tool: a Glob's pattern is one, a Grep's is a regular
+// expression (only its glob parameter says which files it looked in)
+export function searchGlob(toolName: string | undefined, input: HookPayload): string | undefined {
+  return toolName === 'Glob' ? str(input.pattern) : str(input.glob);
+}
+
+/** Files a search tool reported finding - Claude's Grep and Glob list them in their response */
+export function responseFiles(response: unknown): string[] | undefined {
+  const files = obj(response).filenames;
+  return Array.isArray(files) && files.every(file => typeof file === 'string') ? files : undefined;
+}
+
+// Exit code of a finished shell command, from tool_response (or the payload, for tools
+// that report it at the top level). Claude's Bash response has none - but Claude runs
+// PostToolUse only for tools that succeeded, and PostToolUseFailure, whose error starts
+// with "Exit code N", for the others.
+function exitCodeOf(payload: HookPayload): number | undefined {
+  const response = obj(payload.tool_response);
+  const code = num(response.exit_code) ?? num(response.exitCode) ?? num(payload.exit_code);
+  if (code !== undefined) return Math.trunc(code);
+  if (typeof response.stdout === 'string') return response.interrupted === true ? 130 : 0;
+  if (payload.hook_event_name === 'PostToolUseFailure') {
+    if (payload.is_interrupt === true) return 130;
+    const match = str(payload.error)?.match(/^Exit code (\d+)/);
+    return match ? Number(match[1]) : 1;
+  }
+  return undefined;
+}
+
+// Working directory routes events to the right project (Claude sends cwd, Cursor and Windsurf their workspace roots)
+export function payloadCwd(payload: HookPayload): string | undefined {
+  const roots = Array.isArray(payload.workspace_roots) ? payload.workspace_roots : [];
+  return str(payload.cwd) ?? str(roots[0]);
+}
+
+/**
+ * Turn one hook invocation into events, once the adapter has read its own fields.
+ * Pure - the caller supplies the clock and working directory. git-commit isn't an
+ * agent event and gives none.
+ */
+export function hookEvents(event: HookEvent, payload: HookPayload, fields: HookFields, context: HookContext): IncomingEvent[] {
+  const { input } = fields;
+  const base = {
+    agentId: fields.agentId,
+    source: fields.source,
+    timestamp: context.now,
+    cwd: payloadCwd(payload) ?? context.cwd
+  };
+  // Status line payloads carry context_window, hooks leave it to the transcript
+  const contextUsage = percentage(obj(payload.context_window).used_percentage) ?? context.contextUsage;
+  // The server reads token usage from the transcript when a tool or turn finishes
+  const transcriptPath = str(payload.transcript_path);
+
+  if (event === 'git-commit') return [];
+
+  if (event === 'agent-stop') {
+    // Claude's Stop carries no status - the turn simply finished
+    const status = str(payload.status) ?? 'completed';
+    return [{
+      kind: 'thinking',
+      event: compact<ThinkingEvent>({
+        type: 'agent-stop',
+        ...base,
+        status: status as ThinkingEvent['status'],
+        loopCount: num(payload.loop_count),
+        contextUsage,
+        transcriptPath
+      })
+    }];
+  }
+
+  // Session lifecycle (Claude SessionStart, SessionEnd, UserPromptSubmit, SubagentStop, PreCompact)
+  if (event === 'session-start' || event === 'session-end' || event === 'prompt-submit' ||
+      event === 'subagent-stop' || event === 'pre-compact') {
+    return [{
+      kind: 'thinking',
+      event: compact<ThinkingEvent>({
+        type: event,
+        ...base,
+        agentType: event === 'session-start' ? str(payload.agent_type) : undefined,
+        model: event === 'session-start' ? str(payload.model) : undefined,
+        contextUsage,
+        transcriptPath
+      })
+    }];
+  }
+
+  if (event === 'thinking-start' || event === 'thinking-end') {
+    const toolName = str(payload.tool_name) ?? fields.toolName ?? str(payload.command);
+    const mcp = parseMcpToolName(toolName);
+    // Bash and Shell take the command as input, Cursor and Windsurf shell hooks send it as is
+    const command = toolName === 'Bash' || toolName === 'Shell' ? str(input.command) : str(payload.command);
+
+    let skillName: string | undefined;
+    let skillCommand: string | undefined;
+    if (toolName === 'Skill') {
+      skillName = str(input.skill) ?? str(input.name);
+      const args = str(input.args);
+      if (skillName) skillCommand = args ? `/${skillName} ${args}` : `/${skillName}`;
+    }
+
+    const events: IncomingEvent[] = [{
+      kind: 'thinking',
+      event: compact<ThinkingEvent>({
+        type: event,
+        ...base,
+        toolName,
+        toolInput: bubbleText(fields.toolInput, TOOL_INPUT_LENGTH) ?? describeToolInput(toolName, input),
+        agentType: str(payload.agent_type) ?? str(payload.agent),
+        model: str(payload.model),
+        duration: num(payload.duration) ?? num(payload.duration_ms),
+        agentName: str(payload.agent_name) ?? str(input.agent_name) ??
+          (toolName === 'Task' ? str(input.description)?.slice(0, AGENT_NAME_LENGTH) : undefined),
+        parentAgentId: str(payload.parent_session_id) ?? str(payload.parent_agent_id),
+        skillName,
+        skillCommand,
+        mcpServer: mcp?.server ?? str(payload.mcp_server) ?? str(input.mcp_server),
+        mcpTool: mcp?.tool ?? str(payload.mcp_tool) ?? str(input.mcp_tool),
+        contextUsage,
+        lastMessage: fields.lastMessage,
+        command,
+        exitCode: command && event === 'thinking-start' ? exitCodeOf(payload) : undefined,
+        transcriptPath: event === 'thinking-start' ? transcriptPath : undefined
+      })
+    }];
+
+    // Grep/Glob also light up the searched folder (the tool runs between thinking-end and thinking-start)
+    const filePath = (toolName === 'Grep' || toolName === 'Glob') ? searchPath(input) : undefined;
+    if (filePath) {
+      events.push({
+        kind: 'activity',
+        event: compact<FileActivityEvent>({
+          type: event === 'thinking-end' ? 'search-start' : 'search-end',
+          filePath,
+          ...base,
+          glob: searchGlob(toolName, input),
+          matchedFiles: event === 'thinking-start' ? responseFiles(payload.tool_response) : undefined
+        })
+      });
+    }
+    return events;
+  }
+
+  // File activity: read/write/search start/end
+  const type = event as FileActivityEvent['type'];
+  const toolName = str(payload.tool_name) ?? fields.toolName ?? str(payload.hook_event_name);
+  const skillName = str(payload.skill_name) ?? str(obj(payload.context).skill);
+  const mcpServer = parseMcpToolName(toolName)?.server ?? str(payload.mcp_server);
+  const filePath = type.startsWith('search-')
+    ? searchPath(input)
+    : str(input.file_path) ?? str(payload.file_path);
+
+  const events: IncomingEvent[] = [];
+  if (filePath) {
+    const glob = type.startsWith('search-') ? searchGlob(toolName, input) : undefined;
+    const matchedFiles = type === 'search-end' ? responseFiles(payload.tool_response) : undefined;
+    events.push({ kind: 'activity', event: compact<FileActivityEvent>({ type, filePath, ...base, skillName, mcpServer, glob, matchedFiles }) });
+  }
+
+  // Tell the server which tool is running - it ends when the file operation ends
+  if (toolName) {
+    events.push({
+      kind: 'thinking',
+      event: compact<ThinkingEvent>({
+        type: type.endsWith('-end') ? 'thinking-start' : 'thinking-end',
+        ...base,
+        toolName,
+        skillName,
+        mcpServer,
+        contextUsage
+      })
+    });
+  }
+  return events;
+}
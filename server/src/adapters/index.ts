@@ -0,0 +1,27 @@
+// Agent adapters CodeMap knows, in the order they are asked to claim a payload
+
+import { AgentAdapter } from './adapter.js';
+import { claude } from './claude.js';
+import { cursor } from './cursor.js';
+import { windsurf } from './windsurf.js';
+import { jsonl } from './jsonl.js';
+import type { HookPayload } from './hook-events.js';
+import type { AgentSource, SourceDisplay } from '../types.js';
+
+export type { AgentAdapter } from './adapter.js';
+
+export const ADAPTERS: AgentAdapter[] = [claude, cursor, windsurf, jsonl];
+
+/** The adapter for a hook payload, or undefined if no tool claims it */
+export function adapterFor(payload: HookPayload): AgentAdapter | undefined {
+  return ADAPTERS.find(adapter => adapter.detect(payload));
+}
+
+export function getAdapter(source: AgentSource | undefined): AgentAdapter | undefined {
+  return ADAPTERS.find(adapter => adapter.source === source);
+}
+
+/** How the client shows each source's agents - GET /api/sources */
+export function sourceDisplays(): Record<AgentSource, SourceDisplay> {
+  return Object.fromEntries(ADAPTERS.map(adapter => [adapter.source, adapter.display]));
+}
@@ -0,0 +1,80 @@
+/**
+ * JSON-lines Log Adapter Tests
+ *
+ * Tests tools without hooks reporting through ~/.codemap/logs.
+ * The JSON-lines adapter is responsible for:
+ * - Turning a log line into the events the same hook event would give
+ * - Giving each agent a stable UUID, keeping ids that already are one
+ * - Resolving file paths against the line's cwd
+ * - Ignoring lines that aren't events
+ * The adapter list picks the tool that sent a payload and names its agents.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { translateLogLine } from './jsonl.js';
+import { adapterFor, sourceDisplays } from './index.js';
+import { validateEvent } from '../event-validation.js';
+import { generateDisplayName } from '../agent-registry.js';
+
+const NOW = 1760000000000;
+const SESSION = '9f2c4e1a-7b3d-4c8e-a1f0-5d6b7c8e9f01';
+
+const translate = (entry: object) => translateLogLine(JSON.stringify(entry), NOW);
+
+describe('JSON-lines adapter', () => {
+  it('turns a file event into activity and the tool running', () => {
+    const events = translate({ event: 'write-start', agent_id: 'aider-1', tool_name: 'Edit', file_path: 'src/app.py', cwd: '/home/dev/app' });
+
+    expect(events.map(e => [e.kind, e.event.type])).toEqual([['activity', 'write-start'], ['thinking', 'thinking-end']]);
+    expect(events[0].event).toMatchObject({ filePath: '/home/dev/app/src/app.py', source: 'jsonl', cwd: '/home/dev/app', timestamp: NOW });
+    expect(events[1].event).toMatchObject({ toolName: 'Edit' });
+    expect(events.every(e => validateEvent(e.event).ok)).toBe(true);
+  });
+
+  it('gives each agent a stable UUID and keeps ids that are one', () => {
+    const [first] = translate({ event: 'prompt-submit', agent_id: 'aider-1' });
+    const [again] = translate({ event: 'agent-stop', agent_id: 'aider-1' });
+    const [other] = translate({ event: 'prompt-submit', agent_id: 'aider-2' });
+    const [session] = translate({ event: 'prompt-submit', agent_id: SESSION.toUpperCase() });
+
+    expect(first.event.agentId).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/);
+    expect(again.event.agentId).toBe(first.event.agentId);
+    expect(other.event.agentId).not.toBe(first.event.agentId);
+    expect(session.event.agentId).toBe(SESSION);
+  });
+
+  it('carries the tool input, message and timestamp the line has', () => {
+    const [event] = translate({
+      event: 'thinking-end', agent_id: 'gemini', tool_name: 'Shell', tool_input: 'pytest -x tests/test_cart.py',
+      message: 'Running the\ntests', model: 'gemini-2.5-pro', timestamp: '2025-10-01T12:00:00.000Z',
+    });
+
+    expect(event.event).toMatchObject({
+      toolName: 'Shell', toolInput: 'pytest -x tests/test_cart.py', lastMessage: 'Running the tests',
+      model: 'gemini-2.5-pro', timestamp: Date.parse('2025-10-01T12:00:00.000Z'),
+    });
+  });
+
+  it('ignores lines that are not events', () => {
+    expect(translateLogLine('not json', NOW)).toEqual([]);
+    expect(translate({ event: 'git-commit', agent_id: 'a' })).toEqual([]);
+    expect(translate({ event: 'compile', agent_id: 'a' })).toEqual([]);
+    expect(translate({ event: 'read-start', file_path: '/p/a.ts' })).toEqual([]);
+  });
+});
+
+describe('Adapters', () => {
+  it('picks the tool that sent a payload', () => {
+    expect(adapterFor({ session_id: SESSION })?.source).toBe('claude');
+    expect(adapterFor({ conversation_id: SESSION, cursor_version: '1.7.52' })?.source).toBe('cursor');
+    expect(adapterFor({ conversation_id: SESSION })?.source).toBe('windsurf');
+    expect(adapterFor({ agent_id: 'aider-1' })?.source).toBe('jsonl');
+    expect(adapterFor({ file_path: '/p/a.ts' })).toBeUndefined();
+  });
+
+  it('names agents after their tool', () => {
+    expect(sourceDisplays().windsurf).toMatchObject({ name: 'Windsurf' });
+    expect(generateDisplayName('claude', 2)).toBe('Claude Code 2');
+    expect(generateDisplayName('unknown', 1)).toBe('Agent 1');
+  });
+});
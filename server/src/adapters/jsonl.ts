@@ -0,0 +1,73 @@
+// JSON-lines logs - for tools without hooks CodeMap knows
+// Any tool (or a wrapper script around one) can append one JSON object per line to a
+// .jsonl file under ~/.codemap/logs. Each line is one hook event, with the fields hooks
+// use:
+//   {"event":"read-start","agent_id":"aider-1","file_path":"src/app.py","cwd":"/home/dev/app"}
+// event is any `codemap hook` event but git-commit; agent_id any string (it becomes a
+// UUID); timestamp milliseconds or an ISO date (default: when the line was read).
+// Optional: agent_name, agent_type, parent_agent_id, model, tool_name, tool_input (an
+// object, or the text to show), duration, status, message.
+
+import os from 'os';
+import path from 'path';
+import { AgentAdapter } from './adapter.js';
+import { HOOK_EVENTS, HookEvent, HookPayload, hookEvents, message, num, obj, stableUuid, str } from './hook-events.js';
+import type { IncomingEvent } from '../types.js';
+
+export const LOG_DIR = path.join(os.homedir(), '.codemap', 'logs');
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Ids that already are UUIDs are kept, so a log can continue a hooked session
+function agentUuid(agentId: string): string {
+  return UUID.test(agentId) ? agentId.toLowerCase() : stableUuid(`jsonl:${agentId}`);
+}
+
+// A timestamp in milliseconds or an ISO date
+function timestampOf(value: unknown): number | undefined {
+  const parsed = typeof value === 'string' ? Date.parse(value) : num(value);
+  return parsed === undefined || Number.isNaN(parsed) ? undefined : Math.floor(parsed);
+}
+
+export const jsonl: AgentAdapter = {
+  source: 'jsonl',
+  display: { name: 'Agent', color: '#8890A0', icon: '#' },
+
+  detect: (payload) => str(payload.agent_id) !== undefined,
+
+  toEvents(event, payload, context) {
+    const agentId = str(payload.agent_id);
+    if (!agentId) return [];
+
+    // Activity is kept by absolute path
+    const cwd = str(payload.cwd);
+    const absolute = (value: unknown) => {
+      const filePath = str(value);
+      return filePath && cwd ? path.resolve(cwd, filePath) : filePath;
+    };
+    const input = obj(payload.tool_input);
+    return hookEvents(event, { ...payload, file_path: absolute(payload.file_path) }, {
+      source: 'jsonl',
+      agentId: agentUuid(agentId),
+      input: { ...input, file_path: absolute(input.file_path) },
+      toolInput: str(payload.tool_input),
+      lastMessage: message(payload.message)
+    }, context);
+  }
+};
+
+/**
+ * Turn one log line into events - none for blank lines, bad JSON or unknown events.
+ * `now` stands in for a missing timestamp. The events still have to be validated.
+ */
+export function translateLogLine(line: string, now: number): IncomingEvent[] {
+  let payload: HookPayload;
+  try {
+    payload = obj(JSON.parse(line));
+  } catch {
+    return [];
+  }
+  const event = str(payload.event) as HookEvent | undefined;
+  if (!event || event === 'git-commit' || !HOOK_EVENTS.includes(event)) return [];
+  return jsonl.toEvents(event, payload, { now: timestampOf(payload.timestamp) ?? now });
+}
@@ -0,0 +1,63 @@
+/**
+ * Windsurf Adapter Tests
+ *
+ * Tests the adapter on its own, against recorded Windsurf hook payloads.
+ * The Windsurf adapter is responsible for:
+ * - Claiming payloads with a conversation_id that Cursor didn't send
+ * - Using the conversation id as the agent id and the first workspace root for the project
+ * - Naming a shell hook's tool after its command, and MCP tools after their server
+ * - Asking the server to end the reads and edits it only reports one side of
+ */
+
+import { describe, it, expect } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { windsurf } from './windsurf.js';
+import { HookPayload } from './hook-events.js';
+import { validateEvent } from '../event-validation.js';
+
+const FIXTURES = path.join(path.dirname(fileURLToPath(import.meta.url)), '..', 'fixtures', 'hook-payloads');
+const CONTEXT = { now: 1760000000000, cwd: '/hook/cwd' };
+const CONVERSATION = 'c7a1d9e2-33b4-4f5a-9e6d-0b1c2d3e4f50';
+
+function fixture(name: string): HookPayload {
+  return JSON.parse(fs.readFileSync(path.join(FIXTURES, `${name}.json`), 'utf-8'));
+}
+
+describe('Windsurf adapter', () => {
+  it('claims conversations Cursor did not send', () => {
+    expect(windsurf.detect(fixture('windsurf-before-read-file'))).toBe(true);
+    expect(windsurf.detect(fixture('cursor-before-read-file'))).toBe(false);
+    expect(windsurf.detect(fixture('claude-pre-read'))).toBe(false);
+    expect(windsurf.oneSidedFileEvents).toBe(true);
+  });
+
+  it('turns a file edit into activity and the hook running', () => {
+    const events = windsurf.toEvents('write-end', fixture('windsurf-after-file-edit'), CONTEXT);
+
+    expect(events.map(e => [e.kind, e.event.type])).toEqual([['activity', 'write-end'], ['thinking', 'thinking-start']]);
+    expect(events[0].event).toMatchObject({
+      filePath: '/home/dev/shop/src/cart/checkout.ts', agentId: CONVERSATION, source: 'windsurf', cwd: '/home/dev/shop',
+    });
+    expect(events[1].event).toMatchObject({ toolName: 'afterFileEdit' });
+    expect(events.every(e => validateEvent(e.event).ok)).toBe(true);
+  });
+
+  it('names a shell hook after its command', () => {
+    const [event] = windsurf.toEvents('thinking-start', fixture('windsurf-after-shell'), CONTEXT);
+
+    expect(event.event).toMatchObject({ type: 'thinking-start', toolName: 'npm test', command: 'npm test', duration: 2310 });
+  });
+
+  it('splits an MCP tool into server and tool', () => {
+    const [event] = windsurf.toEvents('thinking-start', fixture('windsurf-after-mcp'), CONTEXT);
+
+    expect(event.event).toMatchObject({ toolName: 'mcp__perplexity__search', mcpServer: 'perplexity', mcpTool: 'search' });
+  });
+
+  it('produces nothing without a conversation', () => {
+    const { conversation_id: _, ...payload } = fixture('windsurf-before-read-file');
+    expect(windsurf.toEvents('read-start', payload, CONTEXT)).toEqual([]);
+  });
+});
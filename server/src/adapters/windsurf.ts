@@ -0,0 +1,21 @@
+// Windsurf - hooks from .windsurf/hooks.json
+// Payloads carry conversation_id and workspace_roots; shell hooks name the command
+// instead of a tool.
+
+import { AgentAdapter } from './adapter.js';
+import { hookEvents, obj, str } from './hook-events.js';
+
+export const windsurf: AgentAdapter = {
+  source: 'windsurf',
+  display: { name: 'Windsurf', color: '#09B6A2', icon: '~' },
+  oneSidedFileEvents: true,
+
+  // Cursor sends conversation_id too - but never without its cursor_version
+  detect: (payload) => str(payload.conversation_id) !== undefined && payload.cursor_version === undefined,
+
+  toEvents(event, payload, context) {
+    const agentId = str(payload.conversation_id);
+    if (!agentId) return [];
+    return hookEvents(event, payload, { source: 'windsurf', agentId, input: obj(payload.tool_input) }, context);
+  }
+};
@@ -0,0 +1,196 @@
+/**
+ * Agent Registry Tests
+ *
+ * Tests how events move agents through a session.
+ * The AgentRegistry is responsible for:
+ * - Registering an agent when its session starts, before any tool call
+ * - Marking turns and sub-agents finished with a status
+ * - Clearing the status when the next turn starts
+ * - Removing the agent when its session ends
+ * - Keeping the latest context usage and counting compactions
+ * - Taking detail from the transcript without counting it as activity
+ * - Linking sub-agents whose parent is reported late
+ * - Keeping each agent's shell commands with their duration and exit code
+ * - Counting finished searches for the summary
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { AgentRegistry, COMMAND_TIMEOUT_MS, MAX_COMMAND_HISTORY } from './agent-registry.js';
+import { ThinkingEvent } from './types.js';
+
+const MAIN = '9f2c4e1a-7b3d-4c8e-a1f0-5d6b7c8e9f01';
+const SUB_A = 'c7a1d9e2-33b4-4f5a-9e6d-0b1c2d3e4f50';
+const SUB_B = 'd7a1d9e2-33b4-4f5a-9e6d-0b1c2d3e4f50';
+
+describe('AgentRegistry: Session lifecycle', () => {
+  let registry: AgentRegistry;
+  let now: number;
+
+  const apply = (type: ThinkingEvent['type'], agentId = MAIN, extra: Partial<ThinkingEvent> = {}) =>
+    registry.applyThinking({ type, agentId, source: 'claude', timestamp: ++now, ...extra }, now);
+
+  beforeEach(() => {
+    registry = new AgentRegistry({ creationCooldownMs: 0, quiet: true });
+    now = 1000;
+  });
+
+  it('registers the agent when the session starts', () => {
+    apply('session-start', MAIN, { model: 'claude-sonnet-4-5' });
+    expect(registry.get(MAIN)).toMatchObject({ isThinking: false, model: 'claude-sonnet-4-5', operationCount: 0 });
+  });
+
+  it('marks the turn completed until the next prompt', () => {
+    apply('session-start');
+    apply('prompt-submit');
+    expect(registry.get(MAIN)!.isThinking).toBe(true);
+
+    apply('agent-stop', MAIN, { status: 'completed' });
+    expect(registry.get(MAIN)).toMatchObject({ status: 'completed', isThinking: false });
+
+    apply('prompt-submit');
+    expect(registry.get(MAIN)!.status).toBeUndefined();
+  });
+
+  it('finishes the most recently active sub-agent', () => {
+    apply('session-start');
+    apply('thinking-start', SUB_A, { parentAgentId: MAIN });
+    apply('thinking-start', SUB_B, { parentAgentId: MAIN });
+
+    apply('subagent-stop');
+    expect(registry.get(SUB_B)!.status).toBe('completed');
+    expect(registry.get(SUB_A)!.status).toBeUndefined();
+
+    apply('subagent-stop');
+    expect(registry.get(SUB_A)!.status).toBe('completed');
+  });
+
+  it('removes the agent when the session ends', () => {
+    apply('session-start');
+    apply('thinking-start', SUB_A, { parentAgentId: MAIN });
+
+    expect(apply('session-end', SUB_A)).not.toBeNull();
+    expect(registry.get(SUB_A)).toBeUndefined();
+    expect(registry.get(MAIN)!.childAgentIds).toEqual([]);
+  });
+
+  it('does not register an agent just to end its session', () => {
+    expect(apply('session-end')).toBeNull();
+    expect(registry.size).toBe(0);
+  });
+
+  it('keeps the latest context usage and counts compactions', () => {
+    apply('thinking-start', MAIN, { contextUsage: 91.5 });
+    apply('thinking-end');
+    expect(registry.get(MAIN)!.contextUsage).toBe(91.5);
+
+    apply('pre-compact', MAIN, { contextUsage: 95 });
+    apply('pre-compact');
+    expect(registry.get(MAIN)).toMatchObject({ contextUsage: 95, compactions: 2, operationCount: 2 });
+
+    apply('thinking-start', MAIN, { contextUsage: 12 });
+    expect(registry.get(MAIN)).toMatchObject({ contextUsage: 12, compactions: 2 });
+  });
+
+  it('takes detail from the transcript without counting it as activity', () => {
+    apply('prompt-submit');
+    const before = { ...registry.get(MAIN)! };
+    apply('agent-update', MAIN, { toolName: 'Bash', toolInput: 'npm test -- --run src/transcript.test.ts', lastMessage: 'Running the tests' });
+    expect(registry.get(MAIN)).toMatchObject({
+      currentCommand: 'Bash', lastMessage: 'Running the tests',
+      isThinking: true, operationCount: 0, lastActivity: before.lastActivity,
+    });
+
+    // The hook's shortened input doesn't replace the full one
+    apply('thinking-end', MAIN, { toolName: 'Bash', toolInput: 'npm test -- --run src/transcrip' });
+    expect(registry.get(MAIN)!.toolInput).toBe('npm test -- --run src/transcript.test.ts');
+    apply('thinking-end', MAIN, { toolName: 'Bash', toolInput: 'ls' });
+    expect(registry.get(MAIN)!.toolInput).toBe('ls');
+  });
+});
+
+describe('AgentRegistry: Sub-agents', () => {
+  it('adopts a parent reported after the agent registered', () => {
+    const registry = new AgentRegistry({ creationCooldownMs: 0, quiet: true });
+    registry.applyThinking({ type: 'thinking-end', agentId: SUB_A, timestamp: 1 }, 1);
+    registry.applyThinking({ type: 'thinking-start', agentId: MAIN, timestamp: 2 }, 2);
+    registry.applyThinking({ type: 'thinking-start', agentId: SUB_A, parentAgentId: MAIN, timestamp: 3 }, 3);
+
+    expect(registry.get(SUB_A)).toMatchObject({ parentAgentId: MAIN, agentRole: 'sub-agent' });
+    expect(registry.get(MAIN)!.childAgentIds).toEqual([SUB_A]);
+  });
+});
+
+describe('AgentRegistry: Searches', () => {
+  it('counts a search once it has ended', () => {
+    const registry = new AgentRegistry({ creationCooldownMs: 0, quiet: true });
+    const search = (type: 'search-start' | 'search-end', at: number) =>
+      registry.applyActivity({ type, filePath: '/p:TODO', agentId: MAIN, source: 'claude', timestamp: at }, at);
+
+    search('search-start', 1000);
+    expect(registry.getSummary(1000).fileActivity.searches).toBe(0);
+    search('search-end', 1200);
+    search('search-end', 1500);
+    expect(registry.get(MAIN)!.fileSearches).toBe(2);
+    expect(registry.getSummary(1500).fileActivity).toEqual({ reads: 0, writes: 0, searches: 2 });
+  });
+});
+
+describe('AgentRegistry: Shell commands', () => {
+  let registry: AgentRegistry;
+
+  const apply = (type: ThinkingEvent['type'], at: number, extra: Partial<ThinkingEvent> = {}) =>
+    registry.applyThinking({ type, agentId: MAIN, source: 'claude', timestamp: at, ...extra }, at);
+
+  beforeEach(() => {
+    registry = new AgentRegistry({ creationCooldownMs: 0, quiet: true });
+  });
+
+  it('times a command from its start to its result', () => {
+    apply('thinking-end', 1000, { toolName: 'Bash', command: 'npm test', cwd: '/p' });
+    expect(registry.get(MAIN)!.commands).toEqual([{ command: 'npm test', cwd: '/p', startedAt: 1000 }]);
+
+    apply('thinking-start', 3500, { toolName: 'Bash', command: 'npm test', exitCode: 1, duration: 9999 });
+    expect(registry.get(MAIN)!.commands).toMatchObject([{ command: 'npm test', startedAt: 1000, endedAt: 3500, duration: 2500, exitCode: 1 }]);
+  });
+
+  it('records a command whose start it never saw, timed by the tool', () => {
+    apply('thinking-start', 5000, { toolName: 'npm run build', command: 'npm run build', duration: 1200 });
+    expect(registry.get(MAIN)!.commands).toMatchObject([{ command: 'npm run build', startedAt: 3800, endedAt: 5000, duration: 1200 }]);
+  });
+
+  it('takes the exit code of a failed command from the transcript', () => {
+    apply('thinking-end', 1000, { toolName: 'Bash', command: 'tsc --noEmit' });
+    apply('agent-update', 1800, { command: 'tsc --noEmit', exitCode: 2 });
+    apply('agent-update', 1900, { command: 'git status', exitCode: 1 });
+
+    expect(registry.get(MAIN)!.commands).toMatchObject([{ command: 'tsc --noEmit', duration: 800, exitCode: 2 }]);
+    expect(registry.get(MAIN)!.operationCount).toBe(1);
+  });
+
+  it('counts a failure reported by both the transcript and the hook once', () => {
+    apply('thinking-end', 1000, { toolName: 'Bash', command: 'npm run lint' });
+    apply('agent-update', 1800, { command: 'npm run lint', exitCode: 2 });
+    apply('thinking-start', 1900, { toolName: 'Bash', command: 'npm run lint', exitCode: 2 });
+
+    expect(registry.get(MAIN)!.commands).toMatchObject([{ command: 'npm run lint', endedAt: 1800, exitCode: 2 }]);
+  });
+
+  it('closes a run whose end never came, without an exit code', () => {
+    apply('thinking-end', 1000, { toolName: 'Bash', command: 'npm run dev' });
+
+    expect(registry.expireCommands(1000 + COMMAND_TIMEOUT_MS - 1)).toBe(false);
+    expect(registry.expireCommands(1000 + COMMAND_TIMEOUT_MS)).toBe(true);
+    expect(registry.get(MAIN)!.commands).toEqual([
+      { command: 'npm run dev', startedAt: 1000, endedAt: 1000 + COMMAND_TIMEOUT_MS, duration: COMMAND_TIMEOUT_MS }
+    ]);
+  });
+
+  it('keeps only the latest commands', () => {
+    for (let i = 0; i < MAX_COMMAND_HISTORY + 2; i++) {
+      apply('thinking-end', 1000 + i, { toolName: 'Bash', command: `echo ${i}` });
+    }
+    const commands = registry.get(MAIN)!.commands!;
+    expect(commands).toHaveLength(MAX_COMMAND_HISTORY);
+    expect(commands[0].command).toBe('echo 2');
+  });
+});
@@ -0,0 +1,700 @@
+// Agent registry - tracks thinking state for every known agent
+// Applies activity/thinking events to AgentThinkingState. Used by the live server
+// and by session replay, so both render agents exactly the same way.
+
+import {
+  FileActivityEvent,
+  ThinkingEvent,
+  AgentThinkingState,
+  CommandRun,
+  AgentRole,
+  AgentSource,
+  SystemSummary,
+  UsageTotals,
+  categorizeToolool
+} from './types.js';
+import { getAdapter } from './adapters/index.js';
+
+export interface AgentRegistryOptions {
+  maxAgents?: number;  // HARD LIMIT - never allow more than this
+  agentTimeoutMs?: number;
+  creationCooldownMs?: number;  // Minimum time between new agent registrations
+  waitingForInputThresholdMs?: number;  // Permission prompt detection threshold
+  quiet?: boolean;  // Suppress console logging (replay)
+}
+
+// Shell commands kept per agent
+export const MAX_COMMAND_HISTORY = 10;
+// A run still open after this is closed without an exit code (Claude's Bash gives up at 10 minutes)
+export const COMMAND_TIMEOUT_MS = 10 * 60 * 1000;
+// The same command ending again this soon is the same run, reported twice (hook and transcript)
+const COMMAND_REPORT_WINDOW_MS = 5000;
+
+/** Serialized registry contents (see .codemap-state.json) */
+export interface AgentRegistrySnapshot {
+  savedAt: number;
+  agents: AgentThinkingState[];
+  activeSkills?: string[];
+  activeMcpServers?: string[];
+}
+
+// Why register() turned a new agent away
+export type RegistrationRejection = 'invalid-id' | 'capacity' | 'rate-limit';
+
+// Validate agent ID format - must be a valid UUID (session_id format)
+export function isValidAgentId(id: string): boolean {
+  if (!id || typeof id !== 'string') return false;
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+  return uuidRegex.test(id);
+}
+
+// Determine agent role from context
+export function determineAgentRole(
+  agentType?: string,
+  parentAgentId?: string,
+  agentName?: string
+): AgentRole {
+  // If has parent, it's a sub-agent
+  if (parentAgentId) return 'sub-agent';
+
+  // Known specialist agent types
+  const specialistTypes = ['plan', 'explore', 'bash', 'researcher', 'reviewer', 'writer', 'analyst'];
+  if (agentType && specialistTypes.includes(agentType.toLowerCase())) {
+    return 'specialist';
+  }
+
+  // Check agent name for specialist patterns
+  if (agentName) {
+    const nameLower = agentName.toLowerCase();
+    if (specialistTypes.some(t => nameLower.includes(t))) {
+      return 'specialist';
+    }
+  }
+
+  return 'main';
+}
+
+// Generate display name from available context
+export function generateDisplayName(
+  source: AgentSource,
+  agentNumber: number,
+  agentName?: string,
+  agentType?: string,
+  agentRole?: AgentRole
+): string {
+  // If custom agent name provided, use it
+  if (agentName) {
+    // Capitalize first letter
+    const formattedName = agentName.charAt(0).toUpperCase() + agentName.slice(1);
+    return `${formattedName} ${agentNumber}`;
+  }
+
+  const sourceName = getAdapter(source)?.display.name ?? 'Agent';
+
+  // Include agent type if available
+  if (agentType) {
+    const typeLabel = agentType.charAt(0).toUpperCase() + agentType.slice(1);
+    return `${sourceName} ${typeLabel} ${agentNumber}`;
+  }
+
+  // Include role if it's a specialist
+  if (agentRole === 'specialist') {
+    return `${sourceName} Specialist ${agentNumber}`;
+  }
+
+  return `${sourceName} ${agentNumber}`;
+}
+
+export class AgentRegistry {
+  private agents = new Map<string, AgentThinkingState>();
+  // Track active skills and MCP servers system-wide
+  private activeSkills = new Set<string>();
+  private activeMcpServers = new Set<string>();
+  private lastAgentCreationTime = 0;
+  // Rejected registrations since startup (kept across clear() - they feed /metrics)
+  private rejections: Record<RegistrationRejection, number> = { 'invalid-id': 0, 'capacity': 0, 'rate-limit': 0 };
+
+  maxAgents = 10;
+  agentTimeoutMs = 5 * 60 * 1000;
+  creationCooldownMs = 500;
+  waitingForInputThresholdMs = 60000;
+  private quiet = false;
+
+  constructor(options: AgentRegistryOptions = {}) {
+    this.configure(options);
+  }
+
+  // Change limits on the fly (config hot reload) - agents over a lowered maxAgents stay until they time out
+  configure(options: AgentRegistryOptions): void {
+    this.maxAgents = options.maxAgents ?? this.maxAgents;
+    this.agentTimeoutMs = options.agentTimeoutMs ?? this.agentTimeoutMs;
+    this.creationCooldownMs = options.creationCooldownMs ?? this.creationCooldownMs;
+    this.waitingForInputThresholdMs = options.waitingForInputThresholdMs ?? this.waitingForInputThresholdMs;
+    this.quiet = options.quiet ?? this.quiet;
+  }
+
+  private log(message: string): void {
+    if (!this.quiet) {
+      console.log(`[${new Date().toISOString()}] ${message}`);
+    }
+  }
+
+  get size(): number {
+    return this.agents.size;
+  }
+
+  get(agentId: string): AgentThinkingState | undefined {
+    return this.agents.get(agentId);
+  }
+
+  getStates(): AgentThinkingState[] {
+    return Array.from(this.agents.values());
+  }
+
+  getActiveSkills(): string[] {
+    return Array.from(this.activeSkills);
+  }
+
+  getActiveMcpServers(): string[] {
+    return Array.from(this.activeMcpServers);
+  }
+
+  getRejections(): Record<RegistrationRejection, number> {
+    return { ...this.rejections };
+  }
+
+  clear(): void {
+    this.agents.clear();
+    this.activeSkills.clear();
+    this.activeMcpServers.clear();
+    this.lastAgentCreationTime = 0;
+  }
+
+  // Find the next available number for a source (fills gaps from removed agents)
+  private getNextAgentNumber(source: AgentSource): number {
+    const usedNumbers = new Set<number>();
+    for (const state of this.agents.values()) {
+      if (state.source === source) {
+        const match = state.displayName.match(/(\d+)$/);
+        if (match) {
+          usedNumbers.add(parseInt(match[1], 10));
+        }
+      }
+    }
+    let num = 1;
+    while (usedNumbers.has(num)) {
+      num++;
+    }
+    return num;
+  }
+
+  // Safe agent registration with multiple protections
+  register(
+    agentId: string,
+    timestamp: number,
+    eventSource: string,
+    agentSource: AgentSource = 'unknown',
+    agentName?: string,
+    agentType?: string,
+    parentAgentId?: string
+  ): AgentThinkingState | null {
+    // PROTECTION 1: Validate agent ID format
+    if (!isValidAgentId(agentId)) {
+      this.log(`REJECTED invalid agent ID: ${agentId} (${eventSource})`);
+      this.rejections['invalid-id']++;
+      return null;
+    }
+
+    // Check if agent already exists
+    let state = this.agents.get(agentId);
+    if (state) {
+      return state;
+    }
+
+    // PROTECTION 2: Hard limit on total agents
+    if (this.agents.size >= this.maxAgents) {
+      this.log(`REJECTED new agent - at max capacity (${this.maxAgents}): ${agentId}`);
+      this.rejections['capacity']++;
+      return null;
+    }
+
+    // PROTECTION 3: Rate limiting
+    if (timestamp - this.lastAgentCreationTime < this.creationCooldownMs) {
+      this.log(`REJECTED new agent - rate limited: ${agentId}`);
+      this.rejections['rate-limit']++;
+      return null;
+    }
+
+    // All checks passed - create the agent
+    this.lastAgentCreationTime = timestamp;
+    const agentNumber = this.getNextAgentNumber(agentSource);
+    const agentRole = determineAgentRole(agentType, parentAgentId, agentName);
+    const displayName = generateDisplayName(agentSource, agentNumber, agentName, agentType, agentRole);
+
+    state = {
+      agentId,
+      source: agentSource,
+      isThinking: false,
+      lastActivity: timestamp,
+      displayName,
+      currentCommand: undefined,
+      toolCategory: undefined,
+      agentType,
+      agentName,
+      agentRole,
+      parentAgentId,
+      childAgentIds: [],
+      // Statistics
+      operationCount: 0,
+      fileReads: 0,
+      fileWrites: 0,
+      fileSearches: 0,
+      skillInvocations: 0,
+      mcpCalls: 0,
+    };
+
+    this.agents.set(agentId, state);
+
+    // If this is a sub-agent, register with parent
+    if (parentAgentId && this.agents.has(parentAgentId)) {
+      const parentState = this.agents.get(parentAgentId)!;
+      if (!parentState.childAgentIds) parentState.childAgentIds = [];
+      parentState.childAgentIds.push(agentId);
+    }
+
+    this.log(`New agent registered: ${displayName} (${agentId.slice(0, 8)}) [${eventSource}] role=${agentRole}`);
+    return state;
+  }
+
+  /**
+   * Apply a file activity event to the agent that caused it
+   * Returns the updated agent, or null if there is none (no agentId or rejected)
+   */
+  applyActivity(event: FileActivityEvent, now: number): AgentThinkingState | null {
+    if (!event.agentId) return null;
+
+    const state = this.register(event.agentId, now, 'activity', event.source || 'unknown');
+    if (!state) return null;
+
+    const { skillName, mcpServer } = event;
+    state.lastActivity = now;
+    state.operationCount++;
+
+    // Update current command and thinking state
+    if (event.type.endsWith('-start')) {
+      state.currentCommand = event.type.startsWith('read') ? 'Read' :
+                             event.type.startsWith('write') ? 'Write' : 'Grep';
+      state.toolCategory = event.type.includes('search') ? 'search' : 'file';
+      state.isThinking = true;
+
+      // Track file operations
+      if (event.type.startsWith('read')) state.fileReads++;
+      if (event.type.startsWith('write')) state.fileWrites++;
+    } else if (event.type.endsWith('-end')) {
+      state.isThinking = false;
+      // A search counts once it has found something (or nothing) - some tools only report the end
+      if (event.type === 'search-end') state.fileSearches++;
+    }
+
+    // Track skill context
+    if (skillName) {
+      state.skillName = skillName;
+      this.activeSkills.add(skillName);
+    }
+
+    // Track MCP context
+    if (mcpServer) {
+      state.mcpServer = mcpServer;
+      state.mcpCalls++;
+      this.activeMcpServers.add(mcpServer);
+    }
+
+    return state;
+  }
+
+  /**
+   * Apply a thinking event
+   * Returns the updated agent, or null if the agent was rejected - or, for
+   * session-end, is already gone (the caller tells the two apart)
+   */
+  applyThinking(event: ThinkingEvent, now: number): AgentThinkingState | null {
+    const {
+      agentId, type, toolName, toolInput, agentType, model, duration, status, contextUsage, lastMessage,
+      agentName, parentAgentId, skillName, skillCommand, mcpServer, mcpTool, command, exitCode
+    } = event;
+
+    // Session over - the agent leaves now instead of after the timeout
+    if (type === 'session-end') {
+      const ended = this.agents.get(agentId);
+      if (!ended) return null;
+      this.remove(agentId);
+      return ended;
+    }
+
+    // Register or get existing agent
+    const state = this.register(
+      agentId, now, 'thinking', event.source || 'unknown',
+      agentName, agentType, parentAgentId
+    );
+    if (!state) return null;
+
+    // Any event may report how full the context window is
+    if (contextUsage !== undefined) {
+      state.contextUsage = contextUsage;
+    }
+
+    // The conversation is about to be summarized - the agent ran out of room
+    if (type === 'pre-compact') {
+      state.compactions = (state.compactions ?? 0) + 1;
+      state.lastActivity = now;
+      this.log(`PRE-COMPACT: ${state.displayName} (compaction ${state.compactions}, context ${contextUsage ?? '?'}%)`);
+      return state;
+    }
+
+    // Detail from the transcript for an agent hooks already report - what it is doing
+    // and saying, without counting an operation or changing whether it thinks
+    if (type === 'agent-update') {
+      if (toolName) {
+        state.currentCommand = toolName;
+        state.toolCategory = categorizeToolool(toolName, mcpServer);
+        state.toolInput = toolInput;
+      }
+      if (lastMessage) state.lastMessage = lastMessage;
+      if (model && !state.model) state.model = model;
+      // How a command hooks saw start ended, when hooks didn't see it end
+      if (command && exitCode !== undefined) this.endCommand(state, event, now, false);
+      return state;
+    }
+
+    // A session or a new turn begins - idle until the prompt, then thinking
+    if (type === 'session-start' || type === 'prompt-submit') {
+      state.isThinking = type === 'prompt-submit';
+      state.lastActivity = now;
+      state.status = undefined;
+      state.statusTimestamp = undefined;
+      state.pendingToolStart = undefined;
+      state.waitingForInput = false;
+      if (model && !state.model) state.model = model;
+      return state;
+    }
+
+    // A sub-agent of this agent finished - the most recently active one still running
+    if (type === 'subagent-stop') {
+      const running = (state.childAgentIds ?? [])
+        .map(id => this.agents.get(id))
+        .filter((child): child is AgentThinkingState => !!child && !child.status)
+        .sort((a, b) => b.lastActivity - a.lastActivity);
+      if (running[0]) {
+        running[0].status = 'completed';
+        running[0].statusTimestamp = now;
+        running[0].isThinking = false;
+        this.log(`SUBAGENT-STOP: ${running[0].displayName}`);
+      }
+      state.lastActivity = now;
+      return state;
+    }
+
+    // Handle agent-stop events
+    if (type === 'agent-stop') {
+      if (status) {
+        state.status = status;
+        state.statusTimestamp = now;
+        state.isThinking = false;
+        this.log(`AGENT-STOP: ${state.displayName} status=${status}`);
+      }
+      return state;
+    }
+
+    state.isThinking = type === 'thinking-start';
+    state.lastActivity = now;
+    state.operationCount++;
+
+    // Update current command
+    const previousCommand = state.currentCommand;
+    if (toolName) {
+      state.currentCommand = toolName;
+      state.toolCategory = categorizeToolool(toolName, mcpServer);
+    }
+
+    // Update tool input - unless it only shortens the full input the transcript gave
+    if (toolInput) {
+      if (!(toolName === previousCommand && state.toolInput?.startsWith(toolInput))) {
+        state.toolInput = toolInput;
+      }
+    } else if (type === 'thinking-start') {
+      state.toolInput = undefined;
+    }
+
+    // Update agent name if provided and not already set
+    if (agentName && !state.agentName) {
+      state.agentName = agentName;
+      // Regenerate display name with the custom name
+      if (!state.customName) {
+        const num = state.displayName.match(/\d+$/)?.[0] || '1';
+        state.displayName = generateDisplayName(
+          state.source, parseInt(num), agentName, state.agentType, state.agentRole
+        );
+      }
+    }
+
+    // Adopt a parent reported after registration (trace spans arrive children first)
+    if (parentAgentId && !state.parentAgentId && parentAgentId !== agentId) {
+      state.parentAgentId = parentAgentId;
+      state.agentRole = determineAgentRole(state.agentType, parentAgentId, state.agentName);
+      const parentState = this.agents.get(parentAgentId);
+      if (parentState) {
+        if (!parentState.childAgentIds) parentState.childAgentIds = [];
+        parentState.childAgentIds.push(agentId);
+      }
+      if (!state.customName) {
+        const num = state.displayName.match(/\d+$/)?.[0] || '1';
+        state.displayName = generateDisplayName(
+          state.source, parseInt(num), state.agentName, state.agentType, state.agentRole
+        );
+      }
+    }
+
+    // Update agent type if provided
+    if (agentType && agentType !== state.agentType) {
+      state.agentType = agentType;
+      state.agentRole = determineAgentRole(agentType, state.parentAgentId, state.agentName);
+      if (!state.customName) {
+        const num = state.displayName.match(/\d+$/)?.[0] || '1';
+        state.displayName = generateDisplayName(
+          state.source, parseInt(num), state.agentName, agentType, state.agentRole
+        );
+      }
+    }
+
+    if (lastMessage) {
+      state.lastMessage = lastMessage;
+    }
+
+    // Update model
+    if (model && !state.model) {
+      state.model = model;
+      this.log(`Agent ${state.displayName} using model: ${model}`);
+    }
+
+    // Update duration
+    if (duration !== undefined && duration !== null) {
+      state.lastDuration = duration;
+    }
+
+    // Skill tracking
+    if (skillName) {
+      state.skillName = skillName;
+      state.skillInvocations++;
+      this.activeSkills.add(skillName);
+    }
+    if (skillCommand) {
+      state.skillCommand = skillCommand;
+    }
+
+    // MCP tracking
+    if (mcpServer) {
+      state.mcpServer = mcpServer;
+      state.mcpCalls++;
+      this.activeMcpServers.add(mcpServer);
+    }
+    if (mcpTool) {
+      state.mcpTool = mcpTool;
+    }
+
+    // Shell commands - a run opens when the tool starts and closes when its result is in
+    if (type === 'thinking-end' && command) {
+      this.startCommand(state, { command, cwd: event.cwd, startedAt: now });
+    } else if (type === 'thinking-start' && (command || exitCode !== undefined)) {
+      this.endCommand(state, event, now);
+    }
+
+    // Clear status after activity resumes
+    if (state.status && type === 'thinking-end') {
+      state.status = undefined;
+      state.statusTimestamp = undefined;
+    }
+
+    // Permission prompt detection
+    if (type === 'thinking-end') {
+      state.pendingToolStart = now;
+      if (toolName === 'AskUserQuestion') {
+        state.waitingForInput = true;
+        this.log(`Agent ${state.displayName} waiting for user input (AskUserQuestion)`);
+      }
+    } else if (type === 'thinking-start') {
+      state.pendingToolStart = undefined;
+      state.waitingForInput = false;
+    }
+
+    return state;
+  }
+
+  private startCommand(state: AgentThinkingState, run: CommandRun): void {
+    state.commands = [...(state.commands ?? []), run].slice(-MAX_COMMAND_HISTORY);
+  }
+
+  // Close the latest open run of the command - or record the whole run if its start was
+  // missed (tools that only report the end), timed by the tool itself
+  private endCommand(state: AgentThinkingState, { command, exitCode, duration, cwd }: ThinkingEvent, now: number, recordMissed = true): void {
+    const runs = [...(state.commands ?? [])].reverse();
+    const open = runs.find(run => run.endedAt === undefined && (!command || run.command === command));
+    if (open) {
+      open.endedAt = now;
+      open.duration = now - open.startedAt;
+      open.exitCode = exitCode;
+      return;
+    }
+    const latest = runs[0];
+    const reported = latest?.command === command && latest.endedAt !== undefined && now - latest.endedAt < COMMAND_REPORT_WINDOW_MS;
+    if (command && recordMissed && !reported) {
+      this.startCommand(state, { command, cwd, startedAt: now - (duration ?? 0), endedAt: now, duration, exitCode });
+    }
+  }
+
+  // Close runs whose end never came (the tool failed without telling the hooks).
+  // Returns true if any were closed.
+  expireCommands(now: number): boolean {
+    let expiredAny = false;
+    for (const state of this.agents.values()) {
+      for (const run of state.commands ?? []) {
+        if (run.endedAt === undefined && now - run.startedAt >= COMMAND_TIMEOUT_MS) {
+          run.endedAt = now;
+          run.duration = now - run.startedAt;
+          expiredAny = true;
+        }
+      }
+    }
+    return expiredAny;
+  }
+
+  // Remove agents idle longer than the timeout. Returns true if any were removed.
+  removeStale(now: number): boolean {
+    let removedAny = false;
+    for (const [agentId, state] of this.agents) {
+      if (now - state.lastActivity > this.agentTimeoutMs) {
+        this.log(`Removing stale agent: ${state.displayName} (${agentId})`);
+        this.remove(agentId);
+        removedAny = true;
+      }
+    }
+    return removedAny;
+  }
+
+  // Give an agent a name from the UI - kept until the agent goes away
+  rename(agentId: string, name: string): AgentThinkingState | null {
+    const state = this.agents.get(agentId);
+    if (!state) return null;
+    state.customName = name.trim();
+    state.displayName = state.customName;
+    this.log(`Agent ${agentId.slice(0, 8)} renamed to ${state.displayName}`);
+    return state;
+  }
+
+  remove(agentId: string): boolean {
+    const state = this.agents.get(agentId);
+    if (!state) return false;
+    this.agents.delete(agentId);
+
+    // Clear from parent's child list
+    if (state.parentAgentId) {
+      const parent = this.agents.get(state.parentAgentId);
+      if (parent && parent.childAgentIds) {
+        parent.childAgentIds = parent.childAgentIds.filter(id => id !== agentId);
+      }
+    }
+
+    // Clear skill/MCP if no other agent using them
+    if (state.skillName) {
+      const stillUsed = Array.from(this.agents.values()).some(a => a.skillName === state.skillName);
+      if (!stillUsed) this.activeSkills.delete(state.skillName);
+    }
+    if (state.mcpServer) {
+      const stillUsed = Array.from(this.agents.values()).some(a => a.mcpServer === state.mcpServer);
+      if (!stillUsed) this.activeMcpServers.delete(state.mcpServer);
+    }
+    return true;
+  }
+
+  // Flag agents whose tool has been pending long enough to look like a permission prompt
+  detectWaitingForInput(now: number): void {
+    for (const state of this.agents.values()) {
+      if (state.pendingToolStart && !state.waitingForInput) {
+        const waitTime = now - state.pendingToolStart;
+        if (waitTime > this.waitingForInputThresholdMs) {
+          state.waitingForInput = true;
+          this.log(`Agent ${state.displayName} appears to be waiting for permission (${waitTime}ms)`);
+        }
+      }
+    }
+  }
+
+  // Generate system summary - spend comes from `usage` (every session of the project),
+  // or else from the agents still here
+  getSummary(now: number, usage?: UsageTotals): SystemSummary {
+    const agents = this.getStates();
+    const activeAgents = agents.filter(a => a.isThinking || (now - a.lastActivity < 30000));
+    const tokenUsage = usage ? { ...usage.usage } : { input: 0, output: 0, cacheRead: 0, cacheWrite: 0 };
+    if (!usage) {
+      for (const agent of agents) {
+        tokenUsage.input += agent.usage?.input ?? 0;
+        tokenUsage.output += agent.usage?.output ?? 0;
+        tokenUsage.cacheRead += agent.usage?.cacheRead ?? 0;
+        tokenUsage.cacheWrite += agent.usage?.cacheWrite ?? 0;
+      }
+    }
+
+    return {
+      totalAgents: agents.length,
+      activeAgents: activeAgents.length,
+      mainAgents: agents.filter(a => a.agentRole === 'main').length,
+      subAgents: agents.filter(a => a.agentRole === 'sub-agent').length,
+      specialists: agents.filter(a => a.agentRole === 'specialist').length,
+      totalOperations: agents.reduce((sum, a) => sum + a.operationCount, 0),
+      activeSkills: this.getActiveSkills(),
+      activeMcpServers: this.getActiveMcpServers(),
+      fileActivity: {
+        reads: agents.reduce((sum, a) => sum + a.fileReads, 0),
+        writes: agents.reduce((sum, a) => sum + a.fileWrites, 0),
+        searches: agents.reduce((sum, a) => sum + a.fileSearches, 0),
+      },
+      tokenUsage,
+      cost: usage ? usage.cost : agents.reduce((sum, a) => sum + (a.cost ?? 0), 0),
+    };
+  }
+
+  toSnapshot(now: number): AgentRegistrySnapshot {
+    return {
+      savedAt: now,
+      agents: this.getStates(),
+      activeSkills: this.getActiveSkills(),
+      activeMcpServers: this.getActiveMcpServers(),
+    };
+  }
+
+  // Restore agents that haven't timed out. Returns the number restored.
+  restore(data: AgentRegistrySnapshot, now: number): number {
+    for (const agent of data.agents || []) {
+      if (now - agent.lastActivity < this.agentTimeoutMs) {
+        // Ensure new fields have defaults
+        agent.agentRole = agent.agentRole || 'main';
+        agent.operationCount = agent.operationCount || 0;
+        agent.fileReads = agent.fileReads || 0;
+        agent.fileWrites = agent.fileWrites || 0;
+        agent.fileSearches = agent.fileSearches || 0;
+        agent.skillInvocations = agent.skillInvocations || 0;
+        agent.mcpCalls = agent.mcpCalls || 0;
+        this.agents.set(agent.agentId, agent);
+      }
+    }
+
+    // Restore active skills/MCP
+    for (const skill of data.activeSkills || []) {
+      this.activeSkills.add(skill);
+    }
+    for (const mcp of data.activeMcpServers || []) {
+      this.activeMcpServers.add(mcp);
+    }
+
+    return this.agents.size;
+  }
+}
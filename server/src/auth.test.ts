@@ -0,0 +1,165 @@
+/**
+ * Auth Tests
+ *
+ * Tests who may write to the server.
+ * The auth module is responsible for:
+ * - Creating and reusing the per-install shared secret
+ * - Requiring the secret on write endpoints
+ * - Rejecting browser requests from origins outside the allowlist
+ * - Granting WebSocket commands to named origins and token holders only
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import express from 'express';
+import { createServer, Server, IncomingMessage } from 'http';
+import { AddressInfo, Socket } from 'net';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  loadOrCreateSecret,
+  tokensMatch,
+  isOriginAllowed,
+  isWebSocketAllowed,
+  canWebSocketWrite,
+  requireToken,
+  requireAllowedOrigin
+} from './auth.js';
+
+const SECRET = 'test-secret';
+const ALLOWED = ['http://localhost:5173'];
+
+describe('Auth: Shared Secret', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'codemap-auth-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('generates a secret readable only by the owner', () => {
+    const file = path.join(dir, 'nested', 'secret');
+    const secret = loadOrCreateSecret(file);
+    expect(secret).toMatch(/^[0-9a-f]{64}$/);
+    expect(fs.statSync(file).mode & 0o777).toBe(0o600);
+  });
+
+  it('reuses an existing secret', () => {
+    const file = path.join(dir, 'secret');
+    fs.writeFileSync(file, 'from-setup\n');
+    expect(loadOrCreateSecret(file)).toBe('from-setup');
+  });
+
+  it('compares tokens exactly', () => {
+    expect(tokensMatch(SECRET, SECRET)).toBe(true);
+    expect(tokensMatch('test-secre', SECRET)).toBe(false);
+    expect(tokensMatch(undefined, SECRET)).toBe(false);
+  });
+});
+
+describe('Auth: Origins', () => {
+  it('matches full origins', () => {
+    expect(isOriginAllowed('http://localhost:5173', ALLOWED)).toBe(true);
+    expect(isOriginAllowed('http://localhost:5173/', ALLOWED)).toBe(true);
+    expect(isOriginAllowed('http://localhost:5174', ALLOWED)).toBe(false);
+    expect(isOriginAllowed('https://evil.example', ALLOWED)).toBe(false);
+    expect(isOriginAllowed(undefined, ALLOWED)).toBe(false);
+  });
+
+  it('allows any origin with "*"', () => {
+    expect(isOriginAllowed('https://anything.example', ['*'])).toBe(true);
+  });
+
+  describe('WebSocket handshake', () => {
+    const handshake = (headers: Record<string, string>, remoteAddress: string, url = '/ws') =>
+      ({ headers, url, socket: { remoteAddress } as Socket } as IncomingMessage);
+
+    it('checks the origin of browser clients', () => {
+      expect(isWebSocketAllowed(handshake({ origin: 'http://localhost:5173' }, '10.0.0.2'), ALLOWED, SECRET)).toBe(true);
+      // Even from this machine - the page could be any site
+      expect(isWebSocketAllowed(handshake({ origin: 'https://evil.example' }, '127.0.0.1'), ALLOWED, SECRET)).toBe(false);
+    });
+
+    it('lets local non-browser clients in', () => {
+      expect(isWebSocketAllowed(handshake({}, '::ffff:127.0.0.1'), ALLOWED, SECRET)).toBe(true);
+    });
+
+    it('requires the token from other machines', () => {
+      expect(isWebSocketAllowed(handshake({}, '10.0.0.2'), ALLOWED, SECRET)).toBe(false);
+      expect(isWebSocketAllowed(handshake({}, '10.0.0.2', `/ws?token=${SECRET}`), ALLOWED, SECRET)).toBe(true);
+    });
+
+    it('grants commands to allowed pages and token holders only', () => {
+      expect(canWebSocketWrite(handshake({ origin: 'http://localhost:5173' }, '127.0.0.1'), ALLOWED, SECRET)).toBe(true);
+      expect(canWebSocketWrite(handshake({}, '127.0.0.1', `/ws?token=${SECRET}`), ALLOWED, SECRET)).toBe(true);
+      // Connected, but read-only
+      expect(canWebSocketWrite(handshake({}, '127.0.0.1'), ALLOWED, SECRET)).toBe(false);
+    });
+
+    it('never grants commands to a page only "*" allows', () => {
+      const any = [...ALLOWED, '*'];
+      expect(isWebSocketAllowed(handshake({ origin: 'https://evil.example' }, '127.0.0.1'), any, SECRET)).toBe(true);
+      expect(canWebSocketWrite(handshake({ origin: 'https://evil.example' }, '127.0.0.1'), any, SECRET)).toBe(false);
+      expect(canWebSocketWrite(handshake({ origin: 'http://localhost:5173' }, '127.0.0.1'), any, SECRET)).toBe(true);
+      expect(canWebSocketWrite(handshake({ origin: 'https://evil.example' }, '127.0.0.1', `/ws?token=${SECRET}`), any, SECRET)).toBe(true);
+    });
+  });
+});
+
+describe('Auth: Middleware', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(requireAllowedOrigin(() => ALLOWED));
+    app.get('/api/graph', (_req, res) => res.json({ ok: true }));
+    app.post('/api/activity', requireToken(SECRET), (_req, res) => res.json({ success: true }));
+
+    server = createServer(app);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('rejects writes without the token', async () => {
+    const res = await fetch(`${baseUrl}/api/activity`, { method: 'POST' });
+    expect(res.status).toBe(401);
+  });
+
+  it('rejects writes with the wrong token', async () => {
+    const res = await fetch(`${baseUrl}/api/activity`, {
+      method: 'POST',
+      headers: { Authorization: 'Bearer nope' },
+    });
+    expect(res.status).toBe(401);
+  });
+
+  it('accepts writes with the token', async () => {
+    const res = await fetch(`${baseUrl}/api/activity`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${SECRET}` },
+    });
+    expect(res.status).toBe(200);
+  });
+
+  it('blocks other sites even with a valid token', async () => {
+    const res = await fetch(`${baseUrl}/api/activity`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${SECRET}`, Origin: 'https://evil.example' },
+    });
+    expect(res.status).toBe(403);
+  });
+
+  it('leaves reads open to allowed origins and non-browser clients', async () => {
+    expect((await fetch(`${baseUrl}/api/graph`)).status).toBe(200);
+    expect((await fetch(`${baseUrl}/api/graph`, { headers: { Origin: 'http://localhost:5173' } })).status).toBe(200);
+    expect((await fetch(`${baseUrl}/api/graph`, { headers: { Origin: 'https://evil.example' } })).status).toBe(403);
+  });
+});
@@ -0,0 +1,109 @@
+// Authentication - who may write to the server
+// Hooks send the per-install shared secret (~/.codemap/secret) as a Bearer token.
+// Browsers are trusted by Origin: the web client writes over its WebSocket, which
+// pages from an origin listed by name may do without the token ("*" lets any page
+// watch, never write).
+
+import path from 'path';
+import fs from 'fs';
+import os from 'os';
+import crypto from 'crypto';
+import { IncomingMessage } from 'http';
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+
+export const SECRET_FILE = path.join(os.homedir(), '.codemap', 'secret');
+
+/**
+ * Read the shared secret, generating one on first run.
+ * bin/setup.js does the same, so whichever runs first creates it.
+ */
+export function loadOrCreateSecret(file: string = SECRET_FILE): string {
+  try {
+    const existing = fs.readFileSync(file, 'utf-8').trim();
+    if (existing) return existing;
+  } catch {
+    // Not created yet
+  }
+
+  const secret = crypto.randomBytes(32).toString('hex');
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, secret + '\n', { mode: 0o600 });
+  console.log(`[${new Date().toISOString()}] Generated shared secret in ${file}`);
+  return secret;
+}
+
+// Constant-time comparison (hashing first makes the lengths equal)
+export function tokensMatch(given: string | undefined, secret: string): boolean {
+  if (!given) return false;
+  const a = crypto.createHash('sha256').update(given).digest();
+  const b = crypto.createHash('sha256').update(secret).digest();
+  return crypto.timingSafeEqual(a, b);
+}
+
+// Token from "Authorization: Bearer <token>", or ?token= for WebSocket clients
+export function requestToken(req: IncomingMessage): string | undefined {
+  const header = req.headers.authorization;
+  if (header?.startsWith('Bearer ')) {
+    return header.slice('Bearer '.length).trim();
+  }
+  return new URL(req.url || '/', 'http://localhost').searchParams.get('token') ?? undefined;
+}
+
+// Allowlist entries are full origins ("http://localhost:5173") or "*"
+export function isOriginAllowed(origin: string | undefined, allowed: string[]): boolean {
+  if (!origin) return false;
+  const normalized = origin.replace(/\/+$/, '');
+  return allowed.some(entry => entry === '*' || entry.replace(/\/+$/, '') === normalized);
+}
+
+export function isLoopback(req: IncomingMessage): boolean {
+  const address = req.socket.remoteAddress || '';
+  return address === '::1' || address.startsWith('127.') || address.startsWith('::ffff:127.');
+}
+
+// 401 unless the request carries the shared secret
+export function requireToken(secret: string): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!tokensMatch(requestToken(req), secret)) {
+      res.status(401).json({ error: 'Missing or invalid token - see ~/.codemap/secret' });
+      return;
+    }
+    next();
+  };
+}
+
+// 403 for browser requests from pages outside the allowlist (requests without an Origin pass)
+export function requireAllowedOrigin(getAllowed: () => string[]): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const origin = req.headers.origin;
+    if (origin && !isOriginAllowed(origin, getAllowed())) {
+      res.status(403).json({ error: `Origin not allowed: ${origin}` });
+      return;
+    }
+    next();
+  };
+}
+
+/**
+ * WebSocket handshake check. Browsers always send an Origin, so it must be allowed.
+ * Other clients must be on this machine or present the token.
+ */
+export function isWebSocketAllowed(req: IncomingMessage, allowed: string[], secret: string): boolean {
+  const origin = req.headers.origin;
+  if (origin) {
+    return isOriginAllowed(origin, allowed);
+  }
+  return isLoopback(req) || tokensMatch(requestToken(req), secret);
+}
+
+/**
+ * May this WebSocket client run commands that change state (clear, rename, ...)?
+ * The token, or an Origin the allowlist names - the web client sends its commands
+ * this way and never sees the token. "*" doesn't count: it would let every site
+ * write. A token-less local process may only watch.
+ */
+export function canWebSocketWrite(req: IncomingMessage, allowed: string[], secret: string): boolean {
+  const origin = req.headers.origin;
+  if (origin && isOriginAllowed(origin, allowed.filter(entry => entry !== '*'))) return true;
+  return tokensMatch(requestToken(req), secret);
+}
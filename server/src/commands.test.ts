@@ -0,0 +1,54 @@
+/**
+ * Command Tests
+ *
+ * Tests the request side of the WebSocket command channel.
+ * The parser is responsible for:
+ * - Accepting each command with exactly its parameters
+ * - Keeping the correlation id so errors can be answered
+ * - Telling read-only commands from ones that need write access
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseCommandRequest, isReadOnlyCommand, MAX_DISPLAY_NAME_LENGTH } from './commands.js';
+
+const AGENT = '9f2c4e1a-7b3d-4c8e-a1f0-5d6b7c8e9f01';
+
+describe('Commands', () => {
+  it('accepts commands without parameters', () => {
+    expect(parseCommandRequest({ id: 'r1', command: 'clear' })).toEqual({ ok: true, request: { id: 'r1', command: 'clear' } });
+    expect(parseCommandRequest({ id: 'r2', command: 'snapshot', params: {} })).toMatchObject({ ok: true });
+  });
+
+  it('accepts commands with their parameters', () => {
+    const request = { id: 'r1', command: 'rename-agent', params: { agentId: AGENT, displayName: 'Reviewer' } };
+    expect(parseCommandRequest(request)).toEqual({ ok: true, request });
+  });
+
+  it('keeps the id when the command is invalid', () => {
+    expect(parseCommandRequest({ id: 'r1', command: 'reboot' })).toEqual({
+      ok: false,
+      id: 'r1',
+      reason: 'command must be one of snapshot, clear, dismiss-agent, rename-agent, refresh-layout'
+    });
+  });
+
+  it('requires an id', () => {
+    expect(parseCommandRequest({ command: 'clear' })).toMatchObject({ ok: false, id: null });
+    expect(parseCommandRequest('clear')).toMatchObject({ ok: false, id: null });
+  });
+
+  it('checks parameters', () => {
+    expect(parseCommandRequest({ id: 'r1', command: 'dismiss-agent' })).toEqual({ ok: false, id: 'r1', reason: 'agentId must be a non-empty string' });
+    expect(parseCommandRequest({ id: 'r1', command: 'clear', params: { all: true } })).toEqual({ ok: false, id: 'r1', reason: 'all is not a parameter of clear' });
+    expect(parseCommandRequest({ id: 'r1', command: 'rename-agent', params: { agentId: AGENT, displayName: ' ' } })).toMatchObject({ ok: false });
+    expect(parseCommandRequest({
+      id: 'r1', command: 'rename-agent', params: { agentId: AGENT, displayName: 'x'.repeat(MAX_DISPLAY_NAME_LENGTH + 1) }
+    })).toMatchObject({ ok: false });
+  });
+
+  it('only lets snapshots through without write access', () => {
+    expect(isReadOnlyCommand('snapshot')).toBe(true);
+    expect(isReadOnlyCommand('clear')).toBe(false);
+    expect(isReadOnlyCommand('rename-agent')).toBe(false);
+  });
+});
@@ -0,0 +1,74 @@
+// WebSocket commands - request/response over the same socket as the live updates
+// A client sends { type: 'request', data: { id, command, params } } and gets back
+// { type: 'response', data: { id, ok, result | error } }. Commands that change state
+// need the same trust as the write endpoints (see canWebSocketWrite in auth.ts).
+
+import { MAX_FIELD_LENGTH } from './event-validation.js';
+import { CommandName, CommandRequest } from './types.js';
+
+// Longest correlation id a client may use
+export const MAX_REQUEST_ID_LENGTH = 100;
+export const MAX_DISPLAY_NAME_LENGTH = 40;
+
+// Parameters each command takes - all required, all strings
+const COMMAND_PARAMS: Record<CommandName, readonly string[]> = {
+  'snapshot': [],
+  'clear': [],
+  'dismiss-agent': ['agentId'],
+  'rename-agent': ['agentId', 'displayName'],
+  'refresh-layout': [],
+};
+
+// Commands anyone connected may run - the rest change state
+const READ_ONLY_COMMANDS: ReadonlySet<CommandName> = new Set(['snapshot']);
+
+export type CommandParseResult =
+  | { ok: true; request: CommandRequest }
+  | { ok: false; id: string | null; reason: string };
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** Check the body of a 'request' message. The id is echoed back even when the rest is invalid. */
+export function parseCommandRequest(raw: unknown): CommandParseResult {
+  if (!isObject(raw)) {
+    return { ok: false, id: null, reason: 'request must be a JSON object' };
+  }
+
+  const { id, command, params = {} } = raw;
+  if (typeof id !== 'string' || id === '' || id.length > MAX_REQUEST_ID_LENGTH) {
+    return { ok: false, id: null, reason: `id must be a non-empty string of at most ${MAX_REQUEST_ID_LENGTH} characters` };
+  }
+  const fail = (reason: string): CommandParseResult => ({ ok: false, id, reason });
+
+  if (typeof command !== 'string' || !Object.hasOwn(COMMAND_PARAMS, command)) {
+    return fail(`command must be one of ${Object.keys(COMMAND_PARAMS).join(', ')}`);
+  }
+  if (!isObject(params)) {
+    return fail('params must be a JSON object');
+  }
+
+  const expected = COMMAND_PARAMS[command as CommandName];
+  for (const key of Object.keys(params)) {
+    if (!expected.includes(key)) return fail(`${key} is not a parameter of ${command}`);
+  }
+  for (const key of expected) {
+    const value = params[key];
+    if (typeof value !== 'string' || value.trim() === '' || value.length > MAX_FIELD_LENGTH) {
+      return fail(`${key} must be a non-empty string`);
+    }
+  }
+  if (command === 'rename-agent' && (params.displayName as string).trim().length > MAX_DISPLAY_NAME_LENGTH) {
+    return fail(`displayName must be at most ${MAX_DISPLAY_NAME_LENGTH} characters`);
+  }
+
+  return {
+    ok: true,
+    request: (expected.length > 0 ? { id, command, params } : { id, command }) as CommandRequest,
+  };
+}
+
+export function isReadOnlyCommand(command: CommandName): boolean {
+  return READ_ONLY_COMMANDS.has(command);
+}
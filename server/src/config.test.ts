@@ -0,0 +1,180 @@
+/**
+ * Config Tests
+ *
+ * Tests codemap.config.json loading.
+ * The config module is responsible for:
+ * - Validating settings with clear, per-key error messages
+ * - Layering the project file over the user file over the defaults
+ * - Keeping the listening address and allowed origins out of project files
+ * - Staying in sync with the published JSON schema
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { DEFAULT_CONFIG, FLOOR_STYLES, CONFIG_FILE_NAME, USER_CONFIG_FILE, loadConfig, validateConfig } from './config.js';
+
+const SCHEMA_FILE = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../../codemap.config.schema.json');
+
+describe('Config: Validation', () => {
+  it('accepts an empty config', () => {
+    expect(validateConfig({})).toEqual([]);
+  });
+
+  it('accepts the defaults', () => {
+    expect(validateConfig(DEFAULT_CONFIG)).toEqual([]);
+  });
+
+  it('rejects non-objects', () => {
+    expect(validateConfig([])).toEqual(['config must be a JSON object']);
+    expect(validateConfig(null)).toEqual(['config must be a JSON object']);
+  });
+
+  it('reports out-of-range and mistyped numbers', () => {
+    expect(validateConfig({ maxAgents: 0 })).toEqual(['maxAgents must be an integer between 1 and 50 (got 0)']);
+    expect(validateConfig({ port: '5174' })).toEqual(['port must be an integer between 1 and 65535 (got "5174")']);
+    expect(validateConfig({ gitLogDepth: 1.5 })).toHaveLength(1);
+  });
+
+  it('reports unknown settings', () => {
+    expect(validateConfig({ maxAgent: 5 })).toEqual(['maxAgent is not a known setting']);
+  });
+
+  it('validates ignoreDirs entries', () => {
+    expect(validateConfig({ ignoreDirs: ['build', 'a/b', ''] })).toEqual([
+      'ignoreDirs[1] must be a folder name without slashes (got "a/b")',
+      'ignoreDirs[2] must be a folder name without slashes (got "")',
+    ]);
+  });
+
+  it('validates each floor', () => {
+    const errors = validateConfig({ floors: [{ rooms: 2, filesPerRoom: 1, roomWidth: 4, roomHeight: 8, extra: 1 }] });
+    expect(errors).toEqual([
+      'floors[0].extra is not a known setting',
+      'floors[0].roomWidth must be an integer between 8 and 48 (got 4)',
+    ]);
+    expect(validateConfig({ floors: [] })).toHaveLength(1);
+  });
+
+  it('validates floor theme styles', () => {
+    expect(validateConfig({ floorThemes: [{ match: 'api', style: 'purple' }] })).toEqual([
+      `floorThemes[0].style must be one of ${FLOOR_STYLES.join(', ')} (got "purple")`,
+    ]);
+  });
+
+  it('validates allowed origins', () => {
+    expect(validateConfig({ allowedOrigins: ['*', 'http://192.168.1.5:5173'] })).toEqual([]);
+    expect(validateConfig({ allowedOrigins: ['localhost:5173'] })).toEqual([
+      'allowedOrigins[0] must look like "http://localhost:5173" or be "*" (got "localhost:5173")',
+    ]);
+  });
+
+  it('validates model prices', () => {
+    expect(validateConfig({ modelPrices: { 'gpt-5': { input: 1.25, output: 10, cacheRead: 0.125, cacheWrite: 0 } } })).toEqual([]);
+    expect(validateConfig({ modelPrices: { 'gpt-5': { input: -1, output: 10, cacheRead: 0, cacheWrite: 0, batch: 1 } } })).toEqual([
+      'modelPrices.gpt-5.batch is not a known setting',
+      'modelPrices.gpt-5.input must be a non-negative number of USD per million tokens (got -1)',
+    ]);
+    expect(validateConfig({ modelPrices: [] })).toHaveLength(1);
+  });
+
+  it('validates the transcript and log switches', () => {
+    expect(validateConfig({ watchTranscripts: true, watchLogs: false })).toEqual([]);
+    expect(validateConfig({ watchTranscripts: 'yes' })).toEqual(['watchTranscripts must be true or false (got "yes")']);
+    expect(validateConfig({ watchLogs: 1 })).toEqual(['watchLogs must be true or false (got 1)']);
+  });
+
+  it('collects every problem at once', () => {
+    expect(validateConfig({ maxAgents: -1, agentTimeoutMs: 'soon', nope: true })).toHaveLength(3);
+  });
+});
+
+describe('Config: Loading', () => {
+  let base: string;
+  let projectRoot: string;
+  let userFile: string;
+
+  beforeEach(() => {
+    base = fs.mkdtempSync(path.join(os.tmpdir(), 'codemap-config-'));
+    projectRoot = path.join(base, 'project');
+    fs.mkdirSync(projectRoot);
+    userFile = path.join(base, 'user-config.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(base, { recursive: true, force: true });
+  });
+
+  const writeProject = (data: unknown) =>
+    fs.writeFileSync(path.join(projectRoot, CONFIG_FILE_NAME), typeof data === 'string' ? data : JSON.stringify(data));
+
+  it('uses the defaults when there are no files', () => {
+    expect(loadConfig(projectRoot, userFile)).toEqual(DEFAULT_CONFIG);
+  });
+
+  it('prefers the project file over the user file', () => {
+    fs.writeFileSync(userFile, JSON.stringify({ maxAgents: 4, gitLogDepth: 100 }));
+    writeProject({ $schema: './codemap.config.schema.json', maxAgents: 6 });
+
+    const config = loadConfig(projectRoot, userFile);
+    expect(config.maxAgents).toBe(6);
+    expect(config.gitLogDepth).toBe(100);
+    expect(config.port).toBe(DEFAULT_CONFIG.port);
+    expect(config).not.toHaveProperty('$schema');
+  });
+
+  it('replaces arrays instead of merging them', () => {
+    writeProject({ ignoreDirs: ['build'] });
+    expect(loadConfig(projectRoot, null).ignoreDirs).toEqual(['build']);
+  });
+
+  it('names the file and setting in errors', () => {
+    writeProject({ maxAgents: 100 });
+    expect(() => loadConfig(projectRoot, userFile)).toThrow(
+      `${path.join(projectRoot, CONFIG_FILE_NAME)}: maxAgents must be an integer between 1 and 50 (got 100)`
+    );
+  });
+
+  it('reports malformed JSON', () => {
+    writeProject('{ "maxAgents": ');
+    expect(() => loadConfig(projectRoot, userFile)).toThrow('Invalid CodeMap config');
+  });
+
+  it('refuses network settings from the project file', () => {
+    writeProject({ maxAgents: 6, host: '0.0.0.0', allowedOrigins: ['*'] });
+    expect(() => loadConfig(projectRoot, userFile)).toThrow(
+      `${path.join(projectRoot, CONFIG_FILE_NAME)}: host can only be set in ${USER_CONFIG_FILE} or the environment`
+    );
+    expect(() => loadConfig(projectRoot, userFile)).toThrow('allowedOrigins can only be set');
+
+    writeProject({ maxAgents: 6 });
+    fs.writeFileSync(userFile, JSON.stringify({ host: '0.0.0.0', port: 6000, allowedOrigins: ['*'] }));
+    expect(loadConfig(projectRoot, userFile)).toMatchObject({ maxAgents: 6, host: '0.0.0.0', port: 6000, allowedOrigins: ['*'] });
+  });
+
+  it('reports problems in the user file too', () => {
+    fs.writeFileSync(userFile, JSON.stringify({ port: 0 }));
+    expect(() => loadConfig(projectRoot, userFile)).toThrow(`${userFile}: port`);
+  });
+});
+
+describe('Config: Schema', () => {
+  const schema = JSON.parse(fs.readFileSync(SCHEMA_FILE, 'utf-8'));
+
+  it('documents every setting', () => {
+    const documented = Object.keys(schema.properties).filter(key => key !== '$schema');
+    expect(documented.sort()).toEqual(Object.keys(DEFAULT_CONFIG).sort());
+  });
+
+  it('publishes the same defaults', () => {
+    for (const [key, value] of Object.entries(DEFAULT_CONFIG)) {
+      expect(schema.properties[key].default, key).toEqual(value);
+    }
+  });
+
+  it('lists the same floor styles', () => {
+    expect(schema.properties.floorThemes.items.properties.style.enum).toEqual(FLOOR_STYLES);
+  });
+});
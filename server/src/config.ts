@@ -0,0 +1,248 @@
+// CodeMap configuration - codemap.config.json
+// Looked up in the project root, then ~/.codemap/config.json, then built-in defaults.
+// Each setting comes from the first file that sets it. The rules below mirror
+// codemap.config.schema.json at the repository root - keep the two in sync.
+// Where the server listens and which pages may talk to it are the user's to decide,
+// so a cloned repo's own file can't set them.
+
+import path from 'path';
+import fs from 'fs';
+import os from 'os';
+import { CodeMapConfig, FloorStyle } from './types.js';
+
+export const CONFIG_FILE_NAME = 'codemap.config.json';
+export const USER_CONFIG_FILE = path.join(os.homedir(), '.codemap', 'config.json');
+
+export const FLOOR_STYLES: FloorStyle[] = ['wood', 'green', 'blue', 'cream', 'lavender', 'peach'];
+
+export const DEFAULT_CONFIG: CodeMapConfig = {
+  port: 5174,
+  host: '127.0.0.1',
+  allowedOrigins: ['http://localhost:5173', 'http://127.0.0.1:5173'],
+  maxAgents: 10,
+  agentTimeoutMs: 5 * 60 * 1000,
+  waitingForInputThresholdMs: 60000,
+  ignoreDirs: ['node_modules', '.git', 'dist', '.playwright-mcp', '.claude', '.codemap'],
+  gitLogDepth: 500,
+  // Symmetric diamond - expands in the middle, tapers at top and bottom
+  floors: [
+    { rooms: 2, filesPerRoom: 8, roomWidth: 23, roomHeight: 14 },  // Ground floor - 2 big rooms
+    { rooms: 4, filesPerRoom: 2, roomWidth: 11, roomHeight: 10 },  // Floor 1 - 4 medium rooms
+    { rooms: 4, filesPerRoom: 1, roomWidth: 11, roomHeight: 8 },   // Floor 2 - 4 small rooms
+    { rooms: 2, filesPerRoom: 1, roomWidth: 23, roomHeight: 8 },   // Floor 3 (top) - 2 small rooms
+  ],
+  floorThemes: [
+    { match: 'client', style: 'green' },
+    { match: 'server', style: 'blue' },
+    { match: 'src', style: 'cream' },
+    { match: 'component', style: 'lavender' },
+    { match: 'hook', style: 'lavender' },
+    { match: 'util', style: 'lavender' },
+  ],
+  modelPrices: {},
+  watchTranscripts: false,
+  watchLogs: false,
+};
+
+// Fields of a modelPrices entry - all required
+const PRICE_FIELDS = ['input', 'output', 'cacheRead', 'cacheWrite'];
+
+// Settings only ~/.codemap/config.json (or the environment) can set - a project file
+// that sets them is invalid
+export const USER_ONLY_SETTINGS: (keyof CodeMapConfig)[] = ['port', 'host', 'allowedOrigins'];
+
+// Settings that only take effect when the server starts
+export const RESTART_REQUIRED: (keyof CodeMapConfig)[] = ['port', 'host', 'watchTranscripts', 'watchLogs'];
+
+// Config files for a project, highest precedence first
+export function configFiles(projectRoot: string, userFile: string | null = USER_CONFIG_FILE): string[] {
+  const files = [path.join(projectRoot, CONFIG_FILE_NAME)];
+  if (userFile) files.push(userFile);
+  return files;
+}
+
+function formatValue(value: unknown): string {
+  return JSON.stringify(value) ?? String(value);
+}
+
+function checkInteger(errors: string[], key: string, value: unknown, min: number, max: number): void {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+    errors.push(`${key} must be an integer between ${min} and ${max} (got ${formatValue(value)})`);
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check a parsed config file. Returns one message per problem (empty when valid).
+ * Every key is optional - missing ones fall through to the next file.
+ */
+export function validateConfig(raw: unknown): string[] {
+  if (!isObject(raw)) {
+    return ['config must be a JSON object'];
+  }
+
+  const errors: string[] = [];
+  for (const [key, value] of Object.entries(raw)) {
+    switch (key) {
+      case '$schema':
+        if (typeof value !== 'string') errors.push('$schema must be a string');
+        break;
+      case 'port':
+        checkInteger(errors, key, value, 1, 65535);
+        break;
+      case 'host':
+        if (typeof value !== 'string' || value === '') {
+          errors.push(`host must be a hostname or IP address (got ${formatValue(value)})`);
+        }
+        break;
+      case 'allowedOrigins':
+        if (!Array.isArray(value)) {
+          errors.push(`allowedOrigins must be an array of origins (got ${formatValue(value)})`);
+          break;
+        }
+        value.forEach((origin, i) => {
+          if (typeof origin !== 'string' || (origin !== '*' && !/^https?:\/\/[^/\s]+\/?$/.test(origin))) {
+            errors.push(`allowedOrigins[${i}] must look like "http://localhost:5173" or be "*" (got ${formatValue(origin)})`);
+          }
+        });
+        break;
+      case 'maxAgents':
+        checkInteger(errors, key, value, 1, 50);
+        break;
+      case 'agentTimeoutMs':
+        checkInteger(errors, key, value, 10000, 24 * 60 * 60 * 1000);
+        break;
+      case 'waitingForInputThresholdMs':
+        checkInteger(errors, key, value, 1000, 60 * 60 * 1000);
+        break;
+      case 'gitLogDepth':
+        checkInteger(errors, key, value, 1, 10000);
+        break;
+      case 'ignoreDirs':
+        if (!Array.isArray(value)) {
+          errors.push(`ignoreDirs must be an array of folder names (got ${formatValue(value)})`);
+          break;
+        }
+        value.forEach((dir, i) => {
+          if (typeof dir !== 'string' || dir === '' || /[\\/]/.test(dir)) {
+            errors.push(`ignoreDirs[${i}] must be a folder name without slashes (got ${formatValue(dir)})`);
+          }
+        });
+        break;
+      case 'floors':
+        if (!Array.isArray(value) || value.length < 1 || value.length > 8) {
+          errors.push(`floors must be an array of 1 to 8 floors (got ${formatValue(value)})`);
+          break;
+        }
+        value.forEach((floor, i) => {
+          if (!isObject(floor)) {
+            errors.push(`floors[${i}] must be an object`);
+            return;
+          }
+          for (const extra of Object.keys(floor)) {
+            if (!['rooms', 'filesPerRoom', 'roomWidth', 'roomHeight'].includes(extra)) {
+              errors.push(`floors[${i}].${extra} is not a known setting`);
+            }
+          }
+          checkInteger(errors, `floors[${i}].rooms`, floor.rooms, 1, 8);
+          checkInteger(errors, `floors[${i}].filesPerRoom`, floor.filesPerRoom, 1, 8);
+          checkInteger(errors, `floors[${i}].roomWidth`, floor.roomWidth, 8, 48);
+          checkInteger(errors, `floors[${i}].roomHeight`, floor.roomHeight, 6, 32);
+        });
+        break;
+      case 'floorThemes':
+        if (!Array.isArray(value)) {
+          errors.push(`floorThemes must be an array of { match, style } rules (got ${formatValue(value)})`);
+          break;
+        }
+        value.forEach((theme, i) => {
+          if (!isObject(theme)) {
+            errors.push(`floorThemes[${i}] must be an object`);
+            return;
+          }
+          if (typeof theme.match !== 'string' || theme.match === '') {
+            errors.push(`floorThemes[${i}].match must be a non-empty string (got ${formatValue(theme.match)})`);
+          }
+          if (!FLOOR_STYLES.includes(theme.style as FloorStyle)) {
+            errors.push(`floorThemes[${i}].style must be one of ${FLOOR_STYLES.join(', ')} (got ${formatValue(theme.style)})`);
+          }
+        });
+        break;
+      case 'modelPrices':
+        if (!isObject(value)) {
+          errors.push(`modelPrices must be an object of prices by model name (got ${formatValue(value)})`);
+          break;
+        }
+        for (const [model, price] of Object.entries(value)) {
+          if (!isObject(price)) {
+            errors.push(`modelPrices.${model} must be an object`);
+            continue;
+          }
+          for (const field of Object.keys(price)) {
+            if (!PRICE_FIELDS.includes(field)) errors.push(`modelPrices.${model}.${field} is not a known setting`);
+          }
+          for (const field of PRICE_FIELDS) {
+            const perMillion = price[field];
+            if (typeof perMillion !== 'number' || !Number.isFinite(perMillion) || perMillion < 0) {
+              errors.push(`modelPrices.${model}.${field} must be a non-negative number of USD per million tokens (got ${formatValue(perMillion)})`);
+            }
+          }
+        }
+        break;
+      case 'watchTranscripts':
+      case 'watchLogs':
+        if (typeof value !== 'boolean') errors.push(`${key} must be true or false (got ${formatValue(value)})`);
+        break;
+      default:
+        errors.push(`${key} is not a known setting`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * Load the effective config for a project.
+ * Throws one error listing every problem in every file, so a bad config
+ * can be fixed in one go.
+ */
+export function loadConfig(projectRoot: string, userFile: string | null = USER_CONFIG_FILE): CodeMapConfig {
+  const config: Record<string, unknown> = {};
+  const problems: string[] = [];
+
+  const projectFile = path.join(projectRoot, CONFIG_FILE_NAME);
+
+  // Lowest precedence first so later files overwrite
+  for (const file of configFiles(projectRoot, userFile).reverse()) {
+    if (!fs.existsSync(file)) continue;
+
+    let raw: unknown;
+    try {
+      raw = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    } catch (err) {
+      problems.push(`${file}: ${(err as Error).message}`);
+      continue;
+    }
+
+    const errors = validateConfig(raw);
+    if (file === projectFile && isObject(raw)) {
+      for (const key of USER_ONLY_SETTINGS.filter(key => key in raw)) {
+        errors.push(`${key} can only be set in ${USER_CONFIG_FILE} or the environment`);
+      }
+    }
+    if (errors.length > 0) {
+      problems.push(...errors.map(e => `${file}: ${e}`));
+      continue;
+    }
+    Object.assign(config, raw);
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid CodeMap config:\n  - ${problems.join('\n  - ')}`);
+  }
+
+  delete config.$schema;
+  return { ...DEFAULT_CONFIG, ...config } as CodeMapConfig;
+}
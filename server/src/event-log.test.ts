@@ -0,0 +1,183 @@
+/**
+ * Event Log Tests
+ *
+ * Tests the append-only on-disk event store.
+ * The EventLog is responsible for:
+ * - Assigning monotonically increasing sequence numbers
+ * - Rotating files by date and size
+ * - Filtering history by time, agent, type and path
+ * - Streaming files for a query, and only until it has enough
+ * - Listing the event ids received since a time (spool deduplication)
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { EventLog } from './event-log.js';
+import { FileActivityEvent, ThinkingEvent } from './types.js';
+
+const AGENT_A = 'a7982537-1234-5678-9abc-def012345678';
+const AGENT_B = 'b7982537-1234-5678-9abc-def012345678';
+const DAY_1 = Date.parse('2026-01-17T14:00:00Z');
+const DAY_2 = Date.parse('2026-01-18T09:00:00Z');
+
+function activity(type: FileActivityEvent['type'], filePath: string, timestamp: number, agentId = AGENT_A): FileActivityEvent {
+  return { type, filePath, agentId, timestamp };
+}
+
+function thinking(type: ThinkingEvent['type'], timestamp: number, agentId = AGENT_A): ThinkingEvent {
+  return { type, agentId, timestamp };
+}
+
+describe('EventLog', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'codemap-events-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('Appending', () => {
+    it('assigns increasing sequence numbers', () => {
+      const log = new EventLog(dir);
+      const first = log.append('activity', activity('read-start', '/p/a.ts', DAY_1), DAY_1);
+      const second = log.append('thinking', thinking('thinking-end', DAY_1), DAY_1);
+
+      expect(first.seq).toBe(1);
+      expect(second.seq).toBe(2);
+      expect(log.getLastSeq()).toBe(2);
+    });
+
+    it('continues the sequence after a restart', () => {
+      const log = new EventLog(dir);
+      log.append('activity', activity('read-start', '/p/a.ts', DAY_1), DAY_1);
+      log.append('activity', activity('read-end', '/p/a.ts', DAY_1), DAY_1);
+
+      const reopened = new EventLog(dir);
+      expect(reopened.getLastSeq()).toBe(2);
+      expect(reopened.append('thinking', thinking('thinking-start', DAY_1), DAY_1).seq).toBe(3);
+    });
+
+    it('writes one JSON line per event', () => {
+      const log = new EventLog(dir);
+      log.append('activity', activity('write-end', '/p/a.ts', DAY_1), DAY_1);
+
+      const content = fs.readFileSync(path.join(dir, 'events-2026-01-17.jsonl'), 'utf-8');
+      const lines = content.trim().split('\n');
+      expect(lines).toHaveLength(1);
+      expect(JSON.parse(lines[0])).toMatchObject({ seq: 1, kind: 'activity', event: { type: 'write-end' } });
+    });
+  });
+
+  describe('Rotation', () => {
+    it('starts a new file each day', () => {
+      const log = new EventLog(dir);
+      log.append('activity', activity('read-end', '/p/a.ts', DAY_1), DAY_1);
+      log.append('activity', activity('read-end', '/p/a.ts', DAY_2), DAY_2);
+
+      expect(fs.readdirSync(dir).sort()).toEqual(['events-2026-01-17.jsonl', 'events-2026-01-18.jsonl']);
+    });
+
+    it('starts a new part when the file exceeds the size limit', async () => {
+      const log = new EventLog(dir, { maxFileBytes: 200 });
+      for (let i = 0; i < 5; i++) {
+        log.append('activity', activity('read-end', `/p/file-${i}.ts`, DAY_1), DAY_1);
+      }
+
+      const files = fs.readdirSync(dir);
+      expect(files.length).toBeGreaterThan(1);
+      expect(files).toContain('events-2026-01-17.1.jsonl');
+      // Nothing is lost across parts
+      expect((await log.query()).events.map(e => e.seq)).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    it('deletes the oldest files beyond maxFiles', () => {
+      const log = new EventLog(dir, { maxFiles: 2 });
+      log.append('thinking', thinking('thinking-start', DAY_1), DAY_1);
+      log.append('thinking', thinking('thinking-start', DAY_2), DAY_2);
+      const day3 = DAY_2 + 24 * 60 * 60 * 1000;
+      log.append('thinking', thinking('thinking-start', day3), day3);
+
+      expect(fs.readdirSync(dir).sort()).toEqual(['events-2026-01-18.jsonl', 'events-2026-01-19.jsonl']);
+    });
+  });
+
+  describe('Querying', () => {
+    let log: EventLog;
+
+    beforeEach(() => {
+      log = new EventLog(dir);
+      log.append('activity', activity('read-end', '/p/client/src/App.tsx', DAY_1), DAY_1);
+      log.append('thinking', thinking('thinking-start', DAY_1 + 1000, AGENT_B), DAY_1 + 1000);
+      log.append('activity', activity('write-end', '/p/server/src/index.ts', DAY_2, AGENT_B), DAY_2);
+      log.append('activity', activity('write-end', '/p/client/src-old/x.ts', DAY_2 + 1000), DAY_2 + 1000);
+    });
+
+    it('returns everything in sequence order without filters', async () => {
+      expect((await log.query()).events.map(e => e.seq)).toEqual([1, 2, 3, 4]);
+    });
+
+    it('filters by time range', async () => {
+      const { events } = await log.query({ since: DAY_1 + 500, until: DAY_2 });
+      expect(events.map(e => e.seq)).toEqual([2, 3]);
+    });
+
+    it('filters by agent', async () => {
+      expect((await log.query({ agentId: AGENT_B })).events.map(e => e.seq)).toEqual([2, 3]);
+    });
+
+    it('filters by kind and event type', async () => {
+      expect((await log.query({ kind: 'thinking' })).events.map(e => e.seq)).toEqual([2]);
+      expect((await log.query({ types: ['write-end'] })).events.map(e => e.seq)).toEqual([3, 4]);
+    });
+
+    it('filters by path prefix on folder boundaries', async () => {
+      const { events } = await log.query({ pathPrefix: '/p/client/src' });
+      expect(events.map(e => e.seq)).toEqual([1]);
+    });
+
+    it('pages with afterSeq and reports truncation', async () => {
+      const firstPage = await log.query({ limit: 2 });
+      expect(firstPage.events.map(e => e.seq)).toEqual([1, 2]);
+      expect(firstPage.truncated).toBe(true);
+
+      const secondPage = await log.query({ afterSeq: 2, limit: 2 });
+      expect(secondPage.events.map(e => e.seq)).toEqual([3, 4]);
+      expect(secondPage.truncated).toBe(false);
+    });
+
+    it('stops reading files once it has enough', async () => {
+      const opened = vi.spyOn(fs, 'createReadStream');
+      const { events, truncated } = await log.query({ limit: 1 });
+      expect(events.map(e => e.seq)).toEqual([1]);
+      expect(truncated).toBe(true);
+      expect(opened).toHaveBeenCalledTimes(1);
+      opened.mockRestore();
+    });
+
+    it('finds late deliveries stored in a newer file', async () => {
+      // Received on day 2, but happened on day 1
+      log.append('activity', activity('read-end', '/p/late.ts', DAY_1 + 2000), DAY_2 + 2000);
+      const { events } = await log.query({ since: DAY_1, until: DAY_1 + 5000 });
+      expect(events.map(e => e.seq)).toEqual([1, 2, 5]);
+    });
+
+    it('skips partially written lines', async () => {
+      fs.appendFileSync(path.join(dir, 'events-2026-01-18.jsonl'), '{"seq":5,"kin');
+      expect((await log.query()).events).toHaveLength(4);
+    });
+
+    it('lists the event ids received since a time, from that day on', () => {
+      log.append('activity', { ...activity('read-end', '/p/a.ts', DAY_1), eventId: 'early' }, DAY_1 + 2000);
+      log.append('activity', { ...activity('read-end', '/p/b.ts', DAY_1), eventId: 'late' }, DAY_2 + 2000);
+      fs.appendFileSync(path.join(dir, 'events-2026-01-18.jsonl'), '{"seq":7,"event":{"eventId":"cut');
+
+      expect(log.eventIds(DAY_1)).toEqual(new Set(['early', 'late']));
+      expect(log.eventIds(DAY_2)).toEqual(new Set(['late']));
+    });
+  });
+});
@@ -0,0 +1,249 @@
+// Append-only on-disk event log
+// Every ingested event is written as one JSON line with a sequence number.
+// Files rotate daily (UTC) and whenever the current file exceeds maxFileBytes:
+//   events-2026-01-17.jsonl, events-2026-01-17.1.jsonl, events-2026-01-18.jsonl, ...
+
+import path from 'path';
+import fs from 'fs';
+import readline from 'readline';
+import { EventKind, EventQuery, FileActivityEvent, LoggedEvent, ThinkingEvent } from './types.js';
+
+export interface EventLogOptions {
+  maxFileBytes?: number;  // Rotate to a new file after this size
+  maxFiles?: number;      // Oldest files beyond this count are deleted
+}
+
+export const DEFAULT_QUERY_LIMIT = 1000;
+export const MAX_QUERY_LIMIT = 10000;
+
+const FILE_PATTERN = /^events-(\d{4}-\d{2}-\d{2})(?:\.(\d+))?\.jsonl$/;
+
+interface LogFile {
+  name: string;
+  date: string;
+  part: number;
+}
+
+function dateKey(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+export class EventLog {
+  private dir: string;
+  private maxFileBytes: number;
+  private maxFiles: number;
+  private seq = 0;
+  private currentFile: LogFile | null = null;
+  private currentSize = 0;
+
+  constructor(dir: string, options: EventLogOptions = {}) {
+    this.dir = dir;
+    this.maxFileBytes = options.maxFileBytes ?? 10 * 1024 * 1024;
+    this.maxFiles = options.maxFiles ?? 30;
+    fs.mkdirSync(dir, { recursive: true });
+    this.restoreSequence();
+  }
+
+  // Highest sequence number written so far (0 when the log is empty)
+  getLastSeq(): number {
+    return this.seq;
+  }
+
+  append(kind: EventKind, event: FileActivityEvent | ThinkingEvent, receivedAt: number = Date.now()): LoggedEvent {
+    const record = { seq: this.seq + 1, receivedAt, kind, event } as LoggedEvent;
+    const line = JSON.stringify(record) + '\n';
+    const file = this.fileFor(receivedAt, Buffer.byteLength(line));
+
+    fs.appendFileSync(path.join(this.dir, file.name), line);
+    this.seq = record.seq;
+    this.currentSize += Buffer.byteLength(line);
+    return record;
+  }
+
+  // Files are streamed a line at a time, and reading stops at the limit - a query never
+  // holds the whole log, nor blocks other requests while it reads
+  async query(filter: EventQuery = {}): Promise<{ events: LoggedEvent[]; truncated: boolean }> {
+    // Callers clamp untrusted limits to MAX_QUERY_LIMIT; replay loads larger ranges
+    const limit = Math.max(filter.limit ?? DEFAULT_QUERY_LIMIT, 1);
+    // Files are named by receive date and events are never received before they happen,
+    // so files dated before `since` can be skipped. Later files may still hold older
+    // timestamps (late deliveries), so `until` can't prune files.
+    const sinceDate = filter.since !== undefined ? dateKey(filter.since) : null;
+    const events: LoggedEvent[] = [];
+
+    for (const file of this.listFiles()) {
+      if (sinceDate && file.date < sinceDate) continue;
+
+      for await (const record of this.streamFile(file.name)) {
+        if (!matches(record, filter)) continue;
+        if (events.length >= limit) {
+          return { events, truncated: true };
+        }
+        events.push(record);
+      }
+    }
+
+    return { events, truncated: false };
+  }
+
+  /**
+   * Ids of the events received since `since` - to tell which spooled events were
+   * delivered after all. Only the ids are kept, whatever the size of the log.
+   */
+  eventIds(since: number): Set<string> {
+    const sinceDate = dateKey(since);
+    const ids = new Set<string>();
+    for (const file of this.listFiles()) {
+      if (file.date < sinceDate) continue;
+      for (const line of this.readLines(file.name)) {
+        if (!line.includes('"eventId"')) continue;
+        try {
+          const id = JSON.parse(line).event?.eventId;
+          if (typeof id === 'string') ids.add(id);
+        } catch {
+          // Partially written line
+        }
+      }
+    }
+    return ids;
+  }
+
+  // Sorted oldest to newest
+  private listFiles(): LogFile[] {
+    let names: string[];
+    try {
+      names = fs.readdirSync(this.dir);
+    } catch {
+      return [];
+    }
+
+    const files: LogFile[] = [];
+    for (const name of names) {
+      const match = name.match(FILE_PATTERN);
+      if (match) {
+        files.push({ name, date: match[1], part: match[2] ? parseInt(match[2], 10) : 0 });
+      }
+    }
+    return files.sort((a, b) => a.date.localeCompare(b.date) || a.part - b.part);
+  }
+
+  private readLines(name: string): string[] {
+    try {
+      return fs.readFileSync(path.join(this.dir, name), 'utf-8').split('\n').filter(Boolean);
+    } catch {
+      return [];
+    }
+  }
+
+  private async *streamFile(name: string): AsyncGenerator<LoggedEvent> {
+    const input = fs.createReadStream(path.join(this.dir, name), 'utf-8');
+    const lines = readline.createInterface({ input, crlfDelay: Infinity });
+    try {
+      for await (const line of lines) {
+        if (!line) continue;
+        let record: LoggedEvent;
+        try {
+          record = JSON.parse(line);
+        } catch {
+          // Skip a partially written line (e.g. crash mid-append)
+          continue;
+        }
+        yield record;
+      }
+    } catch {
+      // Deleted by rotation since it was listed
+    } finally {
+      lines.close();
+      input.destroy();
+    }
+  }
+
+  private readFile(name: string): LoggedEvent[] {
+    const records: LoggedEvent[] = [];
+    for (const line of this.readLines(name)) {
+      try {
+        records.push(JSON.parse(line));
+      } catch {
+        // Skip a partially written line (e.g. crash mid-append)
+      }
+    }
+    return records;
+  }
+
+  // Pick the file to append to, rotating by date or size as needed
+  private fileFor(receivedAt: number, incomingBytes: number): LogFile {
+    const date = dateKey(receivedAt);
+    const current = this.currentFile;
+
+    if (current && current.date === date && this.currentSize + incomingBytes <= this.maxFileBytes) {
+      return current;
+    }
+
+    const part = current && current.date === date ? current.part + 1 : 0;
+    const name = part === 0 ? `events-${date}.jsonl` : `events-${date}.${part}.jsonl`;
+    this.currentFile = { name, date, part };
+    this.currentSize = 0;
+    this.pruneOldFiles();
+    return this.currentFile;
+  }
+
+  private pruneOldFiles(): void {
+    const files = this.listFiles();
+    // Leave room for the file about to be created
+    const excess = files.length - (this.maxFiles - 1);
+    for (let i = 0; i < excess; i++) {
+      try {
+        fs.unlinkSync(path.join(this.dir, files[i].name));
+      } catch (err) {
+        console.error('Failed to delete old event log file:', err);
+      }
+    }
+  }
+
+  // Continue numbering from the last record on disk
+  private restoreSequence(): void {
+    const files = this.listFiles();
+    const latest = files[files.length - 1];
+    if (!latest) return;
+
+    const records = this.readFile(latest.name);
+    const last = records[records.length - 1];
+    if (last) {
+      this.seq = last.seq;
+    }
+
+    this.currentFile = latest;
+    const filePath = path.join(this.dir, latest.name);
+    try {
+      // Terminate a partially written last line so the next append starts cleanly
+      const content = fs.readFileSync(filePath, 'utf-8');
+      if (content.length > 0 && !content.endsWith('\n')) {
+        fs.appendFileSync(filePath, '\n');
+      }
+      this.currentSize = fs.statSync(filePath).size;
+    } catch {
+      this.currentSize = 0;
+    }
+  }
+}
+
+function matches(record: LoggedEvent, filter: EventQuery): boolean {
+  const timestamp = record.event.timestamp ?? record.receivedAt;
+
+  if (filter.afterSeq !== undefined && record.seq <= filter.afterSeq) return false;
+  if (filter.since !== undefined && timestamp < filter.since) return false;
+  if (filter.until !== undefined && timestamp > filter.until) return false;
+  if (filter.kind && record.kind !== filter.kind) return false;
+  if (filter.agentId && record.event.agentId !== filter.agentId) return false;
+  if (filter.types && filter.types.length > 0 && !filter.types.includes(record.event.type)) return false;
+
+  if (filter.pathPrefix) {
+    if (record.kind !== 'activity') return false;
+    const filePath = record.event.filePath;
+    if (filePath !== filter.pathPrefix && !filePath.startsWith(filter.pathPrefix.replace(/\/$/, '') + '/')) {
+      return false;
+    }
+  }
+
+  return true;
+}
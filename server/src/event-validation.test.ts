@@ -0,0 +1,69 @@
+/**
+ * Event Validation Tests
+ *
+ * Tests the runtime checks on hook events.
+ * The validator is responsible for:
+ * - Recognising activity and thinking events by type
+ * - Rejecting unknown fields and mistyped values with a clear reason
+ * - Passing valid events through unchanged
+ */
+
+import { describe, it, expect } from 'vitest';
+import { validateEvent, MAX_FIELD_LENGTH } from './event-validation.js';
+
+const AGENT = '9f2c4e1a-7b3d-4c8e-a1f0-5d6b7c8e9f01';
+const activity = { type: 'read-start', filePath: '/p/src/a.ts', agentId: AGENT, source: 'claude', timestamp: 1000 };
+const thinking = { type: 'thinking-start', agentId: AGENT, timestamp: 1000, toolName: 'Read', duration: 12.5 };
+
+describe('Event Validation', () => {
+  it('accepts activity events', () => {
+    expect(validateEvent(activity)).toEqual({ ok: true, kind: 'activity', event: activity });
+  });
+
+  it('accepts thinking events', () => {
+    expect(validateEvent(thinking)).toEqual({ ok: true, kind: 'thinking', event: thinking });
+    const stop = { type: 'agent-stop', agentId: AGENT, timestamp: 1000, status: 'completed', loopCount: 3 };
+    expect(validateEvent(stop)).toMatchObject({ ok: true, kind: 'thinking' });
+  });
+
+  it('rejects non-objects and unknown types', () => {
+    expect(validateEvent([activity])).toEqual({ ok: false, reason: 'event must be a JSON object' });
+    expect(validateEvent({ ...activity, type: 'delete-start' })).toMatchObject({ ok: false, reason: expect.stringContaining('type must be one of read-start') });
+  });
+
+  it('requires the fields the types require', () => {
+    expect(validateEvent({ type: 'read-start', timestamp: 1 })).toEqual({ ok: false, reason: 'filePath is required' });
+    expect(validateEvent({ type: 'thinking-end', timestamp: 1 })).toEqual({ ok: false, reason: 'agentId is required' });
+    expect(validateEvent({ type: 'thinking-end', agentId: AGENT })).toEqual({ ok: false, reason: 'timestamp is required' });
+  });
+
+  it('rejects fields the types do not have', () => {
+    expect(validateEvent({ ...thinking, isThinking: true })).toEqual({ ok: false, reason: 'isThinking is not a known field' });
+    // Activity events don't carry thinking fields
+    expect(validateEvent({ ...activity, toolName: 'Read' })).toEqual({ ok: false, reason: 'toolName is not a known field' });
+    expect(validateEvent({ ...activity, constructor: 1 })).toMatchObject({ ok: false });
+  });
+
+  it('rejects mistyped values', () => {
+    expect(validateEvent({ ...thinking, toolName: { evil: true } })).toEqual({
+      ok: false,
+      reason: `toolName must be a non-empty string of at most ${MAX_FIELD_LENGTH} characters (got {"evil":true})`
+    });
+    expect(validateEvent({ ...thinking, duration: -1 })).toMatchObject({ ok: false });
+    expect(validateEvent({ ...thinking, timestamp: '1000' })).toMatchObject({ ok: false });
+    expect(validateEvent({ ...thinking, loopCount: 1.5 })).toMatchObject({ ok: false });
+    expect(validateEvent({ ...activity, source: 'vim' })).toMatchObject({ ok: false, reason: expect.stringContaining('source must be one of claude, cursor, windsurf, jsonl, unknown') });
+    expect(validateEvent({ ...thinking, ruleContext: ['a', 2] })).toMatchObject({ ok: false });
+    expect(validateEvent({ ...thinking, contextUsage: 100 })).toMatchObject({ ok: true });
+    expect(validateEvent({ ...thinking, contextUsage: 101 })).toEqual({ ok: false, reason: 'contextUsage must be at most 100 (got 101)' });
+  });
+
+  it('limits string length', () => {
+    expect(validateEvent({ ...thinking, toolInput: 'x'.repeat(MAX_FIELD_LENGTH) })).toMatchObject({ ok: true });
+    expect(validateEvent({ ...thinking, toolInput: 'x'.repeat(MAX_FIELD_LENGTH + 1) })).toMatchObject({ ok: false });
+  });
+
+  it('drops null optional fields', () => {
+    expect(validateEvent({ ...thinking, model: null })).toEqual({ ok: true, kind: 'thinking', event: thinking });
+  });
+});
@@ -0,0 +1,177 @@
+// Hook event validation - every event is checked before it reaches the stores
+// The field rules are typed against FileActivityEvent and ThinkingEvent: a field added
+// to types.ts without a rule here (or a required field without `required`) won't compile.
+// Unknown fields are rejected, so a payload can only set what the types allow.
+
+import {
+  AgentRole,
+  AgentSource,
+  AgentStatus,
+  FileActivityEvent,
+  IncomingEvent,
+  ThinkingEvent
+} from './types.js';
+import { ADAPTERS } from './adapters/index.js';
+
+// Longest string accepted in any field (commands, paths, names)
+export const MAX_FIELD_LENGTH = 10000;
+
+type FieldRule =
+  | { kind: 'string' }
+  | { kind: 'enum'; values: readonly string[] }
+  | { kind: 'number'; integer?: boolean; max?: number }
+  | { kind: 'string-array' };
+
+// Required keys of T - those whose type doesn't allow undefined
+type RequiredKeys<T> = { [K in keyof T]-?: object extends Pick<T, K> ? never : K }[keyof T];
+
+type EventSchema<T> = {
+  [K in keyof T]-?: FieldRule & (K extends RequiredKeys<T> ? { required: true } : { required?: never })
+};
+
+// Records make the compiler check every union member is listed
+const ACTIVITY_TYPES: Record<FileActivityEvent['type'], true> = {
+  'read-start': true, 'read-end': true, 'write-start': true, 'write-end': true, 'search-start': true, 'search-end': true
+};
+const THINKING_TYPES: Record<ThinkingEvent['type'], true> = {
+  'thinking-start': true, 'thinking-end': true, 'agent-stop': true,
+  'session-start': true, 'session-end': true, 'prompt-submit': true, 'subagent-stop': true, 'pre-compact': true,
+  'agent-update': true
+};
+// Every adapter's source, and 'unknown' for events that don't say
+export const SOURCES: Record<AgentSource, true> = {
+  ...Object.fromEntries(ADAPTERS.map(adapter => [adapter.source, true as const])),
+  unknown: true
+};
+const STATUSES: Record<AgentStatus, true> = { completed: true, aborted: true, error: true };
+const ROLES: Record<AgentRole, true> = { main: true, 'sub-agent': true, specialist: true };
+
+const enumOf = (values: Record<string, true>) => ({ kind: 'enum' as const, values: Object.keys(values) });
+const STRING = { kind: 'string' } as const;
+const TIMESTAMP = { kind: 'number', integer: true, required: true } as const;
+
+const ACTIVITY_SCHEMA: EventSchema<FileActivityEvent> = {
+  type: { ...enumOf(ACTIVITY_TYPES), required: true },
+  filePath: { ...STRING, required: true },
+  agentId: STRING,
+  source: enumOf(SOURCES),
+  timestamp: TIMESTAMP,
+  cwd: STRING,
+  eventId: STRING,
+  skillName: STRING,
+  mcpServer: STRING,
+  matchedFiles: { kind: 'string-array' },
+  glob: STRING,
+};
+
+const THINKING_SCHEMA: EventSchema<ThinkingEvent> = {
+  type: { ...enumOf(THINKING_TYPES), required: true },
+  agentId: { ...STRING, required: true },
+  source: enumOf(SOURCES),
+  timestamp: TIMESTAMP,
+  cwd: STRING,
+  eventId: STRING,
+  toolName: STRING,
+  toolInput: STRING,
+  agentType: STRING,
+  model: STRING,
+  duration: { kind: 'number' },
+  status: enumOf(STATUSES),
+  loopCount: { kind: 'number', integer: true },
+  contextUsage: { kind: 'number', max: 100 },
+  transcriptPath: STRING,
+  lastMessage: STRING,
+  command: STRING,
+  exitCode: { kind: 'number', integer: true },
+  agentName: STRING,
+  agentRole: enumOf(ROLES),
+  parentAgentId: STRING,
+  skillName: STRING,
+  skillCommand: STRING,
+  mcpServer: STRING,
+  mcpTool: STRING,
+  ruleContext: { kind: 'string-array' },
+};
+
+function formatValue(value: unknown): string {
+  const text = JSON.stringify(value) ?? String(value);
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function checkString(value: unknown): boolean {
+  return typeof value === 'string' && value !== '' && value.length <= MAX_FIELD_LENGTH;
+}
+
+// Why `value` breaks `rule`, or null if it doesn't
+function checkField(key: string, value: unknown, rule: FieldRule): string | null {
+  switch (rule.kind) {
+    case 'string':
+      return checkString(value) ? null : `${key} must be a non-empty string of at most ${MAX_FIELD_LENGTH} characters (got ${formatValue(value)})`;
+    case 'enum':
+      return typeof value === 'string' && rule.values.includes(value)
+        ? null
+        : `${key} must be one of ${rule.values.join(', ')} (got ${formatValue(value)})`;
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || (rule.integer && !Number.isInteger(value))) {
+        return `${key} must be a non-negative ${rule.integer ? 'integer' : 'number'} (got ${formatValue(value)})`;
+      }
+      if (rule.max !== undefined && value > rule.max) {
+        return `${key} must be at most ${rule.max} (got ${formatValue(value)})`;
+      }
+      return null;
+    case 'string-array':
+      return Array.isArray(value) && value.every(checkString) ? null : `${key} must be an array of strings (got ${formatValue(value)})`;
+  }
+}
+
+function checkEvent<T>(raw: Record<string, unknown>, schema: EventSchema<T>): string | null {
+  const rules = schema as Record<string, FieldRule & { required?: boolean }>;
+
+  for (const key of Object.keys(raw)) {
+    if (!Object.hasOwn(rules, key)) return `${key} is not a known field`;
+  }
+  for (const [key, rule] of Object.entries(rules)) {
+    const value = raw[key];
+    if (value === undefined || value === null) {
+      if (rule.required) return `${key} is required`;
+      continue;
+    }
+    const error = checkField(key, value, rule);
+    if (error) return error;
+  }
+  return null;
+}
+
+export type ValidationResult = ({ ok: true } & IncomingEvent) | { ok: false; reason: string };
+
+/**
+ * Check one event from a hook. The kind (activity or thinking) follows from its type.
+ * Null fields are dropped; anything else that doesn't match the types is rejected.
+ */
+export function validateEvent(raw: unknown): ValidationResult {
+  if (!isObject(raw)) {
+    return { ok: false, reason: 'event must be a JSON object' };
+  }
+
+  const type = raw.type;
+  const isActivity = typeof type === 'string' && Object.hasOwn(ACTIVITY_TYPES, type);
+  const isThinking = typeof type === 'string' && Object.hasOwn(THINKING_TYPES, type);
+  if (!isActivity && !isThinking) {
+    return {
+      ok: false,
+      reason: `type must be one of ${[...Object.keys(ACTIVITY_TYPES), ...Object.keys(THINKING_TYPES)].join(', ')} (got ${formatValue(type)})`
+    };
+  }
+
+  const reason = isActivity ? checkEvent(raw, ACTIVITY_SCHEMA) : checkEvent(raw, THINKING_SCHEMA);
+  if (reason) return { ok: false, reason };
+
+  const event = Object.fromEntries(Object.entries(raw).filter(([, value]) => value !== null));
+  return isActivity
+    ? { ok: true, kind: 'activity', event: event as unknown as FileActivityEvent }
+    : { ok: true, kind: 'thinking', event: event as unknown as ThinkingEvent };
+}
@@ -21,9 +21,18 @@ interface CacheEntry {
 const cache = new Map<string, CacheEntry>();
 const CACHE_TTL = 30000; // 30 seconds
 
+type RefreshListener = (projectRoot: string, durationMs: number) => void;
+let refreshListener: RefreshListener | null = null;
+
+// Called after every git log run (cache misses only) - feeds /metrics
+export function onGitLogRefresh(listener: RefreshListener): void {
+  refreshListener = listener;
+}
+
 export async function getHotFolders(
   projectRoot: string,
-  limit: number = 50
+  limit: number = 50,
+  logDepth: number = 500
 ): Promise<FolderScore[]> {
   // Check cache
   const cached = cache.get(projectRoot);
@@ -32,11 +41,14 @@ export async function getHotFolders(
   }
 
   try {
-    // Get last 500 commits' changed files
+    // Get the last logDepth commits' changed files (about 4 files per commit)
+    const depth = Math.max(1, Math.floor(logDepth));
+    const started = performance.now();
     const { stdout } = await execAsync(
-      'git log --name-only --pretty=format: -n 500 2>/dev/null | grep -v "^$" | head -2000',
+      `git log --name-only --pretty=format: -n ${depth} 2>/dev/null | grep -v "^$" | head -${depth * 4}`,
       { cwd: projectRoot, maxBuffer: 10 * 1024 * 1024 }
     );
+    refreshListener?.(projectRoot, performance.now() - started);
 
     const files = stdout.trim().split('\n').filter(Boolean);
 
@@ -0,0 +1,530 @@
+/**
+ * Hook Client Tests
+ *
+ * Tests `codemap hook <event>` against recorded Claude Code, Cursor and Windsurf payloads.
+ * The hook client is responsible for:
+ * - Mapping each tool's payload fields onto activity/thinking events
+ * - Telling a search's glob from its regular expression by the tool
+ * - Reading context usage from the payload or the session transcript
+ * - Producing valid JSON whatever the payload contains (quotes, newlines)
+ * - Sending events with the shared secret
+ * - Reading the secret from ~/.codemap/secret when the hook command has no token
+ * - Spooling events the server couldn't be reached for
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import express from 'express';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { spawn } from 'child_process';
+import {
+  buildRequests,
+  sendRequests,
+  spoolRequests,
+  parseHookArgs,
+  readContextUsage,
+  HookRequest
+} from './hook-client.js';
+import { parseMcpToolName, HookPayload } from './adapters/hook-events.js';
+import { drainSpool } from './spool.js';
+import { requireToken } from './auth.js';
+import { validateEvent } from './event-validation.js';
+import { SpooledEvent } from './types.js';
+
+const FIXTURES = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures', 'hook-payloads');
+const NOW = 1760000000000;
+const CONTEXT = { now: NOW, cwd: '/hook/cwd' };
+
+const CLAUDE_SESSION = '9f2c4e1a-7b3d-4c8e-a1f0-5d6b7c8e9f01';
+const CLAUDE_TRANSCRIPT = `/Users/dev/.claude/projects/-Users-dev-shop/${CLAUDE_SESSION}.jsonl`;
+const WINDSURF_CONVERSATION = 'c7a1d9e2-33b4-4f5a-9e6d-0b1c2d3e4f50';
+const CURSOR_CONVERSATION = '5b8e2f10-6c4d-4a9e-b7f3-2d1e0c9a8b76';
+
+function fixture(name: string): HookPayload {
+  return JSON.parse(fs.readFileSync(path.join(FIXTURES, `${name}.json`), 'utf-8'));
+}
+
+const build = (event: string, name: string) => buildRequests(event, fixture(name), CONTEXT);
+
+describe('Hook Client: Claude Code payloads', () => {
+  it('reports a file read with the current tool', () => {
+    expect(build('read-start', 'claude-pre-read')).toEqual([
+      {
+        endpoint: 'activity',
+        body: {
+          type: 'read-start',
+          filePath: '/Users/dev/shop/src/cart/checkout.ts',
+          agentId: CLAUDE_SESSION,
+          source: 'claude',
+          timestamp: NOW,
+          cwd: '/Users/dev/shop'
+        }
+      },
+      {
+        endpoint: 'thinking',
+        body: {
+          type: 'thinking-end',
+          agentId: CLAUDE_SESSION,
+          source: 'claude',
+          timestamp: NOW,
+          cwd: '/Users/dev/shop',
+          toolName: 'Read'
+        }
+      }
+    ]);
+  });
+
+  it('marks the tool finished after a write', () => {
+    const [activity, thinking] = build('write-end', 'claude-post-edit');
+    expect(activity.body).toMatchObject({ type: 'write-end', filePath: '/Users/dev/shop/src/cart/checkout.ts' });
+    expect(thinking.body).toMatchObject({ type: 'thinking-start', toolName: 'Edit' });
+  });
+
+  it('shows the file name as tool input', () => {
+    const [thinking] = build('thinking-end', 'claude-pre-read');
+    expect(thinking.body).toMatchObject({ toolName: 'Read', toolInput: 'checkout.ts' });
+  });
+
+  it('encodes quotes, backslashes and newlines', () => {
+    const [thinking] = build('thinking-end', 'claude-pre-bash');
+    const decoded = JSON.parse(JSON.stringify(thinking.body));
+    expect(decoded.cwd).toBe('/Users/dev/shop "beta"');
+    expect(decoded.toolInput).toBe('grep -rn "TODO" src \\\n  | head');
+    expect(decoded.toolInput).toHaveLength(30);
+  });
+
+  it('keeps the whole command and how it exited', () => {
+    const command = 'grep -rn "TODO" src \\\n  | head -20';
+    expect(build('thinking-end', 'claude-pre-bash')[0].body).toMatchObject({ toolName: 'Bash', command });
+    expect(build('thinking-end', 'claude-pre-bash')[0].body).not.toHaveProperty('exitCode');
+    expect(build('thinking-start', 'claude-post-bash')[0].body).toMatchObject({
+      command: 'npm test -- --run src/cart/checkout.test.ts',
+      exitCode: 0
+    });
+    expect(build('thinking-start', 'claude-post-bash-failure')[0].body).toMatchObject({ command: 'npm run lint', exitCode: 2 });
+    expect(build('thinking-start', 'cursor-after-shell')[0].body).toMatchObject({ toolName: 'Shell', command: 'npm test -- --run cart', duration: 1840 });
+    expect(build('thinking-start', 'windsurf-after-shell')[0].body).toMatchObject({ command: 'npm test', duration: 2310 });
+  });
+
+  it('sends a search alongside Grep', () => {
+    const requests = build('thinking-end', 'claude-pre-grep');
+    expect(requests.map(r => r.endpoint)).toEqual(['thinking', 'activity']);
+    expect(requests[1].body).toMatchObject({
+      type: 'search-start',
+      filePath: '/Users/dev/shop/src:export (function|const) calculate\\w+',
+      glob: '*.ts'
+    });
+    expect(build('thinking-start', 'claude-pre-grep')[1].body).toMatchObject({ type: 'search-end' });
+    expect(build('thinking-start', 'claude-pre-grep')[1].body).not.toHaveProperty('matchedFiles');
+  });
+
+  it('sends the files a search found with its end', () => {
+    expect(build('thinking-start', 'claude-post-glob')[1].body).toMatchObject({
+      type: 'search-end',
+      filePath: '.:src/cart/**/*.ts',
+      glob: 'src/cart/**/*.ts',
+      matchedFiles: ['/Users/dev/shop/src/cart/checkout.ts', '/Users/dev/shop/src/cart/checkout.test.ts']
+    });
+  });
+
+  it('names sub-agents after the Task description', () => {
+    const [thinking] = build('thinking-end', 'claude-pre-task');
+    expect(thinking.body).toMatchObject({
+      toolName: 'Task',
+      toolInput: 'Explore',
+      agentName: 'Review checkout pric'
+    });
+  });
+
+  it('records the skill and its command', () => {
+    const [thinking] = build('thinking-end', 'claude-pre-skill');
+    expect(thinking.body).toMatchObject({
+      toolInput: 'release-notes',
+      skillName: 'release-notes',
+      skillCommand: '/release-notes v2.3.0'
+    });
+  });
+
+  it('splits MCP tool names into server and tool', () => {
+    const [thinking] = build('thinking-start', 'claude-post-mcp');
+    expect(thinking.body).toMatchObject({ mcpServer: 'github', mcpTool: 'create_pull_request' });
+  });
+
+  it('reports notifications as waiting without a tool', () => {
+    const requests = build('thinking-end', 'claude-notification');
+    expect(requests).toHaveLength(1);
+    expect(requests[0].body).not.toHaveProperty('toolName');
+  });
+  it('reports the session lifecycle', () => {
+    expect(build('session-start', 'claude-session-start')).toEqual([{
+      endpoint: 'thinking',
+      body: {
+        type: 'session-start',
+        agentId: CLAUDE_SESSION,
+        source: 'claude',
+        timestamp: NOW,
+        cwd: '/Users/dev/shop',
+        model: 'claude-sonnet-4-5',
+        transcriptPath: CLAUDE_TRANSCRIPT
+      }
+    }]);
+    expect(build('prompt-submit', 'claude-user-prompt')[0].body).toMatchObject({ type: 'prompt-submit', agentId: CLAUDE_SESSION });
+    expect(build('subagent-stop', 'claude-subagent-stop')[0].body).toMatchObject({ type: 'subagent-stop' });
+    expect(build('session-end', 'claude-session-end')[0].body).toMatchObject({ type: 'session-end', agentId: CLAUDE_SESSION });
+  });
+
+  it('reports a finished turn as completed', () => {
+    expect(build('agent-stop', 'claude-stop')[0].body).toMatchObject({ type: 'agent-stop', status: 'completed' });
+  });
+
+  it('reports compaction with the context usage', () => {
+    const requests = buildRequests('pre-compact', fixture('claude-pre-compact'), { ...CONTEXT, contextUsage: 93.2 });
+    expect(requests).toEqual([{
+      endpoint: 'thinking',
+      body: {
+        type: 'pre-compact',
+        agentId: CLAUDE_SESSION,
+        source: 'claude',
+        timestamp: NOW,
+        cwd: '/Users/dev/shop',
+        contextUsage: 93.2,
+        transcriptPath: CLAUDE_TRANSCRIPT
+      }
+    }]);
+  });
+
+  it('passes the transcript on when a tool or turn finishes', () => {
+    expect(build('agent-stop', 'claude-stop')[0].body).toMatchObject({ transcriptPath: CLAUDE_TRANSCRIPT });
+    expect(build('thinking-start', 'claude-post-edit')[0].body).toMatchObject({ transcriptPath: CLAUDE_TRANSCRIPT });
+    expect(build('thinking-end', 'claude-pre-read')[0].body).not.toHaveProperty('transcriptPath');
+  });
+
+  it('prefers the context usage in the payload', () => {
+    const payload = { ...fixture('claude-pre-read'), context_window: { used_percentage: 41.27 } };
+    const requests = buildRequests('read-start', payload, { ...CONTEXT, contextUsage: 10 });
+    expect(requests[1].body).toMatchObject({ type: 'thinking-end', contextUsage: 41.3 });
+    expect(requests[0].body).not.toHaveProperty('contextUsage');
+  });
+});
+
+describe('Hook Client: Windsurf payloads', () => {
+  it('reads the top-level file path and workspace root', () => {
+    const [activity, thinking] = build('read-start', 'windsurf-before-read-file');
+    expect(activity.body).toEqual({
+      type: 'read-start',
+      filePath: '/home/dev/shop/src/cart/checkout.ts',
+      agentId: WINDSURF_CONVERSATION,
+      source: 'windsurf',
+      timestamp: NOW,
+      cwd: '/home/dev/shop'
+    });
+    expect(thinking.body).toMatchObject({ type: 'thinking-end', toolName: 'beforeReadFile' });
+  });
+
+  it('reports file edits', () => {
+    const [activity] = build('write-end', 'windsurf-after-file-edit');
+    expect(activity.body).toMatchObject({ type: 'write-end', filePath: '/home/dev/shop/src/cart/checkout.ts' });
+  });
+
+  it('carries model and duration from shell executions', () => {
+    const [thinking] = build('thinking-start', 'windsurf-after-shell');
+    expect(thinking.body).toMatchObject({
+      toolName: 'npm test',
+      model: 'claude-3.5-sonnet',
+      duration: 2310,
+      source: 'windsurf'
+    });
+  });
+
+  it('handles MCP calls whose tool input is a string', () => {
+    const [thinking] = build('thinking-start', 'windsurf-after-mcp');
+    expect(thinking.body).toMatchObject({ mcpServer: 'perplexity', mcpTool: 'search', duration: 845 });
+  });
+
+  it('starts a turn on a prompt', () => {
+    expect(build('prompt-submit', 'windsurf-before-submit-prompt')).toEqual([{
+      endpoint: 'thinking',
+      body: { type: 'prompt-submit', agentId: WINDSURF_CONVERSATION, source: 'windsurf', timestamp: NOW, cwd: '/home/dev/shop' }
+    }]);
+  });
+
+  it('reports how the agent stopped', () => {
+    expect(build('agent-stop', 'windsurf-stop')).toEqual([{
+      endpoint: 'thinking',
+      body: {
+        type: 'agent-stop',
+        agentId: WINDSURF_CONVERSATION,
+        source: 'windsurf',
+        timestamp: NOW,
+        cwd: '/home/dev/shop',
+        status: 'completed',
+        loopCount: 7
+      }
+    }]);
+  });
+});
+
+describe('Hook Client: Cursor payloads', () => {
+  it('tells Cursor from Windsurf by its version field', () => {
+    const [activity, thinking] = build('read-start', 'cursor-before-read-file');
+    expect(activity.body).toEqual({
+      type: 'read-start',
+      filePath: '/home/dev/shop/src/cart/checkout.ts',
+      agentId: CURSOR_CONVERSATION,
+      source: 'cursor',
+      timestamp: NOW,
+      cwd: '/home/dev/shop'
+    });
+    expect(thinking.body).toMatchObject({ type: 'thinking-end', toolName: 'Read', source: 'cursor' });
+  });
+
+  it('names shell executions after the tool and shows the command', () => {
+    const [thinking] = build('thinking-start', 'cursor-after-shell');
+    expect(thinking.body).toMatchObject({ toolName: 'Shell', toolInput: 'npm test -- --run cart', model: 'gpt-5', duration: 1840 });
+  });
+
+  it('keeps what the agent thought as its last message', () => {
+    const [thinking] = build('thinking-start', 'cursor-after-agent-thought');
+    expect(thinking.body).toMatchObject({
+      type: 'thinking-start',
+      lastMessage: 'The rounding happens before tax is applied, so the totals drift by a cent.',
+      duration: 3200
+    });
+  });
+
+  it('reports prompts and how the agent stopped', () => {
+    expect(build('prompt-submit', 'cursor-before-submit-prompt')[0].body).toMatchObject({ type: 'prompt-submit', source: 'cursor' });
+    expect(build('agent-stop', 'cursor-stop')[0].body).toMatchObject({ type: 'agent-stop', status: 'aborted', loopCount: 3 });
+  });
+});
+
+describe('Hook Client: Transcripts', () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'codemap-hook-transcript-'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const transcript = (name: string, entries: object[]) => {
+    const file = path.join(dir, name);
+    fs.writeFileSync(file, entries.map(entry => JSON.stringify(entry)).join('\n') + '\n');
+    return file;
+  };
+  const assistant = (usage: object) => ({ type: 'assistant', message: { role: 'assistant', usage } });
+
+  it('counts every token of the latest assistant message', () => {
+    const file = transcript('session.jsonl', [
+      assistant({ input_tokens: 10, output_tokens: 10 }),
+      assistant({ input_tokens: 2000, cache_creation_input_tokens: 8000, cache_read_input_tokens: 89000, output_tokens: 1000 }),
+      { type: 'user', message: { role: 'user', content: 'next' } },
+    ]);
+    expect(readContextUsage(file)).toBe(50);
+    expect(readContextUsage(file, 100000)).toBe(100);
+  });
+
+  it('reports nothing without a transcript or usage', () => {
+    expect(readContextUsage(path.join(dir, 'missing.jsonl'))).toBeUndefined();
+    expect(readContextUsage(transcript('new.jsonl', [{ type: 'user', message: { content: 'hi' } }]))).toBeUndefined();
+  });
+});
+
+describe('Hook Client: Server compatibility', () => {
+  it('builds events the server accepts from every recorded payload', () => {
+    const events = [
+      'read-start', 'read-end', 'write-start', 'write-end', 'thinking-start', 'thinking-end', 'agent-stop',
+      'session-start', 'session-end', 'prompt-submit', 'subagent-stop', 'pre-compact'
+    ];
+    for (const name of fs.readdirSync(FIXTURES).map(file => file.replace(/\.json$/, ''))) {
+      for (const event of events) {
+        for (const request of build(event, name)) {
+          const body = { ...request.body, eventId: 'e1' };
+          expect(validateEvent(body), `${name} ${event}`).toMatchObject({ ok: true, kind: request.endpoint });
+        }
+      }
+    }
+  });
+});
+
+describe('Hook Client: Edge cases', () => {
+  it('skips payloads without an agent id', () => {
+    expect(buildRequests('read-start', { tool_input: { file_path: '/a.ts' } }, CONTEXT)).toEqual([]);
+  });
+
+  it('ignores unknown events', () => {
+    expect(buildRequests('compact', fixture('claude-pre-read'), CONTEXT)).toEqual([]);
+  });
+
+  it('falls back to the hook directory for cwd', () => {
+    const [request] = buildRequests('thinking-end', { session_id: 's1' }, CONTEXT);
+    expect(request.body).toMatchObject({ cwd: '/hook/cwd' });
+  });
+
+  it('sends git commits without a payload', () => {
+    expect(buildRequests('git-commit', {}, CONTEXT)).toEqual([{ endpoint: 'git-commit', body: { cwd: '/hook/cwd' } }]);
+  });
+
+  it('parses MCP names with underscores', () => {
+    expect(parseMcpToolName('mcp__claude_ai_notion__search_pages')).toEqual({ server: 'claude_ai_notion', tool: 'search_pages' });
+    expect(parseMcpToolName('Read')).toBeNull();
+  });
+
+  it('parses flags in any position', () => {
+    expect(parseHookArgs(['--port', '6000', 'read-start', '--token', 'abc'])).toEqual({ event: 'read-start', port: 6000, token: 'abc' });
+  });
+});
+
+describe('Hook Client: Sending', () => {
+  let server: Server;
+  let port: number;
+  const received: Array<{ path: string; auth?: string; body: unknown }> = [];
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(express.json());
+    app.post('/api/:endpoint', (req, res) => {
+      received.push({ path: req.path, auth: req.headers.authorization, body: req.body });
+      res.json(Array.isArray(req.body)
+        ? { accepted: req.body.length, rejected: 0, results: req.body.map((_: unknown, index: number) => ({ index, status: 'accepted' })) }
+        : { success: true });
+    });
+    server = createServer(app);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('posts the events as one batch with the token', async () => {
+    const requests: HookRequest[] = build('thinking-end', 'claude-pre-grep');
+    await sendRequests(requests, { port, token: 'secret' });
+
+    expect(received).toEqual([{ path: '/api/events', auth: 'Bearer secret', body: requests.map(r => r.body) }]);
+  });
+
+  it('posts git commits on their own', async () => {
+    received.length = 0;
+    await sendRequests(buildRequests('git-commit', {}, CONTEXT), { port });
+    expect(received).toEqual([{ path: '/api/git-commit', auth: undefined, body: { cwd: '/hook/cwd' } }]);
+  });
+
+  it('returns what could not be delivered when the server is down', async () => {
+    const requests = build('read-start', 'claude-pre-read');
+    await expect(sendRequests(requests, { port: 1, timeoutMs: 500 })).resolves.toEqual(requests);
+  });
+
+  it('does not return requests the server rejected', async () => {
+    const app = express();
+    app.post('/api/:endpoint', (_req, res) => res.status(401).json({ error: 'Unauthorized' }));
+    const rejecting = createServer(app);
+    await new Promise<void>(resolve => rejecting.listen(0, '127.0.0.1', resolve));
+    try {
+      const undelivered = await sendRequests(build('read-start', 'claude-pre-read'), {
+        port: (rejecting.address() as AddressInfo).port
+      });
+      expect(undelivered).toEqual([]);
+    } finally {
+      await new Promise(resolve => rejecting.close(resolve));
+    }
+  });
+});
+
+describe('Hook Client: Cursor and Windsurf hooks', () => {
+  const REPO_ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..', '..');
+  const SECRET = 'from-the-secret-file';
+  let home: string;
+  let server: Server;
+  let port: number;
+  const received: unknown[] = [];
+
+  beforeAll(async () => {
+    home = fs.mkdtempSync(path.join(os.tmpdir(), 'codemap-hook-home-'));
+    fs.mkdirSync(path.join(home, '.codemap'));
+    fs.writeFileSync(path.join(home, '.codemap', 'secret'), `${SECRET}\n`);
+
+    const app = express();
+    app.use(express.json());
+    app.post('/api/events', requireToken(SECRET), (req, res) => {
+      received.push(...req.body);
+      res.json({ accepted: req.body.length, rejected: 0, results: [] });
+    });
+    server = createServer(app);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+    fs.rmSync(home, { recursive: true, force: true });
+  });
+
+  // Run a hook command the way the tool does - from the project root, the payload on stdin
+  function runCommand(command: string, payload: HookPayload): Promise<void> {
+    const { CODEMAP_TOKEN: _, ...env } = process.env;
+    return new Promise((resolve, reject) => {
+      const child = spawn(command, {
+        cwd: REPO_ROOT,
+        shell: true,
+        stdio: ['pipe', 'ignore', 'ignore'],
+        env: { ...env, HOME: home, USERPROFILE: home, CODEMAP_PORT: String(port) }
+      });
+      child.on('error', reject);
+      child.on('close', () => resolve());
+      child.stdin.end(JSON.stringify(payload));
+    });
+  }
+
+  it('authenticates the commands in .cursor/hooks.json with the secret file', async () => {
+    received.length = 0;
+    const config = JSON.parse(fs.readFileSync(path.join(REPO_ROOT, '.cursor', 'hooks.json'), 'utf-8'));
+    const [{ command }] = config.hooks.beforeReadFile;
+    expect(command).not.toContain('--token');
+
+    await runCommand(command, fixture('cursor-before-read-file'));
+    expect(received).toMatchObject([
+      { type: 'read-start', source: 'cursor', agentId: CURSOR_CONVERSATION },
+      { type: 'thinking-end', source: 'cursor', toolName: 'Read' }
+    ]);
+  }, 30000);
+
+  it('authenticates Windsurf hooks with the secret file', async () => {
+    received.length = 0;
+    await runCommand('node bin/setup.js hook write-end', fixture('windsurf-after-file-edit'));
+    expect(received).toMatchObject([
+      { type: 'write-end', source: 'windsurf', agentId: WINDSURF_CONVERSATION },
+      { type: 'thinking-start', source: 'windsurf' }
+    ]);
+  }, 30000);
+});
+
+describe('Hook Client: Spooling', () => {
+  it('spools activity and thinking events but not commits', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'codemap-hook-spool-'));
+    const file = path.join(dir, 'spool.jsonl');
+    try {
+      const requests = [
+        ...build('read-start', 'claude-pre-read'),
+        ...buildRequests('git-commit', {}, CONTEXT)
+      ];
+      spoolRequests(requests, file);
+
+      const spooled: SpooledEvent[] = [];
+      drainSpool(event => spooled.push(event), file);
+      expect(spooled).toEqual([
+        { kind: 'activity', event: requests[0].body },
+        { kind: 'thinking', event: requests[1].body }
+      ]);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
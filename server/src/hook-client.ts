@@ -0,0 +1,267 @@
+/**
+ * Hook Client
+ *
+ * Entry point behind `codemap hook <event>`, run by Claude Code, Cursor, Windsurf and git hooks.
+ * Replaces the bash/jq/curl hook scripts:
+ * - Parses the agent's JSON payload once
+ * - Builds activity/thinking events with the server's own types (JSON.stringify does the encoding)
+ * - POSTs them to the server with the shared secret
+ * - Spools events the server can't be reached for (it drains them on startup)
+ * - Never fails - a missing server must not block the agent
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { SECRET_FILE } from './auth.js';
+import { appendToSpool } from './spool.js';
+import { adapterFor } from './adapters/index.js';
+import { HOOK_EVENTS, HookContext, HookEvent, HookPayload, num, obj, payloadCwd, percentage, str } from './adapters/hook-events.js';
+import type { EventBatchResponse, FileActivityEvent, ThinkingEvent, SpooledEvent } from './types.js';
+
+export const DEFAULT_PORT = 5174;
+export const LOG_FILE = path.join(os.tmpdir(), 'codemap-hook.log');
+const REQUEST_TIMEOUT_MS = 2000;
+
+// Context window of Claude models, for turning transcript token counts into a percentage
+export const CONTEXT_WINDOW_TOKENS = 200000;
+// Only the end of the transcript is read - the latest assistant message is there
+const TRANSCRIPT_TAIL_BYTES = 256 * 1024;
+
+/** One POST to the server */
+export type HookRequest =
+  | { endpoint: 'activity'; body: FileActivityEvent }
+  | { endpoint: 'thinking'; body: ThinkingEvent }
+  | { endpoint: 'git-commit'; body: { cwd: string } };
+
+export interface HookClientOptions {
+  port: number;
+  token?: string;
+  timeoutMs?: number;
+}
+
+/**
+ * How full the context window was at the latest assistant message of a Claude Code
+ * transcript (JSONL). Everything the model was sent counts: input, cache reads and writes.
+ * Undefined when the transcript can't be read or has no usage yet.
+ */
+export function readContextUsage(transcriptPath: string, windowTokens = CONTEXT_WINDOW_TOKENS): number | undefined {
+  let tail: string;
+  try {
+    const fd = fs.openSync(transcriptPath, 'r');
+    try {
+      const size = fs.fstatSync(fd).size;
+      const length = Math.min(size, TRANSCRIPT_TAIL_BYTES);
+      const buffer = Buffer.alloc(length);
+      fs.readSync(fd, buffer, 0, length, size - length);
+      tail = buffer.toString('utf-8');
+    } finally {
+      fs.closeSync(fd);
+    }
+  } catch {
+    return undefined;
+  }
+
+  const lines = tail.split('\n');
+  for (let i = lines.length - 1; i >= 0; i--) {
+    let entry: HookPayload;
+    try {
+      entry = obj(JSON.parse(lines[i]));
+    } catch {
+      continue;  // Blank, or the first line cut in half by the tail
+    }
+    const usage = obj(obj(entry.message).usage);
+    if (entry.type !== 'assistant' || num(usage.input_tokens) === undefined) continue;
+    const tokens = (num(usage.input_tokens) ?? 0) + (num(usage.cache_creation_input_tokens) ?? 0) +
+      (num(usage.cache_read_input_tokens) ?? 0) + (num(usage.output_tokens) ?? 0);
+    return percentage(tokens / windowTokens * 100);
+  }
+  return undefined;
+}
+
+/**
+ * Turn one hook invocation into the requests the server expects - the adapter of the
+ * tool that sent the payload reads it.
+ * Pure - the caller supplies the clock and working directory.
+ */
+export function buildRequests(event: string, payload: HookPayload, context: HookContext & { cwd: string }): HookRequest[] {
+  if (event === 'git-commit') {
+    return [{ endpoint: 'git-commit', body: { cwd: payloadCwd(payload) ?? context.cwd } }];
+  }
+  if (!(HOOK_EVENTS as string[]).includes(event)) return [];
+
+  const events = adapterFor(payload)?.toEvents(event as HookEvent, payload, context) ?? [];
+  return events.map(({ kind, event }) => ({ endpoint: kind, body: event }) as HookRequest);
+}
+
+/**
+ * Send the requests to the server - activity and thinking events go in one
+ * POST /api/events batch. Failures are logged, never thrown.
+ * Returns the requests that never reached it (server down or not answering).
+ */
+export async function sendRequests(requests: HookRequest[], options: HookClientOptions): Promise<HookRequest[]> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (options.token) headers.Authorization = `Bearer ${options.token}`;
+
+  const events = requests.filter(request => request.endpoint !== 'git-commit');
+  const posts: Array<{ endpoint: string; body: unknown; covers: HookRequest[] }> = requests
+    .filter(request => request.endpoint === 'git-commit')
+    .map(request => ({ endpoint: request.endpoint, body: request.body, covers: [request] }));
+  if (events.length > 0) {
+    posts.unshift({ endpoint: 'events', body: events.map(request => request.body), covers: events });
+  }
+
+  const undelivered: HookRequest[] = [];
+  await Promise.all(posts.map(async ({ endpoint, body, covers }) => {
+    let res: Response;
+    try {
+      res = await fetch(`http://localhost:${options.port}/api/${endpoint}`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(body),
+        signal: AbortSignal.timeout(options.timeoutMs ?? REQUEST_TIMEOUT_MS)
+      });
+    } catch (error) {
+      log(`SEND FAILED ${endpoint}: ${error instanceof Error ? error.message : String(error)}`);
+      undelivered.push(...covers);
+      return;
+    }
+
+    // The server answered - resending a rejected event wouldn't change its mind
+    if (!res.ok) {
+      log(`SEND FAILED ${endpoint} returned ${res.status}`);
+      return;
+    }
+    if (endpoint === 'events') {
+      try {
+        const { results } = await res.json() as EventBatchResponse;
+        for (const result of results ?? []) {
+          if (result.status === 'rejected') log(`REJECTED event ${result.index}: ${result.reason}`);
+        }
+      } catch {
+        // Delivered - the response just couldn't be read
+      }
+    }
+  }));
+  return undelivered;
+}
+
+// Layout refreshes aren't spooled - the commit is stale by the time the server is back
+function toSpooled(request: HookRequest): SpooledEvent | null {
+  if (request.endpoint === 'activity') return { kind: 'activity', event: request.body };
+  if (request.endpoint === 'thinking') return { kind: 'thinking', event: request.body };
+  return null;
+}
+
+/** Keep undelivered events for the server to pick up on startup */
+export function spoolRequests(requests: HookRequest[], file?: string): void {
+  const events = requests.map(toSpooled).filter((event): event is SpooledEvent => event !== null);
+  if (events.length === 0) return;
+  try {
+    if (appendToSpool(events, file)) {
+      log(`SPOOLED ${events.length} event(s)`);
+    } else {
+      log(`SPOOL FULL - dropped ${events.length} event(s)`);
+    }
+  } catch (error) {
+    log(`SPOOL FAILED ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+function log(message: string): void {
+  try {
+    fs.appendFileSync(LOG_FILE, `${new Date().toString()}: ${message}\n`);
+  } catch {
+    // Logging is best-effort
+  }
+}
+
+function describeRequest({ endpoint, body }: HookRequest): string {
+  if (endpoint === 'git-commit') return `GIT commit cwd=${body.cwd}`;
+  const agent = body.agentId?.slice(0, 8);
+  if (endpoint === 'activity') {
+    return `[${body.source}] FILE ${body.type} agent=${agent} file=${path.win32.basename(body.filePath)}`;
+  }
+  return `[${body.source}] THINKING ${body.type} agent=${agent} tool=${body.toolName ?? ''}`;
+}
+
+// The token the server expects: --token, then CODEMAP_TOKEN, then the secret file setup wrote
+function resolveToken(flag: string | undefined): string | undefined {
+  if (flag) return flag;
+  if (process.env.CODEMAP_TOKEN) return process.env.CODEMAP_TOKEN;
+  try {
+    return fs.readFileSync(SECRET_FILE, 'utf-8').trim() || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Parse `<event> [--port N] [--token T]` */
+export function parseHookArgs(args: string[]): { event?: string; port: number; token?: string } {
+  let event: string | undefined;
+  let port: number | undefined;
+  let token: string | undefined;
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--port') port = parseInt(args[++i], 10);
+    else if (args[i] === '--token') token = args[++i];
+    else event ??= args[i];
+  }
+
+  if (!port || !Number.isInteger(port)) port = parseInt(process.env.CODEMAP_PORT || '', 10) || DEFAULT_PORT;
+  return { event, port, token };
+}
+
+async function readStdin(): Promise<string> {
+  // Git runs post-commit with the terminal attached - there is no payload to wait for
+  if (process.stdin.isTTY) return '';
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
+/**
+ * Run one hook invocation: `codemap hook <event> [--port N] [--token T]` with the payload on stdin.
+ * Resolves once the requests have been sent (or timed out).
+ */
+export async function runHook(args: string[]): Promise<void> {
+  try {
+    const { event, port, token } = parseHookArgs(args);
+    if (!event || !(HOOK_EVENTS as string[]).includes(event)) {
+      log(`UNKNOWN event type: ${event ?? '(none)'}`);
+      return;
+    }
+
+    let payload: HookPayload = {};
+    const raw = event === 'git-commit' ? '' : await readStdin();
+    if (raw.trim()) {
+      try {
+        payload = obj(JSON.parse(raw));
+      } catch {
+        log(`SKIP - payload is not JSON (${event})`);
+        return;
+      }
+    }
+
+    const transcriptPath = str(payload.transcript_path);
+    const requests = buildRequests(event, payload, {
+      now: Date.now(),
+      cwd: process.cwd(),
+      contextUsage: transcriptPath ? readContextUsage(transcriptPath) : undefined
+    });
+    if (requests.length === 0) {
+      log(`SKIP - nothing to report (${event}, no tool claims the payload, or no file)`);
+      return;
+    }
+
+    for (const request of requests) {
+      if (request.endpoint !== 'git-commit') request.body.eventId = randomUUID();
+      log(describeRequest(request));
+    }
+    const undelivered = await sendRequests(requests, { port, token: resolveToken(token) });
+    spoolRequests(undelivered);
+  } catch (error) {
+    log(`ERROR ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
@@ -1,23 +1,51 @@
-import express from 'express';
+import express, { Request, Response } from 'express';
 import cors from 'cors';
-import path from 'path';
 import fs from 'fs';
+import path from 'path';
 import { createServer } from 'http';
+import { WebSocket } from 'ws';
 import { WebSocketManager } from './websocket.js';
-import { ActivityStore } from './activity-store.js';
-import { getHotFolders, clearCache as clearGitCache } from './git-activity.js';
+import { DEFAULT_QUERY_LIMIT, MAX_QUERY_LIMIT } from './event-log.js';
+import { ProjectRegistry, Project } from './project-registry.js';
+import { ReplaySession, MAX_REPLAY_EVENTS } from './replay.js';
+import { getHotFolders, clearCache as clearGitCache, onGitLogRefresh } from './git-activity.js';
+import { Counter, Histogram, gauge, formatMetrics } from './metrics.js';
+import { RESTART_REQUIRED } from './config.js';
+import { drainSpool } from './spool.js';
+import { validateEvent } from './event-validation.js';
+import { parseSubscription, describeSubscription } from './subscriptions.js';
+import { parseCommandRequest, isReadOnlyCommand } from './commands.js';
+import { TraceTranslator } from './otlp.js';
+import { TranscriptTranslator } from './transcript.js';
+import { TranscriptWatcher, startWatchers } from './transcript-watcher.js';
+import { DEFAULT_TRANSCRIPT_ROOT } from './usage.js';
+import { sourceDisplays } from './adapters/index.js';
+import { redactCommand, redactThinking } from './redact.js';
+import { LOG_DIR, translateLogLine } from './adapters/jsonl.js';
+import {
+  loadOrCreateSecret,
+  requireToken,
+  requireAllowedOrigin,
+  isOriginAllowed,
+  isWebSocketAllowed,
+  canWebSocketWrite
+} from './auth.js';
 import {
   FileActivityEvent,
   ThinkingEvent,
-  AgentThinkingState,
-  AgentRole,
-  ToolCategory,
-  SystemSummary,
-  categorizeToolool
+  EventKind,
+  EventQuery,
+  EventResult,
+  EventBatchResponse,
+  IncomingEvent,
+  LoggedEvent,
+  CommandRequest,
+  CommandResult,
+  LayoutUpdateData,
+  HelloSnapshot,
+  AgentRole
 } from './types.js';
 
-const PORT = 5174; // Fixed port - never change
-
 // PROJECT_ROOT: Use env var, command line arg, or detect from cwd
 function detectProjectRoot(): string {
   if (process.env.PROJECT_ROOT) return process.env.PROJECT_ROOT;
@@ -33,46 +61,99 @@ function detectProjectRoot(): string {
 
 const PROJECT_ROOT = detectProjectRoot();
 
-// Convert absolute file paths to relative (for client matching)
-function toRelativePath(absolutePath: string): string {
-  if (absolutePath === PROJECT_ROOT) {
-    return '.';
-  }
-  const prefix = PROJECT_ROOT + '/';
-  if (absolutePath.startsWith(prefix)) {
-    return absolutePath.slice(prefix.length) || '.';
+// Reported to clients in the WebSocket hello
+const SERVER_VERSION: string = JSON.parse(
+  fs.readFileSync(new URL('../package.json', import.meta.url), 'utf-8')
+).version;
+
+// Agent limits and timeouts come from each project's codemap.config.json
+const AGENT_CREATION_COOLDOWN_MS = 500; // Minimum time between new agent registrations
+
+// Every project root this server tracks - the startup project is the default
+function createProjectRegistry(): ProjectRegistry {
+  try {
+    return new ProjectRegistry(PROJECT_ROOT, {
+      agents: { creationCooldownMs: AGENT_CREATION_COOLDOWN_MS },
+    });
+  } catch (err) {
+    // Bad config for the startup project - nothing sensible to fall back to
+    console.error((err as Error).message);
+    process.exit(1);
   }
-  return absolutePath;
 }
 
+const projects = createProjectRegistry();
+
+// PORT and CODEMAP_HOST env vars win over the config file
+const PORT = parseInt(process.env.PORT || '', 10) || projects.getDefault().config.port;
+const HOST = process.env.CODEMAP_HOST || projects.getDefault().config.host;
+
+// Shared secret for write endpoints - hooks send it as a Bearer token
+const SECRET = process.env.CODEMAP_SECRET || loadOrCreateSecret();
+const requireSecret = requireToken(SECRET);
+
+// Read on every request so allowedOrigins edits apply without a restart
+const allowedOrigins = () => projects.getDefault().config.allowedOrigins;
+
 const app = express();
-app.use(cors());
-app.use(express.json());
+app.use(requireAllowedOrigin(allowedOrigins));
+app.use(cors({ origin: (origin, callback) => callback(null, isOriginAllowed(origin, allowedOrigins())) }));
+app.use(express.json({ limit: '1mb' }));  // Room for a full POST /api/events batch
 
 const server = createServer(app);
-const wsManager = new WebSocketManager(server);
-const activityStore = new ActivityStore(PROJECT_ROOT);
-
-// Broadcast graph updates when files are created/deleted
-activityStore.onGraphChange((graphData) => {
-  wsManager.broadcast('graph', graphData);
+const wsManager = new WebSocketManager(server, {
+  // Clients pick a project with /ws?project=<id>, otherwise they see the default project
+  resolveProject: (requested) => (projects.get(requested) ?? projects.getDefault()).id,
+  verifyClient: (req) => isWebSocketAllowed(req, allowedOrigins(), SECRET),
+  canWrite: (req) => canWebSocketWrite(req, allowedOrigins(), SECRET),
+  getSnapshot: (projectId) => getSnapshot(projects.get(projectId) ?? projects.getDefault()),
+  parseSubscription: (raw, projectId) => {
+    const result = parseSubscription(raw, (projects.get(projectId) ?? projects.getDefault()).root);
+    return result.ok ? result.subscription : null;
+  },
+  serverVersion: SERVER_VERSION,
 });
 
-// Track thinking state per agent
-const agentStates = new Map<string, AgentThinkingState>();
-const AGENT_TIMEOUT_MS = 5 * 60 * 1000; // 5 minutes
-const MAX_AGENTS = 10; // HARD LIMIT - never allow more than this
-const AGENT_CREATION_COOLDOWN_MS = 500; // Minimum time between new agent registrations
-let lastAgentCreationTime = 0;
+projects.onProjectAdded((project) => {
+  // Broadcast graph updates when files are created/deleted
+  project.activityStore.onGraphChange((delta) => {
+    wsManager.broadcast('graph-delta', delta, project.id);
+  });
 
-// Permission prompt detection threshold
-const WAITING_FOR_INPUT_THRESHOLD_MS = 60000;
+  // Config edits apply live - the client redraws the building from the new settings
+  project.onConfigChange((config, previous) => {
+    wsManager.broadcast('config', config, project.id);
+    if (project === projects.getDefault()) {
+      for (const key of RESTART_REQUIRED) {
+        if (config[key] !== previous[key]) {
+          console.log(`[${new Date().toISOString()}] Config: ${key} changes take effect after a restart`);
+        }
+      }
+    }
+  });
+
+  const restored = project.loadState();
+  if (restored > 0) {
+    console.log(`[${new Date().toISOString()}] Restored ${restored} agents for ${project.name}`);
+  }
+});
+
+// Extra roots: remaining command line args, then roots registered in earlier runs
+for (const root of process.argv.slice(process.env.PROJECT_ROOT ? 2 : 3)) {
+  try {
+    projects.add(root);
+  } catch (err) {
+    console.error('Failed to register project:', err);
+  }
+}
+projects.loadRegistered();
 
 // Debug/observability tracking
 const SERVER_START_TIME = Date.now();
 const recentActivityBuffer: Array<{
   type: string;
   filePath: string;
+  project: string;
   agentId?: string;
   timestamp: number;
   skillName?: string;
@@ -80,315 +161,392 @@ const recentActivityBuffer: Array<{
 }> = [];
 const MAX_ACTIVITY_BUFFER = 50;
 
-// Agent state persistence
-const STATE_FILE = path.join(PROJECT_ROOT, '.codemap-state.json');
+// Events turned away by validation or the agent registry - shown in /api/debug
+const recentRejections: Array<{
+  source: string;  // Endpoint or "spool"
+  reason: string;
+  payload: string;  // Truncated JSON of what was sent
+  timestamp: number;
+}> = [];
+const MAX_REJECTION_BUFFER = 50;
+let rejectedTotal = 0;
+
+// Exposed on GET /metrics
+const eventsIngested = new Counter('codemap_events_ingested_total', 'Hook events applied, by project, type and source');
+const gitLogDuration = new Histogram('codemap_git_log_duration_seconds', 'Time to read the git log for hot folders');
+onGitLogRefresh((_root, durationMs) => gitLogDuration.observe(durationMs / 1000));
+
+const MAX_BATCH_EVENTS = 500;
+const traces = new TraceTranslator();
+const AGENT_REJECTED = 'agent not accepted (invalid id, agent limit or rate limit)';
+
+// Agents hooks report - their transcripts only add detail (see transcript.ts)
+const hookedAgents = new Set<string>();
+const MAX_HOOKED_AGENTS = 1000;
+
+function markHooked(agentId: string | undefined): void {
+  if (!agentId || hookedAgents.has(agentId)) return;
+  hookedAgents.add(agentId);
+  if (hookedAgents.size > MAX_HOOKED_AGENTS) {
+    hookedAgents.delete(hookedAgents.values().next().value!);
+  }
+}
 
-// Track active skills and MCP servers system-wide
-const activeSkills = new Set<string>();
-const activeMcpServers = new Set<string>();
+// Save state every 30 seconds
+setInterval(() => {
+  for (const project of projects.list()) {
+    project.saveState();
+  }
+}, 30000);
 
-function saveAgentState(): void {
+// Persist an ingested event - a failing disk must never break ingestion
+function logEvent(project: Project, kind: EventKind, event: FileActivityEvent | ThinkingEvent, receivedAt: number): void {
   try {
-    const state = {
-      savedAt: Date.now(),
-      agents: Array.from(agentStates.values()),
-      activeSkills: Array.from(activeSkills),
-      activeMcpServers: Array.from(activeMcpServers),
-    };
-    fs.writeFileSync(STATE_FILE, JSON.stringify(state, null, 2));
+    project.eventLog.append(kind, event, receivedAt);
   } catch (err) {
-    console.error('Failed to save agent state:', err);
+    console.error('Failed to append to event log:', err);
   }
 }
 
-function loadAgentState(): void {
-  try {
-    if (fs.existsSync(STATE_FILE)) {
-      const data = JSON.parse(fs.readFileSync(STATE_FILE, 'utf-8'));
-      const now = Date.now();
-
-      // Only restore agents that haven't timed out
-      for (const agent of data.agents || []) {
-        if (now - agent.lastActivity < AGENT_TIMEOUT_MS) {
-          // Ensure new fields have defaults
-          agent.agentRole = agent.agentRole || 'main';
-          agent.operationCount = agent.operationCount || 0;
-          agent.fileReads = agent.fileReads || 0;
-          agent.fileWrites = agent.fileWrites || 0;
-          agent.skillInvocations = agent.skillInvocations || 0;
-          agent.mcpCalls = agent.mcpCalls || 0;
-          agentStates.set(agent.agentId, agent);
-        }
-      }
+// Accept epoch milliseconds or anything Date.parse understands (ISO 8601)
+function parseTimeParam(value: unknown): number | undefined {
+  if (typeof value !== 'string' || value === '') return undefined;
+  if (/^\d+$/.test(value)) return parseInt(value, 10);
+  const parsed = Date.parse(value);
+  return isNaN(parsed) ? undefined : parsed;
+}
 
-      // Restore active skills/MCP
-      for (const skill of data.activeSkills || []) {
-        activeSkills.add(skill);
-      }
-      for (const mcp of data.activeMcpServers || []) {
-        activeMcpServers.add(mcp);
-      }
+// Project selected by ?project=<id> (default project when omitted). Sends 404 if unknown.
+function requestProject(req: Request, res: Response): Project | null {
+  const id = typeof req.query.project === 'string' ? req.query.project : undefined;
+  const project = projects.get(id);
+  if (!project) {
+    res.status(404).json({ error: `Unknown project: ${id}` });
+    return null;
+  }
+  return project;
+}
 
-      console.log(`[${new Date().toISOString()}] Restored ${agentStates.size} agents from state file`);
-    }
-  } catch (err) {
-    console.error('Failed to load agent state:', err);
+// A rejected payload may not even be an event - its text is redacted as a whole,
+// before it is cut, so /api/debug shows no command's secrets either
+function recordRejection(source: string, reason: string, payload: unknown): void {
+  const json = redactCommand(JSON.stringify(payload) ?? String(payload));
+  rejectedTotal++;
+  recentRejections.push({
+    source,
+    reason,
+    payload: json.length > 200 ? json.slice(0, 200) + '...' : json,
+    timestamp: Date.now(),
+  });
+  if (recentRejections.length > MAX_REJECTION_BUFFER) {
+    recentRejections.shift();
   }
+  console.log(`[${new Date().toISOString()}] REJECTED event (${source}): ${reason}`);
 }
 
-// Save state every 30 seconds
-setInterval(saveAgentState, 30000);
+// Body of a single-event endpoint, validated. Sends 400 and returns null if it isn't a `kind` event.
+function requestEvent(req: Request, res: Response, kind: 'activity'): FileActivityEvent | null;
+function requestEvent(req: Request, res: Response, kind: 'thinking'): ThinkingEvent | null;
+function requestEvent(req: Request, res: Response, kind: EventKind): FileActivityEvent | ThinkingEvent | null {
+  const result = validateEvent(req.body);
+  if (result.ok && result.kind === kind) return result.event;
+
+  const reason = result.ok ? `expected a ${kind} event (got type "${result.event.type}")` : result.reason;
+  recordRejection(kind, reason, req.body);
+  res.status(400).json({ error: reason });
+  return null;
+}
 
-// Validate agent ID format - must be a valid UUID (session_id format)
-function isValidAgentId(id: string): boolean {
-  if (!id || typeof id !== 'string') return false;
-  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
-  return uuidRegex.test(id);
+function broadcastProjects(): void {
+  wsManager.broadcast('projects', projects.getInfo());
 }
 
-// Find the next available number for a source (fills gaps from removed agents)
-function getNextAgentNumber(source: 'claude' | 'windsurf' | 'unknown'): number {
-  const usedNumbers = new Set<number>();
-  for (const state of agentStates.values()) {
-    if (state.source === source) {
-      const match = state.displayName.match(/(\d+)$/);
-      if (match) {
-        usedNumbers.add(parseInt(match[1], 10));
-      }
+// Cleanup stale agents periodically
+setInterval(() => {
+  const now = Date.now();
+  let removedAny = false;
+  for (const project of projects.list()) {
+    if (project.agents.removeStale(now)) {
+      wsManager.broadcast('thinking', project.agents.getStates(), project.id);
+      removedAny = true;
     }
   }
-  let num = 1;
-  while (usedNumbers.has(num)) {
-    num++;
+  if (removedAny) {
+    broadcastProjects();
   }
-  return num;
-}
+}, 60000);
 
-// Determine agent role from context
-function determineAgentRole(
-  agentType?: string,
-  parentAgentId?: string,
-  agentName?: string
-): AgentRole {
-  // If has parent, it's a sub-agent
-  if (parentAgentId) return 'sub-agent';
-
-  // Known specialist agent types
-  const specialistTypes = ['plan', 'explore', 'bash', 'researcher', 'reviewer', 'writer', 'analyst'];
-  if (agentType && specialistTypes.includes(agentType.toLowerCase())) {
-    return 'specialist';
-  }
-
-  // Check agent name for specialist patterns
-  if (agentName) {
-    const nameLower = agentName.toLowerCase();
-    if (specialistTypes.some(t => nameLower.includes(t))) {
-      return 'specialist';
+// End file operations whose other half never came (Cursor/Windsurf report one side only)
+setInterval(() => {
+  const now = Date.now();
+  for (const project of projects.list()) {
+    const delta = project.activityStore.expireOperations(now);
+    if (delta) {
+      wsManager.broadcast('graph-delta', delta, project.id);
     }
   }
+}, 1000);
 
-  return 'main';
-}
-
-// Generate display name from available context
-function generateDisplayName(
-  source: 'claude' | 'windsurf' | 'unknown',
-  agentNumber: number,
-  agentName?: string,
-  agentType?: string,
-  agentRole?: AgentRole
-): string {
-  // If custom agent name provided, use it
-  if (agentName) {
-    // Capitalize first letter
-    const formattedName = agentName.charAt(0).toUpperCase() + agentName.slice(1);
-    return `${formattedName} ${agentNumber}`;
+// Periodic sync broadcast
+setInterval(() => {
+  const now = Date.now();
+  for (const project of projects.list()) {
+    if (project.agents.size > 0) {
+      project.agents.detectWaitingForInput(now);
+      project.agents.expireCommands(now);
+      wsManager.broadcastState('thinking', project.agents.getStates(), project.id);
+    }
   }
+}, 2000);
 
-  const sourceName = source === 'claude' ? 'Claude Code' :
-                     source === 'windsurf' ? 'Windsurf' : 'Agent';
+// Session replay - one per replaying client
+const replays = new Map<WebSocket, ReplaySession>();
+// Latest replay-start per client - reading the log takes a while, and only the last one counts
+const replayRequests = new Map<WebSocket, number>();
+
+function stopReplay(client: WebSocket): void {
+  const replay = replays.get(client);
+  if (!replay) return;
+  replay.stop();
+  replays.delete(client);
+  wsManager.setReplaying(client, false);
+}
 
-  // Include agent type if available
-  if (agentType) {
-    const typeLabel = agentType.charAt(0).toUpperCase() + agentType.slice(1);
-    return `${sourceName} ${typeLabel} ${agentNumber}`;
+function forgetReplay(client: WebSocket): void {
+  stopReplay(client);
+  replayRequests.delete(client);
+}
+
+// Replays the event log between `since` and `until`, or an imported session (`session`)
+async function startReplay(client: WebSocket, project: Project, data: { since?: unknown; until?: unknown; speed?: unknown; session?: unknown }): Promise<void> {
+  stopReplay(client);
+  const request = (replayRequests.get(client) ?? 0) + 1;
+  replayRequests.set(client, request);
+
+  let events: LoggedEvent[];
+  let truncated = false;
+  if (typeof data.session === 'string') {
+    const imported = project.imports.load(data.session) ?? [];
+    events = imported.slice(0, MAX_REPLAY_EVENTS);
+    truncated = imported.length > events.length;
+  } else {
+    const since = typeof data.since === 'number' ? data.since : parseTimeParam(data.since);
+    const until = typeof data.until === 'number' ? data.until : parseTimeParam(data.until);
+    ({ events, truncated } = await project.eventLog.query({ since, until, limit: MAX_REPLAY_EVENTS }));
+    // Gone, or asked for another replay while the log was read
+    if (replayRequests.get(client) !== request || client.readyState !== WebSocket.OPEN) return;
   }
 
-  // Include role if it's a specialist
-  if (agentRole === 'specialist') {
-    return `${sourceName} Specialist ${agentNumber}`;
+  if (events.length === 0) {
+    wsManager.send(client, 'replay-status', {
+      state: 'stopped', position: 0, start: 0, end: 0, speed: 1, eventCount: 0,
+      error: typeof data.session === 'string' ? 'No imported session with this id' : 'No recorded events in this time range',
+    });
+    return;
   }
 
-  return `${sourceName} ${agentNumber}`;
+  const what = typeof data.session === 'string' ? ` session ${data.session.slice(0, 8)}` : '';
+  console.log(`[${new Date().toISOString()}] Replay started (${project.name}${what}): ${events.length} events${truncated ? ' (truncated)' : ''}`);
+  const replay = new ReplaySession(events, {
+    projectRoot: project.root,
+    speed: typeof data.speed === 'number' ? data.speed : 1,
+    send: (type, payload) => wsManager.send(client, type, payload),
+    toClientPath: (p) => project.toRelativePath(p),
+  });
+  replays.set(client, replay);
+  wsManager.setReplaying(client, true);
+  replay.begin();
 }
 
-// Safe agent registration with multiple protections
-function registerAgent(
-  agentId: string,
-  timestamp: number,
-  eventSource: string,
-  agentSource: 'claude' | 'windsurf' | 'unknown' = 'unknown',
-  agentName?: string,
-  agentType?: string,
-  parentAgentId?: string
-): AgentThinkingState | null {
-  // PROTECTION 1: Validate agent ID format
-  if (!isValidAgentId(agentId)) {
-    console.log(`[${new Date().toISOString()}] REJECTED invalid agent ID: ${agentId} (${eventSource})`);
-    return null;
+function resendGraph(client: WebSocket, project: Project): void {
+  const replay = replays.get(client);
+  if (replay) {
+    replay.resync();
+  } else {
+    wsManager.send(client, 'graph', project.activityStore.getGraphData());
   }
+}
 
-  // Check if agent already exists
-  let state = agentStates.get(agentId);
-  if (state) {
-    return state;
+// Everything a new client needs, sent in its hello - live updates are deltas on top
+async function getSnapshot(project: Project): Promise<HelloSnapshot> {
+  let hotFolders: HelloSnapshot['hotFolders'] = [];
+  try {
+    hotFolders = await getProjectHotFolders(project, 50);
+  } catch (error) {
+    console.error('Error getting hot folders:', error);
   }
+  // Taken after the await so the graph and agents match the hello's seq
+  return {
+    graph: project.activityStore.getGraphData(),
+    agents: project.agents.getStates(),
+    hotFolders,
+    config: project.config,
+    usage: project.usage.getTotals(),
+  };
+}
 
-  // PROTECTION 2: Hard limit on total agents
-  if (agentStates.size >= MAX_AGENTS) {
-    console.log(`[${new Date().toISOString()}] REJECTED new agent - at max capacity (${MAX_AGENTS}): ${agentId}`);
-    return null;
-  }
+wsManager.onMessage((client, message) => {
+  const data = (message.data ?? {}) as Record<string, unknown>;
+  const project = projects.get(wsManager.getProject(client)) ?? projects.getDefault();
 
-  // PROTECTION 3: Rate limiting
-  const now = Date.now();
-  if (now - lastAgentCreationTime < AGENT_CREATION_COOLDOWN_MS) {
-    console.log(`[${new Date().toISOString()}] REJECTED new agent - rate limited: ${agentId}`);
-    return null;
+  // The client missed a delta - start it over from a full graph
+  if (message.type === 'graph-resync') {
+    resendGraph(client, project);
+    return;
   }
 
-  // All checks passed - create the agent
-  lastAgentCreationTime = now;
-  const agentNumber = getNextAgentNumber(agentSource);
-  const agentRole = determineAgentRole(agentType, parentAgentId, agentName);
-  const displayName = generateDisplayName(agentSource, agentNumber, agentName, agentType, agentRole);
-
-  state = {
-    agentId,
-    source: agentSource,
-    isThinking: false,
-    lastActivity: timestamp,
-    displayName,
-    currentCommand: undefined,
-    toolCategory: undefined,
-    agentType,
-    agentName,
-    agentRole,
-    parentAgentId,
-    childAgentIds: [],
-    // Statistics
-    operationCount: 0,
-    fileReads: 0,
-    fileWrites: 0,
-    skillInvocations: 0,
-    mcpCalls: 0,
-  };
-
-  agentStates.set(agentId, state);
+  if (message.type === 'request') {
+    handleCommand(client, project, message.data);
+    return;
+  }
 
-  // If this is a sub-agent, register with parent
-  if (parentAgentId && agentStates.has(parentAgentId)) {
-    const parentState = agentStates.get(parentAgentId)!;
-    if (!parentState.childAgentIds) parentState.childAgentIds = [];
-    parentState.childAgentIds.push(agentId);
+  // Narrow what the client receives - it gets current state matching the new filters
+  if (message.type === 'subscribe') {
+    const result = parseSubscription(message.data, project.root);
+    if (!result.ok) {
+      wsManager.send(client, 'subscription', result);
+      return;
+    }
+    wsManager.subscribe(client, result.subscription);
+    wsManager.send(client, 'subscription', { ok: true, subscription: describeSubscription(result.subscription) });
+    resendGraph(client, project);
+    if (!replays.has(client)) {
+      wsManager.send(client, 'thinking', project.agents.getStates());
+    }
+    return;
   }
 
-  console.log(`[${new Date().toISOString()}] New agent registered: ${displayName} (${agentId.slice(0, 8)}) [${eventSource}] role=${agentRole}`);
-  return state;
-}
+  if (message.type === 'replay-start') {
+    startReplay(client, project, data).catch(err => console.error('Failed to start replay:', err));
+    return;
+  }
 
-// Cleanup stale agents periodically
-setInterval(() => {
-  const now = Date.now();
-  let removedAny = false;
-  for (const [agentId, state] of agentStates) {
-    if (now - state.lastActivity > AGENT_TIMEOUT_MS) {
-      console.log(`[${new Date().toISOString()}] Removing stale agent: ${state.displayName} (${agentId})`);
-      agentStates.delete(agentId);
-
-      // Clear from parent's child list
-      if (state.parentAgentId) {
-        const parent = agentStates.get(state.parentAgentId);
-        if (parent && parent.childAgentIds) {
-          parent.childAgentIds = parent.childAgentIds.filter(id => id !== agentId);
-        }
-      }
+  if (message.type === 'replay-control') {
+    const replay = replays.get(client);
+    if (!replay) return;
+
+    switch (data.action) {
+      case 'play':
+        replay.play();
+        break;
+      case 'pause':
+        replay.pause();
+        break;
+      case 'seek':
+        if (typeof data.position === 'number') replay.seek(data.position);
+        break;
+      case 'speed':
+        if (typeof data.speed === 'number') replay.setSpeed(data.speed);
+        break;
+      case 'stop':
+        stopReplay(client);
+        // Back to live - start over from the current state
+        wsManager.send(client, 'replay-status', { ...replay.getStatus(), state: 'stopped' });
+        wsManager.resendHello(client);
+        break;
+    }
+  }
+});
 
-      // Clear skill/MCP if no other agent using them
-      if (state.skillName) {
-        const stillUsed = Array.from(agentStates.values()).some(a => a.skillName === state.skillName);
-        if (!stillUsed) activeSkills.delete(state.skillName);
-      }
-      if (state.mcpServer) {
-        const stillUsed = Array.from(agentStates.values()).some(a => a.mcpServer === state.mcpServer);
-        if (!stillUsed) activeMcpServers.delete(state.mcpServer);
-      }
+wsManager.onDisconnect(forgetReplay);
 
-      removedAny = true;
-    }
+// Answer a 'request' from a WebSocket client - failures come back as the response
+function handleCommand(client: WebSocket, project: Project, raw: unknown): void {
+  const parsed = parseCommandRequest(raw);
+  if (!parsed.ok) {
+    wsManager.send(client, 'response', { id: parsed.id, ok: false, error: parsed.reason });
+    return;
   }
-  if (removedAny) {
-    wsManager.broadcast('thinking', getAgentStatesArray());
+
+  const { request } = parsed;
+  if (!isReadOnlyCommand(request.command) && !wsManager.canWrite(client)) {
+    wsManager.send(client, 'response', {
+      id: request.id, ok: false,
+      error: `${request.command} needs write access - connect from an allowed origin or with ?token=`,
+    });
+    return;
   }
-}, 60000);
 
-// Periodic sync broadcast
-setInterval(() => {
-  if (agentStates.size > 0) {
-    const now = Date.now();
+  runCommand(project, request)
+    .then(result => wsManager.send(client, 'response', { id: request.id, ok: true, result }))
+    .catch((err: Error) => wsManager.send(client, 'response', { id: request.id, ok: false, error: err.message }));
+}
 
-    for (const state of agentStates.values()) {
-      if (state.pendingToolStart && !state.waitingForInput) {
-        const waitTime = now - state.pendingToolStart;
-        if (waitTime > WAITING_FOR_INPUT_THRESHOLD_MS) {
-          state.waitingForInput = true;
-          console.log(`[${new Date().toISOString()}] Agent ${state.displayName} appears to be waiting for permission (${waitTime}ms)`);
-        }
-      }
+async function runCommand(project: Project, request: CommandRequest): Promise<CommandResult> {
+  switch (request.command) {
+    case 'snapshot':
+      return { graph: project.activityStore.getGraphData(), agents: project.agents.getStates() };
+    case 'clear':
+      clearGraph(project);
+      return undefined;
+    case 'dismiss-agent': {
+      const { agentId } = request.params;
+      if (!project.agents.remove(agentId)) throw new Error(`Unknown agent: ${agentId}`);
+      console.log(`[${new Date().toISOString()}] Agent ${agentId.slice(0, 8)} dismissed`);
+      wsManager.broadcast('thinking', project.agents.getStates(), project.id);
+      broadcastProjects();
+      return undefined;
     }
-
-    wsManager.broadcast('thinking', getAgentStatesArray());
+    case 'rename-agent': {
+      const agent = project.agents.rename(request.params.agentId, request.params.displayName);
+      if (!agent) throw new Error(`Unknown agent: ${request.params.agentId}`);
+      wsManager.broadcast('thinking', project.agents.getStates(), project.id);
+      return agent;
+    }
+    case 'refresh-layout':
+      return refreshLayout(project);
   }
-}, 2000);
+}
 
-function getAgentStatesArray(): AgentThinkingState[] {
-  return Array.from(agentStates.values());
+function clearGraph(project: Project): void {
+  const delta = project.activityStore.clear();
+  if (delta) {
+    wsManager.broadcast('graph-delta', delta, project.id);
+  }
 }
 
-// Generate system summary
-function getSystemSummary(): SystemSummary {
-  const agents = Array.from(agentStates.values());
-  const activeAgents = agents.filter(a => a.isThinking || (Date.now() - a.lastActivity < 30000));
+// Recompute hot folders from a fresh git log and push them to the project's clients
+async function refreshLayout(project: Project): Promise<LayoutUpdateData> {
+  clearGitCache(project.root);
+  const hotFolders = await getHotFolders(project.root, 50, project.config.gitLogDepth);
+  const update = { hotFolders, timestamp: Date.now() };
+  wsManager.broadcast('layout-update', update, project.id);
+  return update;
+}
 
-  return {
-    totalAgents: agents.length,
-    activeAgents: activeAgents.length,
-    mainAgents: agents.filter(a => a.agentRole === 'main').length,
-    subAgents: agents.filter(a => a.agentRole === 'sub-agent').length,
-    specialists: agents.filter(a => a.agentRole === 'specialist').length,
-    totalOperations: agents.reduce((sum, a) => sum + a.operationCount, 0),
-    activeSkills: Array.from(activeSkills),
-    activeMcpServers: Array.from(activeMcpServers),
-    fileActivity: {
-      reads: agents.reduce((sum, a) => sum + a.fileReads, 0),
-      writes: agents.reduce((sum, a) => sum + a.fileWrites, 0),
-      searches: 0, // Would need to track this
-    },
-  };
+interface IngestOptions {
+  now: number;         // When it reached the server - drives agent liveness and is logged
+  quiet?: boolean;     // Skip the per-event console line (spool drain)
+  fromTranscript?: boolean;  // Read from a session transcript, not sent by a hook
 }
 
-// Receive activity events from hook script
-app.post('/api/activity', (req, res) => {
-  const event: FileActivityEvent = req.body;
+// Apply a file activity event - shared by POST /api/activity and the spool drain
+function ingestActivity(received: FileActivityEvent, { now, quiet, fromTranscript }: IngestOptions): void {
+  if (!fromTranscript) markHooked(received.agentId);
+  const project = projects.resolve({ cwd: received.cwd, filePath: received.filePath, agentId: received.agentId });
+  const knownAgents = project.agents.size;
+
+  // Register or get existing agent. The file still counts when the agent is rejected,
+  // but not for the agent - neither the log nor a replay of it brings the agent in.
+  const agentState = project.agents.applyActivity(received, now);
+  const event = received.agentId && !agentState ? { ...received, agentId: undefined } : received;
+  if (agentState) {
+    wsManager.broadcast('thinking', project.agents.getStates(), project.id);
+  }
   const { skillName, mcpServer } = event;
-  const now = Date.now();
 
-  console.log(`[${new Date().toISOString()}] ${event.type.toUpperCase()}: ${event.filePath}${event.agentId ? ` (${event.agentId.slice(0, 8)})` : ''}${skillName ? ` [skill:${skillName}]` : ''}${mcpServer ? ` [mcp:${mcpServer}]` : ''}`);
+  logEvent(project, 'activity', event, now);
+  eventsIngested.inc({ project: project.id, type: event.type, source: event.source ?? 'unknown' });
+
+  if (!quiet) {
+    console.log(`[${new Date().toISOString()}] ${event.type.toUpperCase()}: ${event.filePath}${event.agentId ? ` (${event.agentId.slice(0, 8)})` : ''}${skillName ? ` [skill:${skillName}]` : ''}${mcpServer ? ` [mcp:${mcpServer}]` : ''}`);
+  }
 
   // Track in debug buffer
   recentActivityBuffer.push({
     type: event.type,
-    filePath: toRelativePath(event.filePath),
+    filePath: project.toRelativePath(event.filePath),
+    project: project.id,
     agentId: event.agentId,
     timestamp: now,
     skillName,
@@ -398,234 +556,319 @@ app.post('/api/activity', (req, res) => {
     recentActivityBuffer.shift();
   }
 
-  // Register or get existing agent
-  if (event.agentId) {
-    const state = registerAgent(event.agentId, now, 'activity', event.source || 'unknown');
-    if (state) {
-      state.lastActivity = now;
-      state.operationCount++;
-
-      // Update current command and thinking state
-      if (event.type.endsWith('-start')) {
-        state.currentCommand = event.type.startsWith('read') ? 'Read' :
-                               event.type.startsWith('write') ? 'Write' : 'Grep';
-        state.toolCategory = event.type.includes('search') ? 'search' : 'file';
-        state.isThinking = true;
-
-        // Track file operations
-        if (event.type.startsWith('read')) state.fileReads++;
-        if (event.type.startsWith('write')) state.fileWrites++;
-      } else if (event.type.endsWith('-end')) {
-        state.isThinking = false;
-      }
+  // A search's end is resolved to the files it found once - for the tree and for clients
+  const resolved = project.activityStore.resolveSearch(event);
+  const delta = project.activityStore.addActivity(resolved);
 
-      // Track skill context
-      if (skillName) {
-        state.skillName = skillName;
-        activeSkills.add(skillName);
-      }
+  // Broadcast with relative paths
+  const clientEvent = {
+    ...resolved,
+    filePath: project.toRelativePath(event.filePath),
+    matchedFiles: resolved.matchedFiles?.map(file => project.toRelativePath(file))
+  };
+  wsManager.broadcast('activity', clientEvent, project.id);
+  if (delta) {
+    wsManager.broadcast('graph-delta', delta, project.id);
+  }
 
-      // Track MCP context
-      if (mcpServer) {
-        state.mcpServer = mcpServer;
-        state.mcpCalls++;
-        activeMcpServers.add(mcpServer);
-      }
+  if (project.agents.size !== knownAgents) {
+    broadcastProjects();
+  }
+}
 
-      wsManager.broadcast('thinking', getAgentStatesArray());
-    }
+// Apply a thinking event - shared by POST /api/thinking and the spool drain
+// Returns false if the agent was rejected
+function ingestThinking(received: ThinkingEvent, { now, quiet, fromTranscript }: IngestOptions): boolean {
+  // Nothing stores or sends a command before its secrets are gone
+  const event = redactThinking(received);
+  const { type, toolName, toolInput, duration, skillName, mcpServer, mcpTool } = event;
+  if (!fromTranscript) markHooked(event.agentId);
+  const project = projects.resolve({ cwd: event.cwd, agentId: event.agentId });
+  const knownAgents = project.agents.size;
+
+  // The session ended after its agent timed out or was dismissed - nothing left to do,
+  // but nothing was rejected either
+  if (type === 'session-end' && !project.agents.get(event.agentId)) return true;
+
+  // Only what the registry accepted is logged and counted - a replay shows no agent
+  // that was rejected live
+  const state = project.agents.applyThinking(event, now);
+  if (!state) return false;
+  logEvent(project, 'thinking', event, now);
+  eventsIngested.inc({ project: project.id, type: event.type, source: event.source ?? 'unknown' });
+
+  // New turns in the transcript - the agent's spend goes out with its state below
+  if (event.transcriptPath && project.usage.update(state, event.transcriptPath, now)) {
+    wsManager.broadcast('usage', project.usage.getTotals(), project.id);
   }
 
-  const graphData = activityStore.addActivity(event);
+  if (type !== 'agent-stop' && type !== 'agent-update' && !quiet) {
+    const durationStr = duration ? ` (${duration}ms)` : '';
+    const skillStr = skillName ? ` [skill:${skillName}]` : '';
+    const mcpStr = mcpServer ? ` [mcp:${mcpServer}/${mcpTool || ''}]` : '';
+    console.log(`[${new Date().toISOString()}] ${type.toUpperCase()}: ${state.displayName} ${toolName ? `(${toolName})` : ''}${toolInput ? ` [${toolInput}]` : ''}${durationStr}${skillStr}${mcpStr}`);
+  }
 
-  // Broadcast with relative path
-  const clientEvent = {
-    ...event,
-    filePath: toRelativePath(event.filePath)
-  };
-  wsManager.broadcast('activity', clientEvent);
-  wsManager.broadcast('graph', graphData);
+  wsManager.broadcast('thinking', project.agents.getStates(), project.id);
 
+  if (project.agents.size !== knownAgents) {
+    broadcastProjects();
+  }
+  return true;
+}
+
+// Apply a validated event - returns why it wasn't accepted, or null
+function ingest({ kind, event }: IncomingEvent, options: IngestOptions): string | null {
+  if (kind === 'activity') {
+    ingestActivity(event, options);
+    return null;
+  }
+  return ingestThinking(event, options) ? null : AGENT_REJECTED;
+}
+
+// Receive activity events from hook script
+app.post('/api/activity', requireSecret, (req, res) => {
+  const event = requestEvent(req, res, 'activity');
+  if (!event) return;
+  const now = Date.now();
+  ingestActivity(event, { now });
   res.status(200).json({ success: true });
 });
 
 // Receive thinking events
-app.post('/api/thinking', (req, res) => {
-  const event: ThinkingEvent = req.body;
-  const {
-    agentId, type, toolName, toolInput, agentType, model, duration, status,
-    agentName, agentRole, parentAgentId, skillName, skillCommand, mcpServer, mcpTool
-  } = event;
+app.post('/api/thinking', requireSecret, (req, res) => {
+  const event = requestEvent(req, res, 'thinking');
+  if (!event) return;
   const now = Date.now();
-
-  // Register or get existing agent
-  const state = registerAgent(
-    agentId, now, 'thinking', event.source || 'unknown',
-    agentName, agentType, parentAgentId
-  );
-  if (!state) {
+  if (!ingestThinking(event, { now })) {
+    recordRejection('thinking', AGENT_REJECTED, event);
     res.status(200).json({ success: true, rejected: true });
     return;
   }
+  res.status(200).json({ success: true });
+});
 
-  // Handle agent-stop events
-  if (type === 'agent-stop') {
-    if (status) {
-      state.status = status;
-      state.statusTimestamp = now;
-      state.isThinking = false;
-      console.log(`[${new Date().toISOString()}] AGENT-STOP: ${state.displayName} status=${status}`);
-    }
-    wsManager.broadcast('thinking', getAgentStatesArray());
-    res.status(200).json({ success: true });
+// Receive a batch of activity and thinking events - applied in order, each accepted or rejected on its own
+app.post('/api/events', requireSecret, (req, res) => {
+  const batch: unknown = req.body;
+  if (!Array.isArray(batch)) {
+    res.status(400).json({ error: 'Body must be an array of events' });
     return;
   }
-
-  state.isThinking = type === 'thinking-start';
-  state.lastActivity = now;
-  state.operationCount++;
-
-  // Update current command
-  if (toolName) {
-    state.currentCommand = toolName;
-    state.toolCategory = categorizeToolool(toolName, mcpServer);
-  }
-
-  // Update tool input
-  if (toolInput) {
-    state.toolInput = toolInput;
-  } else if (type === 'thinking-start') {
-    state.toolInput = undefined;
-  }
-
-  // Update agent name if provided and not already set
-  if (agentName && !state.agentName) {
-    state.agentName = agentName;
-    // Regenerate display name with the custom name
-    const num = state.displayName.match(/\d+$/)?.[0] || '1';
-    state.displayName = generateDisplayName(
-      state.source, parseInt(num), agentName, state.agentType, state.agentRole
-    );
+  if (batch.length > MAX_BATCH_EVENTS) {
+    res.status(413).json({ error: `At most ${MAX_BATCH_EVENTS} events per request (got ${batch.length})` });
+    return;
   }
 
-  // Update agent type if provided
-  if (agentType && agentType !== state.agentType) {
-    state.agentType = agentType;
-    state.agentRole = determineAgentRole(agentType, state.parentAgentId, state.agentName);
-    const num = state.displayName.match(/\d+$/)?.[0] || '1';
-    state.displayName = generateDisplayName(
-      state.source, parseInt(num), state.agentName, agentType, state.agentRole
-    );
-  }
+  const now = Date.now();
+  const results: EventResult[] = batch.map((raw, index) => {
+    const validated = validateEvent(raw);
+    const reason = validated.ok ? ingest(validated, { now }) : validated.reason;
+    if (reason) {
+      recordRejection('events', reason, raw);
+      return { index, status: 'rejected', reason };
+    }
+    return { index, status: 'accepted' };
+  });
 
-  // Update model
-  if (model && !state.model) {
-    state.model = model;
-    console.log(`[${new Date().toISOString()}] Agent ${state.displayName} using model: ${model}`);
-  }
+  const accepted = results.filter(result => result.status === 'accepted').length;
+  const response: EventBatchResponse = { accepted, rejected: results.length - accepted, results };
+  res.json(response);
+});
 
-  // Update duration
-  if (duration !== undefined && duration !== null) {
-    state.lastDuration = duration;
-  }
+// List registered projects
+app.get('/api/projects', (_req, res) => {
+  res.json(projects.getInfo());
+});
 
-  // Skill tracking
-  if (skillName) {
-    state.skillName = skillName;
-    state.skillInvocations++;
-    activeSkills.add(skillName);
-  }
-  if (skillCommand) {
-    state.skillCommand = skillCommand;
+// Register a project root - e.g. { "root": "/path/to/repo" }
+app.post('/api/projects', requireSecret, (req, res) => {
+  const root = req.body?.root;
+  if (typeof root !== 'string' || !path.isAbsolute(root)) {
+    res.status(400).json({ error: 'root must be an absolute path' });
+    return;
   }
 
-  // MCP tracking
-  if (mcpServer) {
-    state.mcpServer = mcpServer;
-    state.mcpCalls++;
-    activeMcpServers.add(mcpServer);
-  }
-  if (mcpTool) {
-    state.mcpTool = mcpTool;
+  try {
+    const project = projects.add(root);
+    broadcastProjects();
+    res.json(project.getInfo(project === projects.getDefault()));
+  } catch (err) {
+    res.status(400).json({ error: (err as Error).message });
   }
+});
 
-  // Clear status after activity resumes
-  if (state.status && type === 'thinking-end') {
-    state.status = undefined;
-    state.statusTimestamp = undefined;
+// Unregister a project (the default project stays)
+app.delete('/api/projects/:id', requireSecret, (req, res) => {
+  if (!projects.remove(req.params.id)) {
+    res.status(404).json({ error: `Unknown or default project: ${req.params.id}` });
+    return;
   }
+  broadcastProjects();
+  res.json({ success: true });
+});
 
-  // Permission prompt detection
-  if (type === 'thinking-end') {
-    state.pendingToolStart = now;
-    if (toolName === 'AskUserQuestion') {
-      state.waitingForInput = true;
-      console.log(`[${new Date().toISOString()}] Agent ${state.displayName} waiting for user input (AskUserQuestion)`);
-    }
-  } else if (type === 'thinking-start') {
-    state.pendingToolStart = undefined;
-    state.waitingForInput = false;
-  }
+// Get all agent thinking states
+app.get('/api/thinking', (req, res) => {
+  const project = requestProject(req, res);
+  if (!project) return;
+  res.json(project.agents.getStates());
+});
 
-  const durationStr = duration ? ` (${duration}ms)` : '';
-  const skillStr = skillName ? ` [skill:${skillName}]` : '';
-  const mcpStr = mcpServer ? ` [mcp:${mcpServer}/${mcpTool || ''}]` : '';
-  console.log(`[${new Date().toISOString()}] ${type.toUpperCase()}: ${state.displayName} ${toolName ? `(${toolName})` : ''}${toolInput ? ` [${toolInput}]` : ''}${durationStr}${skillStr}${mcpStr}`);
+// Get system summary (multi-agent dashboard)
+app.get('/api/summary', (req, res) => {
+  const project = requestProject(req, res);
+  if (!project) return;
+  res.json(project.agents.getSummary(Date.now(), project.usage.getTotals()));
+});
 
-  wsManager.broadcast('thinking', getAgentStatesArray());
+// Get token usage and cost per agent, per session and for the whole project
+app.get('/api/usage', (req, res) => {
+  const project = requestProject(req, res);
+  if (!project) return;
+  res.json({
+    project: project.usage.getTotals(),
+    sessions: project.usage.getSessions(),
+    agents: project.agents.getStates()
+      .filter(agent => agent.usage)
+      .map(({ agentId, displayName, model, usage, cost }) => ({ agentId, displayName, model, usage, cost })),
+  });
+});
 
-  res.status(200).json({ success: true });
+// Past sessions imported with `codemap import` - replay one with replay-start { session: id }
+app.get('/api/imports', (req, res) => {
+  const project = requestProject(req, res);
+  if (!project) return;
+  res.json(project.imports.list());
 });
 
-// Get all agent thinking states
-app.get('/api/thinking', (_req, res) => {
-  res.json(getAgentStatesArray());
+// How agents of each source (adapter) are shown - name, badge color and icon
+app.get('/api/sources', (_req, res) => {
+  res.json(sourceDisplays());
 });
 
-// Get system summary (multi-agent dashboard)
-app.get('/api/summary', (_req, res) => {
-  res.json(getSystemSummary());
+// Get the effective config (codemap.config.json merged with defaults)
+app.get('/api/config', (req, res) => {
+  const project = requestProject(req, res);
+  if (!project) return;
+  res.json(project.config);
 });
 
 // Get current graph state
-app.get('/api/graph', (_req, res) => {
-  res.json(activityStore.getGraphData());
+app.get('/api/graph', (req, res) => {
+  const project = requestProject(req, res);
+  if (!project) return;
+  res.json(project.activityStore.getGraphData());
 });
 
-// Get hot folders based on git history + live activity
-app.get('/api/hot-folders', async (req, res) => {
-  const limit = parseInt(req.query.limit as string) || 50;
+// Who read, wrote or searched a file, and when - e.g. /api/files/history?path=client/src/App.tsx
+app.get('/api/files/history', (req, res) => {
+  const project = requestProject(req, res);
+  if (!project) return;
+  if (typeof req.query.path !== 'string' || req.query.path === '') {
+    res.status(400).json({ error: 'path is required' });
+    return;
+  }
+
+  const history = project.activityStore.getFileHistory(path.resolve(project.root, req.query.path));
+  if (!history) {
+    res.status(404).json({ error: `Unknown file: ${req.query.path}` });
+    return;
+  }
+  res.json({
+    ...history,
+    path: project.toRelativePath(history.path),
+    agents: history.agents.map(agent => ({ ...agent, displayName: project.agents.get(agent.agentId)?.displayName })),
+  });
+});
+
+// Query the persisted event history
+// e.g. /api/events?since=2026-01-17T13:00&until=2026-01-17T18:00&agentId=...&type=write-end&path=client/src
+app.get('/api/events', async (req, res) => {
+  const project = requestProject(req, res);
+  if (!project) return;
+  const { agentId, kind, type, path: pathParam, afterSeq, limit } = req.query;
+
+  if (kind !== undefined && kind !== 'activity' && kind !== 'thinking') {
+    res.status(400).json({ error: 'kind must be "activity" or "thinking"' });
+    return;
+  }
+
+  const query: EventQuery = {
+    since: parseTimeParam(req.query.since),
+    until: parseTimeParam(req.query.until),
+    afterSeq: typeof afterSeq === 'string' ? parseInt(afterSeq, 10) || undefined : undefined,
+    agentId: typeof agentId === 'string' ? agentId : undefined,
+    kind: kind as EventQuery['kind'],
+    types: typeof type === 'string' ? type.split(',').filter(Boolean) : undefined,
+    pathPrefix: typeof pathParam === 'string' && pathParam !== ''
+      ? path.resolve(project.root, pathParam)
+      : undefined,
+    limit: Math.min(typeof limit === 'string' ? parseInt(limit, 10) || DEFAULT_QUERY_LIMIT : DEFAULT_QUERY_LIMIT, MAX_QUERY_LIMIT),
+  };
+
   try {
-    const hotFolders = await getHotFolders(PROJECT_ROOT, limit);
-
-    // Merge live activity
-    const recentlyActive = activityStore.getRecentlyActiveFiles(10 * 60 * 1000);
-    for (const folder of hotFolders) {
-      const liveFiles = recentlyActive.get(folder.folder);
-      if (liveFiles && liveFiles.length > 0) {
-        const merged = [...liveFiles];
-        for (const file of folder.recentFiles) {
-          if (!merged.includes(file)) {
-            merged.push(file);
-          }
+    const { events, truncated } = await project.eventLog.query(query);
+
+    // Match the live broadcast format: file paths relative to the project root
+    const clientEvents: LoggedEvent[] = events.map(record =>
+      record.kind === 'activity'
+        ? { ...record, event: { ...record.event, filePath: project.toRelativePath(record.event.filePath) } }
+        : record
+    );
+
+    res.json({
+      events: clientEvents,
+      truncated,
+      lastSeq: project.eventLog.getLastSeq(),
+    });
+  } catch (error) {
+    console.error('Error querying events:', error);
+    res.status(500).json({ error: 'Failed to query events' });
+  }
+});
+
+// Git hot folders with live activity merged in
+async function getProjectHotFolders(project: Project, limit: number): Promise<LayoutUpdateData['hotFolders']> {
+  const hotFolders = await getHotFolders(project.root, limit, project.config.gitLogDepth);
+
+  // Merge live activity
+  const recentlyActive = project.activityStore.getRecentlyActiveFiles(10 * 60 * 1000);
+  for (const folder of hotFolders) {
+    const liveFiles = recentlyActive.get(folder.folder);
+    if (liveFiles && liveFiles.length > 0) {
+      const merged = [...liveFiles];
+      for (const file of folder.recentFiles) {
+        if (!merged.includes(file)) {
+          merged.push(file);
         }
-        folder.recentFiles = merged.slice(0, 8);
       }
+      folder.recentFiles = merged.slice(0, 8);
     }
+  }
 
-    // Add live-only folders
-    for (const [folderPath, files] of recentlyActive) {
-      if (!hotFolders.find(f => f.folder === folderPath)) {
-        hotFolders.push({
-          folder: folderPath,
-          score: files.length * 10,
-          recentFiles: files.slice(0, 8)
-        });
-      }
+  // Add live-only folders
+  for (const [folderPath, files] of recentlyActive) {
+    if (!hotFolders.find(f => f.folder === folderPath)) {
+      hotFolders.push({
+        folder: folderPath,
+        score: files.length * 10,
+        recentFiles: files.slice(0, 8)
+      });
     }
+  }
 
-    hotFolders.sort((a, b) => b.score - a.score);
-    res.json(hotFolders.slice(0, limit));
+  hotFolders.sort((a, b) => b.score - a.score);
+  return hotFolders.slice(0, limit);
+}
+
+// Get hot folders based on git history + live activity
+app.get('/api/hot-folders', async (req, res) => {
+  const project = requestProject(req, res);
+  if (!project) return;
+  const limit = parseInt(req.query.limit as string) || 50;
+  try {
+    res.json(await getProjectHotFolders(project, limit));
   } catch (error) {
     console.error('Error getting hot folders:', error);
     res.status(500).json({ error: 'Failed to get hot folders' });
@@ -634,64 +877,113 @@ app.get('/api/hot-folders', async (req, res) => {
 
 // Health check
 app.get('/api/health', (_req, res) => {
+  const all = projects.list();
   res.json({
     status: 'ok',
     clients: wsManager.getClientCount(),
-    projectRoot: PROJECT_ROOT,
-    agents: agentStates.size,
-    activeSkills: activeSkills.size,
-    activeMcpServers: activeMcpServers.size,
+    projectRoot: projects.getDefault().root,
+    projects: all.length,
+    agents: all.reduce((sum, p) => sum + p.agents.size, 0),
+    activeSkills: all.reduce((sum, p) => sum + p.agents.getActiveSkills().length, 0),
+    activeMcpServers: all.reduce((sum, p) => sum + p.agents.getActiveMcpServers().length, 0),
   });
 });
 
+// Prometheus metrics for every project
+app.get('/metrics', (_req, res) => {
+  const all = projects.list();
+  const roles: AgentRole[] = ['main', 'sub-agent', 'specialist'];
+  const body = formatMetrics([
+    eventsIngested.collect(),
+    {
+      name: 'codemap_agent_registrations_rejected_total',
+      help: 'New agents turned away, by project and reason',
+      type: 'counter',
+      samples: all.flatMap(p => Object.entries(p.agents.getRejections()).map(([reason, value]) =>
+        ({ labels: { project: p.id, reason }, value }))),
+    },
+    gauge('codemap_agents', 'Registered agents, by project and role', all.flatMap(p => {
+      const states = p.agents.getStates();
+      return roles.map(role => ({
+        labels: { project: p.id, role },
+        value: states.filter(a => (a.agentRole ?? 'main') === role).length,
+      }));
+    })),
+    gauge('codemap_websocket_clients', 'Connected WebSocket clients', [{ labels: {}, value: wsManager.getClientCount() }]),
+    {
+      name: 'codemap_websocket_broadcast_bytes_total',
+      help: 'Bytes of broadcast messages sent to WebSocket clients',
+      type: 'counter',
+      samples: [{ labels: {}, value: wsManager.getBroadcastBytes() }],
+    },
+    gitLogDuration.collect(),
+    gauge('codemap_graph_nodes', 'Files and folders in the activity graph, by project',
+      all.map(p => ({ labels: { project: p.id }, value: p.activityStore.getNodeCount() }))),
+  ]);
+  res.type('text/plain; version=0.0.4').send(body);
+});
+
 // Debug endpoint
-app.get('/api/debug', (_req, res) => {
+app.get('/api/debug', (req, res) => {
+  const project = requestProject(req, res);
+  if (!project) return;
   const now = Date.now();
   res.json({
     server: {
       uptime: Math.floor((now - SERVER_START_TIME) / 1000),
       uptimeFormatted: `${Math.floor((now - SERVER_START_TIME) / 60000)}m ${Math.floor(((now - SERVER_START_TIME) % 60000) / 1000)}s`,
-      projectRoot: PROJECT_ROOT,
+      projectRoot: project.root,
+      projects: projects.getInfo(),
       wsClients: wsManager.getClientCount(),
+      eventLogSeq: project.eventLog.getLastSeq(),
+      replays: replays.size,
     },
-    agents: Array.from(agentStates.values()).map(agent => ({
+    agents: project.agents.getStates().map(agent => ({
       ...agent,
       agentId: agent.agentId.slice(0, 8) + '...',
       lastActivityAgo: `${Math.floor((now - agent.lastActivity) / 1000)}s ago`,
-      willTimeoutIn: `${Math.floor((AGENT_TIMEOUT_MS - (now - agent.lastActivity)) / 1000)}s`,
+      willTimeoutIn: `${Math.floor((project.agents.agentTimeoutMs - (now - agent.lastActivity)) / 1000)}s`,
     })),
-    summary: getSystemSummary(),
-    agentCount: agentStates.size,
-    maxAgents: MAX_AGENTS,
-    activeSkills: Array.from(activeSkills),
-    activeMcpServers: Array.from(activeMcpServers),
-    recentActivity: recentActivityBuffer.slice(-20).map(a => ({
+    summary: project.agents.getSummary(now, project.usage.getTotals()),
+    agentCount: project.agents.size,
+    maxAgents: project.agents.maxAgents,
+    activeSkills: project.agents.getActiveSkills(),
+    activeMcpServers: project.agents.getActiveMcpServers(),
+    rejectedEvents: {
+      total: rejectedTotal,
+      recent: recentRejections.slice(-20).map(r => ({
+        ...r,
+        ago: `${Math.floor((now - r.timestamp) / 1000)}s ago`,
+      })),
+    },
+    recentActivity: recentActivityBuffer.filter(a => a.project === project.id).slice(-20).map(a => ({
       ...a,
       agentId: a.agentId ? a.agentId.slice(0, 8) + '...' : undefined,
       ago: `${Math.floor((now - a.timestamp) / 1000)}s ago`,
     })),
     config: {
-      agentTimeoutMs: AGENT_TIMEOUT_MS,
+      ...project.config,
       agentCreationCooldownMs: AGENT_CREATION_COOLDOWN_MS,
     }
   });
 });
 
 // Clear graph
-app.post('/api/clear', (_req, res) => {
-  activityStore.clear();
-  wsManager.broadcast('graph', activityStore.getGraphData());
+app.post('/api/clear', requireSecret, (req, res) => {
+  const project = requestProject(req, res);
+  if (!project) return;
+  clearGraph(project);
   res.json({ success: true });
 });
 
-// Handle git commit notification
-app.post('/api/git-commit', async (_req, res) => {
-  console.log(`[${new Date().toISOString()}] Git commit detected - refreshing layout`);
-  clearGitCache(PROJECT_ROOT);
+// Handle git commit notification - body { cwd } selects the repository
+app.post('/api/git-commit', requireSecret, async (req, res) => {
+  const cwd = typeof req.body?.cwd === 'string' ? req.body.cwd : undefined;
+  const project = projects.resolve({ cwd });
+  console.log(`[${new Date().toISOString()}] Git commit detected in ${project.name} - refreshing layout`);
 
   try {
-    const hotFolders = await getHotFolders(PROJECT_ROOT, 50);
-    wsManager.broadcast('layout-update', { hotFolders, timestamp: Date.now() });
+    const { hotFolders } = await refreshLayout(project);
     res.json({ success: true, foldersUpdated: hotFolders.length });
   } catch (error) {
     console.error('Failed to refresh layout after git commit:', error);
@@ -699,18 +991,155 @@ app.post('/api/git-commit', async (_req, res) => {
   }
 });
 
-// Load persisted state before starting server
-loadAgentState();
+// OpenTelemetry traces (OTLP/HTTP JSON) - tool and agent spans become events
+// Exporters send the secret via OTEL_EXPORTER_OTLP_HEADERS="Authorization=Bearer <secret>"
+app.post('/v1/traces', requireSecret, (req, res) => {
+  if (!req.is('application/json')) {
+    res.status(415).json({ error: 'Only OTLP/JSON is supported - set OTEL_EXPORTER_OTLP_PROTOCOL=http/json' });
+    return;
+  }
+  const translation = traces.translate(req.body);
+  if (!translation.ok) {
+    res.status(400).json({ error: translation.reason });
+    return;
+  }
+
+  const rejectedSpans = new Set<string | undefined>();
+  let errorMessage = '';
+  for (const { spanId, reason } of translation.rejected) {
+    recordRejection('otlp', reason, { spanId });
+    rejectedSpans.add(spanId);
+    errorMessage ||= reason;
+  }
+  const now = Date.now();
+  for (const incoming of translation.events) {
+    const reason = ingest(incoming, { now });
+    if (reason) {
+      recordRejection('otlp', reason, incoming.event);
+      rejectedSpans.add(incoming.spanId);
+      errorMessage ||= reason;
+    }
+  }
+
+  // OTLP partial success - an empty object means everything was accepted
+  res.json(rejectedSpans.size > 0 ? { partialSuccess: { rejectedSpans: rejectedSpans.size, errorMessage } } : {});
+});
+
+// Claude Code session transcripts (config watchTranscripts) - sessions show up without
+// hooks. Only sessions working in a registered project, not every session on the machine.
+const transcripts = new TranscriptWatcher({
+  root: DEFAULT_TRANSCRIPT_ROOT,
+  translator: new TranscriptTranslator({ isHooked: (sessionId) => hookedAgents.has(sessionId) }),
+  onEvents: (events) => {
+    const now = Date.now();
+    for (const incoming of events) {
+      const { cwd } = incoming.event;
+      if (!cwd || !projects.findContaining(cwd)) continue;
+      const reason = ingest(incoming, { now, fromTranscript: true });
+      if (reason) recordRejection('transcript', reason, incoming.event);
+    }
+  },
+});
+
+// JSON-lines logs under ~/.codemap/logs (config watchLogs) - tools without hooks append their events there.
+// A line is checked like any other input; one without a cwd goes to the default project.
+const logs = new TranscriptWatcher({
+  root: LOG_DIR,
+  name: 'JSON-lines logs',
+  translator: { translate: (line, _file, now) => translateLogLine(line, now) },
+  onEvents: (events) => {
+    const now = Date.now();
+    for (const incoming of events) {
+      const validated = validateEvent(incoming.event);
+      const reason = validated.ok ? ingest(validated, { now }) : validated.reason;
+      if (reason) recordRejection('log', reason, incoming.event);
+    }
+  },
+});
+
+// Events hooks spooled while the server was down, applied in the order they happened.
+// A hook that timed out may have been delivered after all - the event log has its id then.
+function drainSpooledEvents(): void {
+  const receivedAt = Date.now();
+  const loggedIds = new Map<Project, Set<string>>();
+  let oldest: number | undefined;
+  let duplicates = 0;
+  let invalid = 0;
+  let rejected = 0;
+
+  const alreadyLogged = (project: Project, eventId: string, timestamp: number): boolean => {
+    oldest ??= timestamp;  // Events arrive oldest first
+    let ids = loggedIds.get(project);
+    if (!ids) {
+      ids = project.eventLog.eventIds(oldest);
+      loggedIds.set(project, ids);
+    }
+    if (ids.has(eventId)) return true;
+    ids.add(eventId);
+    return false;
+  };
+
+  const drained = drainSpool((spooled) => {
+    // The spool is a plain file - check it like any other input
+    const validated = validateEvent(spooled.event);
+    if (!validated.ok) {
+      invalid++;
+      recordRejection('spool', validated.reason, spooled.event);
+      return;
+    }
+
+    const { kind, event } = validated;
+    const project = projects.resolve({
+      cwd: event.cwd,
+      filePath: kind === 'activity' ? event.filePath : undefined,
+      agentId: event.agentId
+    });
+    if (event.eventId && alreadyLogged(project, event.eventId, event.timestamp)) {
+      duplicates++;
+      return;
+    }
+
+    // Replayed late, so the agent counts as live from now - the event keeps its own time
+    const reason = ingest(validated, { now: receivedAt, quiet: true });
+    if (reason) {
+      rejected++;
+      recordRejection('spool', reason, spooled.event);
+    }
+  });
+
+  if (drained > 0) {
+    const skipped = [
+      duplicates > 0 ? `${duplicates} already received` : '',
+      invalid > 0 ? `${invalid} invalid` : '',
+      rejected > 0 ? `${rejected} rejected` : '',
+    ].filter(Boolean).join(', ');
+    console.log(`[${new Date().toISOString()}] Drained ${drained - duplicates - invalid - rejected} spooled events${skipped ? ` (${skipped})` : ''}`);
+    for (const project of projects.list()) {
+      project.saveState();
+    }
+  }
+}
+
+server.listen(PORT, HOST, () => {
+  // Hooks reach the server from here on - everything they spooled before is in the file
+  try {
+    drainSpooledEvents();
+  } catch (err) {
+    console.error('Failed to drain spooled events:', err);
+  }
+  startWatchers(projects.getDefault().config, transcripts, logs);
 
-server.listen(PORT, () => {
+  const all = projects.list();
+  const lan = !['127.0.0.1', 'localhost', '::1'].includes(HOST);
   console.log(`
   CodeMap Server (Multi-Agent Enhanced)
   ======================================
   HTTP:      http://localhost:${PORT}
   WebSocket: ws://localhost:${PORT}/ws
-  Project:   ${PROJECT_ROOT}
-  Agents:    ${agentStates.size} restored
-  Skills:    ${activeSkills.size} active
-  MCP:       ${activeMcpServers.size} servers
+  Project:   ${projects.getDefault().root}${all.length > 1 ? ` (+${all.length - 1} more)` : ''}
+  Agents:    ${all.reduce((sum, p) => sum + p.agents.size, 0)} restored
+  Skills:    ${all.reduce((sum, p) => sum + p.agents.getActiveSkills().length, 0)} active
+  MCP:       ${all.reduce((sum, p) => sum + p.agents.getActiveMcpServers().length, 0)} servers${lan ? `
+  Network:   listening on ${HOST} - reachable from other machines` : ''}
   `);
 });
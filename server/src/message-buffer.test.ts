@@ -0,0 +1,54 @@
+/**
+ * Message Buffer Tests
+ *
+ * Tests the per-project buffer of recent broadcasts.
+ * The buffer is responsible for:
+ * - Numbering broadcasts with consecutive seqs
+ * - Handing a reconnecting client exactly the messages it missed
+ * - Refusing to resume once those messages were dropped
+ */
+
+import { describe, it, expect } from 'vitest';
+import { MessageBuffer } from './message-buffer.js';
+
+describe('MessageBuffer', () => {
+  it('numbers messages and serializes them with their seq', () => {
+    const buffer = new MessageBuffer();
+    expect(buffer.getLastSeq()).toBe(0);
+    expect(buffer.push('thinking', [])).toEqual({ seq: 1, type: 'thinking', message: '{"type":"thinking","data":[],"seq":1}' });
+    expect(buffer.push('config', {}).seq).toBe(2);
+    expect(buffer.getLastSeq()).toBe(2);
+  });
+
+  it('keeps a snapshot of the data at push time', () => {
+    const buffer = new MessageBuffer();
+    const agents = [{ agentId: 'a' }];
+    buffer.push('thinking', agents);
+    agents.push({ agentId: 'b' });
+    expect(JSON.parse(buffer.since(0)![0].message).data).toEqual([{ agentId: 'a' }]);
+  });
+
+  it('returns the messages after a seq', () => {
+    const buffer = new MessageBuffer();
+    for (let i = 0; i < 5; i++) buffer.push('activity', { i });
+    expect(buffer.since(2)!.map(m => m.seq)).toEqual([3, 4, 5]);
+    expect(buffer.since(5)).toEqual([]);
+    expect(buffer.since(0)!).toHaveLength(5);
+  });
+
+  it('refuses seqs it never handed out', () => {
+    const buffer = new MessageBuffer();
+    buffer.push('activity', {});
+    expect(buffer.since(2)).toBeNull();
+    expect(buffer.since(-1)).toBeNull();
+    expect(buffer.since(0.5)).toBeNull();
+    expect(buffer.since(NaN)).toBeNull();
+  });
+
+  it('refuses to resume once missed messages were dropped', () => {
+    const buffer = new MessageBuffer(3);
+    for (let i = 0; i < 5; i++) buffer.push('activity', { i });
+    expect(buffer.since(1)).toBeNull();
+    expect(buffer.since(2)!.map(m => m.seq)).toEqual([3, 4, 5]);
+  });
+});
@@ -0,0 +1,45 @@
+// Recent broadcasts of one project - lets a reconnecting client catch up
+// Every project broadcast gets the next seq. A client that comes back with the seq of
+// the last message it saw receives what it missed, as long as the buffer still has it.
+
+export const MAX_BUFFERED_MESSAGES = 1000;
+
+export interface BufferedMessage {
+  seq: number;
+  type: string;
+  message: string;  // Serialized { type, data, seq } - nodes and agents keep changing after the broadcast
+}
+
+export class MessageBuffer {
+  private messages: BufferedMessage[] = [];
+  private lastSeq = 0;
+
+  constructor(private readonly capacity: number = MAX_BUFFERED_MESSAGES) {}
+
+  // Number the message and keep it - returns the buffered form to send
+  push(type: string, data: unknown): BufferedMessage {
+    const seq = ++this.lastSeq;
+    const buffered = { seq, type, message: JSON.stringify({ type, data, seq }) };
+    this.messages.push(buffered);
+    if (this.messages.length > this.capacity) {
+      this.messages.shift();
+    }
+    return buffered;
+  }
+
+  getLastSeq(): number {
+    return this.lastSeq;
+  }
+
+  /**
+   * Messages after `seq`, oldest first - or null if some of them were already dropped
+   * (or `seq` was never handed out), and the client has to start from a snapshot.
+   */
+  since(seq: number): BufferedMessage[] | null {
+    if (!Number.isInteger(seq) || seq < 0 || seq > this.lastSeq) return null;
+    if (seq === this.lastSeq) return [];
+    const oldest = this.messages[0]?.seq ?? this.lastSeq + 1;
+    if (seq + 1 < oldest) return null;
+    return this.messages.slice(seq + 1 - oldest);
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * Metrics Tests
+ *
+ * Tests the Prometheus metrics served on /metrics.
+ * Metrics are responsible for:
+ * - Counting per label set, whatever the label order
+ * - Bucketing observations into cumulative histograms
+ * - Rendering the Prometheus text format with escaped labels
+ * - Counting rejected agent registrations by reason
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Counter, Histogram, gauge, formatMetrics } from './metrics.js';
+import { AgentRegistry } from './agent-registry.js';
+
+describe('Metrics', () => {
+  it('counts per label set', () => {
+    const counter = new Counter('events_total', 'Events');
+    counter.inc({ type: 'read-end', source: 'claude' });
+    counter.inc({ source: 'claude', type: 'read-end' });
+    counter.inc({ type: 'write-end', source: 'claude' }, 3);
+
+    expect(counter.collect().samples).toEqual([
+      { labels: { type: 'read-end', source: 'claude' }, value: 2 },
+      { labels: { type: 'write-end', source: 'claude' }, value: 3 },
+    ]);
+  });
+
+  it('renders counters and gauges', () => {
+    const counter = new Counter('events_total', 'Events applied');
+    counter.inc({ type: 'read-end' });
+
+    expect(formatMetrics([
+      counter.collect(),
+      gauge('clients', 'Connected clients', [{ labels: {}, value: 2 }]),
+    ])).toBe([
+      '# HELP events_total Events applied',
+      '# TYPE events_total counter',
+      'events_total{type="read-end"} 1',
+      '# HELP clients Connected clients',
+      '# TYPE clients gauge',
+      'clients 2',
+      '',
+    ].join('\n'));
+  });
+
+  it('renders cumulative histogram buckets', () => {
+    const histogram = new Histogram('git_seconds', 'Git log time', [0.1, 1]);
+    histogram.observe(0.05);
+    histogram.observe(0.5);
+    histogram.observe(2);
+
+    expect(formatMetrics([histogram.collect()]).split('\n').slice(2, -1)).toEqual([
+      'git_seconds_bucket{le="0.1"} 1',
+      'git_seconds_bucket{le="1"} 2',
+      'git_seconds_bucket{le="+Inf"} 3',
+      'git_seconds_sum 2.55',
+      'git_seconds_count 3',
+    ]);
+  });
+
+  it('escapes label values', () => {
+    const text = formatMetrics([gauge('nodes', 'Nodes', [{ labels: { project: 'a "b"\\c\nd' }, value: 1 }])]);
+    expect(text).toContain('nodes{project="a \\"b\\"\\\\c\\nd"} 1');
+  });
+
+  it('counts rejected agent registrations by reason', () => {
+    const registry = new AgentRegistry({ maxAgents: 2, creationCooldownMs: 1000, quiet: true });
+    registry.register('not-a-uuid', 0, 'test');
+    registry.register('9f2c4e1a-7b3d-4c8e-a1f0-5d6b7c8e9f01', 5000, 'test');
+    registry.register('c7a1d9e2-33b4-4f5a-9e6d-0b1c2d3e4f50', 5100, 'test');
+    registry.register('c7a1d9e2-33b4-4f5a-9e6d-0b1c2d3e4f50', 6100, 'test');
+    registry.register('d7a1d9e2-33b4-4f5a-9e6d-0b1c2d3e4f50', 7200, 'test');
+    // Counters only go up - clearing the agents keeps them
+    registry.clear();
+
+    expect(registry.getRejections()).toEqual({ 'invalid-id': 1, 'capacity': 1, 'rate-limit': 1 });
+  });
+});
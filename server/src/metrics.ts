@@ -0,0 +1,110 @@
+// Prometheus metrics - served as text by GET /metrics
+// Counters and histograms are updated as things happen; gauges (agents, clients,
+// graph size) are read from the live state when the endpoint is scraped.
+
+export type Labels = Record<string, string>;
+export type MetricType = 'counter' | 'gauge' | 'histogram';
+
+export interface Sample {
+  labels: Labels;
+  value: number;
+  suffix?: string;  // Histogram series: _bucket, _sum, _count
+}
+
+/** One metric with all its label combinations */
+export interface MetricFamily {
+  name: string;
+  help: string;
+  type: MetricType;
+  samples: Sample[];
+}
+
+// Git log takes milliseconds on small repos and seconds on huge ones
+export const LATENCY_BUCKETS_SECONDS = [0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+// Stable key for a label set, independent of property order
+function labelKey(labels: Labels): string {
+  return JSON.stringify(Object.keys(labels).sort().map(k => [k, labels[k]]));
+}
+
+export class Counter {
+  private values = new Map<string, Sample>();
+
+  constructor(readonly name: string, readonly help: string) {}
+
+  inc(labels: Labels = {}, value: number = 1): void {
+    const key = labelKey(labels);
+    const sample = this.values.get(key);
+    if (sample) {
+      sample.value += value;
+    } else {
+      this.values.set(key, { labels: { ...labels }, value });
+    }
+  }
+
+  collect(): MetricFamily {
+    return { name: this.name, help: this.help, type: 'counter', samples: [...this.values.values()] };
+  }
+}
+
+export class Histogram {
+  private series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+
+  constructor(readonly name: string, readonly help: string, private readonly buckets: number[] = LATENCY_BUCKETS_SECONDS) {}
+
+  observe(value: number, labels: Labels = {}): void {
+    const key = labelKey(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels: { ...labels }, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) series!.counts[i]++;
+    });
+    series.sum += value;
+    series.count++;
+  }
+
+  collect(): MetricFamily {
+    const samples: Sample[] = [];
+    for (const { labels, counts, sum, count } of this.series.values()) {
+      this.buckets.forEach((bound, i) => {
+        samples.push({ labels: { ...labels, le: String(bound) }, value: counts[i], suffix: '_bucket' });
+      });
+      samples.push({ labels: { ...labels, le: '+Inf' }, value: count, suffix: '_bucket' });
+      samples.push({ labels, value: sum, suffix: '_sum' });
+      samples.push({ labels, value: count, suffix: '_count' });
+    }
+    return { name: this.name, help: this.help, type: 'histogram', samples };
+  }
+}
+
+export function gauge(name: string, help: string, samples: Sample[]): MetricFamily {
+  return { name, help, type: 'gauge', samples };
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return 'NaN';
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+/** Prometheus text exposition format (version 0.0.4) */
+export function formatMetrics(families: MetricFamily[]): string {
+  const lines: string[] = [];
+  for (const { name, help, type, samples } of families) {
+    lines.push(`# HELP ${name} ${help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`);
+    lines.push(`# TYPE ${name} ${type}`);
+    for (const { labels, value, suffix = '' } of samples) {
+      const pairs = Object.entries(labels).map(([k, v]) => `${k}="${escapeLabel(v)}"`);
+      lines.push(`${name}${suffix}${pairs.length > 0 ? `{${pairs.join(',')}}` : ''} ${formatValue(value)}`);
+    }
+  }
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,150 @@
+/**
+ * OTLP Trace Tests
+ *
+ * Tests turning OpenTelemetry spans into hook events.
+ * The TraceTranslator is responsible for:
+ * - Reading OTLP/JSON exports and rejecting malformed spans with a reason
+ * - Turning tool spans into thinking events with durations, plus file activity
+ * - Turning agent spans into named agents with their parent agent
+ * - Finding a tool's agent across exports (children are exported first)
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { TraceTranslator, spanAgentId, traceAgentId } from './otlp.js';
+import { ThinkingEvent } from './types.js';
+
+const TRACE = '4bf92f3577b34da6a3ce929d0e0e4736';
+const ROOT_AGENT = '00f067aa0ba902b7';
+const SUB_AGENT = '1111111111111111';
+const TASK_TOOL = '2222222222222222';
+const START = 1_700_000_000_000;
+
+const ms = (offset: number) => String(BigInt(START + offset) * 1000000n);
+
+function attrs(values: Record<string, string | number>) {
+  return Object.entries(values).map(([key, value]) => ({
+    key,
+    value: typeof value === 'number' ? { intValue: String(value) } : { stringValue: value },
+  }));
+}
+
+function span(spanId: string, parentSpanId: string | undefined, attributes: Record<string, string | number>, from = 0, to = 100) {
+  return {
+    traceId: TRACE,
+    spanId,
+    parentSpanId,
+    name: String(attributes['gen_ai.operation.name'] ?? 'span'),
+    startTimeUnixNano: ms(from),
+    endTimeUnixNano: ms(to),
+    attributes: attrs(attributes),
+    status: {},
+  };
+}
+
+function tool(spanId: string, parentSpanId: string, name: string, args: object, from = 10, to = 60) {
+  return span(spanId, parentSpanId, {
+    'gen_ai.operation.name': 'execute_tool',
+    'gen_ai.tool.name': name,
+    'gen_ai.tool.call.arguments': JSON.stringify(args),
+  }, from, to);
+}
+
+function exportOf(...spans: object[]) {
+  return {
+    resourceSpans: [{
+      resource: { attributes: attrs({ 'service.name': 'claude-agent-runner' }) },
+      scopeSpans: [{ scope: { name: 'agents' }, spans }],
+    }],
+  };
+}
+
+describe('TraceTranslator', () => {
+  let translator: TraceTranslator;
+
+  beforeEach(() => {
+    translator = new TraceTranslator();
+  });
+
+  function translate(body: unknown) {
+    const result = translator.translate(body);
+    if (!result.ok) throw new Error(result.reason);
+    return result;
+  }
+
+  it('rejects bodies that are not trace exports', () => {
+    expect(translator.translate([])).toMatchObject({ ok: false });
+    expect(translator.translate({ resourceLogs: [] })).toMatchObject({ ok: false });
+  });
+
+  it('turns a file tool span into thinking and activity events', () => {
+    const { events, rejected } = translate(exportOf(tool('aaaaaaaaaaaaaaaa', ROOT_AGENT, 'Read', { file_path: '/p/src/a.ts' })));
+    const agentId = spanAgentId(TRACE, ROOT_AGENT);
+
+    expect(rejected).toEqual([]);
+    expect(events.map(e => [e.event.type, e.event.timestamp - START])).toEqual([
+      ['thinking-end', 10], ['read-start', 10], ['thinking-start', 60], ['read-end', 60],
+    ]);
+    expect(events[0].event).toMatchObject({ agentId, source: 'claude', toolName: 'Read', toolInput: 'a.ts' });
+    expect(events[1].event).toMatchObject({ agentId, filePath: '/p/src/a.ts' });
+    expect(events[2].event).toMatchObject({ toolName: 'Read', duration: 50 });
+  });
+
+  it('turns search tools into search activity', () => {
+    const { events } = translate(exportOf(tool('aaaaaaaaaaaaaaaa', ROOT_AGENT, 'Grep', { pattern: 'TODO', path: 'src' })));
+    expect(events.find(e => e.event.type === 'search-start')!.event).toMatchObject({ filePath: 'src:TODO' });
+    expect(events.find(e => e.event.type === 'search-start')!.event).not.toHaveProperty('glob');
+
+    const glob = translate(exportOf(tool('bbbbbbbbbbbbbbbb', ROOT_AGENT, 'Glob', { pattern: '**/*.md' }))).events;
+    expect(glob.find(e => e.event.type === 'search-end')!.event).toMatchObject({ filePath: '.:**/*.md', glob: '**/*.md' });
+  });
+
+  it('reads the file path from attributes', () => {
+    const span = tool('aaaaaaaaaaaaaaaa', ROOT_AGENT, 'Write', {});
+    span.attributes.push(...attrs({ 'file.path': '/p/out.md' }));
+    expect(translate(exportOf(span)).events.find(e => e.event.type === 'write-end')!.event)
+      .toMatchObject({ filePath: '/p/out.md' });
+  });
+
+  it('names agents and links sub-agents through the tool that started them', () => {
+    const { events } = translate(exportOf(
+      span(ROOT_AGENT, undefined, { 'gen_ai.operation.name': 'invoke_agent', 'gen_ai.agent.name': 'planner', 'gen_ai.request.model': 'opus' }, 0, 500),
+      tool(TASK_TOOL, ROOT_AGENT, 'Task', { subagent_type: 'explore' }, 50, 400),
+      span(SUB_AGENT, TASK_TOOL, { 'gen_ai.operation.name': 'invoke_agent', 'gen_ai.agent.name': 'explorer' }, 60, 390),
+    ));
+    const root = events.find(e => e.event.type === 'thinking-start' && (e.event as ThinkingEvent).agentName === 'planner')!.event;
+    const sub = events.find(e => e.event.type === 'thinking-start' && (e.event as ThinkingEvent).agentName === 'explorer')!.event;
+
+    expect(root).toMatchObject({ agentId: spanAgentId(TRACE, ROOT_AGENT), model: 'opus' });
+    expect(root).not.toHaveProperty('parentAgentId');
+    expect(sub).toMatchObject({ agentId: spanAgentId(TRACE, SUB_AGENT), parentAgentId: spanAgentId(TRACE, ROOT_AGENT) });
+    expect(events.at(-1)!.event).toMatchObject({ type: 'agent-stop', status: 'completed', agentId: spanAgentId(TRACE, ROOT_AGENT) });
+  });
+
+  it('finds the agent through spans from earlier exports', () => {
+    // An LLM span between agent and tool, exported before the tool span
+    translate(exportOf(span('cccccccccccccccc', ROOT_AGENT, { 'gen_ai.operation.name': 'chat' })));
+    const { events } = translate(exportOf(tool('aaaaaaaaaaaaaaaa', 'cccccccccccccccc', 'Bash', { command: 'ls' })));
+    expect(events[0].event).toMatchObject({ agentId: spanAgentId(TRACE, ROOT_AGENT), toolInput: 'ls' });
+  });
+
+  it('uses the trace as the agent for tools without a parent', () => {
+    const orphan = tool('aaaaaaaaaaaaaaaa', ROOT_AGENT, 'Bash', {});
+    delete (orphan as { parentSpanId?: string }).parentSpanId;
+    expect(translate(exportOf(orphan)).events[0].event.agentId).toBe(traceAgentId(TRACE));
+  });
+
+  it('reports failed agents and malformed spans', () => {
+    const failed = { ...span(ROOT_AGENT, undefined, { 'gen_ai.operation.name': 'invoke_agent' }), status: { code: 2 } };
+    const { events, rejected } = translate(exportOf(failed, { ...failed, spanId: 'xyz' }, { ...failed, endTimeUnixNano: '5' }));
+
+    expect(events.at(-1)!.event).toMatchObject({ type: 'agent-stop', status: 'error' });
+    expect(rejected).toEqual([
+      { spanId: 'xyz', reason: 'spanId must be 16 hex digits' },
+      { spanId: ROOT_AGENT, reason: expect.stringContaining('end after start') },
+    ]);
+  });
+
+  it('ignores spans that are neither agents nor tools', () => {
+    expect(translate(exportOf(span('cccccccccccccccc', ROOT_AGENT, { 'http.method': 'GET' }))).events).toEqual([]);
+  });
+});
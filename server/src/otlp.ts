@@ -0,0 +1,295 @@
+// OpenTelemetry trace ingestion - OTLP/HTTP JSON spans become hook events
+// Agent runners instrumented with the GenAI semantic conventions report an
+// `invoke_agent` span per agent run and an `execute_tool` span per tool call. Each span
+// becomes what the hooks would have sent:
+// - tool span: thinking-end when it starts, thinking-start (with its duration) when it
+//   ends, and read/write/search activity for file tools
+// - agent span: thinking-start with its name, model and parent agent, then agent-stop
+// Other spans (LLM calls, HTTP, ...) only link tools to the agent above them.
+//
+// Agent ids are derived from span ids, so a tool span can name its agent by parent span
+// before the agent span is exported (spans are exported as they end - children first).
+
+import { compact, describeToolInput, parseMcpToolName, searchGlob, searchPath, str, HookPayload } from './adapters/hook-events.js';
+import { validateEvent } from './event-validation.js';
+import { ADAPTERS } from './adapters/index.js';
+import { AgentSource, AgentStatus, FileActivityEvent, IncomingEvent, ThinkingEvent } from './types.js';
+
+// Spans remembered for finding the agent above a later span
+export const MAX_TRACKED_SPANS = 10000;
+
+// Tools that work on files, and the activity they show as
+export const FILE_TOOLS: Record<string, 'read' | 'write' | 'search'> = {
+  Read: 'read',
+  Write: 'write',
+  Edit: 'write',
+  MultiEdit: 'write',
+  NotebookEdit: 'write',
+  Grep: 'search',
+  Glob: 'search',
+};
+
+type Attributes = Record<string, unknown>;
+
+interface Span {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  start: number;  // ms
+  end: number;    // ms
+  attributes: Attributes;
+  failed: boolean;
+  source: AgentSource;
+}
+
+interface TrackedSpan {
+  parentSpanId?: string;
+  isAgent: boolean;
+}
+
+/** An event and the span it came from */
+export type SpanEvent = IncomingEvent & { spanId: string };
+
+export type TraceTranslation =
+  | { ok: true; events: SpanEvent[]; rejected: Array<{ spanId?: string; reason: string }> }
+  | { ok: false; reason: string };
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function list(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+// OTLP AnyValue -> plain value (arrays and maps are not needed here)
+function anyValue(value: unknown): unknown {
+  if (!isObject(value)) return undefined;
+  if ('stringValue' in value) return value.stringValue;
+  if ('boolValue' in value) return value.boolValue;
+  if ('intValue' in value) return Number(value.intValue);  // int64 is a string in JSON
+  if ('doubleValue' in value) return value.doubleValue;
+  return undefined;
+}
+
+function attributes(raw: unknown): Attributes {
+  const result: Attributes = {};
+  for (const attr of list(raw)) {
+    if (isObject(attr) && typeof attr.key === 'string') {
+      result[attr.key] = anyValue(attr.value);
+    }
+  }
+  return result;
+}
+
+// Unix nanoseconds (string or number) -> ms
+function nanosToMs(value: unknown): number | null {
+  if (typeof value === 'number' && Number.isFinite(value)) return Math.floor(value / 1e6);
+  if (typeof value === 'string' && /^\d+$/.test(value)) return Number(BigInt(value) / 1000000n);
+  return null;
+}
+
+// Which agent tool emitted the spans - from the resource's service.name
+function detectSource(resource: Attributes): AgentSource {
+  const service = String(resource['service.name'] ?? '').toLowerCase();
+  return ADAPTERS.find(adapter => service.includes(adapter.source))?.source ?? 'unknown';
+}
+
+// 32 hex digits -> UUID layout, which is what the agent registry accepts
+function toUuid(hex: string): string {
+  const h = hex.toLowerCase();
+  return `${h.slice(0, 8)}-${h.slice(8, 12)}-${h.slice(12, 16)}-${h.slice(16, 20)}-${h.slice(20)}`;
+}
+
+/** Agent id of an agent span - half the trace id, all of the span id */
+export function spanAgentId(traceId: string, spanId: string): string {
+  return toUuid(traceId.slice(0, 16) + spanId);
+}
+
+/** Agent id for spans with no agent span above them - the trace is the agent */
+export function traceAgentId(traceId: string): string {
+  return toUuid(traceId);
+}
+
+function parseSpan(raw: unknown, source: AgentSource): Span | string {
+  if (!isObject(raw)) return 'span must be a JSON object';
+  const { traceId, spanId, parentSpanId, name, status } = raw;
+  if (typeof traceId !== 'string' || !/^[0-9a-f]{32}$/i.test(traceId)) return 'traceId must be 32 hex digits';
+  if (typeof spanId !== 'string' || !/^[0-9a-f]{16}$/i.test(spanId)) return 'spanId must be 16 hex digits';
+  if (parentSpanId !== undefined && parentSpanId !== '' &&
+      (typeof parentSpanId !== 'string' || !/^[0-9a-f]{16}$/i.test(parentSpanId))) {
+    return 'parentSpanId must be 16 hex digits';
+  }
+  const start = nanosToMs(raw.startTimeUnixNano);
+  const end = nanosToMs(raw.endTimeUnixNano);
+  if (start === null || end === null || end < start) {
+    return 'startTimeUnixNano and endTimeUnixNano must be unix nanoseconds, end after start';
+  }
+  const code = isObject(status) ? status.code : undefined;
+  return {
+    traceId: traceId.toLowerCase(),
+    spanId: spanId.toLowerCase(),
+    parentSpanId: str(parentSpanId)?.toLowerCase(),
+    name: typeof name === 'string' ? name : '',
+    start,
+    end,
+    attributes: attributes(raw.attributes),
+    failed: code === 2 || code === 'STATUS_CODE_ERROR',
+    source,
+  };
+}
+
+function operation(span: Span): string | undefined {
+  const op = str(span.attributes['gen_ai.operation.name']);
+  if (op) return op;
+  if (str(span.attributes['gen_ai.tool.name'])) return 'execute_tool';
+  return undefined;
+}
+
+// "execute_tool Read" -> "Read" when the tool name attribute is missing
+function toolName(span: Span): string | undefined {
+  return str(span.attributes['gen_ai.tool.name']) ?? str(span.name.replace(/^execute_tool\s*/, ''));
+}
+
+// Tool arguments as a hook's tool_input, plus file path attributes
+function toolArguments(span: Span): HookPayload {
+  let args: HookPayload = {};
+  const json = span.attributes['gen_ai.tool.call.arguments'];
+  if (typeof json === 'string') {
+    try {
+      const parsed = JSON.parse(json);
+      if (isObject(parsed)) args = parsed;
+    } catch {
+      // Not JSON - the tool still shows, just without its input
+    }
+  }
+  const filePath = str(span.attributes['file.path']) ?? str(span.attributes['code.filepath']);
+  return filePath && !str(args.file_path) ? { ...args, file_path: filePath } : args;
+}
+
+/**
+ * Turns OTLP trace exports into events. Keeps the span tree of recent exports so a tool
+ * finds its agent even when the spans in between came in an earlier request.
+ */
+export class TraceTranslator {
+  private spans = new Map<string, TrackedSpan>();  // By traceId/spanId, oldest first
+
+  private track(span: Span, isAgent: boolean): void {
+    const key = `${span.traceId}/${span.spanId}`;
+    this.spans.delete(key);
+    this.spans.set(key, { parentSpanId: span.parentSpanId, isAgent });
+    if (this.spans.size > MAX_TRACKED_SPANS) {
+      this.spans.delete(this.spans.keys().next().value!);
+    }
+  }
+
+  // Nearest agent above a span: a known agent span, the first span we haven't seen
+  // (assumed to be the agent, which ends after its tools), or the trace itself
+  private agentAbove(traceId: string, parentSpanId: string | undefined): string {
+    let current = parentSpanId;
+    for (let hops = 0; current && hops < MAX_TRACKED_SPANS; hops++) {
+      const tracked = this.spans.get(`${traceId}/${current}`);
+      if (!tracked || tracked.isAgent) return spanAgentId(traceId, current);
+      current = tracked.parentSpanId;
+    }
+    return traceAgentId(traceId);
+  }
+
+  /** Translate an ExportTraceServiceRequest. Events come back oldest first. */
+  translate(body: unknown): TraceTranslation {
+    if (!isObject(body) || !Array.isArray(body.resourceSpans)) {
+      return { ok: false, reason: 'body must be an OTLP ExportTraceServiceRequest with resourceSpans' };
+    }
+
+    const spans: Span[] = [];
+    const rejected: Array<{ spanId?: string; reason: string }> = [];
+    for (const resourceSpans of body.resourceSpans) {
+      if (!isObject(resourceSpans)) continue;
+      const source = detectSource(attributes(isObject(resourceSpans.resource) ? resourceSpans.resource.attributes : undefined));
+      for (const scopeSpans of list(resourceSpans.scopeSpans)) {
+        if (!isObject(scopeSpans)) continue;
+        for (const raw of list(scopeSpans.spans)) {
+          const span = parseSpan(raw, source);
+          if (typeof span === 'string') {
+            rejected.push({ spanId: isObject(raw) ? str(raw.spanId) : undefined, reason: span });
+          } else {
+            spans.push(span);
+          }
+        }
+      }
+    }
+
+    // Learn the whole tree first - a batch lists spans in no particular order
+    for (const span of spans) {
+      this.track(span, operation(span) === 'invoke_agent');
+    }
+
+    const events: SpanEvent[] = [];
+    for (const span of spans) {
+      const op = operation(span);
+      const raw = op === 'invoke_agent' ? this.agentEvents(span)
+        : op === 'execute_tool' ? this.toolEvents(span)
+        : [];
+      for (const event of raw) {
+        const validated = validateEvent(event);
+        if (validated.ok) {
+          const { ok: _ok, ...incoming } = validated;
+          events.push({ ...incoming, spanId: span.spanId });
+        } else {
+          rejected.push({ spanId: span.spanId, reason: validated.reason });
+        }
+      }
+    }
+
+    events.sort((a, b) => a.event.timestamp - b.event.timestamp);
+    return { ok: true, events, rejected };
+  }
+
+  private agentEvents(span: Span): Array<FileActivityEvent | ThinkingEvent> {
+    const agentId = spanAgentId(span.traceId, span.spanId);
+    const parentAgentId = span.parentSpanId ? this.agentAbove(span.traceId, span.parentSpanId) : undefined;
+    const status: AgentStatus = span.failed ? 'error' : 'completed';
+    const base = { agentId, source: span.source, eventId: `otel-${span.spanId}` };
+    return [
+      compact({
+        ...base,
+        type: 'thinking-start' as const,
+        timestamp: span.start,
+        eventId: `${base.eventId}-start`,
+        agentName: str(span.attributes['gen_ai.agent.name']),
+        model: str(span.attributes['gen_ai.request.model']) ?? str(span.attributes['gen_ai.response.model']),
+        parentAgentId,
+      }),
+      { ...base, type: 'agent-stop', timestamp: span.end, eventId: `${base.eventId}-stop`, status },
+    ];
+  }
+
+  private toolEvents(span: Span): Array<FileActivityEvent | ThinkingEvent> {
+    const agentId = this.agentAbove(span.traceId, span.parentSpanId);
+    const tool = toolName(span);
+    const args = toolArguments(span);
+    const mcp = parseMcpToolName(tool);
+    const base = { agentId, source: span.source };
+    const thinking = compact({ ...base, toolName: tool, mcpServer: mcp?.server, mcpTool: mcp?.tool });
+
+    // The tool runs between thinking-end and thinking-start, like PreToolUse/PostToolUse
+    const events: Array<FileActivityEvent | ThinkingEvent> = [
+      compact({ ...thinking, type: 'thinking-end' as const, timestamp: span.start,
+        eventId: `otel-${span.spanId}-start`, toolInput: describeToolInput(tool, args) }),
+      { ...thinking, type: 'thinking-start', timestamp: span.end,
+        eventId: `otel-${span.spanId}-end`, duration: span.end - span.start },
+    ];
+
+    const kind = tool ? FILE_TOOLS[tool] : undefined;
+    const filePath = kind === 'search' ? searchPath(args) : str(args.file_path);
+    if (kind && filePath) {
+      const glob = kind === 'search' ? searchGlob(tool, args) : undefined;
+      events.push(
+        compact({ ...base, type: `${kind}-start` as const, filePath, glob, timestamp: span.start, eventId: `otel-${span.spanId}-${kind}-start` }),
+        compact({ ...base, type: `${kind}-end` as const, filePath, glob, timestamp: span.end, eventId: `otel-${span.spanId}-${kind}-end` }),
+      );
+    }
+    return events;
+  }
+}
@@ -0,0 +1,230 @@
+/**
+ * Project Registry Tests
+ *
+ * Tests serving several repositories from one server.
+ * The ProjectRegistry is responsible for:
+ * - Registering project roots with unique ids
+ * - Routing events by cwd, file path or the agent's previous project
+ * - Keeping agents and activity separate per project
+ * - Persisting registered roots across restarts
+ * - Applying config file changes without a restart
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ProjectRegistry, MAX_ROUTED_AGENTS } from './project-registry.js';
+
+const AGENT_A = 'a7982537-1234-5678-9abc-def012345678';
+const AGENT_B = 'b7982537-1234-5678-9abc-def012345678';
+
+describe('ProjectRegistry', () => {
+  let base: string;
+  let repoA: string;
+  let repoB: string;
+  let registryFile: string;
+  let registry: ProjectRegistry;
+
+  beforeEach(() => {
+    base = fs.mkdtempSync(path.join(os.tmpdir(), 'codemap-projects-'));
+    repoA = path.join(base, 'repo-a');
+    repoB = path.join(base, 'Repo B');
+    fs.mkdirSync(path.join(repoA, 'src'), { recursive: true });
+    fs.mkdirSync(repoB);
+    registryFile = path.join(base, 'projects.json');
+    registry = new ProjectRegistry(repoA, { watch: false, registryFile, userConfigFile: null, agents: { creationCooldownMs: 0 } });
+  });
+
+  afterEach(() => {
+    registry.close();
+    fs.rmSync(base, { recursive: true, force: true });
+  });
+
+  describe('Registration', () => {
+    it('starts with the default project', () => {
+      expect(registry.getInfo()).toEqual([
+        { id: 'repo-a', name: 'repo-a', root: repoA, agents: 0, isDefault: true },
+      ]);
+      expect(registry.get()).toBe(registry.getDefault());
+    });
+
+    it('derives URL-safe ids from folder names', () => {
+      expect(registry.add(repoB).id).toBe('repo-b');
+    });
+
+    it('returns the existing project when a root is added twice', () => {
+      const first = registry.add(repoB);
+      expect(registry.add(repoB + '/')).toBe(first);
+      expect(registry.list()).toHaveLength(2);
+    });
+
+    it('disambiguates projects with the same folder name', () => {
+      const other = path.join(base, 'nested', 'repo-a');
+      fs.mkdirSync(other, { recursive: true });
+      expect(registry.add(other).id).toBe('repo-a-2');
+    });
+
+    it('rejects roots that are not directories', () => {
+      expect(() => registry.add(path.join(base, 'missing'))).toThrow('Not a directory');
+    });
+
+    it('rejects roots with an invalid config', () => {
+      fs.writeFileSync(path.join(repoB, 'codemap.config.json'), JSON.stringify({ maxAgents: 'lots' }));
+      expect(() => registry.add(repoB)).toThrow('maxAgents must be an integer');
+      expect(registry.list()).toHaveLength(1);
+    });
+
+    it('never removes the default project', () => {
+      registry.add(repoB);
+      expect(registry.remove('repo-a')).toBe(false);
+      expect(registry.remove('repo-b')).toBe(true);
+      expect(registry.get('repo-b')).toBeUndefined();
+    });
+
+    it('notifies about existing and new projects', () => {
+      const added: string[] = [];
+      registry.onProjectAdded(p => added.push(p.id));
+      registry.add(repoB);
+      expect(added).toEqual(['repo-a', 'repo-b']);
+    });
+  });
+
+  describe('Routing', () => {
+    beforeEach(() => {
+      registry.add(repoB);
+    });
+
+    it('routes by cwd', () => {
+      expect(registry.resolve({ cwd: repoB }).id).toBe('repo-b');
+      expect(registry.resolve({ cwd: path.join(repoA, 'src') }).id).toBe('repo-a');
+    });
+
+    it('does not match sibling folders sharing a prefix', () => {
+      const sibling = repoA + '-old';
+      expect(registry.resolve({ cwd: sibling }).id).toBe('repo-a'); // falls back to default
+      registry.add(repoB);
+      expect(registry.resolve({ cwd: repoB + 'x' }).id).toBe('repo-a');
+    });
+
+    it('prefers the deepest matching root', () => {
+      const nested = path.join(repoA, 'packages', 'lib');
+      fs.mkdirSync(nested, { recursive: true });
+      registry.add(nested);
+      expect(registry.resolve({ cwd: path.join(nested, 'src') }).root).toBe(nested);
+    });
+
+    it('falls back to the file path when there is no cwd', () => {
+      expect(registry.resolve({ filePath: path.join(repoB, 'README.md') }).id).toBe('repo-b');
+    });
+
+    it('remembers which project an agent works in', () => {
+      registry.resolve({ cwd: repoB, agentId: AGENT_A });
+      // Thinking events without cwd follow the agent
+      expect(registry.resolve({ agentId: AGENT_A }).id).toBe('repo-b');
+      expect(registry.resolve({ agentId: AGENT_B }).id).toBe('repo-a');
+    });
+
+    it('forgets the agents routed longest ago', () => {
+      registry.resolve({ cwd: repoB, agentId: AGENT_A });
+      registry.resolve({ cwd: repoB, agentId: AGENT_B });
+      for (let i = 0; i < MAX_ROUTED_AGENTS - 1; i++) {
+        registry.resolve({ cwd: repoB, agentId: `agent-${i}` });
+        if (i === 0) registry.resolve({ agentId: AGENT_A });  // Still active - moves to the end
+      }
+
+      expect(registry.resolve({ agentId: AGENT_A }).id).toBe('repo-b');
+      expect(registry.resolve({ agentId: AGENT_B }).id).toBe('repo-a');
+    });
+  });
+
+  describe('Isolation', () => {
+    it('keeps agents and activity per project', () => {
+      const b = registry.add(repoB);
+      const a = registry.getDefault();
+      b.agents.applyActivity({ type: 'write-end', filePath: path.join(repoB, 'x.ts'), agentId: AGENT_B, timestamp: 1 }, 1000);
+      b.activityStore.addActivity({ type: 'write-end', filePath: path.join(repoB, 'x.ts'), timestamp: 1 });
+
+      expect(b.agents.size).toBe(1);
+      expect(a.agents.size).toBe(0);
+      expect(a.activityStore.getGraphData().nodes.some(n => n.name === 'x.ts')).toBe(false);
+      expect(b.toRelativePath(path.join(repoB, 'x.ts'))).toBe('x.ts');
+    });
+  });
+
+  describe('Persistence', () => {
+    it('restores registered roots after a restart', () => {
+      registry.add(repoB);
+      registry.close();
+
+      registry = new ProjectRegistry(repoA, { watch: false, registryFile, userConfigFile: null });
+      registry.loadRegistered();
+      expect(registry.list().map(p => p.id)).toEqual(['repo-a', 'repo-b']);
+    });
+
+    it('skips roots that no longer exist', () => {
+      registry.add(repoB);
+      registry.close();
+      fs.rmSync(repoB, { recursive: true });
+
+      registry = new ProjectRegistry(repoA, { watch: false, registryFile, userConfigFile: null });
+      registry.loadRegistered();
+      expect(registry.list().map(p => p.id)).toEqual(['repo-a']);
+    });
+  });
+
+  describe('Config', () => {
+    const writeConfig = (data: unknown) =>
+      fs.writeFileSync(path.join(repoA, 'codemap.config.json'), JSON.stringify(data));
+
+    it('applies the project config to the agent registry', () => {
+      const b = fs.mkdtempSync(path.join(base, 'c-'));
+      fs.writeFileSync(path.join(b, 'codemap.config.json'), JSON.stringify({ agentTimeoutMs: 60000 }));
+      const project = registry.add(b);
+      expect(project.agents.agentTimeoutMs).toBe(60000);
+      expect(project.agents.maxAgents).toBe(10);
+    });
+
+    it('reloads limits and notifies listeners', () => {
+      const project = registry.getDefault();
+      const changes: number[] = [];
+      project.onConfigChange((config, previous) => changes.push(previous.maxAgents, config.maxAgents));
+
+      writeConfig({ maxAgents: 2, waitingForInputThresholdMs: 5000 });
+      expect(project.reloadConfig()).toBe(true);
+      expect(project.agents.maxAgents).toBe(2);
+      expect(project.agents.waitingForInputThresholdMs).toBe(5000);
+      expect(changes).toEqual([10, 2]);
+    });
+
+    it('keeps the previous config when the file becomes invalid', () => {
+      const project = registry.getDefault();
+      writeConfig({ maxAgents: 2 });
+      project.reloadConfig();
+
+      writeConfig({ maxAgents: 0 });
+      expect(project.reloadConfig()).toBe(false);
+      expect(project.config.maxAgents).toBe(2);
+      expect(project.agents.maxAgents).toBe(2);
+    });
+
+    it('rebuilds the file tree when ignoreDirs changes', () => {
+      const project = registry.getDefault();
+      fs.mkdirSync(path.join(repoA, 'build'));
+      fs.writeFileSync(path.join(repoA, 'src', 'a.ts'), '');
+      project.activityStore.addActivity({ type: 'read-end', filePath: path.join(repoA, 'src', 'a.ts'), timestamp: 1 });
+      const ids = () => project.activityStore.getGraphData().nodes.map(n => n.id);
+
+      writeConfig({ ignoreDirs: ['node_modules'] });
+      project.reloadConfig();
+      expect(ids()).toContain(path.join(repoA, 'build'));
+
+      writeConfig({ ignoreDirs: ['build', 'node_modules'] });
+      project.reloadConfig();
+      expect(ids()).not.toContain(path.join(repoA, 'build'));
+      // Activity on files that stay visible survives the rebuild
+      const file = project.activityStore.getGraphData().nodes.find(n => n.name === 'a.ts');
+      expect(file?.activityCount.reads).toBe(1);
+    });
+  });
+});
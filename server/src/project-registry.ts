@@ -0,0 +1,339 @@
+// Project registry - one CodeMap server for many repositories
+// Each project root gets its own ActivityStore, AgentRegistry, event log and state file.
+// Hook events are routed by their cwd (falling back to the file path, then the agent's
+// previous project, then the default project the server was started for).
+// Projects read their own codemap.config.json and reload it when it changes.
+
+import path from 'path';
+import fs from 'fs';
+import os from 'os';
+import chokidar, { FSWatcher } from 'chokidar';
+import { ActivityStore } from './activity-store.js';
+import { AgentRegistry, AgentRegistryOptions } from './agent-registry.js';
+import { EventLog } from './event-log.js';
+import { UsageTracker } from './usage.js';
+import { SessionArchive, IMPORTS_DIR } from './session-import.js';
+import { loadConfig, configFiles, USER_CONFIG_FILE } from './config.js';
+import { clearCache as clearGitCache } from './git-activity.js';
+import { CodeMapConfig, ProjectInfo } from './types.js';
+
+export interface ProjectOptions {
+  watch?: boolean;  // Watch the filesystem and config files (default true)
+  agents?: AgentRegistryOptions;  // Overrides the config file
+  userConfigFile?: string | null;  // User-level config fallback (null = none)
+  transcriptRoots?: string[];  // Where session transcripts may be read from (default ~/.claude/projects)
+}
+
+export interface ProjectRegistryOptions extends ProjectOptions {
+  registryFile?: string | null;  // Where registered roots persist (null = don't persist)
+}
+
+export const DEFAULT_REGISTRY_FILE = path.join(os.homedir(), '.codemap', 'projects.json');
+
+// Agents whose project is remembered - the ones routed longest ago are forgotten first
+export const MAX_ROUTED_AGENTS = 1000;
+
+/** What an event carries that can identify its project */
+export interface ProjectHint {
+  cwd?: string;
+  filePath?: string;
+  agentId?: string;
+}
+
+// Is `filePath` the root itself or somewhere inside it?
+function isInside(filePath: string, root: string): boolean {
+  return filePath === root || filePath.startsWith(root.endsWith(path.sep) ? root : root + path.sep);
+}
+
+function slugify(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9._-]+/g, '-').replace(/^-+|-+$/g, '') || 'project';
+}
+
+export class Project {
+  readonly id: string;
+  readonly name: string;
+  readonly root: string;
+  readonly activityStore: ActivityStore;
+  readonly agents: AgentRegistry;
+  readonly eventLog: EventLog;
+  readonly usage: UsageTracker;
+  readonly imports: SessionArchive;
+  config: CodeMapConfig;
+  private stateFile: string;
+  private userConfigFile: string | null;
+  private configWatcher: FSWatcher | null = null;
+  private onConfigChangeCallback: ((config: CodeMapConfig, previous: CodeMapConfig) => void) | null = null;
+
+  // Throws if the project's config is invalid
+  constructor(id: string, root: string, options: ProjectOptions = {}) {
+    this.id = id;
+    this.root = root;
+    this.name = path.basename(root) || root;
+    this.userConfigFile = options.userConfigFile === undefined ? USER_CONFIG_FILE : options.userConfigFile;
+    this.config = loadConfig(root, this.userConfigFile);
+    this.activityStore = new ActivityStore(root, { watch: options.watch, ignoreDirs: this.config.ignoreDirs });
+    this.agents = new AgentRegistry({
+      maxAgents: this.config.maxAgents,
+      agentTimeoutMs: this.config.agentTimeoutMs,
+      waitingForInputThresholdMs: this.config.waitingForInputThresholdMs,
+      ...options.agents,
+    });
+    this.eventLog = new EventLog(path.join(root, '.codemap', 'events'));
+    this.usage = new UsageTracker({ prices: this.config.modelPrices, transcriptRoots: options.transcriptRoots });
+    this.imports = new SessionArchive(path.join(root, IMPORTS_DIR));
+    this.stateFile = path.join(root, '.codemap-state.json');
+    if (options.watch !== false) {
+      this.watchConfig();
+    }
+  }
+
+  // Set callback for when the config file changes and passes validation
+  onConfigChange(callback: (config: CodeMapConfig, previous: CodeMapConfig) => void): void {
+    this.onConfigChangeCallback = callback;
+  }
+
+  /**
+   * Re-read the config files and apply what can change without a restart.
+   * An invalid file is reported and the previous config stays in effect.
+   */
+  reloadConfig(): boolean {
+    let next: CodeMapConfig;
+    try {
+      next = loadConfig(this.root, this.userConfigFile);
+    } catch (err) {
+      console.error(`Config for ${this.name} not reloaded - keeping the previous settings.\n${(err as Error).message}`);
+      return false;
+    }
+
+    const previous = this.config;
+    this.config = next;
+    this.agents.configure({
+      maxAgents: next.maxAgents,
+      agentTimeoutMs: next.agentTimeoutMs,
+      waitingForInputThresholdMs: next.waitingForInputThresholdMs,
+    });
+    if (next.ignoreDirs.join('\0') !== previous.ignoreDirs.join('\0')) {
+      this.activityStore.setIgnoreDirs(next.ignoreDirs);
+    }
+    if (next.gitLogDepth !== previous.gitLogDepth) {
+      clearGitCache(this.root);
+    }
+    this.usage.setPrices(next.modelPrices);
+
+    console.log(`[${new Date().toISOString()}] Config reloaded for ${this.name}`);
+    this.onConfigChangeCallback?.(next, previous);
+    return true;
+  }
+
+  private watchConfig(): void {
+    this.configWatcher = chokidar.watch(configFiles(this.root, this.userConfigFile), {
+      persistent: true,
+      ignoreInitial: true,
+      awaitWriteFinish: { stabilityThreshold: 100, pollInterval: 50 }
+    });
+    this.configWatcher.on('all', () => this.reloadConfig());
+  }
+
+  // Convert absolute file paths to relative (for client matching)
+  toRelativePath(absolutePath: string): string {
+    if (absolutePath === this.root) {
+      return '.';
+    }
+    const prefix = this.root + '/';
+    if (absolutePath.startsWith(prefix)) {
+      return absolutePath.slice(prefix.length) || '.';
+    }
+    return absolutePath;
+  }
+
+  saveState(): void {
+    try {
+      fs.writeFileSync(this.stateFile, JSON.stringify(this.agents.toSnapshot(Date.now()), null, 2));
+    } catch (err) {
+      console.error(`Failed to save agent state for ${this.name}:`, err);
+    }
+  }
+
+  // Returns the number of agents restored
+  loadState(): number {
+    try {
+      if (fs.existsSync(this.stateFile)) {
+        const data = JSON.parse(fs.readFileSync(this.stateFile, 'utf-8'));
+        return this.agents.restore(data, Date.now());
+      }
+    } catch (err) {
+      console.error(`Failed to load agent state for ${this.name}:`, err);
+    }
+    return 0;
+  }
+
+  getInfo(isDefault: boolean): ProjectInfo {
+    return { id: this.id, name: this.name, root: this.root, agents: this.agents.size, isDefault };
+  }
+
+  close(): void {
+    this.activityStore.stopWatching();
+    if (this.configWatcher) {
+      this.configWatcher.close();
+      this.configWatcher = null;
+    }
+  }
+}
+
+export class ProjectRegistry {
+  private projects = new Map<string, Project>();
+  private agentProjects = new Map<string, string>();  // agentId -> project id
+  private defaultProject: Project;
+  private options: ProjectOptions;
+  private registryFile: string | null;
+  private onAddCallback: ((project: Project) => void) | null = null;
+
+  constructor(defaultRoot: string, options: ProjectRegistryOptions = {}) {
+    const { registryFile, ...projectOptions } = options;
+    this.options = projectOptions;
+    this.registryFile = registryFile === undefined ? DEFAULT_REGISTRY_FILE : registryFile;
+    this.defaultProject = this.create(path.resolve(defaultRoot));
+  }
+
+  // Set callback for newly added projects (called for the default project too)
+  onProjectAdded(callback: (project: Project) => void): void {
+    this.onAddCallback = callback;
+    for (const project of this.projects.values()) {
+      callback(project);
+    }
+  }
+
+  // Add roots registered in earlier runs
+  loadRegistered(): void {
+    if (!this.registryFile || !fs.existsSync(this.registryFile)) return;
+    try {
+      const data = JSON.parse(fs.readFileSync(this.registryFile, 'utf-8'));
+      for (const root of data.projects || []) {
+        if (typeof root === 'string' && fs.existsSync(root)) {
+          try {
+            this.add(root, false);
+          } catch (err) {
+            console.error(`Failed to register ${root}:`, (err as Error).message);
+          }
+        }
+      }
+    } catch (err) {
+      console.error('Failed to load registered projects:', err);
+    }
+  }
+
+  /**
+   * Register a project root. Adding an already-registered root returns the existing project.
+   * Throws if the root is not a directory or its config is invalid.
+   */
+  add(root: string, persist: boolean = true): Project {
+    const resolved = path.resolve(root);
+    const existing = this.findByRoot(resolved);
+    if (existing) return existing;
+
+    if (!fs.existsSync(resolved) || !fs.statSync(resolved).isDirectory()) {
+      throw new Error(`Not a directory: ${resolved}`);
+    }
+
+    const project = this.create(resolved);
+    console.log(`[${new Date().toISOString()}] Project registered: ${project.name} (${resolved})`);
+    if (persist) this.save();
+    return project;
+  }
+
+  // The default project can't be removed
+  remove(id: string): boolean {
+    const project = this.projects.get(id);
+    if (!project || project === this.defaultProject) return false;
+
+    project.close();
+    this.projects.delete(id);
+    for (const [agentId, projectId] of this.agentProjects) {
+      if (projectId === id) this.agentProjects.delete(agentId);
+    }
+    this.save();
+    return true;
+  }
+
+  // Look up by id - no id means the default project
+  get(id?: string | null): Project | undefined {
+    if (!id) return this.defaultProject;
+    return this.projects.get(id);
+  }
+
+  getDefault(): Project {
+    return this.defaultProject;
+  }
+
+  list(): Project[] {
+    return Array.from(this.projects.values());
+  }
+
+  getInfo(): ProjectInfo[] {
+    return this.list().map(p => p.getInfo(p === this.defaultProject));
+  }
+
+  // Pick the project an event belongs to
+  resolve(hint: ProjectHint): Project {
+    const project =
+      (hint.cwd && this.findContaining(hint.cwd)) ||
+      (hint.filePath && path.isAbsolute(hint.filePath) && this.findContaining(hint.filePath)) ||
+      (hint.agentId && this.projects.get(this.agentProjects.get(hint.agentId) ?? '')) ||
+      this.defaultProject;
+
+    if (hint.agentId) {
+      // Re-insert so the map stays ordered by when each agent was last routed
+      this.agentProjects.delete(hint.agentId);
+      this.agentProjects.set(hint.agentId, project.id);
+      if (this.agentProjects.size > MAX_ROUTED_AGENTS) {
+        this.agentProjects.delete(this.agentProjects.keys().next().value!);
+      }
+    }
+    return project;
+  }
+
+  // Deepest project root containing the path (nested repos win over their parents)
+  findContaining(filePath: string): Project | undefined {
+    let best: Project | undefined;
+    for (const project of this.projects.values()) {
+      if (isInside(filePath, project.root) && (!best || project.root.length > best.root.length)) {
+        best = project;
+      }
+    }
+    return best;
+  }
+
+  close(): void {
+    for (const project of this.projects.values()) {
+      project.close();
+    }
+  }
+
+  private create(root: string): Project {
+    const base = slugify(path.basename(root));
+    let id = base;
+    for (let n = 2; this.projects.has(id); n++) {
+      id = `${base}-${n}`;
+    }
+
+    const project = new Project(id, root, this.options);
+    this.projects.set(id, project);
+    this.onAddCallback?.(project);
+    return project;
+  }
+
+  private findByRoot(root: string): Project | undefined {
+    return this.list().find(p => p.root === root);
+  }
+
+  private save(): void {
+    if (!this.registryFile) return;
+    try {
+      fs.mkdirSync(path.dirname(this.registryFile), { recursive: true });
+      const projects = this.list().map(p => p.root);
+      fs.writeFileSync(this.registryFile, JSON.stringify({ projects }, null, 2));
+    } catch (err) {
+      console.error('Failed to save registered projects:', err);
+    }
+  }
+}
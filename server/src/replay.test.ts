@@ -0,0 +1,191 @@
+/**
+ * Replay Tests
+ *
+ * Tests playback of recorded events to a single client.
+ * The ReplaySession is responsible for:
+ * - Emitting events at their recorded spacing, scaled by speed
+ * - Pausing, resuming and changing speed mid-playback
+ * - Seeking by rebuilding graph and agent state at the target time
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ReplaySession } from './replay.js';
+import { AgentThinkingState, GraphData, GraphDelta, LoggedEvent, ReplayStatus } from './types.js';
+
+const AGENT_A = 'a7982537-1234-5678-9abc-def012345678';
+const T0 = Date.parse('2026-01-17T14:00:00Z');
+
+describe('ReplaySession', () => {
+  let root: string;
+  let sent: Array<{ type: string; data: unknown }>;
+  let events: LoggedEvent[];
+
+  // Copied as the socket would - the store keeps mutating the nodes it sends
+  const send = (type: string, data: unknown) => {
+    sent.push({ type, data: JSON.parse(JSON.stringify(data)) });
+  };
+  const sentOfType = <T>(type: string) => sent.filter(m => m.type === type).map(m => m.data as T);
+  const lastStatus = () => sentOfType<ReplayStatus>('replay-status').pop()!;
+  const lastAgents = () => sentOfType<AgentThinkingState[]>('thinking').pop()!;
+  // The last full graph with the deltas sent after it applied
+  const lastGraph = () => {
+    let graph: GraphData = { seq: 0, nodes: [], links: [] };
+    for (const { type, data } of sent) {
+      if (type === 'graph') {
+        graph = data as GraphData;
+      } else if (type === 'graph-delta') {
+        const delta = data as GraphDelta;
+        expect(delta.seq).toBe(graph.seq + 1);
+        const nodes = graph.nodes.filter(n => !delta.removed.includes(n.id));
+        for (const node of [...delta.added, ...delta.updated]) {
+          const index = nodes.findIndex(n => n.id === node.id);
+          if (index >= 0) nodes[index] = node; else nodes.push(node);
+        }
+        graph = { seq: delta.seq, nodes, links: [...graph.links, ...delta.links] };
+      }
+    }
+    return graph;
+  };
+  const nodeFor = (graph: GraphData, name: string) => graph.nodes.find(n => n.name === name)!;
+
+  function activityRecord(seq: number, offset: number, type: 'read-start' | 'read-end' | 'write-end', file: string): LoggedEvent {
+    const at = T0 + offset;
+    return { seq, receivedAt: at, kind: 'activity', event: { type, filePath: path.join(root, file), agentId: AGENT_A, timestamp: at } };
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(Date.parse('2026-02-01T10:00:00Z'));
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'codemap-replay-'));
+    fs.writeFileSync(path.join(root, 'a.ts'), '');
+    fs.writeFileSync(path.join(root, 'b.ts'), '');
+    sent = [];
+    events = [
+      { seq: 1, receivedAt: T0, kind: 'thinking', event: { type: 'thinking-start', agentId: AGENT_A, source: 'claude', toolName: 'Read', timestamp: T0 } },
+      activityRecord(2, 1000, 'read-end', 'a.ts'),
+      activityRecord(3, 10000, 'write-end', 'b.ts'),
+    ];
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('starts from an empty scene at the first event', () => {
+    const replay = new ReplaySession(events, { projectRoot: root, send });
+    replay.begin();
+
+    expect(sentOfType('thinking')[0]).toEqual([]);
+    expect(lastStatus()).toMatchObject({ state: 'playing', start: T0, end: T0 + 10000, eventCount: 3 });
+    replay.stop();
+  });
+
+  it('plays events at their recorded spacing', () => {
+    const replay = new ReplaySession(events, { projectRoot: root, send });
+    replay.begin();
+
+    vi.advanceTimersByTime(0);
+    expect(lastAgents()).toHaveLength(1);
+    expect(lastAgents()[0].displayName).toBe('Claude Code 1');
+
+    vi.advanceTimersByTime(1000);
+    expect(nodeFor(lastGraph(), 'a.ts').activityCount.reads).toBe(1);
+    expect(nodeFor(lastGraph(), 'b.ts').activityCount.writes).toBe(0);
+
+    vi.advanceTimersByTime(9000);
+    expect(nodeFor(lastGraph(), 'b.ts').activityCount.writes).toBe(1);
+    expect(lastStatus().state).toBe('ended');
+  });
+
+  it('sends activity with client-relative paths', () => {
+    const replay = new ReplaySession(events, {
+      projectRoot: root,
+      send,
+      toClientPath: p => path.relative(root, p),
+    });
+    replay.begin();
+    vi.advanceTimersByTime(1000);
+
+    expect(sentOfType<{ filePath: string }>('activity')[0].filePath).toBe('a.ts');
+    replay.stop();
+  });
+
+  it('plays faster at higher speeds', () => {
+    const replay = new ReplaySession(events, { projectRoot: root, send, speed: 16 });
+    replay.begin();
+
+    vi.advanceTimersByTime(10000 / 16);
+    expect(lastStatus().state).toBe('ended');
+    expect(nodeFor(lastGraph(), 'b.ts').activityCount.writes).toBe(1);
+  });
+
+  it('ignores unsupported speeds', () => {
+    const replay = new ReplaySession(events, { projectRoot: root, send });
+    replay.setSpeed(3);
+    expect(replay.getStatus().speed).toBe(1);
+    replay.setSpeed(4);
+    expect(replay.getStatus().speed).toBe(4);
+  });
+
+  it('holds position while paused', () => {
+    const replay = new ReplaySession(events, { projectRoot: root, send });
+    replay.begin();
+    vi.advanceTimersByTime(2000);
+    replay.pause();
+
+    vi.advanceTimersByTime(60000);
+    expect(replay.getStatus()).toMatchObject({ state: 'paused', position: T0 + 2000 });
+    expect(nodeFor(lastGraph(), 'b.ts').activityCount.writes).toBe(0);
+
+    replay.play();
+    vi.advanceTimersByTime(8000);
+    expect(nodeFor(lastGraph(), 'b.ts').activityCount.writes).toBe(1);
+  });
+
+  it('rebuilds state when seeking backwards', () => {
+    const replay = new ReplaySession(events, { projectRoot: root, send });
+    replay.begin();
+    vi.advanceTimersByTime(10000);
+    expect(nodeFor(lastGraph(), 'b.ts').activityCount.writes).toBe(1);
+
+    replay.seek(T0 + 5000);
+    expect(nodeFor(lastGraph(), 'a.ts').activityCount.reads).toBe(1);
+    expect(nodeFor(lastGraph(), 'b.ts').activityCount.writes).toBe(0);
+    expect(lastStatus()).toMatchObject({ state: 'paused', position: T0 + 5000 });
+  });
+
+  it('sends deltas while playing and a full graph on resync', () => {
+    const replay = new ReplaySession(events, { projectRoot: root, send });
+    replay.begin();
+    vi.advanceTimersByTime(10000);
+    expect(sentOfType('graph')).toHaveLength(1);
+    // a.ts (an end without a start) stops glowing before b.ts is written
+    expect(sentOfType<GraphDelta>('graph-delta').map(d => d.updated.map(n => n.name))).toEqual([['a.ts'], ['a.ts'], ['b.ts']]);
+
+    replay.resync();
+    expect(sentOfType<GraphData>('graph')[1]).toMatchObject({ seq: 3 });
+    expect(nodeFor(lastGraph(), 'b.ts').activityCount.writes).toBe(1);
+  });
+
+  it('maps agent timestamps onto the wall clock', () => {
+    const replay = new ReplaySession(events, { projectRoot: root, send, speed: 4 });
+    replay.seek(T0 + 10000);
+
+    // Last activity was at the playhead, so it appears to have just happened
+    expect(lastAgents()[0].lastActivity).toBe(Date.now());
+  });
+
+  it('stops sending once stopped', () => {
+    const replay = new ReplaySession(events, { projectRoot: root, send });
+    replay.begin();
+    replay.stop();
+    const count = sent.length;
+
+    vi.advanceTimersByTime(20000);
+    expect(sent.length).toBe(count);
+  });
+});
@@ -0,0 +1,240 @@
+// Session replay - re-plays recorded events to a single client
+// Events are fed through a private ActivityStore and AgentRegistry, so the client
+// receives the same 'graph', 'graph-delta', 'activity' and 'thinking' messages it gets live.
+// The replay's graph has its own seq - every jump starts with a full 'graph'.
+
+import { ActivityStore } from './activity-store.js';
+import { AgentRegistry } from './agent-registry.js';
+import { AgentThinkingState, GraphData, GraphDelta, FileActivityEvent, LoggedEvent, ReplayState, ReplayStatus } from './types.js';
+
+export const REPLAY_SPEEDS = [1, 4, 16];
+export const MAX_REPLAY_EVENTS = 100000;
+const STATUS_INTERVAL_MS = 1000;
+
+type ReplayMessage =
+  | ['graph', GraphData]
+  | ['graph-delta', GraphDelta]
+  | ['activity', FileActivityEvent]
+  | ['thinking', AgentThinkingState[]]
+  | ['replay-status', ReplayStatus];
+
+export interface ReplayOptions {
+  projectRoot: string;
+  speed?: number;
+  send: (...message: ReplayMessage) => void;
+  toClientPath?: (absolutePath: string) => string;
+}
+
+export class ReplaySession {
+  private events: LoggedEvent[];
+  private cursor = 0;  // Index of the next event to apply
+  private state: ReplayState = 'paused';
+  private speed: number;
+  private readonly start: number;
+  private readonly end: number;
+  // Timeline position is anchored to wall time while playing
+  private anchorPosition: number;
+  private anchorWallTime = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private statusTimer: ReturnType<typeof setInterval> | null = null;
+  private store: ActivityStore;
+  private registry: AgentRegistry;
+  private send: ReplayOptions['send'];
+  private toClientPath: (absolutePath: string) => string;
+
+  constructor(events: LoggedEvent[], options: ReplayOptions) {
+    // Replay in the order the server received events
+    this.events = [...events].sort((a, b) => a.receivedAt - b.receivedAt || a.seq - b.seq);
+    this.start = this.events.length > 0 ? this.events[0].receivedAt : 0;
+    this.end = this.events.length > 0 ? this.events[this.events.length - 1].receivedAt : 0;
+    this.anchorPosition = this.start;
+    this.speed = REPLAY_SPEEDS.includes(options.speed ?? 1) ? options.speed ?? 1 : 1;
+    this.send = options.send;
+    this.toClientPath = options.toClientPath ?? (p => p);
+    this.store = new ActivityStore(options.projectRoot, { watch: false });
+    // No creation cooldown - recorded agents were already accepted once
+    this.registry = new AgentRegistry({ creationCooldownMs: 0, quiet: true });
+  }
+
+  getStatus(): ReplayStatus {
+    return {
+      state: this.state,
+      position: this.getPosition(),
+      start: this.start,
+      end: this.end,
+      speed: this.speed,
+      eventCount: this.events.length,
+    };
+  }
+
+  play(): void {
+    if (this.state === 'stopped' || this.events.length === 0) return;
+    if (this.state === 'ended') {
+      this.seek(this.start);
+    }
+    this.anchorPosition = this.getPosition();
+    this.anchorWallTime = Date.now();
+    this.state = 'playing';
+    this.scheduleNext();
+    if (!this.statusTimer) {
+      this.statusTimer = setInterval(() => this.sendStatus(), STATUS_INTERVAL_MS);
+    }
+    this.sendStatus();
+  }
+
+  pause(): void {
+    if (this.state !== 'playing') return;
+    this.anchorPosition = this.getPosition();
+    this.state = 'paused';
+    this.clearTimers();
+    this.sendStatus();
+  }
+
+  setSpeed(speed: number): void {
+    if (!REPLAY_SPEEDS.includes(speed) || this.state === 'stopped') return;
+    this.anchorPosition = this.getPosition();
+    this.anchorWallTime = Date.now();
+    this.speed = speed;
+    if (this.state === 'playing') {
+      this.scheduleNext();
+    }
+    this.sendStatus();
+  }
+
+  // Jump to a point on the timeline and rebuild the scene as it was at that moment
+  seek(position: number): void {
+    if (this.state === 'stopped') return;
+    const target = Math.max(this.start, Math.min(this.end, position));
+
+    if (target < this.getPosition() || this.cursor === 0) {
+      this.store.resetActivity();
+      this.registry.clear();
+      this.cursor = 0;
+    }
+    while (this.cursor < this.events.length && this.events[this.cursor].receivedAt <= target) {
+      this.apply(this.events[this.cursor++], false);
+    }
+
+    this.anchorPosition = target;
+    this.anchorWallTime = Date.now();
+    if (this.state === 'ended' && target < this.end) {
+      this.state = 'paused';
+    }
+
+    this.send('graph', this.store.getGraphData());
+    this.send('thinking', this.getClientAgents());
+    if (this.state === 'playing') {
+      this.scheduleNext();
+    }
+    this.sendStatus();
+  }
+
+  stop(): void {
+    this.clearTimers();
+    this.state = 'stopped';
+  }
+
+  // Resend the full graph (the client missed a delta)
+  resync(): void {
+    this.send('graph', this.store.getGraphData());
+  }
+
+  // Start from the beginning with an empty scene
+  begin(): void {
+    this.send('graph', this.store.getGraphData());
+    this.send('thinking', []);
+    this.play();
+  }
+
+  private getPosition(): number {
+    if (this.state !== 'playing') return this.anchorPosition;
+    const elapsed = (Date.now() - this.anchorWallTime) * this.speed;
+    return Math.min(this.end, this.anchorPosition + elapsed);
+  }
+
+  private scheduleNext(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+
+    const next = this.events[this.cursor];
+    if (!next) {
+      this.anchorPosition = this.end;
+      this.state = 'ended';
+      this.clearTimers();
+      this.sendStatus();
+      return;
+    }
+
+    const delay = Math.max(0, (next.receivedAt - this.getPosition()) / this.speed);
+    this.timer = setTimeout(() => this.tick(), delay);
+  }
+
+  private tick(): void {
+    const position = this.getPosition();
+    while (this.cursor < this.events.length && this.events[this.cursor].receivedAt <= position) {
+      this.apply(this.events[this.cursor++], true);
+    }
+    this.scheduleNext();
+  }
+
+  private apply(record: LoggedEvent, emit: boolean): void {
+    const now = record.receivedAt;
+
+    // Operations whose other half never came end before the next event
+    const expired = this.store.expireOperations(now);
+    if (expired && emit) {
+      this.send('graph-delta', expired);
+    }
+
+    if (record.kind === 'activity') {
+      const agent = this.registry.applyActivity(record.event, now);
+      const event = this.store.resolveSearch(record.event);
+      const delta = this.store.addActivity(event);
+      if (emit) {
+        if (agent) this.send('thinking', this.getClientAgents());
+        this.send('activity', {
+          ...event,
+          filePath: this.toClientPath(event.filePath),
+          matchedFiles: event.matchedFiles?.map(file => this.toClientPath(file)),
+        });
+        if (delta) this.send('graph-delta', delta);
+      }
+    } else {
+      const agent = this.registry.applyThinking(record.event, now);
+      if (emit && agent) {
+        this.send('thinking', this.getClientAgents());
+      }
+    }
+
+    this.registry.detectWaitingForInput(now);
+    this.registry.expireCommands(now);
+    if (this.registry.removeStale(now) && emit) {
+      this.send('thinking', this.getClientAgents());
+    }
+  }
+
+  // Shift recorded timestamps onto the wall clock (scaled by speed) so the client's
+  // idle/status timers behave as they would have live
+  private getClientAgents(): AgentThinkingState[] {
+    const position = this.getPosition();
+    const wallNow = Date.now();
+    const toWallClock = (timestamp: number) => Math.round(wallNow - (position - timestamp) / this.speed);
+
+    return this.registry.getStates().map(agent => ({
+      ...agent,
+      lastActivity: toWallClock(agent.lastActivity),
+      statusTimestamp: agent.statusTimestamp !== undefined ? toWallClock(agent.statusTimestamp) : undefined,
+    }));
+  }
+
+  private sendStatus(): void {
+    this.send('replay-status', this.getStatus());
+  }
+
+  private clearTimers(): void {
+    if (this.timer) clearTimeout(this.timer);
+    if (this.statusTimer) clearInterval(this.statusTimer);
+    this.timer = null;
+    this.statusTimer = null;
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * Search Match Tests
+ *
+ * Tests reading what a Grep or Glob search looked for.
+ * The search matching is responsible for:
+ * - Splitting "<path>:<pattern>" (Windows drive letters included)
+ * - Matching globs like ripgrep: ** across folders, file names at any depth
+ */
+
+import { describe, it, expect } from 'vitest';
+import { globMatcher, parseSearchPath } from './search-match.js';
+
+describe('Search matching', () => {
+  it('splits the searched path from the pattern', () => {
+    expect(parseSearchPath('src:TODO: fix')).toEqual({ searchPath: 'src', pattern: 'TODO: fix' });
+    expect(parseSearchPath('C:\\dev\\shop:*.ts')).toEqual({ searchPath: 'C:\\dev\\shop', pattern: '*.ts' });
+    expect(parseSearchPath('*.ts')).toBeNull();
+    expect(parseSearchPath('src:')).toBeNull();
+  });
+
+  it('matches globs against relative paths', () => {
+    const tests = globMatcher('src/**/*.ts');
+    expect(tests('src/a.ts')).toBe(true);
+    expect(tests('src/cart/a.ts')).toBe(true);
+    expect(tests('lib/a.ts')).toBe(false);
+
+    const names = globMatcher('*.{ts,tsx}');
+    expect(names('deep/in/app.tsx')).toBe(true);
+    expect(names('app.js')).toBe(false);
+
+    expect(globMatcher('./src/*.ts')('src/a.ts')).toBe(true);
+    expect(globMatcher('[!a]?.md')('docs/b1.md')).toBe(true);
+    expect(globMatcher('[!a]?.md')('docs/a1.md')).toBe(false);
+    expect(globMatcher('file.ts')('file_ts')).toBe(false);
+  });
+});
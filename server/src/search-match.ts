@@ -0,0 +1,64 @@
+// Search matching - which files a Grep or Glob search touched
+// Search events carry "<path>:<pattern>" instead of a file. When the tool's response
+// listed the files it found they are used as is; otherwise the search's glob (a Glob's
+// pattern, or the glob a Grep was limited to) is matched against the files under the path -
+// like ripgrep's globs, a pattern without a slash matches file names at any depth.
+
+import path from 'path';
+
+// Most files one search lights up - a content search over a big tree would flood clients
+export const MAX_SEARCH_MATCHES = 200;
+
+/** Split a search event's file path into the searched path and the pattern */
+export function parseSearchPath(filePath: string): { searchPath: string; pattern: string } | null {
+  // A Windows drive letter is part of the path, not the separator
+  const from = /^[A-Za-z]:[\\/]/.test(filePath) ? 2 : 0;
+  const colon = filePath.indexOf(':', from);
+  if (colon <= 0 || colon === filePath.length - 1) return null;
+  return { searchPath: filePath.slice(0, colon), pattern: filePath.slice(colon + 1) };
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.+^$()|\\]/g, '\\$&');
+
+// Regex source for a glob: ** crosses folders, * and ? stay within one, {a,b} and [abc] as usual
+function globSource(glob: string): string {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === '*') {
+      if (glob[i + 1] === '*') {
+        i++;
+        if (glob[i + 1] === '/') {
+          i++;
+          source += '(?:.*/)?';
+        } else {
+          source += '.*';
+        }
+      } else {
+        source += '[^/]*';
+      }
+    } else if (c === '?') {
+      source += '[^/]';
+    } else if (c === '{' && glob.indexOf('}', i) > i) {
+      const end = glob.indexOf('}', i);
+      source += `(?:${glob.slice(i + 1, end).split(',').map(globSource).join('|')})`;
+      i = end;
+    } else if (c === '[' && glob.indexOf(']', i + 1) > i + 1) {
+      const end = glob.indexOf(']', i + 1);
+      const set = glob.slice(i + 1, end);
+      source += `[${set.startsWith('!') ? `^${set.slice(1)}` : set}]`;
+      i = end;
+    } else {
+      source += escapeRegExp(c);
+    }
+  }
+  return source;
+}
+
+/** Test for a path relative to the searched folder (forward slashes) */
+export function globMatcher(glob: string): (relativePath: string) => boolean {
+  const pattern = glob.replace(/^\.\//, '');
+  const regex = new RegExp(`^${globSource(pattern)}$`);
+  if (pattern.includes('/')) return relativePath => regex.test(relativePath);
+  return relativePath => regex.test(path.posix.basename(relativePath));
+}
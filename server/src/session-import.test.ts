@@ -0,0 +1,113 @@
+/**
+ * Session Import Tests
+ *
+ * Tests turning past session transcripts into replayable sessions.
+ * The session import is responsible for:
+ * - Converting a transcript to logged events with their original timestamps
+ * - Merging the lines of sub-agent transcripts by time
+ * - Titling a session by its summary or first prompt
+ * - Storing sessions per project and replacing a re-import
+ * - Refusing ids that could name files outside the imports folder
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { SessionArchive, claudeProjectDir, convertTranscript, importSessions, parseImportArgs } from './session-import.js';
+import { subAgentId } from './transcript.js';
+
+const SESSION = '9f2c4e1a-7b3d-4c8e-a1f0-5d6b7c8e9f01';
+const START = Date.parse('2025-10-01T12:00:00.000Z');
+
+function line(type: string, message: object, at: number, extra: object = {}): string {
+  return JSON.stringify({
+    type, sessionId: SESSION, cwd: '/p', uuid: `u-${at}`,
+    timestamp: new Date(START + at).toISOString(), message, ...extra,
+  }) + '\n';
+}
+
+const toolUse = (id: string, name: string, input: object, at: number, extra: object = {}) =>
+  line('assistant', { role: 'assistant', content: [{ type: 'tool_use', id, name, input }] }, at, extra);
+const toolResult = (id: string, at: number) =>
+  line('user', { role: 'user', content: [{ type: 'tool_result', tool_use_id: id, content: 'ok' }] }, at);
+
+describe('Session import', () => {
+  let dir: string;
+  let archive: SessionArchive;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'codemap-import-'));
+    archive = new SessionArchive(path.join(dir, 'project', '.codemap', 'imports'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function transcript(name: string, content: string): string {
+    const file = path.join(dir, name);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, content);
+    return file;
+  }
+
+  it('converts a transcript to events with their original timestamps', () => {
+    const file = transcript(`${SESSION}.jsonl`,
+      line('user', { role: 'user', content: 'Add   a\nchangelog' }, 0) +
+      toolUse('toolu_1', 'Write', { file_path: '/p/CHANGELOG.md' }, 1000) +
+      toolResult('toolu_1', 1500) +
+      '{"type":"assistant","message":{"content":[' + '\n');
+
+    const { session, events } = convertTranscript([file], 99)!;
+    expect(events.map(e => [e.seq, e.event.type, e.receivedAt - START])).toEqual([
+      [1, 'prompt-submit', 0], [2, 'thinking-end', 1000], [3, 'write-start', 1000], [4, 'thinking-start', 1500], [5, 'write-end', 1500],
+    ]);
+    expect(session).toEqual({
+      id: SESSION, title: 'Add a changelog', start: START, end: START + 1500, eventCount: 5, agentCount: 1, importedAt: 99,
+    });
+  });
+
+  it('merges sub-agent transcripts and prefers the summary as title', () => {
+    transcript(`${SESSION}.jsonl`,
+      JSON.stringify({ type: 'summary', summary: 'Changelog for the 2.0 release' }) + '\n' +
+      toolUse('toolu_task', 'Task', { description: 'Collect changes' }, 0) +
+      toolResult('toolu_task', 3000));
+    transcript(`${SESSION}/subagents/agent-1.jsonl`, toolUse('toolu_2', 'Bash', { command: 'git log' }, 1000, { isSidechain: true }));
+
+    const [session] = importSessions(dir, archive, 99);
+    expect(session).toMatchObject({ title: 'Changelog for the 2.0 release', agentCount: 2 });
+
+    const events = archive.load(SESSION)!;
+    const bash = events.find(e => e.event.type === 'thinking-end' && 'toolName' in e.event && e.event.toolName === 'Bash')!;
+    expect(bash.event.agentId).toBe(subAgentId('toolu_task'));
+    expect(events.at(-1)!.event).toMatchObject({ type: 'agent-stop', agentId: subAgentId('toolu_task') });
+  });
+
+  it('lists imported sessions, most recent first, replacing a re-import', () => {
+    transcript(`${SESSION}.jsonl`, toolUse('toolu_1', 'Read', { file_path: '/p/a.ts' }, 0));
+    const other = SESSION.replace('9f2c', 'aaaa');
+    transcript(`${other}.jsonl`, toolUse('toolu_1', 'Read', { file_path: '/p/a.ts' }, 5000).replaceAll(SESSION, other));
+    transcript('empty.jsonl', '');
+
+    expect(importSessions(dir, archive, 1).map(s => s.id)).toEqual([SESSION, other]);
+    importSessions(dir, archive, 2);
+    expect(archive.list().map(s => [s.id, s.importedAt])).toEqual([[other, 2], [SESSION, 2]]);
+  });
+
+  it('drops stored lines that are not valid events', () => {
+    transcript(`${SESSION}.jsonl`, toolUse('toolu_1', 'Read', { file_path: '/p/a.ts' }, 0));
+    importSessions(dir, archive);
+    fs.appendFileSync(path.join(dir, 'project', '.codemap', 'imports', `${SESSION}.jsonl`),
+      '{"seq":9,"receivedAt":1,"kind":"thinking","event":{"type":"hack","agentId":"x","timestamp":1}}\nnot json\n');
+
+    expect(archive.load(SESSION)).toHaveLength(2);
+    expect(archive.load('../secret')).toBeNull();
+    expect(archive.load('missing')).toBeNull();
+  });
+
+  it('finds the folder Claude Code keeps a project in', () => {
+    expect(claudeProjectDir('/home/dev/my.app', '/t')).toBe(path.join('/t', '-home-dev-my-app'));
+    expect(parseImportArgs(['--project', '../app', 'transcripts'])).toEqual({ dir: 'transcripts', project: '../app' });
+  });
+});
@@ -0,0 +1,224 @@
+// Imported sessions - past Claude Code transcripts turned into replayable events
+// `codemap import [dir]` reads every session transcript in a folder (by default the one
+// Claude Code keeps for the current project) and stores its events, with their original
+// timestamps, under .codemap/imports - one file per session plus an index. The server
+// lists them and replays one on request, so work done while CodeMap wasn't running
+// can still be watched.
+
+import fs from 'fs';
+import path from 'path';
+import { TranscriptTranslator } from './transcript.js';
+import { DEFAULT_TRANSCRIPT_ROOT } from './usage.js';
+import { validateEvent } from './event-validation.js';
+import { redactThinking } from './redact.js';
+import { ImportedSession, LoggedEvent } from './types.js';
+
+export const IMPORTS_DIR = path.join('.codemap', 'imports');
+const INDEX_FILE = 'index.json';
+const TITLE_LENGTH = 80;
+
+// Session ids name files - nothing that could leave the folder
+const SESSION_ID = /^[A-Za-z0-9_-]{1,128}$/;
+
+/** Folder Claude Code keeps a project's transcripts in - its path with every other character a dash */
+export function claudeProjectDir(projectRoot: string, transcriptRoot: string = DEFAULT_TRANSCRIPT_ROOT): string {
+  return path.join(transcriptRoot, path.resolve(projectRoot).replace(/[^A-Za-z0-9]/g, '-'));
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// One line of text, cut for the session list
+function titleOf(text: string): string | undefined {
+  const title = text.replace(/\s+/g, ' ').trim().slice(0, TITLE_LENGTH);
+  return title || undefined;
+}
+
+interface TranscriptLine {
+  text: string;
+  entry: Record<string, unknown>;
+  timestamp: number;
+}
+
+function readLines(file: string): TranscriptLine[] {
+  const lines: TranscriptLine[] = [];
+  for (const text of fs.readFileSync(file, 'utf-8').split('\n')) {
+    if (!text.trim()) continue;
+    try {
+      const entry: unknown = JSON.parse(text);
+      if (!isObject(entry)) continue;
+      lines.push({ text, entry, timestamp: Date.parse(String(entry.timestamp)) });
+    } catch {
+      // A line cut short (the session was still being written) - skip it
+    }
+  }
+  return lines;
+}
+
+/**
+ * Events of one session, oldest first, as the event log would have recorded them.
+ * `files` are the session's transcript followed by its sub-agents' (newer Claude Code
+ * versions keep those in <session>/subagents/) - their lines are merged by time.
+ */
+export function convertTranscript(files: string[], importedAt: number): { session: ImportedSession; events: LoggedEvent[] } | null {
+  const lines = files.flatMap(readLines);
+  const sessionId = lines.map(line => line.entry.sessionId).find((id): id is string => typeof id === 'string' && SESSION_ID.test(id));
+  if (!sessionId) return null;
+
+  // Lines without a timestamp take the one before, so the (stable) sort keeps them in place
+  let last = 0;
+  for (const line of lines) {
+    line.timestamp = Number.isNaN(line.timestamp) ? last : line.timestamp;
+    last = line.timestamp;
+  }
+  lines.sort((a, b) => a.timestamp - b.timestamp);
+
+  const translator = new TranscriptTranslator();
+  const events: LoggedEvent[] = [];
+  const agents = new Set<string>();
+  let summary: string | undefined;
+  let prompt: string | undefined;
+
+  for (const line of lines) {
+    const { entry } = line;
+    if (entry.type === 'summary' && typeof entry.summary === 'string') {
+      summary ??= titleOf(entry.summary);
+    }
+    const message = isObject(entry.message) ? entry.message : undefined;
+    if (entry.type === 'user' && entry.isSidechain !== true && entry.isMeta !== true && typeof message?.content === 'string') {
+      prompt ??= titleOf(message.content);
+    }
+
+    for (const { kind, event } of translator.translate(line.text, files[0], line.timestamp)) {
+      agents.add(event.agentId ?? sessionId);
+      const stored = kind === 'thinking' ? redactThinking(event) : event;
+      events.push({ seq: events.length + 1, receivedAt: event.timestamp, kind, event: stored } as LoggedEvent);
+    }
+  }
+  if (events.length === 0) return null;
+
+  return {
+    session: {
+      id: sessionId,
+      title: summary ?? prompt,
+      start: events[0].receivedAt,
+      end: events[events.length - 1].receivedAt,
+      eventCount: events.length,
+      agentCount: agents.size,
+      importedAt,
+    },
+    events,
+  };
+}
+
+/** Imported sessions of one project - <root>/.codemap/imports */
+export class SessionArchive {
+  constructor(private readonly dir: string) {}
+
+  /** Imported sessions, most recent first */
+  list(): ImportedSession[] {
+    try {
+      const index: unknown = JSON.parse(fs.readFileSync(path.join(this.dir, INDEX_FILE), 'utf-8'));
+      return Array.isArray(index) ? (index as ImportedSession[]).sort((a, b) => b.start - a.start) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  get(id: string): ImportedSession | undefined {
+    return this.list().find(session => session.id === id);
+  }
+
+  /**
+   * A session's events, or null if it wasn't imported. The file is checked like any
+   * other input - a hand-edited line is dropped, not replayed.
+   */
+  load(id: string): LoggedEvent[] | null {
+    if (!SESSION_ID.test(id)) return null;
+    let content: string;
+    try {
+      content = fs.readFileSync(path.join(this.dir, `${id}.jsonl`), 'utf-8');
+    } catch {
+      return null;
+    }
+
+    const events: LoggedEvent[] = [];
+    for (const line of content.split('\n')) {
+      if (!line) continue;
+      try {
+        const record = JSON.parse(line);
+        const validated = validateEvent(record.event);
+        if (validated.ok && Number.isInteger(record.seq) && Number.isFinite(record.receivedAt)) {
+          events.push({ seq: record.seq, receivedAt: record.receivedAt, kind: validated.kind, event: validated.event } as LoggedEvent);
+        }
+      } catch {
+        // Not JSON - skip it
+      }
+    }
+    return events;
+  }
+
+  /** Store a session, replacing an earlier import of it */
+  save(session: ImportedSession, events: LoggedEvent[]): void {
+    if (!SESSION_ID.test(session.id)) throw new Error(`Invalid session id: ${session.id}`);
+    fs.mkdirSync(this.dir, { recursive: true });
+    fs.writeFileSync(path.join(this.dir, `${session.id}.jsonl`), events.map(record => JSON.stringify(record) + '\n').join(''));
+    const index = this.list().filter(existing => existing.id !== session.id);
+    index.push(session);
+    fs.writeFileSync(path.join(this.dir, INDEX_FILE), JSON.stringify(index, null, 2));
+  }
+}
+
+/**
+ * Import every session transcript in `dir` - <session>.jsonl, with its sub-agents in
+ * <session>/subagents/*.jsonl. Returns the sessions imported, oldest first.
+ */
+export function importSessions(dir: string, archive: SessionArchive, now: number = Date.now()): ImportedSession[] {
+  const imported: ImportedSession[] = [];
+  for (const name of fs.readdirSync(dir).filter(name => name.endsWith('.jsonl')).sort()) {
+    const subAgentDir = path.join(dir, path.basename(name, '.jsonl'), 'subagents');
+    const subAgents = fs.existsSync(subAgentDir)
+      ? fs.readdirSync(subAgentDir).filter(file => file.endsWith('.jsonl')).sort().map(file => path.join(subAgentDir, file))
+      : [];
+
+    const converted = convertTranscript([path.join(dir, name), ...subAgents], now);
+    if (!converted) continue;
+    archive.save(converted.session, converted.events);
+    imported.push(converted.session);
+  }
+  return imported.sort((a, b) => a.start - b.start);
+}
+
+export function parseImportArgs(args: string[]): { dir?: string; project?: string } {
+  let dir: string | undefined;
+  let project: string | undefined;
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--project') project = args[++i];
+    else dir ??= args[i];
+  }
+  return { dir, project };
+}
+
+/**
+ * `codemap import [dir] [--project <root>]` - import the transcripts in `dir` (default:
+ * Claude Code's folder for the project) into the project. Returns the exit code.
+ */
+export function runImport(args: string[], cwd: string): number {
+  const { dir, project } = parseImportArgs(args);
+  const projectRoot = path.resolve(cwd, project ?? '.');
+  const source = dir ? path.resolve(cwd, dir) : claudeProjectDir(projectRoot);
+
+  if (!fs.existsSync(source) || !fs.statSync(source).isDirectory()) {
+    console.error(`No transcripts folder at ${source}`);
+    return 1;
+  }
+
+  const sessions = importSessions(source, new SessionArchive(path.join(projectRoot, IMPORTS_DIR)));
+  for (const session of sessions) {
+    const day = new Date(session.start).toISOString().slice(0, 16).replace('T', ' ');
+    console.log(`✓ ${day}  ${session.id.slice(0, 8)}  ${session.title ?? '(untitled)'} - ${session.eventCount} events`);
+  }
+  console.log(`\nImported ${sessions.length} session${sessions.length === 1 ? '' : 's'} from ${source} into ${projectRoot}`);
+  return 0;
+}
@@ -0,0 +1,94 @@
+/**
+ * Spool Tests
+ *
+ * Tests the offline spool for hook events.
+ * The spool is responsible for:
+ * - Keeping events the server couldn't be reached for, up to a size limit
+ * - Handing them back oldest first, without duplicate ids
+ * - Not losing events when a drain is interrupted
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { appendToSpool, drainSpool } from './spool.js';
+import { SpooledEvent } from './types.js';
+
+const AGENT = '9f2c4e1a-7b3d-4c8e-a1f0-5d6b7c8e9f01';
+
+function activity(timestamp: number, eventId?: string): SpooledEvent {
+  return { kind: 'activity', event: { type: 'read-start', filePath: `/p/file-${timestamp}.ts`, agentId: AGENT, timestamp, eventId } };
+}
+
+function thinking(timestamp: number, eventId?: string): SpooledEvent {
+  return { kind: 'thinking', event: { type: 'thinking-start', agentId: AGENT, timestamp, eventId } };
+}
+
+function drainAll(file: string): SpooledEvent[] {
+  const events: SpooledEvent[] = [];
+  drainSpool(event => events.push(event), file);
+  return events;
+}
+
+describe('Spool', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'codemap-spool-'));
+    file = path.join(dir, 'nested', 'spool.jsonl');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('creates the spool readable only by the owner', () => {
+    expect(appendToSpool([activity(1)], file)).toBe(true);
+    expect(fs.statSync(file).mode & 0o777).toBe(0o600);
+  });
+
+  it('drains in timestamp order and removes the file', () => {
+    appendToSpool([thinking(300, 'c'), activity(100, 'a')], file);
+    appendToSpool([activity(200, 'b')], file);
+
+    expect(drainAll(file).map(e => e.event.eventId)).toEqual(['a', 'b', 'c']);
+    expect(fs.existsSync(file)).toBe(false);
+    expect(drainAll(file)).toEqual([]);
+  });
+
+  it('keeps the spooled order for equal timestamps', () => {
+    appendToSpool([activity(100, 'first'), thinking(100, 'second')], file);
+    expect(drainAll(file).map(e => e.event.eventId)).toEqual(['first', 'second']);
+  });
+
+  it('drops duplicate event ids', () => {
+    appendToSpool([activity(100, 'a'), activity(100, 'a'), activity(150)], file);
+    expect(drainAll(file)).toHaveLength(2);
+  });
+
+  it('stops accepting events at the size limit', () => {
+    const line = Buffer.byteLength(JSON.stringify(activity(100, 'a')) + '\n');
+    expect(appendToSpool([activity(100, 'a')], file, line * 2)).toBe(true);
+    expect(appendToSpool([activity(101, 'b')], file, line * 2)).toBe(true);
+    expect(appendToSpool([activity(102, 'c')], file, line * 2)).toBe(false);
+    expect(drainAll(file).map(e => e.event.eventId)).toEqual(['a', 'b']);
+  });
+
+  it('skips malformed lines', () => {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, `${JSON.stringify(activity(100, 'a'))}\n{"kind":"activity"}\nnot json\n{"kind":"thin`);
+    expect(drainAll(file).map(e => e.event.eventId)).toEqual(['a']);
+  });
+
+  it('picks up a drain that died before finishing', () => {
+    appendToSpool([activity(200, 'b')], file);
+    expect(() => drainSpool(() => { throw new Error('crash'); }, file)).toThrow('crash');
+
+    // Hooks kept spooling meanwhile
+    appendToSpool([activity(100, 'a')], file);
+    expect(drainAll(file).map(e => e.event.eventId)).toEqual(['a', 'b']);
+    expect(fs.readdirSync(path.dirname(file))).toEqual([]);
+  });
+});
@@ -0,0 +1,106 @@
+// Offline spool - hook events that could not be delivered
+// The hook client appends one JSON line per event to ~/.codemap/spool.jsonl when the
+// server is unreachable. The server drains the file on startup: it claims the file by
+// renaming it (hooks keep appending to a fresh one), then ingests the events in
+// timestamp order, skipping ids it has already seen.
+
+import path from 'path';
+import fs from 'fs';
+import os from 'os';
+import { SpooledEvent } from './types.js';
+
+export const SPOOL_FILE = path.join(os.homedir(), '.codemap', 'spool.jsonl');
+export const MAX_SPOOL_BYTES = 5 * 1024 * 1024;
+
+// Suffix of a spool claimed by a drain that hasn't finished (crash mid-drain)
+const DRAINING_SUFFIX = '.draining';
+
+/**
+ * Append events to the spool.
+ * Returns false (and writes nothing) when they would push the file past maxBytes -
+ * the newest events are dropped so the spool stays bounded and appends stay atomic.
+ */
+export function appendToSpool(events: SpooledEvent[], file: string = SPOOL_FILE, maxBytes: number = MAX_SPOOL_BYTES): boolean {
+  if (events.length === 0) return true;
+
+  const data = events.map(event => JSON.stringify(event) + '\n').join('');
+  let size = 0;
+  try {
+    size = fs.statSync(file).size;
+  } catch {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+  }
+  if (size + Buffer.byteLength(data) > maxBytes) return false;
+
+  fs.appendFileSync(file, data, { mode: 0o600 });
+  return true;
+}
+
+function isSpooledEvent(value: unknown): value is SpooledEvent {
+  if (!value || typeof value !== 'object') return false;
+  const { kind, event } = value as { kind?: unknown; event?: { type?: unknown; timestamp?: unknown } };
+  return (kind === 'activity' || kind === 'thinking') &&
+    !!event && typeof event.type === 'string' && typeof event.timestamp === 'number';
+}
+
+function readSpoolFile(file: string): SpooledEvent[] {
+  let content: string;
+  try {
+    content = fs.readFileSync(file, 'utf-8');
+  } catch {
+    return [];
+  }
+
+  const events: SpooledEvent[] = [];
+  for (const line of content.split('\n')) {
+    if (!line) continue;
+    try {
+      const parsed = JSON.parse(line);
+      if (isSpooledEvent(parsed)) events.push(parsed);
+    } catch {
+      // Skip a partially written line (hook killed mid-append)
+    }
+  }
+  return events;
+}
+
+/**
+ * Hand every spooled event to `ingest` - oldest first, duplicate ids removed - then
+ * delete them. Events appended meanwhile land in a new spool. If the server dies
+ * mid-drain the claimed file is picked up again next time (ids make that safe).
+ * Returns the number of events ingested.
+ */
+export function drainSpool(ingest: (spooled: SpooledEvent) => void, file: string = SPOOL_FILE): number {
+  const claimed = file + DRAINING_SUFFIX;
+
+  // A previous drain may have died after claiming - its events come first
+  const leftover = readSpoolFile(claimed);
+  let spooled: SpooledEvent[] = [];
+  try {
+    fs.renameSync(file, claimed);  // Replaces the leftover file, already read above
+    spooled = readSpoolFile(claimed);
+  } catch {
+    // Nothing spooled since (or never)
+  }
+
+  // Stable sort - events with equal timestamps keep their spooled order
+  const events = dedupe([...leftover, ...spooled]).sort((a, b) => a.event.timestamp - b.event.timestamp);
+  events.forEach(ingest);
+
+  try {
+    fs.unlinkSync(claimed);
+  } catch {
+    // Nothing was claimed
+  }
+  return events.length;
+}
+
+function dedupe(events: SpooledEvent[]): SpooledEvent[] {
+  const seen = new Set<string>();
+  return events.filter(({ event }) => {
+    if (!event.eventId) return true;
+    if (seen.has(event.eventId)) return false;
+    seen.add(event.eventId);
+    return true;
+  });
+}
@@ -0,0 +1,133 @@
+/**
+ * Subscription Tests
+ *
+ * Tests the topics and filters WebSocket clients subscribe with.
+ * Subscriptions are responsible for:
+ * - Validating 'subscribe' messages with a clear reason
+ * - Dropping messages outside the subscribed topics
+ * - Narrowing activity, agents and the file graph to the requested agents, sources and paths
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseSubscription, describeSubscription, filterMessage, Subscription } from './subscriptions.js';
+import { AgentThinkingState, FileActivityEvent, GraphData, GraphDelta, GraphNode } from './types.js';
+
+const ROOT = '/home/dev/shop';
+const AGENT_A = '9f2c4e1a-7b3d-4c8e-a1f0-5d6b7c8e9f01';
+const AGENT_B = 'c7a1d9e2-33b4-4f5a-9e6d-0b1c2d3e4f50';
+
+function subscribe(request: unknown): Subscription {
+  const result = parseSubscription(request, ROOT);
+  if (!result.ok) throw new Error(result.reason);
+  return result.subscription;
+}
+
+function node(relative: string): GraphNode {
+  return {
+    id: relative ? `${ROOT}/${relative}` : ROOT,
+    name: relative.split('/').pop() || 'shop',
+    isFolder: !relative.includes('.'),
+    depth: relative ? relative.split('/').length - 1 : -1,
+    activityCount: { reads: 0, writes: 0, searches: 0 },
+  };
+}
+
+const activity = (filePath: string, agentId = AGENT_A): FileActivityEvent =>
+  ({ type: 'read-end', filePath, agentId, source: 'claude', timestamp: 1000 });
+
+const agent = (agentId: string, source: AgentThinkingState['source']) =>
+  ({ agentId, source, isThinking: false, lastActivity: 1000, displayName: agentId.slice(0, 4) }) as AgentThinkingState;
+
+describe('Subscriptions: Parsing', () => {
+  it('accepts topics and filters', () => {
+    const request = { topics: ['graph', 'activity'], agentIds: [AGENT_A], sources: ['windsurf'], pathPrefixes: ['server/src'] };
+    expect(describeSubscription(subscribe(request))).toEqual(request);
+  });
+
+  it('treats an empty subscription as everything', () => {
+    expect(describeSubscription(subscribe(undefined))).toEqual({});
+    expect(describeSubscription(subscribe({ pathPrefixes: ['.'] }))).toEqual({});
+  });
+
+  it('normalizes path prefixes', () => {
+    expect(subscribe({ pathPrefixes: ['./server/src/', `${ROOT}/client`] }).pathPrefixes).toEqual(['server/src', 'client']);
+  });
+
+  it('rejects unknown topics, sources and fields', () => {
+    expect(parseSubscription({ topics: ['graph', 'audio'] }, ROOT)).toEqual({
+      ok: false,
+      reason: 'topics must only contain graph, activity, thinking, layout (got audio)'
+    });
+    expect(parseSubscription({ sources: ['vim'] }, ROOT)).toMatchObject({ ok: false });
+    expect(parseSubscription({ agents: [AGENT_A] }, ROOT)).toEqual({ ok: false, reason: 'agents is not a known field' });
+    expect(parseSubscription({ agentIds: AGENT_A }, ROOT)).toMatchObject({ ok: false });
+    expect(parseSubscription(['graph'], ROOT)).toMatchObject({ ok: false });
+  });
+
+  it('rejects paths outside the project', () => {
+    expect(parseSubscription({ pathPrefixes: ['../other'] }, ROOT)).toMatchObject({ ok: false });
+    expect(parseSubscription({ pathPrefixes: ['/etc'] }, ROOT)).toMatchObject({ ok: false });
+  });
+});
+
+describe('Subscriptions: Filtering', () => {
+  it('drops messages outside the topics', () => {
+    const subscription = subscribe({ topics: ['activity'] });
+    expect(filterMessage('activity', activity('src/a.ts'), subscription)).not.toBeNull();
+    expect(filterMessage('thinking', [], subscription)).toBeNull();
+    expect(filterMessage('graph-delta', { seq: 1 }, subscription)).toBeNull();
+    expect(filterMessage('layout-update', {}, subscription)).toBeNull();
+    // Not part of any topic
+    expect(filterMessage('config', {}, subscription)).toEqual({});
+  });
+
+  it('passes data through untouched without filters', () => {
+    const agents = [agent(AGENT_A, 'claude')];
+    expect(filterMessage('thinking', agents, subscribe({ topics: ['thinking'] }))).toBe(agents);
+  });
+
+  it('filters activity by agent, source and path', () => {
+    expect(filterMessage('activity', activity('src/a.ts', AGENT_B), subscribe({ agentIds: [AGENT_A] }))).toBeNull();
+    expect(filterMessage('activity', activity('src/a.ts'), subscribe({ sources: ['windsurf'] }))).toBeNull();
+
+    const server = subscribe({ pathPrefixes: ['server'] });
+    expect(filterMessage('activity', activity('server/index.ts'), server)).not.toBeNull();
+    expect(filterMessage('activity', activity('serverless/index.ts'), server)).toBeNull();
+    expect(filterMessage('activity', activity(`${ROOT}/server/index.ts`), server)).not.toBeNull();
+  });
+
+  it('keeps only matching agents', () => {
+    const agents = [agent(AGENT_A, 'claude'), agent(AGENT_B, 'windsurf')];
+    expect(filterMessage('thinking', agents, subscribe({ sources: ['windsurf'] }))).toEqual([agents[1]]);
+  });
+
+  it('narrows the graph to the prefixes and the folders leading to them', () => {
+    const nodes = ['', 'server', 'server/src', 'server/src/index.ts', 'server/package.json', 'client', 'client/App.tsx'].map(node);
+    const graph: GraphData = {
+      seq: 3,
+      nodes,
+      links: nodes.slice(1).map(n => ({ source: n.id, target: n.id.slice(0, n.id.lastIndexOf('/')) })),
+    };
+
+    const filtered = filterMessage('graph', graph, subscribe({ pathPrefixes: ['server/src'] }))!;
+    expect(filtered.seq).toBe(3);
+    expect(filtered.nodes.map(n => n.name)).toEqual(['shop', 'server', 'src', 'index.ts']);
+    expect(filtered.links).toHaveLength(3);
+  });
+
+  it('always sends graph deltas so the client can count them', () => {
+    const delta: GraphDelta = {
+      seq: 4,
+      added: [node('client/new.ts')],
+      updated: [node('server/src/index.ts')],
+      removed: [`${ROOT}/client/old.ts`],
+      links: [{ source: `${ROOT}/client/new.ts`, target: `${ROOT}/client` }],
+    };
+
+    expect(filterMessage('graph-delta', delta, subscribe({ pathPrefixes: ['server'] }))).toEqual({
+      ...delta,
+      added: [],
+      links: [],
+    });
+  });
+});
@@ -0,0 +1,208 @@
+// WebSocket subscriptions - which messages a client wants
+// A client sends { type: 'subscribe', data: SubscriptionRequest } and from then on only
+// gets the topics it named, narrowed by its filters. Until it subscribes it gets everything.
+// Messages outside the topics (config, projects, replay status) always go through.
+
+import { MAX_FIELD_LENGTH, SOURCES } from './event-validation.js';
+import {
+  AgentSource,
+  AgentThinkingState,
+  FileActivityEvent,
+  GraphData,
+  GraphDelta,
+  GraphNode,
+  SubscriptionRequest,
+  Topic
+} from './types.js';
+
+// Longest filter list a client may send
+export const MAX_FILTER_VALUES = 100;
+
+const TOPICS: Record<Topic, true> = { graph: true, activity: true, thinking: true, layout: true };
+
+// WebSocket message type -> topic it belongs to
+const MESSAGE_TOPICS: Record<string, Topic> = {
+  'graph': 'graph',
+  'graph-delta': 'graph',
+  'activity': 'activity',
+  'thinking': 'thinking',
+  'usage': 'thinking',
+  'layout-update': 'layout',
+};
+
+/** A parsed subscription - null filters match everything */
+export interface Subscription {
+  topics: Set<Topic> | null;
+  agentIds: Set<string> | null;
+  sources: Set<AgentSource> | null;
+  pathPrefixes: string[] | null;  // Relative to root, no leading or trailing slash
+  root: string;  // Project root - graph node ids are absolute
+}
+
+export type SubscriptionParseResult = { ok: true; subscription: Subscription } | { ok: false; reason: string };
+
+type ListResult = { ok: true; values: string[] | null } | { ok: false; reason: string };
+
+// An optional list of strings (null when omitted), limited to `allowed` if given
+function parseList(request: Record<string, unknown>, key: keyof SubscriptionRequest, allowed?: Record<string, true>): ListResult {
+  const value = request[key];
+  if (value === undefined || value === null) return { ok: true, values: null };
+  if (!Array.isArray(value) || value.length > MAX_FILTER_VALUES ||
+      !value.every(v => typeof v === 'string' && v !== '' && v.length <= MAX_FIELD_LENGTH)) {
+    return { ok: false, reason: `${key} must be an array of at most ${MAX_FILTER_VALUES} non-empty strings` };
+  }
+  const unknown = allowed && value.find(v => !Object.hasOwn(allowed, v));
+  if (unknown) {
+    return { ok: false, reason: `${key} must only contain ${Object.keys(allowed).join(', ')} (got ${unknown})` };
+  }
+  return { ok: true, values: value };
+}
+
+// "./server/src/" -> "server/src", "<root>/server" -> "server" (null if outside the project)
+function normalizePrefix(prefix: string, root: string): string | null {
+  let relative = prefix === root ? '' : prefix.startsWith(root + '/') ? prefix.slice(root.length + 1) : prefix;
+  relative = relative.replace(/^(\.\/)+/, '').replace(/\/+$/, '');
+  if (relative === '.') relative = '';
+  if (relative.startsWith('/') || relative.split('/').includes('..')) return null;
+  return relative;
+}
+
+/**
+ * Parse the body of a 'subscribe' message for a client viewing `root`.
+ * An empty body subscribes to everything again.
+ */
+export function parseSubscription(raw: unknown, root: string): SubscriptionParseResult {
+  const body = raw ?? {};
+  if (typeof body !== 'object' || Array.isArray(body)) {
+    return { ok: false, reason: 'subscription must be a JSON object' };
+  }
+  const request = body as Record<string, unknown>;
+
+  for (const key of Object.keys(request)) {
+    if (!['topics', 'agentIds', 'sources', 'pathPrefixes'].includes(key)) {
+      return { ok: false, reason: `${key} is not a known field` };
+    }
+  }
+
+  const topics = parseList(request, 'topics', TOPICS);
+  if (!topics.ok) return topics;
+  const agentIds = parseList(request, 'agentIds');
+  if (!agentIds.ok) return agentIds;
+  const sources = parseList(request, 'sources', SOURCES);
+  if (!sources.ok) return sources;
+  const prefixes = parseList(request, 'pathPrefixes');
+  if (!prefixes.ok) return prefixes;
+
+  let pathPrefixes: string[] | null = null;
+  if (prefixes.values) {
+    pathPrefixes = [];
+    for (const prefix of prefixes.values) {
+      const normalized = normalizePrefix(prefix, root);
+      if (normalized === null) {
+        return { ok: false, reason: `pathPrefixes must be inside the project (got ${prefix})` };
+      }
+      pathPrefixes.push(normalized);
+    }
+    // The project root itself matches everything
+    if (pathPrefixes.includes('')) pathPrefixes = null;
+  }
+
+  return {
+    ok: true,
+    subscription: {
+      topics: topics.values && new Set(topics.values as Topic[]),
+      agentIds: agentIds.values && new Set(agentIds.values),
+      sources: sources.values && new Set(sources.values as AgentSource[]),
+      pathPrefixes,
+      root,
+    }
+  };
+}
+
+/** The subscription as the client would send it (for the 'subscription' reply) */
+export function describeSubscription(subscription: Subscription): SubscriptionRequest {
+  const { topics, agentIds, sources, pathPrefixes } = subscription;
+  return {
+    ...(topics && { topics: [...topics] }),
+    ...(agentIds && { agentIds: [...agentIds] }),
+    ...(sources && { sources: [...sources] }),
+    ...(pathPrefixes && { pathPrefixes }),
+  };
+}
+
+// Project-relative form of an absolute or already relative path
+function toRelative(filePath: string, root: string): string {
+  if (filePath === root || filePath === '.') return '';
+  return filePath.startsWith(root + '/') ? filePath.slice(root.length + 1) : filePath;
+}
+
+function isUnder(relative: string, prefix: string): boolean {
+  return relative === prefix || relative.startsWith(prefix + '/');
+}
+
+function matchesAgent(subscription: Subscription, agentId: string | undefined, source: AgentSource | undefined): boolean {
+  if (subscription.agentIds && !(agentId && subscription.agentIds.has(agentId))) return false;
+  if (subscription.sources && !(source && subscription.sources.has(source))) return false;
+  return true;
+}
+
+function matchesPath(subscription: Subscription, filePath: string): boolean {
+  const { pathPrefixes, root } = subscription;
+  if (!pathPrefixes) return true;
+  const relative = toRelative(filePath, root);
+  return pathPrefixes.some(prefix => isUnder(relative, prefix));
+}
+
+// Graph nodes under a prefix, plus the folders leading to it so the tree stays connected
+function keepsNode(subscription: Subscription, node: GraphNode): boolean {
+  const { pathPrefixes, root } = subscription;
+  if (!pathPrefixes) return true;
+  const relative = toRelative(node.id, root);
+  return relative === '' || pathPrefixes.some(prefix => isUnder(relative, prefix) || prefix.startsWith(relative + '/'));
+}
+
+function filterGraph<T extends GraphData | GraphDelta>(graph: T, subscription: Subscription): T {
+  if (!subscription.pathPrefixes) return graph;
+  const kept = new Set<string>();
+  const filterNodes = (nodes: GraphNode[]) => nodes.filter(node => {
+    if (!keepsNode(subscription, node)) return false;
+    kept.add(node.id);
+    return true;
+  });
+
+  if ('removed' in graph) {
+    // Removals of nodes the client never had are harmless - pass them all on
+    const added = filterNodes(graph.added);
+    const updated = filterNodes(graph.updated);
+    return { ...graph, added, updated, links: graph.links.filter(l => kept.has(l.source)) };
+  }
+  const nodes = filterNodes(graph.nodes);
+  return { ...graph, nodes, links: graph.links.filter(l => kept.has(l.source)) };
+}
+
+/**
+ * What a subscribed client should receive for a message: the data itself, a filtered
+ * copy, or null to skip it. Graph deltas are never skipped - the client counts their seq.
+ */
+export function filterMessage<T>(type: string, data: T, subscription: Subscription): T | null {
+  const topic = MESSAGE_TOPICS[type];
+  if (!topic) return data;
+  if (subscription.topics && !subscription.topics.has(topic)) return null;
+
+  switch (type) {
+    case 'activity': {
+      const event = data as FileActivityEvent;
+      return matchesAgent(subscription, event.agentId, event.source) && matchesPath(subscription, event.filePath) ? data : null;
+    }
+    case 'thinking': {
+      if (!subscription.agentIds && !subscription.sources) return data;
+      const agents = data as AgentThinkingState[];
+      return agents.filter(agent => matchesAgent(subscription, agent.agentId, agent.source)) as T;
+    }
+    case 'graph':
+    case 'graph-delta':
+      return filterGraph(data as GraphData | GraphDelta, subscription) as T;
+    default:
+      return data;
+  }
+}
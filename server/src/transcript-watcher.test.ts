@@ -0,0 +1,170 @@
+/**
+ * Transcript Watcher Tests
+ *
+ * Tests tailing folders of .jsonl files (session transcripts, JSON-lines logs).
+ * The TranscriptWatcher is responsible for:
+ * - Reading files found at startup from their end, and files created later from the start
+ * - Handing on complete lines only, keeping a partial line for the next read
+ * - Reading a truncated or replaced file from the start
+ * - Starting only the watchers the config turns on
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { EventEmitter } from 'events';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import chokidar from 'chokidar';
+import { TranscriptWatcher, startWatchers } from './transcript-watcher.js';
+import { IncomingEvent } from './types.js';
+
+// chokidar stands in for the file system's notifications - each test says what changed
+class FakeWatcher extends EventEmitter {
+  close = vi.fn(async () => {});
+}
+
+vi.mock('chokidar', () => ({ default: { watch: vi.fn() } }));
+
+const NOW = 1760000000000;
+const AGENT = '9f2c4e1a-7b3d-4c8e-a1f0-5d6b7c8e9f01';
+
+// One event per line, with the line as its input
+const translator = {
+  translate: (line: string, _file: string, now: number): IncomingEvent[] =>
+    [{ kind: 'thinking', event: { type: 'thinking-start', agentId: AGENT, toolInput: line, timestamp: now } }],
+};
+
+describe('TranscriptWatcher', () => {
+  let dir: string;
+  let file: string;
+  let fake: FakeWatcher;
+  let watcher: TranscriptWatcher;
+  let lines: string[];
+
+  const add = (filePath: string) => fake.emit('add', filePath, fs.statSync(filePath));
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'codemap-watcher-'));
+    file = path.join(dir, 'session.jsonl');
+    fake = new FakeWatcher();
+    vi.mocked(chokidar.watch).mockReturnValue(fake as unknown as ReturnType<typeof chokidar.watch>);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    lines = [];
+    watcher = new TranscriptWatcher({
+      root: dir,
+      translator,
+      onEvents: events => lines.push(...events.map(e => e.event.type === 'thinking-start' ? e.event.toolInput ?? '' : '')),
+      now: () => NOW,
+    });
+    watcher.start();
+  });
+
+  afterEach(async () => {
+    await watcher.stop();
+    vi.mocked(chokidar.watch).mockReset();
+    vi.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('reads a file found at startup from its end', () => {
+    fs.writeFileSync(file, '{"old":1}\n');
+    add(file);
+    fake.emit('ready');
+
+    fs.appendFileSync(file, '{"new":2}\n');
+    fake.emit('change', file);
+    expect(lines).toEqual(['{"new":2}']);
+  });
+
+  it('reads a file created while watching from the start', () => {
+    fake.emit('ready');
+    fs.writeFileSync(file, '{"a":1}\n{"b":2}\n');
+    add(file);
+    expect(lines).toEqual(['{"a":1}', '{"b":2}']);
+  });
+
+  it('keeps a partial line until it is complete', () => {
+    fake.emit('ready');
+    fs.writeFileSync(file, '{"a":1}\n{"b"');
+    add(file);
+    expect(lines).toEqual(['{"a":1}']);
+
+    fs.appendFileSync(file, ':2}\n');
+    fake.emit('change', file);
+    fake.emit('change', file);
+    expect(lines).toEqual(['{"a":1}', '{"b":2}']);
+  });
+
+  it('reads a truncated file from the start', () => {
+    fake.emit('ready');
+    fs.writeFileSync(file, '{"a":1}\n{"b":2}\n');
+    add(file);
+
+    fs.writeFileSync(file, '{"c":3}\n');
+    fake.emit('change', file);
+    expect(lines).toEqual(['{"a":1}', '{"b":2}', '{"c":3}']);
+  });
+
+  it('reads a replaced file from the start, however long it is', () => {
+    fake.emit('ready');
+    fs.writeFileSync(file, '{"a":1}\n');
+    add(file);
+
+    fs.rmSync(file);
+    fake.emit('unlink', file);
+    fs.writeFileSync(file, '{"rotated":1}\n{"rotated":2}\n');
+    add(file);
+    expect(lines).toEqual(['{"a":1}', '{"rotated":1}', '{"rotated":2}']);
+  });
+
+  it('hands on the events of one read together, at the current time', () => {
+    const batches: IncomingEvent[][] = [];
+    const batched = new TranscriptWatcher({ root: dir, translator, onEvents: events => batches.push(events), now: () => NOW });
+    fs.writeFileSync(file, '{"a":1}\n{"b":2}\n');
+    batched.read(file, 0);
+
+    expect(batches).toHaveLength(1);
+    expect(batches[0].map(e => e.event.timestamp)).toEqual([NOW, NOW]);
+  });
+});
+
+describe('startWatchers', () => {
+  let dir: string;
+  let transcripts: TranscriptWatcher;
+  let logs: TranscriptWatcher;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'codemap-watchers-'));
+    vi.mocked(chokidar.watch).mockImplementation(() => new FakeWatcher() as unknown as ReturnType<typeof chokidar.watch>);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    transcripts = new TranscriptWatcher({ root: path.join(dir, 'projects'), translator, onEvents: () => {} });
+    logs = new TranscriptWatcher({ root: path.join(dir, 'logs'), translator, onEvents: () => {} });
+  });
+
+  afterEach(async () => {
+    await transcripts.stop();
+    await logs.stop();
+    vi.mocked(chokidar.watch).mockReset();
+    vi.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const watched = () => vi.mocked(chokidar.watch).mock.calls.map(([root]) => root);
+
+  it('starts nothing by default', () => {
+    startWatchers({ watchTranscripts: false, watchLogs: false }, transcripts, logs);
+    expect(watched()).toEqual([]);
+    expect(fs.existsSync(logs.root)).toBe(false);
+  });
+
+  it('watches the logs folder only when watchLogs is on, creating it', () => {
+    startWatchers({ watchTranscripts: false, watchLogs: true }, transcripts, logs);
+    expect(watched()).toEqual([logs.root]);
+    expect(fs.statSync(logs.root).isDirectory()).toBe(true);
+  });
+
+  it('watches transcripts without the logs', () => {
+    startWatchers({ watchTranscripts: true, watchLogs: false }, transcripts, logs);
+    expect(watched()).toEqual([transcripts.root]);
+  });
+});
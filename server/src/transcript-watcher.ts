@@ -0,0 +1,132 @@
+// Transcript watcher - tails the Claude Code session transcripts under ~/.claude/projects
+// (and the JSON-lines logs under ~/.codemap/logs - any folder of .jsonl files, with a
+// translator for its lines). Transcripts that exist at startup are read from their end
+// (their past is history, not activity); transcripts created later are read from the
+// start. Each change reads the complete lines appended since the last read and hands
+// their events on.
+
+import chokidar, { FSWatcher } from 'chokidar';
+import fs from 'fs';
+import path from 'path';
+import { readAppendedLines } from './transcript.js';
+import { CodeMapConfig, IncomingEvent } from './types.js';
+
+// Transcripts tailed at once - the least recently changed are let go
+export const MAX_TAILED_FILES = 500;
+
+/** Turns one line of a watched file into events (TranscriptTranslator, the JSON-lines log adapter) */
+export interface LineTranslator {
+  translate(line: string, file: string, now: number): IncomingEvent[];
+}
+
+export interface TranscriptWatcherOptions {
+  root: string;  // Folder the transcripts are in (one sub-folder per project)
+  translator: LineTranslator;
+  name?: string;  // What the files are, for the log (default: session transcripts)
+  onEvents: (events: IncomingEvent[]) => void;
+  now?: () => number;
+}
+
+export class TranscriptWatcher {
+  private watcher: FSWatcher | null = null;
+  private offsets = new Map<string, number>();  // Bytes read per transcript, least recently changed first
+  private ready = false;
+  readonly root: string;
+  private translator: LineTranslator;
+  private name: string;
+  private onEvents: (events: IncomingEvent[]) => void;
+  private now: () => number;
+
+  constructor(options: TranscriptWatcherOptions) {
+    this.root = path.resolve(options.root);
+    this.translator = options.translator;
+    this.name = options.name ?? 'session transcripts';
+    this.onEvents = options.onEvents;
+    this.now = options.now ?? Date.now;
+  }
+
+  start(): void {
+    if (this.watcher) return;
+    this.ready = false;
+    this.watcher = chokidar.watch(this.root, {
+      // Folders and .jsonl files only - project folder, session folder, sub-agent folder
+      ignored: (filePath, stats) => !!stats?.isFile() && !filePath.endsWith('.jsonl'),
+      depth: 3,
+      persistent: true,
+      alwaysStat: true,
+    });
+
+    this.watcher
+      .on('add', (filePath, stats) => {
+        if (this.ready) {
+          this.read(filePath, 0);
+        } else {
+          this.track(path.resolve(filePath), stats?.size ?? 0);
+        }
+      })
+      .on('change', (filePath) => this.read(filePath))
+      .on('unlink', (filePath) => this.offsets.delete(path.resolve(filePath)))
+      .on('ready', () => { this.ready = true; })
+      .on('error', (err) => console.error(`[${new Date().toISOString()}] Transcript watcher error:`, err));
+
+    console.log(`[${new Date().toISOString()}] Watching ${this.name} in ${this.root}`);
+  }
+
+  /**
+   * Read what was appended to a transcript since the last read - from `from` (bytes)
+   * for a transcript not read before, else from its end
+   */
+  read(filePath: string, from?: number): void {
+    const file = path.resolve(filePath);
+    const offset = this.offsets.get(file) ?? from;
+    if (offset === undefined) {
+      try {
+        this.track(file, fs.statSync(file).size);
+      } catch {
+        // Removed before we got to it
+      }
+      return;
+    }
+
+    const { lines, offset: next } = readAppendedLines(file, offset);
+    this.track(file, next);
+    const now = this.now();
+    const events = lines.flatMap(line => this.translator.translate(line, file, now));
+    if (events.length > 0) this.onEvents(events);
+  }
+
+  private track(file: string, offset: number): void {
+    this.offsets.delete(file);
+    this.offsets.set(file, offset);
+    if (this.offsets.size > MAX_TAILED_FILES) {
+      this.offsets.delete(this.offsets.keys().next().value!);
+    }
+  }
+
+  async stop(): Promise<void> {
+    await this.watcher?.close();
+    this.watcher = null;
+  }
+}
+
+/**
+ * Start the watchers the config turns on - the logs folder is created, tools without
+ * hooks only append to it
+ */
+export function startWatchers(
+  config: Pick<CodeMapConfig, 'watchTranscripts' | 'watchLogs'>,
+  transcripts: TranscriptWatcher,
+  logs: TranscriptWatcher
+): void {
+  if (config.watchTranscripts) {
+    transcripts.start();
+  }
+  if (config.watchLogs) {
+    try {
+      fs.mkdirSync(logs.root, { recursive: true });
+      logs.start();
+    } catch (err) {
+      console.error(`Failed to watch ${logs.root}:`, err);
+    }
+  }
+}
@@ -0,0 +1,207 @@
+/**
+ * Transcript Tests
+ *
+ * Tests Claude Code session transcripts as an event source.
+ * The TranscriptTranslator is responsible for:
+ * - Turning tool calls and their results into thinking events with durations, plus file activity
+ * - Turning prompts, finished turns and assistant text into session events
+ * - Running a sub-agent per Task call and giving it the lines of its side chain
+ * - Only adding detail to sessions hooks already report
+ * - Reading a shell command's exit code, and the files a search found, from the result
+ * The TranscriptWatcher reads only what is appended - from the end for transcripts it found at startup.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { TranscriptTranslator, readAppendedLines, subAgentId } from './transcript.js';
+import { TranscriptWatcher } from './transcript-watcher.js';
+import { IncomingEvent, ThinkingEvent } from './types.js';
+
+const SESSION = '9f2c4e1a-7b3d-4c8e-a1f0-5d6b7c8e9f01';
+const TRANSCRIPT = '/home/dev/.claude/projects/-p/9f2c4e1a-7b3d-4c8e-a1f0-5d6b7c8e9f01.jsonl';
+const SONNET = 'claude-sonnet-4-5-20250929';
+const START = Date.parse('2025-10-01T12:00:00.000Z');
+
+let seq = 0;
+
+function line(type: 'assistant' | 'user', message: object, at = 0, extra: object = {}): string {
+  return JSON.stringify({
+    type,
+    sessionId: SESSION,
+    cwd: '/p',
+    uuid: `00000000-0000-4000-8000-${String(++seq).padStart(12, '0')}`,
+    timestamp: new Date(START + at).toISOString(),
+    isSidechain: false,
+    message,
+    ...extra,
+  });
+}
+
+const toolUse = (id: string, name: string, input: object, at = 0, extra: object = {}) =>
+  line('assistant', { role: 'assistant', model: SONNET, content: [{ type: 'tool_use', id, name, input }] }, at, extra);
+
+const toolResult = (id: string, at = 0, extra: object = {}) =>
+  line('user', { role: 'user', content: [{ type: 'tool_result', tool_use_id: id, content: 'ok', ...extra }] }, at);
+
+const types = (events: IncomingEvent[]) => events.map(e => [e.event.type, e.event.agentId]);
+
+describe('TranscriptTranslator', () => {
+  let translator: TranscriptTranslator;
+  let hooked: boolean;
+
+  beforeEach(() => {
+    hooked = false;
+    translator = new TranscriptTranslator({ isHooked: () => hooked });
+  });
+
+  const translate = (text: string) => translator.translate(text, TRANSCRIPT, START);
+
+  it('turns a file tool call and its result into thinking and activity events', () => {
+    const call = translate(toolUse('toolu_1', 'Read', { file_path: '/p/src/a.ts' }, 10));
+    const result = translate(toolResult('toolu_1', 60));
+
+    expect([...call, ...result].map(e => [e.event.type, e.event.timestamp - START])).toEqual([
+      ['thinking-end', 10], ['read-start', 10], ['thinking-start', 60], ['read-end', 60],
+    ]);
+    expect(call[0].event).toMatchObject({ agentId: SESSION, source: 'claude', cwd: '/p', toolName: 'Read', toolInput: 'a.ts', model: SONNET, transcriptPath: TRANSCRIPT });
+    expect(call[1].event).toMatchObject({ filePath: '/p/src/a.ts' });
+    expect(result[0].event).toMatchObject({ toolName: 'Read', duration: 50 });
+    expect(result[1].event).toMatchObject({ filePath: '/p/src/a.ts' });
+  });
+
+  it('keeps more of the tool input than hooks do', () => {
+    const command = 'npm test -- --run src/transcript.test.ts';
+    const [event] = translate(toolUse('toolu_1', 'Bash', { command }));
+    expect((event.event as ThinkingEvent).toolInput).toBe(command);
+  });
+
+  it('starts a turn on a prompt and ends it with the last message', () => {
+    const prompt = translate(line('user', { role: 'user', content: 'fix the failing test' }));
+    const answer = translate(line('assistant', {
+      role: 'assistant', model: SONNET, stop_reason: 'end_turn',
+      content: [{ type: 'text', text: 'Fixed it:\n\nthe mock was   stale.' }],
+    }));
+
+    expect(types(prompt)).toEqual([['prompt-submit', SESSION]]);
+    expect(types(answer)).toEqual([['agent-update', SESSION], ['agent-stop', SESSION]]);
+    expect(answer[0].event).toMatchObject({ lastMessage: 'Fixed it: the mock was stale.' });
+    expect(answer[1].event).toMatchObject({ status: 'completed' });
+  });
+
+  it('runs a sub-agent per Task call and gives it its side chain', () => {
+    const sub = subAgentId('toolu_task');
+    const spawn = translate(toolUse('toolu_task', 'Task', { description: 'Find the config loader', subagent_type: 'Explore' }));
+    expect(types(spawn)).toEqual([['thinking-end', SESSION], ['thinking-start', sub]]);
+    expect(spawn[1].event).toMatchObject({ parentAgentId: SESSION, agentName: 'Find the config load', agentType: 'Explore' });
+
+    // The sub-agent's own calls - without the transcript, or the session's usage counts twice
+    const [call] = translate(toolUse('toolu_2', 'Grep', { pattern: 'loadConfig' }, 5, { isSidechain: true }));
+    expect(call.event).toMatchObject({ type: 'thinking-end', agentId: sub, toolInput: 'loadConfig' });
+    expect(call.event).not.toHaveProperty('transcriptPath');
+
+    const done = translate(toolResult('toolu_task', 100, { is_error: true }));
+    expect(types(done)).toEqual([['thinking-start', SESSION], ['agent-stop', sub]]);
+    expect(done[1].event).toMatchObject({ status: 'error' });
+  });
+
+  it('only adds detail to sessions hooks report', () => {
+    hooked = true;
+    const command = 'npm test -- --run src/transcript.test.ts';
+    const call = translate(toolUse('toolu_1', 'Bash', { command }));
+    expect(call.map(e => e.event)).toEqual([expect.objectContaining({ type: 'agent-update', toolName: 'Bash', toolInput: command })]);
+    expect(translate(toolResult('toolu_1', 50))).toEqual([]);
+    expect(translate(line('user', { role: 'user', content: 'next' }))).toEqual([]);
+
+    // Hooks don't see sub-agents start
+    expect(types(translate(toolUse('toolu_task', 'Task', { description: 'Review' })))).toEqual([
+      ['agent-update', SESSION], ['thinking-start', subAgentId('toolu_task')],
+    ]);
+  });
+
+  it('lists the files a search found', () => {
+    translate(toolUse('toolu_1', 'Glob', { pattern: '**/*.md' }));
+    const filenames = ['/p/README.md', '/p/docs/setup.md'];
+    const result = line('user', { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'toolu_1', content: filenames.join('\n') }] }, 30,
+      { toolUseResult: { filenames, durationMs: 12, numFiles: 2, truncated: false } });
+    expect(translate(result)[1].event).toEqual(expect.objectContaining({ type: 'search-end', filePath: '.:**/*.md', glob: '**/*.md', matchedFiles: filenames }));
+  });
+
+  it('reads how a shell command exited, even for hooked sessions', () => {
+    const command = 'tsc --noEmit';
+    expect(translate(toolUse('toolu_1', 'Bash', { command }))[0].event).toMatchObject({ type: 'thinking-end', command });
+    expect(translate(toolResult('toolu_1', 4000, { is_error: true, content: 'Exit code 2\nsrc/a.ts(1,1): error' }))[0].event)
+      .toMatchObject({ type: 'thinking-start', command, exitCode: 2, duration: 4000 });
+
+    translate(toolUse('toolu_2', 'Bash', { command: 'ls' }));
+    expect(translate(toolResult('toolu_2'))[0].event).toMatchObject({ command: 'ls', exitCode: 0 });
+
+    // Hooks don't run for failed commands - the transcript reports how they exited
+    hooked = true;
+    translate(toolUse('toolu_3', 'Bash', { command }));
+    expect(translate(toolResult('toolu_3', 0, { is_error: true, content: 'Exit code 1' })).map(e => e.event))
+      .toEqual([expect.objectContaining({ type: 'agent-update', command, exitCode: 1 })]);
+  });
+
+  it('gives every event an id of its own', () => {
+    const events = translate(toolUse('toolu_1', 'Edit', { file_path: '/p/a.ts' }));
+    const ids = events.map(e => e.event.eventId);
+    expect(ids.every(id => id?.startsWith('transcript-'))).toBe(true);
+    expect(new Set(ids).size).toBe(events.length);
+  });
+
+  it('ignores lines that are not messages', () => {
+    expect(translate('{"type":"summary","summary":"Fixing tests","leafUuid":"x"}')).toEqual([]);
+    expect(translate('not json')).toEqual([]);
+    expect(translate(line('user', { role: 'user', content: '<command-name>/clear</command-name>' }, 0, { isMeta: true }))).toEqual([]);
+    expect(translate(toolResult('toolu_unknown'))).toEqual([]);
+  });
+});
+
+describe('Transcript reading', () => {
+  let dir: string;
+  let transcript: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'codemap-transcript-'));
+    transcript = path.join(dir, `${SESSION}.jsonl`);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('reads complete lines only, and a rewritten file from the start', () => {
+    fs.writeFileSync(transcript, '{"a":1}\n{"b"');
+    const first = readAppendedLines(transcript, 0);
+    expect(first).toEqual({ lines: ['{"a":1}'], offset: 8 });
+
+    fs.appendFileSync(transcript, ':2}\n');
+    expect(readAppendedLines(transcript, first.offset).lines).toEqual(['{"b":2}']);
+
+    fs.writeFileSync(transcript, '{"c":3}\n');
+    expect(readAppendedLines(transcript, 100).lines).toEqual(['{"c":3}']);
+    expect(readAppendedLines(path.join(dir, 'missing.jsonl'), 5)).toEqual({ lines: [], offset: 5 });
+  });
+
+  it('tails a transcript from where it was first seen', () => {
+    const received: IncomingEvent[] = [];
+    const watcher = new TranscriptWatcher({ root: dir, translator: new TranscriptTranslator(), onEvents: events => received.push(...events) });
+
+    // Already there - its past is not replayed
+    fs.writeFileSync(transcript, toolUse('toolu_1', 'Read', { file_path: '/p/old.ts' }) + '\n');
+    watcher.read(transcript);
+    expect(received).toEqual([]);
+
+    fs.appendFileSync(transcript, toolUse('toolu_2', 'Read', { file_path: '/p/new.ts' }) + '\n');
+    watcher.read(transcript);
+    expect(received.map(e => e.event.type)).toEqual(['thinking-end', 'read-start']);
+
+    // Created while watching - read from the start
+    const created = path.join(dir, 'other.jsonl');
+    fs.writeFileSync(created, toolResult('toolu_2', 40) + '\n');
+    watcher.read(created, 0);
+    expect(received.slice(2).map(e => e.event.type)).toEqual(['thinking-start', 'read-end']);
+  });
+});
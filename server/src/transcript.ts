@@ -0,0 +1,351 @@
+// Claude Code session transcripts as an event source - no hooks needed
+// Claude Code appends every message of a session to a JSONL transcript. Each new line
+// becomes what the hooks would have sent:
+// - tool_use: thinking-end with the tool's input, plus read/write/search-start for file tools
+// - tool_result: thinking-start with the tool's duration, plus the matching *-end
+//   (a Bash call's command and exit code go along, for the agent's command history, and
+//   a search's end lists the files it found)
+// - a Task tool_use: a sub-agent (thinking-start with its parent), stopped by its tool_result
+// - a user prompt: prompt-submit, and an assistant turn that ends: agent-stop
+// - assistant text: agent-update with the agent's latest message
+// Sessions hooks already report only get the detail hooks don't carry (agent-update with
+// the full tool input, the latest message, sub-agents) so nothing is counted twice.
+
+import fs from 'fs';
+import { describeToolInput, parseMcpToolName, responseFiles, searchGlob, searchPath, stableUuid, HookPayload } from './adapters/hook-events.js';
+import { validateEvent } from './event-validation.js';
+import { FILE_TOOLS } from './otlp.js';
+import { FileActivityEvent, IncomingEvent, ThinkingEvent } from './types.js';
+
+// Most transcript read at once - a long backlog is caught up on the next read
+export const MAX_READ_BYTES = 8 * 1024 * 1024;
+// Sessions whose open tool calls are remembered
+export const MAX_TRACKED_SESSIONS = 200;
+// Open tool calls remembered per session
+const MAX_PENDING_TOOLS = 100;
+// The transcript has the whole input and message - the bubble gets this much of them
+const TOOL_INPUT_LENGTH = 200;
+const MESSAGE_LENGTH = 200;
+const AGENT_NAME_LENGTH = 20;
+
+export interface AppendedLines {
+  lines: string[];
+  offset: number;  // Bytes read so far - where the next read starts
+}
+
+/**
+ * Complete lines added to a JSONL file since `offset` (bytes). A file shorter than
+ * `offset` was rewritten and is read from the start. A partial last line is left for
+ * the next read. Nothing is read if the file can't be opened.
+ */
+export function readAppendedLines(file: string, offset: number): AppendedLines {
+  let fd: number;
+  try {
+    fd = fs.openSync(file, 'r');
+  } catch {
+    return { lines: [], offset };
+  }
+  try {
+    const size = fs.fstatSync(fd).size;
+    if (size < offset) offset = 0;
+    const length = Math.min(size - offset, MAX_READ_BYTES);
+    if (length <= 0) return { lines: [], offset };
+
+    const buffer = Buffer.alloc(length);
+    const read = fs.readSync(fd, buffer, 0, length, offset);
+    const end = buffer.subarray(0, read).lastIndexOf(0x0a) + 1;
+    if (end === 0) {
+      // No complete line yet - unless one line is longer than we ever read
+      return { lines: [], offset: read === MAX_READ_BYTES ? offset + read : offset };
+    }
+    const lines = buffer.subarray(0, end).toString('utf-8').split('\n').filter(line => line.trim() !== '');
+    return { lines, offset: offset + end };
+  } catch {
+    return { lines: [], offset };
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function str(value: unknown): string | undefined {
+  return typeof value === 'string' && value !== '' ? value : undefined;
+}
+
+function list(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+/** Agent id of the sub-agent a Task tool call starts - derived from the call's id */
+export function subAgentId(toolUseId: string): string {
+  return stableUuid(toolUseId);
+}
+
+// How a Bash call exited - a failed one's result starts with "Exit code N"
+function exitCodeOf(result: Record<string, unknown>): number {
+  if (result.is_error !== true) return 0;
+  const content = typeof result.content === 'string' ? result.content
+    : list(result.content).map(block => isObject(block) ? str(block.text) ?? '' : '').join('\n');
+  const match = content.match(/^Exit code (\d+)/);
+  return match ? Number(match[1]) : 1;
+}
+
+// Assistant text on one line, cut for the bubble
+function summarize(text: string): string | undefined {
+  return str(text.replace(/\s+/g, ' ').trim().slice(0, MESSAGE_LENGTH));
+}
+
+interface PendingTool {
+  agentId: string;
+  toolName: string;
+  start: number;
+  kind?: 'read' | 'write' | 'search';
+  filePath?: string;
+  glob?: string;  // Search calls - the glob the files they find match
+  command?: string;  // Bash calls - the command they run
+  subAgentId?: string;  // Task calls - the sub-agent they started
+}
+
+interface Session {
+  tools: Map<string, PendingTool>;  // Open tool calls by tool_use id, oldest first
+  subAgents: string[];  // Running sub-agents, oldest first
+}
+
+export interface TranscriptTranslatorOptions {
+  // Sessions hooks report - they only get detail, not state changes
+  isHooked?: (sessionId: string) => boolean;
+}
+
+type RawEvent = FileActivityEvent | ThinkingEvent;
+
+/**
+ * Turns transcript lines into events. Remembers each session's open tool calls so a
+ * result finds its call (and duration), and its running sub-agents so their lines
+ * (isSidechain) go to the right agent.
+ */
+export class TranscriptTranslator {
+  private sessions = new Map<string, Session>();  // By session id, least recently used first
+  private isHooked: (sessionId: string) => boolean;
+
+  constructor(options: TranscriptTranslatorOptions = {}) {
+    this.isHooked = options.isHooked ?? (() => false);
+  }
+
+  private session(sessionId: string): Session {
+    let session = this.sessions.get(sessionId);
+    if (session) {
+      this.sessions.delete(sessionId);
+    } else {
+      session = { tools: new Map(), subAgents: [] };
+    }
+    this.sessions.set(sessionId, session);
+    if (this.sessions.size > MAX_TRACKED_SESSIONS) {
+      this.sessions.delete(this.sessions.keys().next().value!);
+    }
+    return session;
+  }
+
+  /**
+   * Translate one transcript line. `now` stands in for a missing timestamp.
+   * Lines that aren't messages (summaries, snapshots, bad JSON) give no events.
+   */
+  translate(line: string, transcriptPath: string, now: number): IncomingEvent[] {
+    let entry: unknown;
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      return [];
+    }
+    if (!isObject(entry) || !isObject(entry.message)) return [];
+    const sessionId = str(entry.sessionId);
+    if (!sessionId || (entry.type !== 'assistant' && entry.type !== 'user')) return [];
+
+    const session = this.session(sessionId);
+    const sidechain = entry.isSidechain === true;
+    const parsed = Date.parse(String(entry.timestamp));
+    const context: LineContext = {
+      session,
+      sessionId,
+      // Sub-agent lines belong to the latest sub-agent still running
+      agentId: sidechain ? session.subAgents.at(-1) ?? sessionId : sessionId,
+      sidechain,
+      enrichOnly: this.isHooked(sessionId),
+      timestamp: Number.isNaN(parsed) ? now : parsed,
+      cwd: str(entry.cwd),
+      transcriptPath,
+      eventId: str(entry.uuid) && `transcript-${entry.uuid}`,
+      toolUseResult: entry.toolUseResult,
+    };
+
+    const raw = entry.type === 'assistant'
+      ? this.assistantEvents(entry.message, context)
+      : this.userEvents(entry.message, entry.isMeta === true, context);
+
+    const events: IncomingEvent[] = [];
+    raw.forEach((event, i) => {
+      const validated = validateEvent(compact({ ...event, eventId: context.eventId && `${context.eventId}-${i}` }));
+      if (validated.ok) events.push({ kind: validated.kind, event: validated.event } as IncomingEvent);
+    });
+    return events;
+  }
+
+  private assistantEvents(message: Record<string, unknown>, context: LineContext): RawEvent[] {
+    const { session, agentId, enrichOnly, timestamp } = context;
+    const model = str(message.model) === '<synthetic>' ? undefined : str(message.model);
+    const base = this.base(context, agentId);
+    const events: RawEvent[] = [];
+
+    const content = typeof message.content === 'string' ? [{ type: 'text', text: message.content }] : list(message.content);
+    for (const block of content) {
+      if (!isObject(block)) continue;
+
+      if (block.type === 'text' && typeof block.text === 'string') {
+        const lastMessage = summarize(block.text);
+        if (lastMessage) events.push({ ...base, type: 'agent-update', model, lastMessage });
+        continue;
+      }
+      const id = str(block.id);
+      const toolName = str(block.name);
+      if (block.type !== 'tool_use' || !id || !toolName) continue;
+
+      const input: HookPayload = isObject(block.input) ? block.input : {};
+      const kind = FILE_TOOLS[toolName];
+      const filePath = kind === 'search' ? searchPath(input) : str(input.file_path);
+      const glob = kind === 'search' ? searchGlob(toolName, input) : undefined;
+      const command = toolName === 'Bash' ? str(input.command) : undefined;
+      const pending: PendingTool = { agentId, toolName, start: timestamp, kind, filePath, glob, command };
+      const mcp = parseMcpToolName(toolName);
+      const tool = {
+        ...base,
+        model,
+        toolName,
+        toolInput: describeToolInput(toolName, input, TOOL_INPUT_LENGTH),
+        mcpServer: mcp?.server,
+        mcpTool: mcp?.tool,
+      };
+
+      if (enrichOnly) {
+        events.push({ ...tool, type: 'agent-update' });
+      } else {
+        const skillName = toolName === 'Skill' ? str(input.skill) ?? str(input.name) : undefined;
+        events.push({ ...tool, type: 'thinking-end', skillName, command });
+        if (kind && filePath) {
+          events.push({ ...this.activityBase(context, agentId), type: `${kind}-start`, filePath, glob });
+        }
+      }
+
+      // A Task call runs a sub-agent until its result comes back
+      if (toolName === 'Task') {
+        pending.subAgentId = subAgentId(id);
+        session.subAgents.push(pending.subAgentId);
+        events.push({
+          ...this.base(context, pending.subAgentId),
+          type: 'thinking-start',
+          agentName: str(input.description)?.slice(0, AGENT_NAME_LENGTH),
+          agentType: str(input.subagent_type),
+          parentAgentId: agentId,
+        });
+      }
+
+      session.tools.set(id, pending);
+      if (session.tools.size > MAX_PENDING_TOOLS) {
+        session.tools.delete(session.tools.keys().next().value!);
+      }
+    }
+
+    // The turn is over - hooks report this with Stop
+    if (message.stop_reason === 'end_turn' && !enrichOnly && !context.sidechain) {
+      events.push({ ...base, type: 'agent-stop', status: 'completed' });
+    }
+    return events;
+  }
+
+  private userEvents(message: Record<string, unknown>, isMeta: boolean, context: LineContext): RawEvent[] {
+    const { session, enrichOnly, timestamp } = context;
+    const events: RawEvent[] = [];
+    const content = list(message.content);
+    let results = 0;
+
+    for (const block of content) {
+      if (!isObject(block) || block.type !== 'tool_result') continue;
+      results++;
+      const id = str(block.tool_use_id);
+      const pending = id && session.tools.get(id);
+      if (!id || !pending) continue;
+      session.tools.delete(id);
+
+      if (!enrichOnly) {
+        const base = this.base(context, pending.agentId);
+        events.push({
+          ...base,
+          type: 'thinking-start',
+          toolName: pending.toolName,
+          duration: Math.max(0, timestamp - pending.start),
+          command: pending.command,
+          exitCode: pending.command ? exitCodeOf(block) : undefined,
+        });
+        if (pending.kind && pending.filePath) {
+          events.push({
+            ...this.activityBase(context, pending.agentId),
+            type: `${pending.kind}-end`,
+            filePath: pending.filePath,
+            glob: pending.glob,
+            matchedFiles: pending.kind === 'search' ? responseFiles(context.toolUseResult) : undefined,
+          });
+        }
+      } else if (pending.command && block.is_error === true) {
+        // Claude runs no PostToolUse for a command that failed - hooks set up before
+        // PostToolUseFailure was registered only learn its exit code from here
+        events.push({ ...this.base(context, pending.agentId), type: 'agent-update', command: pending.command, exitCode: exitCodeOf(block) });
+      }
+      if (pending.subAgentId) {
+        session.subAgents = session.subAgents.filter(subAgent => subAgent !== pending.subAgentId);
+        events.push({ ...this.base(context, pending.subAgentId), type: 'agent-stop', status: block.is_error === true ? 'error' : 'completed' });
+      }
+    }
+
+    // Something the user typed (not a tool result, not a sub-agent's prompt) starts a turn
+    const typed = typeof message.content === 'string' || content.some(block => isObject(block) && block.type === 'text');
+    if (typed && results === 0 && !isMeta && !enrichOnly && !context.sidechain) {
+      events.push({ ...this.base(context, context.sessionId), type: 'prompt-submit' });
+    }
+    return events;
+  }
+
+  // Fields every thinking event of the line carries. Only the session's own agent reads
+  // the transcript for token usage - sub-agents would count the session twice.
+  private base(context: LineContext, agentId: string) {
+    return {
+      agentId,
+      source: 'claude' as const,
+      timestamp: context.timestamp,
+      cwd: context.cwd,
+      transcriptPath: agentId === context.sessionId && !context.sidechain ? context.transcriptPath : undefined,
+    };
+  }
+
+  private activityBase(context: LineContext, agentId: string) {
+    return { agentId, source: 'claude' as const, timestamp: context.timestamp, cwd: context.cwd };
+  }
+}
+
+interface LineContext {
+  session: Session;
+  sessionId: string;
+  agentId: string;  // Who wrote the line - the session, or one of its sub-agents
+  sidechain: boolean;
+  enrichOnly: boolean;
+  timestamp: number;
+  cwd?: string;
+  transcriptPath: string;
+  eventId?: string;
+  toolUseResult?: unknown;  // What the line's tool returned, as Claude Code keeps it (Grep/Glob list their files)
+}
+
+// Drop undefined fields so the logged event only carries what the line had
+function compact<T extends object>(value: T): T {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as T;
+}
@@ -5,6 +5,10 @@
  * - Activity events from hooks (file read/write)
  * - Thinking events from hooks (agent state)
  * - Graph data for visualization (file tree)
+ * - Persisted event log records and queries
+ * - Spooled hook events (server unreachable) and batch ingestion results
+ * - Registered projects (multi-project server)
+ * - codemap.config.json settings
  *
  * Enhanced for multi-agent system support:
  * - Custom agent names from .claude/agents/
@@ -13,8 +17,18 @@
  * - Agent hierarchy (main/sub-agent)
  */
 
-/** Agent source - which IDE/tool the agent is from */
-export type AgentSource = 'claude' | 'windsurf' | 'unknown';
+/**
+ * Agent source - which IDE/tool the agent is from: the id of the adapter that read its
+ * events (claude, cursor, windsurf, jsonl - see adapters/), or 'unknown'
+ */
+export type AgentSource = string;
+
+/** How agents of a source are shown - declared by its adapter */
+export interface SourceDisplay {
+  name: string;  // Display names start with it ("Claude Code 1")
+  color: string;  // Badge color (CSS)
+  icon: string;  // One character drawn on the badge
+}
 
 /** Agent role in multi-agent system */
 export type AgentRole = 'main' | 'sub-agent' | 'specialist';
@@ -30,11 +44,15 @@ export interface FileActivityEvent {
   type: 'read-start' | 'read-end' | 'write-start' | 'write-end' | 'search-start' | 'search-end';
   filePath: string;  // For search: this is the search pattern (glob or regex)
   agentId?: string;  // Which agent triggered this activity
-  source?: AgentSource;  // Which tool (claude/windsurf)
+  source?: AgentSource;  // Which tool (claude/cursor/windsurf/jsonl)
   timestamp: number;
+  cwd?: string;  // Agent working directory - selects the project
+  eventId?: string;  // Unique per event (hook client) - drops duplicate deliveries
   // Enhanced fields for multi-agent support
   skillName?: string;  // Active skill context (e.g., "gara-write", "script-write")
   mcpServer?: string;  // MCP server if applicable (e.g., "perplexity", "tavily")
+  matchedFiles?: string[];  // search-end: files the search found - the tool's own list, or resolved by the server
+  glob?: string;  // Search: glob the files it found match - a Glob's pattern, or the glob a Grep was limited to
 }
 
 /** Agent status from stop events */
@@ -45,10 +63,16 @@ export type AgentStatus = 'completed' | 'aborted' | 'error';
  * Enhanced for multi-agent and skill tracking
  */
 export interface ThinkingEvent {
-  type: 'thinking-start' | 'thinking-end' | 'agent-stop';
+  // session-start/session-end bound the session, prompt-submit starts a turn,
+  // agent-stop ends it (Claude Stop, Cursor/Windsurf stop), subagent-stop ends a sub-agent,
+  // pre-compact is about to summarize the conversation to free context,
+  // agent-update only adds detail (transcript watcher) - it changes no state
+  type: 'thinking-start' | 'thinking-end' | 'agent-stop' | 'session-start' | 'session-end' | 'prompt-submit' | 'subagent-stop' | 'pre-compact' | 'agent-update';
   agentId: string;
-  source?: AgentSource;  // Which tool (claude/windsurf)
+  source?: AgentSource;  // Which tool (claude/cursor/windsurf/jsonl)
   timestamp: number;
+  cwd?: string;  // Agent working directory - selects the project
+  eventId?: string;  // Unique per event (hook client) - drops duplicate deliveries
   toolName?: string;  // Current tool being used (e.g., "Read", "Edit", "Bash", "Skill")
   toolInput?: string;  // Abbreviated tool input (file path, command, pattern)
   agentType?: string;  // Agent type from SessionStart (e.g., "Plan", "Explore", "Bash")
@@ -56,6 +80,11 @@ export interface ThinkingEvent {
   duration?: number;  // Operation duration in ms
   status?: AgentStatus;  // Agent completion status - from stop hook
   loopCount?: number;  // Number of agent loops - from stop hook
+  contextUsage?: number;  // Context window used, 0-100 - from the payload or the session transcript
+  transcriptPath?: string;  // Claude Code session transcript (JSONL) - token usage is read from it
+  lastMessage?: string;  // Latest text the agent wrote - from the session transcript
+  command?: string;  // Shell tools: the whole command line (secrets are redacted on arrival)
+  exitCode?: number;  // Shell tools: how the command exited - on the thinking-start that ends it
   // Enhanced fields for multi-agent support
   agentName?: string;  // Custom agent name (e.g., "writer", "story-architect")
   agentRole?: AgentRole;  // Role in multi-agent hierarchy
@@ -67,6 +96,50 @@ export interface ThinkingEvent {
   ruleContext?: string[];  // Active rules (e.g., ["quality-gates", "writing-standards"])
 }
 
+/** Tokens used, summed over a session's assistant messages */
+export interface TokenUsage {
+  input: number;
+  output: number;
+  cacheRead: number;
+  cacheWrite: number;
+}
+
+/** Price of a model in USD per million tokens */
+export interface ModelPrice {
+  input: number;
+  output: number;
+  cacheRead: number;
+  cacheWrite: number;
+}
+
+/** Running spend of one session (one transcript) - kept after its agent leaves */
+export interface SessionUsage {
+  sessionId: string;  // Agent id (Claude session_id)
+  displayName: string;
+  model?: string;  // Model the last message was priced with
+  usage: TokenUsage;
+  cost: number;  // USD
+  priced: boolean;  // False if some messages had no price (their tokens cost nothing)
+  lastUpdated: number;
+}
+
+/** Spend of a project's sessions since the server started */
+export interface UsageTotals {
+  usage: TokenUsage;
+  cost: number;  // USD
+  sessions: number;
+}
+
+/** One shell command an agent ran - opened by its thinking-end, closed by the thinking-start after it */
+export interface CommandRun {
+  command: string;
+  cwd?: string;
+  startedAt: number;
+  endedAt?: number;  // Unset while it runs
+  duration?: number;  // ms - measured by the server, or the tool's own when the start wasn't seen
+  exitCode?: number;  // Unset when the tool doesn't report it
+}
+
 /**
  * Agent thinking state - comprehensive multi-agent support
  */
@@ -86,8 +159,14 @@ export interface AgentThinkingState {
   lastDuration?: number;  // Last operation duration in ms
   status?: AgentStatus;  // Completion status (completed/aborted/error)
   statusTimestamp?: number;  // When status was set (for auto-clearing)
+  contextUsage?: number;  // Context window used, 0-100 (latest report)
+  usage?: TokenUsage;  // Tokens used so far - from the session transcript
+  cost?: number;  // USD spent so far (usage priced by model)
+  lastMessage?: string;  // Latest text the agent wrote (transcript watcher)
+  commands?: CommandRun[];  // Shell commands run, oldest first (the latest few)
   // Enhanced fields for multi-agent support
   agentName?: string;  // Custom agent name (e.g., "writer", "reviewer")
+  customName?: string;  // Name set from the UI - wins over generated names
   agentRole: AgentRole;  // Role: main, sub-agent, specialist
   parentAgentId?: string;  // Parent agent ID for sub-agents
   childAgentIds?: string[];  // Child agent IDs spawned by this agent
@@ -100,8 +179,10 @@ export interface AgentThinkingState {
   operationCount: number;  // Total operations performed
   fileReads: number;  // Files read count
   fileWrites: number;  // Files written count
+  fileSearches: number;  // Searches (Grep/Glob) finished count
   skillInvocations: number;  // Skills invoked count
   mcpCalls: number;  // MCP tool calls count
+  compactions?: number;  // Context compactions (PreCompact) count
 }
 
 /**
@@ -123,7 +204,7 @@ export function categorizeToolool(toolName: string, mcpServer?: string): ToolCat
   }
 
   // Execution operations
-  if (['bash', 'killshell'].includes(toolLower)) {
+  if (['bash', 'killshell', 'shell'].includes(toolLower)) {
     return 'execute';
   }
 
@@ -157,7 +238,31 @@ export interface GraphNode {
     searches: number;
   };
   // Enhanced: track which agents accessed this file
-  accessedBy?: string[];  // Agent IDs that accessed this file
+  accessedBy?: string[];  // Agent IDs that read, wrote or searched this file, most recent last
+}
+
+/** One counted read, write or search of a file */
+export interface FileAccess {
+  type: 'read' | 'write' | 'search';
+  agentId?: string;
+  timestamp: number;
+}
+
+/** How often one agent accessed a file */
+export interface FileAgentAccess {
+  agentId: string;
+  displayName?: string;  // While the agent is still around
+  reads: number;
+  writes: number;
+  searches: number;
+  lastAccess: number;
+}
+
+/** A file's accesses - GET /api/files/history */
+export interface FileHistory {
+  path: string;
+  accesses: FileAccess[];  // Oldest first, the latest MAX_FILE_HISTORY
+  agents: FileAgentAccess[];  // Most recent first, counting every access
 }
 
 export interface GraphLink {
@@ -165,11 +270,26 @@ export interface GraphLink {
   target: string;
 }
 
+/** Full file graph - sent as 'graph' when a client connects or asks to resync */
 export interface GraphData {
+  seq: number;  // Graph version - the next 'graph-delta' carries seq + 1
   nodes: GraphNode[];
   links: GraphLink[];
 }
 
+/**
+ * Changes to the file graph - sent as 'graph-delta' instead of the full graph
+ * Apply removed, then added, then updated. A client that sees a seq other than
+ * its own + 1 has missed a delta and sends 'graph-resync' for a new snapshot.
+ */
+export interface GraphDelta {
+  seq: number;
+  added: GraphNode[];
+  updated: GraphNode[];  // Replace the node with the same id
+  removed: string[];     // Node ids - their links go with them
+  links: GraphLink[];    // Links of the added nodes
+}
+
 /** Layout update data - sent when git commit triggers a layout refresh */
 export interface LayoutUpdateData {
   hotFolders: Array<{
@@ -197,4 +317,191 @@ export interface SystemSummary {
     writes: number;
     searches: number;
   };
+  tokenUsage: TokenUsage;  // Every session of the project, including agents that left
+  cost: number;  // USD
+}
+
+/** Which ingestion endpoint an event arrived through */
+export type EventKind = 'activity' | 'thinking';
+
+/**
+ * Event as persisted in the on-disk event log
+ * seq is monotonically increasing per project and never reused
+ */
+export type LoggedEvent =
+  | { seq: number; receivedAt: number; kind: 'activity'; event: FileActivityEvent }
+  | { seq: number; receivedAt: number; kind: 'thinking'; event: ThinkingEvent };
+
+/** A validated hook event and the kind it was recognised as */
+export type IncomingEvent =
+  | { kind: 'activity'; event: FileActivityEvent }
+  | { kind: 'thinking'; event: ThinkingEvent };
+
+/** Hook event the server could not be reached for - kept in ~/.codemap/spool.jsonl */
+export type SpooledEvent = IncomingEvent;
+
+/** Outcome of one event in a POST /api/events batch (same order as the request) */
+export type EventResult =
+  | { index: number; status: 'accepted' }
+  | { index: number; status: 'rejected'; reason: string };
+
+/** Response of POST /api/events */
+export interface EventBatchResponse {
+  accepted: number;
+  rejected: number;
+  results: EventResult[];
+}
+
+/** Filters for querying the event log (all optional, combined with AND) */
+export interface EventQuery {
+  since?: number;  // Event timestamp lower bound (inclusive, ms)
+  until?: number;  // Event timestamp upper bound (inclusive, ms)
+  afterSeq?: number;  // Only events with seq greater than this (for paging)
+  agentId?: string;
+  kind?: EventKind;
+  types?: string[];  // Event types (e.g., "read-end", "thinking-start")
+  pathPrefix?: string;  // Absolute path prefix - only matches file activity
+  limit?: number;
+}
+
+/** Everything a client needs to draw the scene - part of 'hello' */
+export interface HelloSnapshot {
+  graph: GraphData;
+  agents: AgentThinkingState[];
+  hotFolders: LayoutUpdateData['hotFolders'];
+  config: CodeMapConfig;
+  usage: UsageTotals;
+}
+
+/**
+ * First message on every WebSocket connection
+ * Broadcasts that follow carry a seq. To catch up after a reconnect, open
+ * /ws?resume=<resumeToken>&since=<last seq seen>: the reply is resumed (no snapshot)
+ * and the missed messages follow, or a fresh snapshot if they are no longer buffered.
+ */
+export interface HelloMessage {
+  protocol: number;  // Bumped on incompatible message changes
+  server: string;    // Server version
+  resumeToken: string;
+  seq: number;       // Last broadcast seq at the time of the hello
+  resumed: boolean;
+  snapshot?: HelloSnapshot;  // Sent unless resumed
+}
+
+/** Message groups a WebSocket client can subscribe to */
+export type Topic = 'graph' | 'activity' | 'thinking' | 'layout';
+
+/**
+ * Body of a 'subscribe' WebSocket message - omitted fields match everything
+ * Agent and source filters apply to activity and thinking, path prefixes to activity and graph.
+ */
+export interface SubscriptionRequest {
+  topics?: Topic[];
+  agentIds?: string[];
+  sources?: AgentSource[];
+  pathPrefixes?: string[];  // Project-relative folders or files, e.g. "server/src"
+}
+
+/** Reply to 'subscribe' - sent as 'subscription' */
+export type SubscriptionResult =
+  | { ok: true; subscription: SubscriptionRequest }
+  | { ok: false; reason: string };
+
+/**
+ * Commands a WebSocket client can send as { type: 'request', data: CommandRequest }
+ * Every request gets a 'response' with the same id.
+ */
+export type Command =
+  | { command: 'snapshot' }  // Result: CommandSnapshot
+  | { command: 'clear' }
+  | { command: 'dismiss-agent'; params: { agentId: string } }
+  | { command: 'rename-agent'; params: { agentId: string; displayName: string } }  // Result: the agent
+  | { command: 'refresh-layout' };  // Result: LayoutUpdateData
+
+export type CommandName = Command['command'];
+
+export type CommandRequest = Command & { id: string };
+
+/** Result of the 'snapshot' command */
+export interface CommandSnapshot {
+  graph: GraphData;
+  agents: AgentThinkingState[];
+}
+
+export type CommandResult = CommandSnapshot | AgentThinkingState | LayoutUpdateData | undefined;
+
+/** Reply to a 'request' - sent as 'response' */
+export type CommandResponse =
+  | { id: string; ok: true; result?: CommandResult }
+  | { id: string | null; ok: false; error: string };  // id is null when the request had none
+
+/** Playback state of a session replay */
+export type ReplayState = 'playing' | 'paused' | 'ended' | 'stopped';
+
+/** Replay progress - sent to the replaying client as 'replay-status' */
+export interface ReplayStatus {
+  state: ReplayState;
+  position: number;  // Current point on the recorded timeline (ms)
+  start: number;     // First recorded event (ms)
+  end: number;       // Last recorded event (ms)
+  speed: number;     // Playback multiplier (1, 4 or 16)
+  eventCount: number;
+  error?: string;    // Why the replay could not start
+}
+
+/** A past session imported from its transcript (`codemap import`) - replayed on request */
+export interface ImportedSession {
+  id: string;  // Claude Code session id
+  title?: string;  // Conversation summary, else the first prompt
+  start: number;  // First event (ms)
+  end: number;    // Last event (ms)
+  eventCount: number;
+  agentCount: number;  // The session and its sub-agents
+  importedAt: number;
+}
+
+/** A project root served by this CodeMap instance */
+export interface ProjectInfo {
+  id: string;    // URL-safe identifier (e.g. "codemap-main")
+  name: string;  // Folder name
+  root: string;  // Absolute project root
+  agents: number;  // Currently tracked agents
+  isDefault: boolean;  // Receives events that match no other project
+}
+
+/** Room floor themes the client can draw */
+export type FloorStyle = 'wood' | 'green' | 'blue' | 'cream' | 'lavender' | 'peach';
+
+/** One floor of the coworking building (ground floor first) */
+export interface FloorConfig {
+  rooms: number;         // Rooms side by side
+  filesPerRoom: number;  // Desks per room
+  roomWidth: number;     // Tiles
+  roomHeight: number;    // Tiles
+}
+
+/** Folder-name rule for room themes - first match wins */
+export interface FloorTheme {
+  match: string;  // Case-insensitive substring of the folder name
+  style: FloorStyle;
+}
+
+/**
+ * Settings from codemap.config.json (see codemap.config.schema.json)
+ * Project file first, then ~/.codemap/config.json, then built-in defaults
+ */
+export interface CodeMapConfig {
+  port: number;
+  host: string;  // Interface to listen on - 127.0.0.1 unless LAN access is wanted
+  allowedOrigins: string[];  // Browser origins allowed to use the API ("*" for any)
+  maxAgents: number;  // HARD LIMIT per project
+  agentTimeoutMs: number;  // Idle agents are removed after this long
+  waitingForInputThresholdMs: number;  // Permission prompt detection threshold
+  ignoreDirs: string[];  // Folder names left out of the file tree
+  gitLogDepth: number;  // Commits scanned to rank hot folders
+  floors: FloorConfig[];
+  floorThemes: FloorTheme[];
+  modelPrices: Record<string, ModelPrice>;  // Added to (or replacing) the built-in prices, by model name prefix
+  watchTranscripts: boolean;  // Tail Claude Code session transcripts - works without hooks
+  watchLogs: boolean;  // Read the JSON-lines logs under ~/.codemap/logs (tools without hooks)
 }
@@ -0,0 +1,131 @@
+/**
+ * Usage Tests
+ *
+ * Tests token usage and cost read from session transcripts.
+ * The UsageTracker is responsible for:
+ * - Counting each assistant message once, with its latest usage
+ * - Reading only what was appended since the last event
+ * - Pricing tokens by model, with config prices over the built-in ones
+ * - Keeping the spend of sessions whose agent left
+ * - Refusing transcripts outside the allowed folders
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { UsageTracker, findPrice, costOf, DEFAULT_MODEL_PRICES, MAX_SESSIONS } from './usage.js';
+import { AgentThinkingState } from './types.js';
+
+const AGENT = '9f2c4e1a-7b3d-4c8e-a1f0-5d6b7c8e9f01';
+const SONNET = 'claude-sonnet-4-5-20250929';
+
+const agent = (agentId = AGENT, model?: string) =>
+  ({ agentId, model, source: 'claude', isThinking: false, lastActivity: 0, displayName: 'Claude 1' }) as AgentThinkingState;
+
+function assistant(id: string, usage: object, model = SONNET) {
+  return JSON.stringify({ type: 'assistant', message: { id, model, role: 'assistant', usage } }) + '\n';
+}
+
+describe('Usage: Prices', () => {
+  it('matches the model name or its longest prefix', () => {
+    expect(findPrice('claude-opus-4-5-20251101', DEFAULT_MODEL_PRICES)).toBe(DEFAULT_MODEL_PRICES['claude-opus-4-5']);
+    expect(findPrice('claude-opus-4-1-20250805', DEFAULT_MODEL_PRICES)).toBe(DEFAULT_MODEL_PRICES['claude-opus-4']);
+    expect(findPrice('gpt-5', DEFAULT_MODEL_PRICES)).toBeUndefined();
+    expect(findPrice(undefined, DEFAULT_MODEL_PRICES)).toBeUndefined();
+  });
+
+  it('prices every kind of token', () => {
+    const usage = { input: 1e6, output: 1e6, cacheRead: 1e6, cacheWrite: 1e6 };
+    expect(costOf(usage, { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 })).toBeCloseTo(22.05);
+  });
+});
+
+describe('UsageTracker', () => {
+  let dir: string;
+  let transcript: string;
+  let tracker: UsageTracker;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'codemap-usage-'));
+    transcript = path.join(dir, 'session.jsonl');
+    fs.writeFileSync(transcript, '');
+    tracker = new UsageTracker({ transcriptRoots: [dir] });
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('adds up assistant messages and prices them', () => {
+    fs.appendFileSync(transcript, JSON.stringify({ type: 'user', message: { content: 'hi' } }) + '\n');
+    fs.appendFileSync(transcript, assistant('msg_1', { input_tokens: 1000, output_tokens: 2000, cache_read_input_tokens: 10000, cache_creation_input_tokens: 4000 }));
+    const state = agent();
+
+    expect(tracker.update(state, transcript, 10)).toBe(true);
+    expect(state.usage).toEqual({ input: 1000, output: 2000, cacheRead: 10000, cacheWrite: 4000 });
+    expect(state.cost).toBeCloseTo((1000 * 3 + 2000 * 15 + 10000 * 0.3 + 4000 * 3.75) / 1e6);
+  });
+
+  it('counts a message written once per content block only once', () => {
+    fs.appendFileSync(transcript, assistant('msg_1', { input_tokens: 10, output_tokens: 5 }));
+    fs.appendFileSync(transcript, assistant('msg_1', { input_tokens: 10, output_tokens: 80 }));
+    const state = agent();
+    tracker.update(state, transcript, 10);
+    expect(state.usage).toMatchObject({ input: 10, output: 80 });
+
+    // The next block arrives after the first read
+    fs.appendFileSync(transcript, assistant('msg_1', { input_tokens: 10, output_tokens: 120 }));
+    tracker.update(state, transcript, 20);
+    expect(state.usage).toMatchObject({ input: 10, output: 120 });
+  });
+
+  it('reads only complete lines appended since the last event', () => {
+    const line = assistant('msg_1', { input_tokens: 10, output_tokens: 5 });
+    fs.appendFileSync(transcript, line.slice(0, 20));
+    const state = agent();
+    expect(tracker.update(state, transcript, 10)).toBe(false);
+
+    fs.appendFileSync(transcript, line.slice(20));
+    expect(tracker.update(state, transcript, 20)).toBe(true);
+    expect(tracker.update(state, transcript, 30)).toBe(false);
+    expect(state.usage).toMatchObject({ input: 10, output: 5 });
+  });
+
+  it('prices by the agent model, with config prices first', () => {
+    fs.appendFileSync(transcript, assistant('msg_1', { input_tokens: 1e6, output_tokens: 0 }, 'custom-model'));
+    const unpriced = agent();
+    tracker.update(unpriced, transcript, 10);
+    expect(unpriced.cost).toBe(0);
+    expect(tracker.getSessions()[0]).toMatchObject({ model: 'custom-model', priced: false });
+
+    const priced = new UsageTracker({ transcriptRoots: [dir], prices: { 'custom': { input: 2, output: 0, cacheRead: 0, cacheWrite: 0 } } });
+    const state = agent();
+    priced.update(state, transcript, 10);
+    expect(state.cost).toBe(2);
+
+    const opus = agent(AGENT, 'claude-opus-4-5');
+    new UsageTracker({ transcriptRoots: [dir] }).update(opus, transcript, 10);
+    expect(opus.cost).toBe(5);
+  });
+
+  it('totals every session, including those that left the list', () => {
+    fs.appendFileSync(transcript, assistant('msg_1', { input_tokens: 100, output_tokens: 0 }));
+    for (let i = 0; i <= MAX_SESSIONS; i++) {
+      tracker.update(agent(`${String(i).padStart(8, '0')}-0000-4000-8000-000000000000`), transcript, i);
+    }
+
+    expect(tracker.getSessions()).toHaveLength(MAX_SESSIONS);
+    expect(tracker.getSessions()[0].sessionId).toBe(`${String(MAX_SESSIONS).padStart(8, '0')}-0000-4000-8000-000000000000`);
+    expect(tracker.getTotals()).toMatchObject({ sessions: MAX_SESSIONS + 1, usage: { input: 100 * (MAX_SESSIONS + 1) } });
+  });
+
+  it('ignores transcripts outside the allowed folders', () => {
+    const outside = path.join(os.tmpdir(), 'codemap-usage-outside.jsonl');
+    const state = agent();
+    expect(tracker.update(state, outside, 10)).toBe(false);
+    expect(tracker.update(state, path.join(dir, 'notes.txt'), 10)).toBe(false);
+    expect(tracker.update(state, path.join(dir, '..', 'x.jsonl'), 10)).toBe(false);
+    expect(state.usage).toBeUndefined();
+  });
+});
@@ -0,0 +1,230 @@
+// Token usage and cost - read from the Claude Code session transcripts hooks point at
+// Hook events carry the session's transcript path. Each time an agent reports, the lines
+// added to its transcript since the last read are parsed and every assistant message's
+// usage is added to the session, priced by the agent's model (USD per million tokens).
+// Sessions outlive their agents, so the project total keeps what finished sessions spent.
+
+import os from 'os';
+import path from 'path';
+import { readAppendedLines } from './transcript.js';
+import { AgentThinkingState, ModelPrice, SessionUsage, TokenUsage, UsageTotals } from './types.js';
+
+export const DEFAULT_TRANSCRIPT_ROOT = path.join(os.homedir(), '.claude', 'projects');
+
+// Sessions listed individually - older ones only count towards the total
+export const MAX_SESSIONS = 500;
+// Claude Code writes a message once per content block, each time with its usage so far
+const RECENT_MESSAGES = 50;
+
+/** Built-in prices (USD per million tokens). A key matches the model name or a prefix of it. */
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'claude-opus-4-5': { input: 5, output: 25, cacheRead: 0.5, cacheWrite: 6.25 },
+  'claude-opus-4': { input: 15, output: 75, cacheRead: 1.5, cacheWrite: 18.75 },
+  'claude-sonnet-4': { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+  'claude-3-7-sonnet': { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+  'claude-haiku-4-5': { input: 1, output: 5, cacheRead: 0.1, cacheWrite: 1.25 },
+  'claude-3-5-haiku': { input: 0.8, output: 4, cacheRead: 0.08, cacheWrite: 1 },
+};
+
+export function emptyUsage(): TokenUsage {
+  return { input: 0, output: 0, cacheRead: 0, cacheWrite: 0 };
+}
+
+// Add (or with sign -1, take away) `b` to `a` in place
+function addUsage(a: TokenUsage, b: TokenUsage, sign = 1): void {
+  a.input += sign * b.input;
+  a.output += sign * b.output;
+  a.cacheRead += sign * b.cacheRead;
+  a.cacheWrite += sign * b.cacheWrite;
+}
+
+/** Price of a model: the exact key, else the longest key the model name starts with */
+export function findPrice(model: string | undefined, prices: Record<string, ModelPrice>): ModelPrice | undefined {
+  if (!model) return undefined;
+  if (Object.hasOwn(prices, model)) return prices[model];
+  const key = Object.keys(prices)
+    .filter(prefix => model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  return key === undefined ? undefined : prices[key];
+}
+
+/** USD cost of `usage` at `price` */
+export function costOf(usage: TokenUsage, price: ModelPrice): number {
+  return (usage.input * price.input + usage.output * price.output +
+    usage.cacheRead * price.cacheRead + usage.cacheWrite * price.cacheWrite) / 1e6;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function tokens(value: unknown): number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : 0;
+}
+
+// Is `filePath` inside `root`?
+function isInside(filePath: string, root: string): boolean {
+  return filePath.startsWith(root.endsWith(path.sep) ? root : root + path.sep);
+}
+
+interface AssistantMessage {
+  id: string;
+  model?: string;
+  usage: TokenUsage;
+}
+
+// One transcript line -> the assistant message it reports usage for, if any
+function parseLine(line: string): AssistantMessage | null {
+  let entry: unknown;
+  try {
+    entry = JSON.parse(line);
+  } catch {
+    return null;
+  }
+  if (!isObject(entry) || entry.type !== 'assistant' || !isObject(entry.message)) return null;
+  const { id, model, usage } = entry.message;
+  const messageId = typeof id === 'string' ? id : typeof entry.uuid === 'string' ? entry.uuid : null;
+  if (!messageId || !isObject(usage)) return null;
+  return {
+    id: messageId,
+    model: typeof model === 'string' && model !== '<synthetic>' ? model : undefined,
+    usage: {
+      input: tokens(usage.input_tokens),
+      output: tokens(usage.output_tokens),
+      cacheRead: tokens(usage.cache_read_input_tokens),
+      cacheWrite: tokens(usage.cache_creation_input_tokens),
+    },
+  };
+}
+
+interface Session {
+  info: SessionUsage;
+  transcriptPath: string;
+  offset: number;  // Bytes of the transcript already read
+  recent: Map<string, { usage: TokenUsage; cost: number }>;  // Recently counted messages by id
+}
+
+export interface UsageTrackerOptions {
+  prices?: Record<string, ModelPrice>;  // Added to the built-in prices
+  transcriptRoots?: string[];  // Only transcripts under these folders are read
+}
+
+export class UsageTracker {
+  private sessions = new Map<string, Session>();  // By agent id, least recently updated first
+  private retired: UsageTotals = { usage: emptyUsage(), cost: 0, sessions: 0 };  // Dropped from the list
+  private prices: Record<string, ModelPrice> = DEFAULT_MODEL_PRICES;
+  private transcriptRoots: string[];
+
+  constructor(options: UsageTrackerOptions = {}) {
+    this.setPrices(options.prices ?? {});
+    this.transcriptRoots = (options.transcriptRoots ?? [DEFAULT_TRANSCRIPT_ROOT]).map(root => path.resolve(root));
+  }
+
+  // Prices from the config - messages already counted keep their cost
+  setPrices(prices: Record<string, ModelPrice>): void {
+    this.prices = { ...DEFAULT_MODEL_PRICES, ...prices };
+  }
+
+  /**
+   * Count what was added to the agent's transcript since the last read and set its
+   * usage and cost. Returns true if they changed. Transcripts outside the allowed
+   * folders (or that can't be read) are ignored.
+   */
+  update(state: AgentThinkingState, transcriptPath: string, now: number): boolean {
+    const file = path.resolve(transcriptPath);
+    if (!file.endsWith('.jsonl') || !this.transcriptRoots.some(root => isInside(file, root))) {
+      return false;
+    }
+
+    let session = this.sessions.get(state.agentId);
+    if (!session) {
+      session = {
+        info: { sessionId: state.agentId, displayName: state.displayName, usage: emptyUsage(), cost: 0, priced: true, lastUpdated: now },
+        transcriptPath: file,
+        offset: 0,
+        recent: new Map(),
+      };
+    } else if (session.transcriptPath !== file) {
+      session.transcriptPath = file;
+      session.offset = 0;
+      session.recent.clear();
+    }
+
+    // A rewritten transcript is read again - recent message ids keep it from counting twice
+    const { lines, offset } = readAppendedLines(file, session.offset);
+    session.offset = offset;
+    let changed = false;
+    for (const line of lines) {
+      const message = parseLine(line);
+      if (message) {
+        this.count(session, message, state.model);
+        changed = true;
+      }
+    }
+
+    // Most recently updated last
+    this.sessions.delete(state.agentId);
+    this.sessions.set(state.agentId, session);
+    session.info.displayName = state.displayName;
+    if (changed) session.info.lastUpdated = now;
+    this.retireOldest();
+
+    state.usage = { ...session.info.usage };
+    state.cost = session.info.cost;
+    return changed;
+  }
+
+  private count(session: Session, message: AssistantMessage, agentModel: string | undefined): void {
+    const model = agentModel ?? message.model;
+    const price = findPrice(model, this.prices) ?? findPrice(message.model, this.prices);
+    const cost = price ? costOf(message.usage, price) : 0;
+    const { info, recent } = session;
+
+    // A message seen before is replaced by its latest usage
+    const previous = recent.get(message.id);
+    if (previous) {
+      addUsage(info.usage, previous.usage, -1);
+      info.cost -= previous.cost;
+      recent.delete(message.id);
+    }
+    addUsage(info.usage, message.usage);
+    info.cost += cost;
+    info.model = model ?? info.model;
+    if (!price && (message.usage.input || message.usage.output)) info.priced = false;
+
+    recent.set(message.id, { usage: message.usage, cost });
+    if (recent.size > RECENT_MESSAGES) {
+      recent.delete(recent.keys().next().value!);
+    }
+  }
+
+  private retireOldest(): void {
+    while (this.sessions.size > MAX_SESSIONS) {
+      const [id, oldest] = this.sessions.entries().next().value!;
+      addUsage(this.retired.usage, oldest.info.usage);
+      this.retired.cost += oldest.info.cost;
+      this.retired.sessions++;
+      this.sessions.delete(id);
+    }
+  }
+
+  /** Sessions, most recently updated first */
+  getSessions(): SessionUsage[] {
+    return [...this.sessions.values()].reverse().map(({ info }) => ({ ...info, usage: { ...info.usage } }));
+  }
+
+  getTotals(): UsageTotals {
+    const totals: UsageTotals = { usage: { ...this.retired.usage }, cost: this.retired.cost, sessions: this.retired.sessions };
+    for (const { info } of this.sessions.values()) {
+      addUsage(totals.usage, info.usage);
+      totals.cost += info.cost;
+      totals.sessions++;
+    }
+    return totals;
+  }
+
+  clear(): void {
+    this.sessions.clear();
+    this.retired = { usage: emptyUsage(), cost: 0, sessions: 0 };
+  }
+}
@@ -6,9 +6,15 @@
  * - Client connections/disconnections
  * - Broadcasting updates to all clients
  * - Cleaning up dead connections
+ * - Resuming clients with only the messages they missed and subscribed to
  */
 
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { WebSocket } from 'ws';
+import { WebSocketManager } from './websocket.js';
+import { parseSubscription } from './subscriptions.js';
 
 // Mock WebSocket states (from ws library)
 const WebSocketState = {
@@ -341,3 +347,55 @@ describe('WebSocket: Message Format', () => {
     expect(parsed.data[0].displayName).toBe('Claude Code 1');
   });
 });
+
+describe('WebSocketManager: Resuming', () => {
+  let server: Server;
+  let manager: WebSocketManager;
+  let url: string;
+
+  beforeEach(async () => {
+    server = createServer();
+    manager = new WebSocketManager(server, {
+      resolveProject: () => 'shop',
+      parseSubscription: (raw) => {
+        const result = parseSubscription(raw, '/shop');
+        return result.ok ? result.subscription : null;
+      },
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `ws://127.0.0.1:${(server.address() as AddressInfo).port}/ws`;
+  });
+
+  afterEach(() => {
+    manager.close();
+    server.close();
+  });
+
+  // The first `count` messages a client connecting with `query` receives
+  const receive = (query: string, count: number) => new Promise<Array<{ type: string; data: any; seq?: number }>>((resolve, reject) => {
+    const ws = new WebSocket(`${url}?${query}`);
+    const messages: Array<{ type: string; data: any; seq?: number }> = [];
+    ws.on('message', raw => {
+      messages.push(JSON.parse(raw.toString()));
+      if (messages.length === count) {
+        ws.close();
+        resolve(messages);
+      }
+    });
+    ws.on('error', reject);
+  });
+
+  it('sends missed messages through the subscription, without periodic state', async () => {
+    const [hello] = await receive('', 1);
+    const { resumeToken, seq } = hello.data;
+
+    manager.broadcast('activity', { type: 'read-end', filePath: 'a.ts', timestamp: 1 }, 'shop');
+    manager.broadcastState('thinking', [], 'shop');
+    manager.broadcast('graph-delta', { seq: 1, added: [], updated: [], removed: ['/shop/a.ts'], links: [] }, 'shop');
+
+    const subscribe = encodeURIComponent(JSON.stringify({ topics: ['graph'] }));
+    const resumed = await receive(`resume=${resumeToken}&since=${seq}&subscribe=${subscribe}`, 2);
+    expect(resumed[0]).toMatchObject({ type: 'hello', data: { resumed: true, seq: seq + 2 } });
+    expect(resumed[1]).toMatchObject({ type: 'graph-delta', seq: seq + 2 });
+  });
+});
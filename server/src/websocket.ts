@@ -1,31 +1,119 @@
 // WebSocket manager for real-time client communication
+// Every connection opens with a 'hello' (a snapshot, or the messages missed since a
+// resume point); the client gets no broadcasts before it, so nothing falls in between.
 import { WebSocketServer, WebSocket } from 'ws';
-import { Server } from 'http';
-import { GraphData, FileActivityEvent, AgentThinkingState, LayoutUpdateData } from './types.js';
+import { Server, IncomingMessage } from 'http';
+import { randomUUID } from 'crypto';
+import {
+  GraphData,
+  GraphDelta,
+  FileActivityEvent,
+  AgentThinkingState,
+  LayoutUpdateData,
+  ReplayStatus,
+  ProjectInfo,
+  CodeMapConfig,
+  SubscriptionResult,
+  CommandResponse,
+  HelloMessage,
+  HelloSnapshot,
+  UsageTotals
+} from './types.js';
+import { Subscription, filterMessage } from './subscriptions.js';
+import { MessageBuffer, BufferedMessage } from './message-buffer.js';
+
+// Version of the message protocol - clients compare it with their own
+export const PROTOCOL_VERSION = 1;
 
 interface ExtendedWebSocket extends WebSocket {
   isAlive?: boolean;
+  isReplaying?: boolean;  // Replaying clients don't receive live broadcasts
+  projectId?: string;     // Project this client is viewing
+  subscription?: Subscription;  // What the client asked for (everything when unset)
+  canWrite?: boolean;     // May run commands that change state
+  ready?: boolean;        // Hello sent - live broadcasts may follow
 }
 
+type MessageData = GraphData | GraphDelta | FileActivityEvent | AgentThinkingState[] | LayoutUpdateData | ReplayStatus | ProjectInfo[] | CodeMapConfig | SubscriptionResult | CommandResponse | HelloMessage | UsageTotals;
+
+export interface WebSocketManagerOptions {
+  // Map the ?project= query param to a known project id
+  resolveProject?: (requested: string | null) => string;
+  // Accept or refuse the handshake (refused clients get 401)
+  verifyClient?: (req: IncomingMessage) => boolean;
+  // Whether an accepted client may change state (default: no)
+  canWrite?: (req: IncomingMessage) => boolean;
+  // Full state of a project for the hello of a client that can't resume
+  getSnapshot?: (projectId: string | undefined) => Promise<HelloSnapshot>;
+  // Subscription a client connects with (?subscribe=<JSON>) - null when it's invalid
+  parseSubscription?: (raw: unknown, projectId: string | undefined) => Subscription | null;
+  // Server version reported in the hello
+  serverVersion?: string;
+}
+
+/** Message sent by a client: { type, data } */
+export interface ClientMessage {
+  type: string;
+  data?: unknown;
+}
+
+type MessageHandler = (client: WebSocket, message: ClientMessage) => void;
+type DisconnectHandler = (client: WebSocket) => void;
+
 export class WebSocketManager {
   private wss: WebSocketServer;
   private clients: Set<ExtendedWebSocket> = new Set();
   private pingInterval: ReturnType<typeof setInterval>;
+  private messageHandler: MessageHandler | null = null;
+  private disconnectHandler: DisconnectHandler | null = null;
+  // Recent broadcasts per project (key '' without a project resolver)
+  private buffers: Map<string, MessageBuffer> = new Map();
+  // Resume tokens are only good for this server process - its buffers die with it
+  private readonly instanceId = randomUUID();
+  private options: WebSocketManagerOptions;
+  // Bytes sent by broadcast() since startup, summed over clients
+  private broadcastBytes = 0;
 
-  constructor(server: Server) {
-    this.wss = new WebSocketServer({ server, path: '/ws' });
+  constructor(server: Server, options: WebSocketManagerOptions = {}) {
+    this.options = options;
+    const { verifyClient } = options;
+    this.wss = new WebSocketServer({
+      server,
+      path: '/ws',
+      verifyClient: verifyClient ? (info: { req: IncomingMessage }) => verifyClient(info.req) : undefined,
+    });
 
-    this.wss.on('connection', (ws: ExtendedWebSocket) => {
+    this.wss.on('connection', (ws: ExtendedWebSocket, req: IncomingMessage) => {
       ws.isAlive = true;
+      ws.canWrite = options.canWrite?.(req) ?? false;
+      const params = new URL(req.url || '/ws', 'http://localhost').searchParams;
+      if (options.resolveProject) {
+        ws.projectId = options.resolveProject(params.get('project'));
+      }
       this.clients.add(ws);
       console.log(`Client connected. Total: ${this.clients.size}`);
+      this.handshake(ws, params);
 
       ws.on('pong', () => {
         ws.isAlive = true;
       });
 
+      ws.on('message', (raw) => {
+        let message: ClientMessage;
+        try {
+          message = JSON.parse(raw.toString());
+        } catch {
+          console.error('Ignoring malformed WebSocket message');
+          return;
+        }
+        if (message && typeof message.type === 'string' && this.messageHandler) {
+          this.messageHandler(ws, message);
+        }
+      });
+
       ws.on('close', () => {
         this.clients.delete(ws);
+        this.disconnectHandler?.(ws);
         console.log(`Client disconnected. Total: ${this.clients.size}`);
       });
 
@@ -49,13 +137,192 @@ export class WebSocketManager {
     }, 30000);
   }
 
-  broadcast(type: string, data: GraphData | FileActivityEvent | AgentThinkingState[] | LayoutUpdateData): void {
-    const message = JSON.stringify({ type, data });
+  // Set callback for messages sent by clients
+  onMessage(handler: MessageHandler): void {
+    this.messageHandler = handler;
+  }
+
+  // Set callback for when a client goes away
+  onDisconnect(handler: DisconnectHandler): void {
+    this.disconnectHandler = handler;
+  }
+
+  private bufferFor(projectId: string | undefined): MessageBuffer {
+    const key = projectId ?? '';
+    let buffer = this.buffers.get(key);
+    if (!buffer) {
+      buffer = new MessageBuffer();
+      this.buffers.set(key, buffer);
+    }
+    return buffer;
+  }
+
+  private resumeToken(projectId: string | undefined): string {
+    return `${this.instanceId}:${projectId ?? ''}`;
+  }
+
+  // Resume a client from its last seq, or send it a snapshot
+  private handshake(client: ExtendedWebSocket, params: URLSearchParams): void {
+    const protocol = params.get('protocol');
+    if (protocol !== null && protocol !== String(PROTOCOL_VERSION)) {
+      console.warn(`Client speaks protocol ${protocol}, server speaks ${PROTOCOL_VERSION} - it should reload`);
+    }
+
+    // Known before the hello, so the messages a resuming client missed are filtered too
+    const requested = params.get('subscribe');
+    if (requested !== null && this.options.parseSubscription) {
+      try {
+        client.subscription = this.options.parseSubscription(JSON.parse(requested), client.projectId) ?? undefined;
+      } catch {
+        console.error('Ignoring malformed subscription in the WebSocket URL');
+      }
+    }
+
+    const since = Number(params.get('since'));
+    const missed = params.get('resume') === this.resumeToken(client.projectId)
+      ? this.bufferFor(client.projectId).since(since)
+      : null;
+    if (missed) {
+      this.completeHandshake(client, missed);
+      return;
+    }
+
+    this.sendSnapshot(client);
+  }
+
+  // Hold broadcasts until the client has a fresh snapshot
+  private sendSnapshot(client: ExtendedWebSocket): void {
+    client.ready = false;
+    const { getSnapshot } = this.options;
+    if (!getSnapshot) {
+      this.completeHandshake(client, null);
+      return;
+    }
+    getSnapshot(client.projectId)
+      .then(snapshot => this.completeHandshake(client, null, snapshot))
+      .catch(err => {
+        console.error('Failed to build the hello snapshot:', err);
+        client.close(1011, 'Snapshot failed');
+      });
+  }
+
+  // Start a client over from a new hello - e.g. back to live after a replay
+  resendHello(client: WebSocket): void {
+    this.sendSnapshot(client as ExtendedWebSocket);
+  }
+
+  // Send the hello (and any missed messages) and start live delivery - all in one go,
+  // so broadcasts can't slip in between
+  private completeHandshake(client: ExtendedWebSocket, missed: BufferedMessage[] | null, snapshot?: HelloSnapshot): void {
+    if (client.readyState !== WebSocket.OPEN) return;
+    const buffer = this.bufferFor(client.projectId);
+    this.send(client, 'hello', {
+      protocol: PROTOCOL_VERSION,
+      server: this.options.serverVersion ?? 'unknown',
+      resumeToken: this.resumeToken(client.projectId),
+      seq: buffer.getLastSeq(),
+      resumed: missed !== null,
+      snapshot: snapshot && this.filterSnapshot(client, snapshot),
+    });
+    for (const buffered of missed ?? []) {
+      this.deliver(client, buffered);
+    }
+    client.ready = true;
+  }
+
+  // A client that subscribed while its snapshot was being built gets it narrowed
+  private filterSnapshot(client: ExtendedWebSocket, snapshot: HelloSnapshot): HelloSnapshot {
+    if (!client.subscription) return snapshot;
+    return {
+      ...snapshot,
+      graph: filterMessage('graph', snapshot.graph, client.subscription) ?? { ...snapshot.graph, nodes: [], links: [] },
+      agents: filterMessage('thinking', snapshot.agents, client.subscription) ?? [],
+    };
+  }
+
+  // Send a buffered broadcast, filtered by the client's subscription
+  private deliver(client: ExtendedWebSocket, buffered: BufferedMessage): void {
+    if (!client.subscription) {
+      client.send(buffered.message);
+      return;
+    }
+    const { data } = JSON.parse(buffered.message);
+    const filtered = filterMessage(buffered.type, data, client.subscription);
+    if (filtered === data) {
+      client.send(buffered.message);
+    } else if (filtered !== null) {
+      client.send(JSON.stringify({ type: buffered.type, data: filtered, seq: buffered.seq }));
+    }
+  }
+
+  // Send to a single client (if it subscribed to the message)
+  send(client: WebSocket, type: string, data: MessageData): void {
+    if (client.readyState !== WebSocket.OPEN) return;
+    const filtered = this.filterFor(client, type, data);
+    if (filtered !== null) {
+      client.send(JSON.stringify({ type, data: filtered }));
+    }
+  }
+
+  // Only deliver the topics and matches the client subscribed to (null clears the subscription)
+  subscribe(client: WebSocket, subscription: Subscription | null): void {
+    (client as ExtendedWebSocket).subscription = subscription ?? undefined;
+  }
+
+  private filterFor(client: WebSocket, type: string, data: MessageData): MessageData | null {
+    const { subscription } = client as ExtendedWebSocket;
+    return subscription ? filterMessage(type, data, subscription) : data;
+  }
+
+  // Exclude or re-include a client in live broadcasts
+  setReplaying(client: WebSocket, replaying: boolean): void {
+    (client as ExtendedWebSocket).isReplaying = replaying;
+  }
+
+  // Did the client connect with write access?
+  canWrite(client: WebSocket): boolean {
+    return (client as ExtendedWebSocket).canWrite === true;
+  }
+
+  // Project the client is viewing (undefined without a project resolver)
+  getProject(client: WebSocket): string | undefined {
+    return (client as ExtendedWebSocket).projectId;
+  }
+
+  // Send one broadcast message to a client, counting its bytes for /metrics
+  private sendBroadcast(client: ExtendedWebSocket, message: string): void {
+    client.send(message);
+    this.broadcastBytes += Buffer.byteLength(message);
+  }
+
+  // Send to every live client, or only to clients viewing `projectId` - each gets what it subscribed to.
+  // Project broadcasts are numbered and buffered so reconnecting clients can catch up.
+  broadcast(type: string, data: MessageData, projectId?: string): void {
+    this.broadcastMessage(type, data, projectId, projectId !== undefined);
+  }
+
+  // Full state sent again every few seconds - left out of the buffer, where it would
+  // push out the deltas a resuming client needs (the next one brings it up to date)
+  broadcastState(type: string, data: MessageData, projectId?: string): void {
+    this.broadcastMessage(type, data, projectId, false);
+  }
+
+  private broadcastMessage(type: string, data: MessageData, projectId: string | undefined, buffer: boolean): void {
+    const buffered = buffer ? this.bufferFor(projectId).push(type, data) : null;
+    // Serialized once for every client that gets the unfiltered data
+    const message = buffered?.message ?? JSON.stringify({ type, data });
     const toRemove: ExtendedWebSocket[] = [];
 
     for (const client of this.clients) {
+      if (client.isReplaying || !client.ready) continue;
+      if (projectId !== undefined && client.projectId !== projectId) continue;
       if (client.readyState === WebSocket.OPEN) {
-        client.send(message);
+        const filtered = this.filterFor(client, type, data);
+        if (filtered === data) {
+          this.sendBroadcast(client, message);
+        } else if (filtered !== null) {
+          this.sendBroadcast(client, JSON.stringify({ type, data: filtered, seq: buffered?.seq }));
+        }
       } else if (client.readyState === WebSocket.CLOSED || client.readyState === WebSocket.CLOSING) {
         // Mark for removal
         toRemove.push(client);
@@ -73,6 +340,10 @@ export class WebSocketManager {
     return this.clients.size;
   }
 
+  getBroadcastBytes(): number {
+    return this.broadcastBytes;
+  }
+
   close(): void {
     clearInterval(this.pingInterval);
     this.wss.close();